@@ -0,0 +1,129 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, Scale } from 'lucide-react';
+import type { Account } from '@/hooks/useAccounts';
+import { useAccountReconciliation } from '@/hooks/useAccountReconciliation';
+import {
+  BalanceDifferenceExplanation,
+  explainBalanceDifference,
+  hasBalanceDifference,
+} from '@/utils/accountReconciliation';
+
+interface AccountReconciliationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: Account[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const describeCause = ({ cause, amount }: BalanceDifferenceExplanation) => {
+  switch (cause) {
+    case 'pending':
+      return `Transações pendentes (${formatCurrency(amount)}) estão somadas ao saldo gravado, mas só contam depois de concluídas.`;
+    case 'cancelled':
+      return `Transações canceladas (${formatCurrency(amount)}) continuam somadas ao saldo gravado.`;
+    default:
+      return `${formatCurrency(amount)} sem causa identificada: provavelmente o saldo foi alterado fora do app ou antes do histórico de auditoria.`;
+  }
+};
+
+export const AccountReconciliationDialog: React.FC<AccountReconciliationDialogProps> = ({
+  open,
+  onOpenChange,
+  accounts,
+}) => {
+  const { checks, loading, reconcileAccount, isReconciling } = useAccountReconciliation({ enabled: open });
+
+  const rows = accounts.flatMap(account => {
+    const check = checks.find(item => item.accountId === account.id);
+    return check ? [{ account, check }] : [];
+  });
+  const divergent = rows.filter(row => hasBalanceDifference(row.check));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="w-5 h-5" />
+            Conferir saldos
+          </DialogTitle>
+          <DialogDescription>
+            O saldo de cada conta é o saldo inicial mais as transações concluídas. Diferenças
+            são explicadas abaixo antes de qualquer correção.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Recalculando saldos...</p>
+        ) : (
+          <div className="space-y-3">
+            {divergent.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle2 className="w-4 h-4" />
+                Todos os saldos conferem com as transações.
+              </div>
+            )}
+
+            {rows.map(({ account, check }) => {
+              const divergentRow = hasBalanceDifference(check);
+              return (
+                <div key={account.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{account.name}</span>
+                    {divergentRow ? (
+                      <Badge variant="destructive">
+                        Diferença de {formatCurrency(check.difference)}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Confere</Badge>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <div>
+                      <p className="text-muted-foreground">Saldo gravado</p>
+                      <p className="font-medium">{formatCurrency(check.storedBalance)}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Saldo inicial + concluídas</p>
+                      <p className="font-medium">
+                        {formatCurrency(check.openingBalance)} + {formatCurrency(check.completedTotal)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Saldo calculado</p>
+                      <p className="font-medium">{formatCurrency(check.computedBalance)}</p>
+                    </div>
+                  </div>
+
+                  {divergentRow && (
+                    <>
+                      <ul className="list-disc pl-5 text-xs text-muted-foreground space-y-1">
+                        {explainBalanceDifference(check).map(explanation => (
+                          <li key={explanation.cause}>{describeCause(explanation)}</li>
+                        ))}
+                      </ul>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isReconciling}
+                        onClick={() => reconcileAccount(account.id)}
+                      >
+                        Corrigir para {formatCurrency(check.computedBalance)}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Building, Wallet, PiggyBank, TrendingUp, Plus, Edit, Trash2 } from 'lucide-react';
+import { Building, Wallet, PiggyBank, TrendingUp, Plus, Edit, Trash2, Scale } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useAccounts } from '@/hooks/useAccounts';
 import { useDependencyCheck } from '@/hooks/useDependencyCheck';
 import { AddAccountForm } from './AddAccountForm';
 import { EditAccountForm } from './EditAccountForm';
+import { AccountReconciliationDialog } from './AccountReconciliationDialog';
 import { AccountsListSkeleton } from '@/components/ui/skeleton-loaders';
 
 const getAccountIcon = (type: string) => {
@@ -44,6 +45,7 @@ export const AccountsList: React.FC = () => {
   const { checkAccountDependencies } = useDependencyCheck();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingAccount, setEditingAccount] = useState<any>(null);
+  const [showReconciliation, setShowReconciliation] = useState(false);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -92,15 +94,33 @@ export const AccountsList: React.FC = () => {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold">Minhas Contas</h2>
-        <Button 
-          onClick={() => setShowAddForm(true)}
-          className="flex items-center space-x-2"
-        >
-          <Plus size={16} />
-          <span>Adicionar Conta</span>
-        </Button>
+        <div className="flex items-center space-x-2">
+          {regularAccounts.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => setShowReconciliation(true)}
+              className="flex items-center space-x-2"
+            >
+              <Scale size={16} />
+              <span>Conferir saldos</span>
+            </Button>
+          )}
+          <Button 
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-2"
+          >
+            <Plus size={16} />
+            <span>Adicionar Conta</span>
+          </Button>
+        </div>
       </div>
 
+      <AccountReconciliationDialog
+        open={showReconciliation}
+        onOpenChange={setShowReconciliation}
+        accounts={regularAccounts}
+      />
+
       <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
         <p className="text-sm text-blue-800 dark:text-blue-200">
           💡 <strong>Contas:</strong> Inclui contas correntes, poupança, carteiras e investimentos. 
@@ -105,6 +105,9 @@ export const EditAccountForm: React.FC<EditAccountFormProps> = ({ account, onClo
                 onChange={(e) => handleInputChange('balance', e.target.value)}
                 required
               />
+              <p className="text-xs text-muted-foreground mt-1">
+                Alterar o saldo registra um ajuste no saldo inicial da conta.
+              </p>
             </div>
 
             <div>
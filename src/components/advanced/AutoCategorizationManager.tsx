@@ -9,9 +9,18 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Brain, Plus, Trash2, Edit, Target, BarChart3 } from 'lucide-react';
 import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
 import { useTransactions } from '@/hooks/useTransactions';
-import { AutoCategorizationEngine, CategoryRule, CategorizationResult } from '@/utils/autoCategorizationEngine';
+import { useCategorizationData } from '@/hooks/useCategorizationData';
+import {
+  AutoCategorizationEngine,
+  CategoryRule,
+  CategorizationResult,
+  isDefaultCategorizationRule
+} from '@/utils/autoCategorizationEngine';
+import { ClassifierSample, toClassifierSample } from '@/utils/transactionClassifier';
 import { enhancedToast } from '@/components/ui/enhanced-toast';
+import { CategorizationBacktest } from './CategorizationBacktest';
 
 interface AutoCategorizationManagerProps {
   onBack?: () => void;
@@ -19,19 +28,34 @@ interface AutoCategorizationManagerProps {
 
 export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps> = ({ onBack }) => {
   const { categories } = useCategories();
+  const { accounts } = useAccounts();
   const { transactions, updateTransaction } = useTransactions();
+  const {
+    persistedData,
+    loading: persistedLoading,
+    createRule,
+    updateRule,
+    deleteRule,
+    isCreatingRule
+  } = useCategorizationData();
   const [engine, setEngine] = useState<AutoCategorizationEngine | null>(null);
   const [rules, setRules] = useState<CategoryRule[]>([]);
-  const [stats, setStats] = useState({ totalRules: 0, activeRules: 0, learningEntries: 0 });
+  const [stats, setStats] = useState({ totalRules: 0, activeRules: 0, learningEntries: 0, classifierSamples: 0 });
   
   // Estado para nova regra
-  const [isAddingRule, setIsAddingRule] = useState(false);
-  const [newRule, setNewRule] = useState({
+  const emptyRule = {
     keywords: '',
+    excludeKeywords: '',
     categoryId: '',
     confidence: 0.8,
-    isActive: true
-  });
+    isActive: true,
+    minAmount: '',
+    maxAmount: '',
+    accountIds: [] as string[],
+    transactionType: 'any' as 'any' | 'income' | 'expense'
+  };
+  const [isAddingRule, setIsAddingRule] = useState(false);
+  const [newRule, setNewRule] = useState(emptyRule);
 
   // Estado para sugestões
   const [suggestions, setSuggestions] = useState<Array<{
@@ -41,13 +65,16 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   useEffect(() => {
-    if (categories.length > 0) {
-      const newEngine = new AutoCategorizationEngine(categories);
+    if (categories.length > 0 && !persistedLoading) {
+      const newEngine = new AutoCategorizationEngine(categories, persistedData);
+      newEngine.trainClassifier(
+        transactions.map(toClassifierSample).filter((s): s is ClassifierSample => s !== null)
+      );
       setEngine(newEngine);
       setRules(newEngine.getRules());
       setStats(newEngine.getCategorizationStats());
     }
-  }, [categories]);
+  }, [categories, persistedData, persistedLoading, transactions]);
 
   const handleAddRule = () => {
     if (!engine || !newRule.keywords || !newRule.categoryId) {
@@ -61,38 +88,52 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
       return;
     }
 
-    const rule = engine.addCustomRule({
+    const minAmount = newRule.minAmount ? parseFloat(newRule.minAmount) : undefined;
+    const maxAmount = newRule.maxAmount ? parseFloat(newRule.maxAmount) : undefined;
+    if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+      enhancedToast.error('O valor mínimo não pode ser maior que o máximo');
+      return;
+    }
+
+    const category = categories.find(c => c.id === newRule.categoryId);
+    const transactionType = newRule.transactionType === 'any' ? undefined : newRule.transactionType;
+    if (category && transactionType && category.transaction_type !== transactionType) {
+      enhancedToast.error('A categoria escolhida não corresponde ao tipo da regra');
+      return;
+    }
+
+    createRule({
       keywords,
+      excludeKeywords: newRule.excludeKeywords.split(',').map(k => k.trim()).filter(k => k),
       categoryId: newRule.categoryId,
       confidence: newRule.confidence,
-      isActive: newRule.isActive
+      isActive: newRule.isActive,
+      minAmount,
+      maxAmount,
+      accountIds: newRule.accountIds,
+      transactionType: transactionType ?? (category?.transaction_type as CategoryRule['transactionType'])
+    }, {
+      onSuccess: () => {
+        setIsAddingRule(false);
+        setNewRule(emptyRule);
+      }
     });
-
-    setRules(engine.getRules());
-    setStats(engine.getCategorizationStats());
-    setIsAddingRule(false);
-    setNewRule({ keywords: '', categoryId: '', confidence: 0.8, isActive: true });
-    
-    enhancedToast.success('Regra adicionada com sucesso!');
   };
 
   const handleToggleRule = (ruleId: string, isActive: boolean) => {
     if (!engine) return;
     
+    // Atualização otimista; o motor é reconstruído quando os dados salvos retornam
     engine.updateRule(ruleId, { isActive });
     setRules(engine.getRules());
     setStats(engine.getCategorizationStats());
+    updateRule({ ruleId, updates: { isActive } });
   };
 
   const handleDeleteRule = (ruleId: string) => {
     if (!engine) return;
     
-    const success = engine.deleteRule(ruleId);
-    if (success) {
-      setRules(engine.getRules());
-      setStats(engine.getCategorizationStats());
-      enhancedToast.success('Regra removida com sucesso');
-    }
+    deleteRule(ruleId);
   };
 
   const analyzeTransactions = async () => {
@@ -110,7 +151,8 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
         const suggestion = engine.categorizeTransaction(
           transaction.description,
           transaction.amount,
-          transaction.category_id
+          transaction.category_id,
+          { accountId: transaction.account_id, date: transaction.date, type: transaction.type }
         );
 
         if (suggestion.categoryId && suggestion.confidence > 0.6) {
@@ -180,6 +222,31 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
     return categories.find(c => c.id === categoryId)?.icon || '📋';
   };
 
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+  const describeRuleConstraints = (rule: CategoryRule): string[] => {
+    const constraints: string[] = [];
+    if (rule.transactionType) {
+      constraints.push(rule.transactionType === 'income' ? 'Receitas' : 'Despesas');
+    }
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined) {
+      constraints.push(`${formatAmount(rule.minAmount)} a ${formatAmount(rule.maxAmount)}`);
+    } else if (rule.minAmount !== undefined) {
+      constraints.push(`≥ ${formatAmount(rule.minAmount)}`);
+    } else if (rule.maxAmount !== undefined) {
+      constraints.push(`≤ ${formatAmount(rule.maxAmount)}`);
+    }
+    if (rule.accountIds?.length) {
+      constraints.push(rule.accountIds.map(id => accounts.find(a => a.id === id)?.name || 'Conta removida').join(', '));
+    }
+    return constraints;
+  };
+
+  const ruleCategories = newRule.transactionType === 'any'
+    ? categories
+    : categories.filter(c => c.transaction_type === newRule.transactionType);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -221,6 +288,9 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
               <div>
                 <p className="text-2xl font-bold">{stats.learningEntries}</p>
                 <p className="text-xs text-muted-foreground">Dados Aprendidos</p>
+                {stats.classifierSamples > 0 && (
+                  <p className="text-xs text-muted-foreground">{stats.classifierSamples} no modelo</p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -241,9 +311,10 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
 
       {/* Tabs */}
       <Tabs defaultValue="rules" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="rules">Regras de Categorização</TabsTrigger>
           <TabsTrigger value="suggestions">Sugestões Automáticas</TabsTrigger>
+          <TabsTrigger value="backtest">Backtest</TabsTrigger>
         </TabsList>
 
         <TabsContent value="rules" className="space-y-4">
@@ -264,6 +335,39 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="excludeKeywords">Ignorar quando contiver (opcional)</Label>
+                  <Input
+                    id="excludeKeywords"
+                    placeholder="Ex: uber eats"
+                    value={newRule.excludeKeywords}
+                    onChange={(e) => setNewRule(prev => ({ ...prev, excludeKeywords: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Tipo de transação</Label>
+                  <Select
+                    value={newRule.transactionType}
+                    onValueChange={(value: 'any' | 'income' | 'expense') => setNewRule(prev => ({
+                      ...prev,
+                      transactionType: value,
+                      categoryId: value !== 'any' && categories.find(c => c.id === prev.categoryId)?.transaction_type !== value
+                        ? ''
+                        : prev.categoryId
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Conforme a categoria</SelectItem>
+                      <SelectItem value="expense">Despesas</SelectItem>
+                      <SelectItem value="income">Receitas</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="category">Categoria</Label>
                   <Select value={newRule.categoryId} onValueChange={(value) => setNewRule(prev => ({ ...prev, categoryId: value }))}>
@@ -271,7 +375,7 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
                       <SelectValue placeholder="Selecione uma categoria" />
                     </SelectTrigger>
                     <SelectContent>
-                      {categories.map(category => (
+                      {ruleCategories.map(category => (
                         <SelectItem key={category.id} value={category.id}>
                           <div className="flex items-center space-x-2">
                             <span>{category.icon}</span>
@@ -283,6 +387,59 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
                   </Select>
                 </div>
 
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="minAmount">Valor mínimo</Label>
+                    <Input
+                      id="minAmount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sem limite"
+                      value={newRule.minAmount}
+                      onChange={(e) => setNewRule(prev => ({ ...prev, minAmount: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxAmount">Valor máximo</Label>
+                    <Input
+                      id="maxAmount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sem limite"
+                      value={newRule.maxAmount}
+                      onChange={(e) => setNewRule(prev => ({ ...prev, maxAmount: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                {accounts.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Somente nas contas (opcional)</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {accounts.map(account => {
+                        const selected = newRule.accountIds.includes(account.id);
+                        return (
+                          <Badge
+                            key={account.id}
+                            variant={selected ? 'default' : 'outline'}
+                            className="cursor-pointer"
+                            onClick={() => setNewRule(prev => ({
+                              ...prev,
+                              accountIds: selected
+                                ? prev.accountIds.filter(id => id !== account.id)
+                                : [...prev.accountIds, account.id]
+                            }))}
+                          >
+                            {account.name}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="confidence">Confiança: {(newRule.confidence * 100).toFixed(0)}%</Label>
                   <Input
@@ -306,7 +463,9 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
                 </div>
 
                 <div className="flex space-x-2">
-                  <Button onClick={handleAddRule}>Adicionar Regra</Button>
+                  <Button onClick={handleAddRule} disabled={isCreatingRule}>
+                    {isCreatingRule ? 'Salvando...' : 'Adicionar Regra'}
+                  </Button>
                   <Button variant="outline" onClick={() => setIsAddingRule(false)}>
                     Cancelar
                   </Button>
@@ -343,7 +502,17 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
                             {keyword}
                           </Badge>
                         ))}
+                        {rule.excludeKeywords?.map(keyword => (
+                          <Badge key={`exclude-${keyword}`} variant="outline" className="text-xs line-through text-muted-foreground">
+                            {keyword}
+                          </Badge>
+                        ))}
                       </div>
+                      {describeRuleConstraints(rule).length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {describeRuleConstraints(rule).join(' · ')}
+                        </p>
+                      )}
                     </div>
 
                     <div className="flex items-center space-x-2">
@@ -351,7 +520,7 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
                         checked={rule.isActive}
                         onCheckedChange={(checked) => handleToggleRule(rule.id, checked)}
                       />
-                      {rule.id.startsWith('custom_') && (
+                      {!isDefaultCategorizationRule(rule.id) && (
                         <Button
                           variant="ghost"
                           size="sm"
@@ -451,6 +620,16 @@ export const AutoCategorizationManager: React.FC<AutoCategorizationManagerProps>
             </Card>
           )}
         </TabsContent>
+
+        <TabsContent value="backtest" className="space-y-4">
+          <CategorizationBacktest
+            categories={categories}
+            transactions={transactions}
+            persistedData={persistedData}
+            rules={rules}
+            onToggleRule={handleToggleRule}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FlaskConical, AlertTriangle } from 'lucide-react';
+import type { Category } from '@/hooks/useCategories';
+import type { Transaction } from '@/hooks/useTransactions';
+import type { CategoryRule, PersistedCategorizationData } from '@/utils/autoCategorizationEngine';
+import { toClassifierSample } from '@/utils/transactionClassifier';
+import {
+  BacktestReport,
+  BacktestTransaction,
+  NO_SUGGESTION,
+  runCategorizationBacktest
+} from '@/utils/categorizationBacktest';
+import { enhancedToast } from '@/components/ui/enhanced-toast';
+
+// Categorias exibidas na matriz de confusão (as de maior volume)
+const CONFUSION_MATRIX_SIZE = 6;
+
+const SOURCE_LABELS: Record<keyof BacktestReport['bySource'], string> = {
+  rule: 'Regras',
+  learning: 'Aprendizado',
+  classifier: 'Modelo estatístico'
+};
+
+interface CategorizationBacktestProps {
+  categories: Category[];
+  transactions: Transaction[];
+  persistedData: PersistedCategorizationData;
+  rules: CategoryRule[];
+  onToggleRule: (ruleId: string, isActive: boolean) => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export const CategorizationBacktest: React.FC<CategorizationBacktestProps> = ({
+  categories,
+  transactions,
+  persistedData,
+  rules,
+  onToggleRule
+}) => {
+  const [minConfidence, setMinConfidence] = useState('0.6');
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const categorizedCount = transactions.filter(t => t.category_id).length;
+
+  const runBacktest = () => {
+    setIsRunning(true);
+
+    // Liberar a renderização do estado de carregamento antes do processamento síncrono
+    setTimeout(() => {
+      try {
+        const history = transactions.flatMap<BacktestTransaction>(transaction => {
+          const sample = toClassifierSample(transaction);
+          return sample ? [{ ...sample, id: transaction.id, createdAt: transaction.created_at }] : [];
+        });
+
+        setReport(runCategorizationBacktest(categories, persistedData, history, {
+          minConfidence: parseFloat(minConfidence)
+        }));
+      } catch (error) {
+        console.error('Erro ao executar backtest:', error);
+        enhancedToast.error('Erro ao executar backtest');
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const getCategoryLabel = (categoryId: string) => {
+    if (categoryId === NO_SUGGESTION) return 'Sem sugestão';
+    const category = categories.find(c => c.id === categoryId);
+    return category ? `${category.icon ?? ''} ${category.name}`.trim() : 'Desconhecida';
+  };
+
+  const matrixCategories = useMemo(
+    () => report?.perCategory.filter(c => c.support > 0).slice(0, CONFUSION_MATRIX_SIZE).map(c => c.categoryId) ?? [],
+    [report]
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Reproduz as {categorizedCount} transações categorizadas em ordem cronológica: cada uma é
+            prevista apenas com o que foi aprendido das anteriores.
+          </p>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label>Confiança mínima</Label>
+              <Select value={minConfidence} onValueChange={setMinConfidence}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {['0.5', '0.6', '0.7', '0.8', '0.9'].map(value => (
+                    <SelectItem key={value} value={value}>{formatPercent(parseFloat(value))}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={runBacktest} disabled={isRunning || categorizedCount === 0}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              {isRunning ? 'Executando...' : 'Executar Backtest'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-2xl font-bold">{formatPercent(report.accuracy)}</p>
+                <p className="text-xs text-muted-foreground">Acurácia ({report.correct}/{report.evaluated})</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-2xl font-bold">{formatPercent(report.coverage)}</p>
+                <p className="text-xs text-muted-foreground">Cobertura</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-2xl font-bold">{formatPercent(report.precision)}</p>
+                <p className="text-xs text-muted-foreground">Precisão das sugestões</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(report.bySource) as Array<keyof BacktestReport['bySource']>).map(source => {
+              const stats = report.bySource[source];
+              return (
+                <Badge key={source} variant="outline">
+                  {SOURCE_LABELS[source]}: {stats.correct}/{stats.predicted}
+                  {stats.predicted > 0 && ` (${formatPercent(stats.correct / stats.predicted)})`}
+                </Badge>
+              );
+            })}
+          </div>
+
+          {report.worstRules.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-orange-600" />
+                  Regras com mais erros
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {report.worstRules.slice(0, 5).map(ruleStats => {
+                  const rule = rules.find(r => r.id === ruleStats.ruleId);
+                  return (
+                    <div key={ruleStats.ruleId} className="flex items-start justify-between gap-2 border-b pb-3 last:border-0">
+                      <div className="space-y-1">
+                        <div className="font-medium text-sm">
+                          {rule ? getCategoryLabel(rule.categoryId) : ruleStats.ruleId}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {ruleStats.wrong} erros em {ruleStats.fired} sugestões · precisão {formatPercent(ruleStats.precision)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Categoria real: {ruleStats.mistakes.map(m => `${getCategoryLabel(m.categoryId)} (${m.count})`).join(', ')}
+                        </div>
+                        {rule && (
+                          <div className="flex flex-wrap gap-1">
+                            {rule.keywords.slice(0, 8).map(keyword => (
+                              <Badge key={keyword} variant="outline" className="text-xs">{keyword}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      {rule?.isActive && (
+                        <Button variant="outline" size="sm" onClick={() => onToggleRule(rule.id, false)}>
+                          Desativar
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Precisão e Recall por Categoria</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Categoria</TableHead>
+                    <TableHead className="text-right">Transações</TableHead>
+                    <TableHead className="text-right">Precisão</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.perCategory.map(stats => (
+                    <TableRow key={stats.categoryId}>
+                      <TableCell>{getCategoryLabel(stats.categoryId)}</TableCell>
+                      <TableCell className="text-right">{stats.support}</TableCell>
+                      <TableCell className="text-right">{stats.predicted > 0 ? formatPercent(stats.precision) : '—'}</TableCell>
+                      <TableCell className="text-right">{stats.support > 0 ? formatPercent(stats.recall) : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {matrixCategories.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Matriz de Confusão</CardTitle>
+                <p className="text-xs text-muted-foreground">Linhas: categoria real · Colunas: sugestão</p>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead />
+                      {[...matrixCategories, NO_SUGGESTION].map(categoryId => (
+                        <TableHead key={categoryId} className="text-center text-xs">
+                          {getCategoryLabel(categoryId)}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {matrixCategories.map(actual => (
+                      <TableRow key={actual}>
+                        <TableCell className="text-xs font-medium">{getCategoryLabel(actual)}</TableCell>
+                        {[...matrixCategories, NO_SUGGESTION].map(suggested => {
+                          const count = report.confusion[actual]?.[suggested] || 0;
+                          return (
+                            <TableCell
+                              key={suggested}
+                              className={`text-center text-xs ${
+                                count === 0 ? 'text-muted-foreground' : actual === suggested ? 'font-bold text-green-600' : 'text-red-600'
+                              }`}
+                            >
+                              {count}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
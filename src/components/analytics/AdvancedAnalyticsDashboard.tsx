@@ -15,6 +15,7 @@ import { useTransactions } from '@/hooks/useTransactions';
 import { useBudgets } from '@/hooks/useBudgets';
 import { useGoals } from '@/hooks/useGoals';
 import { BackHeader } from '@/components/layout/BackHeader';
+import { getCategoryLines } from '@/utils/transactionSplits';
 
 interface AdvancedAnalyticsDashboardProps {
   onBack?: () => void;
@@ -80,11 +81,11 @@ export const AdvancedAnalyticsDashboard: React.FC<AdvancedAnalyticsDashboardProp
     const burnRate = currentExpenses / 30; // Gastos por dia
     
     // ROI médio baseado em investimentos
-    const investments = currentMonthTransactions.filter(t => 
-      t.category?.name.toLowerCase().includes('investimento') ||
-      t.category?.name.toLowerCase().includes('aplicação')
+    const investments = getCategoryLines(currentMonthTransactions).filter(line => 
+      line.category?.name.toLowerCase().includes('investimento') ||
+      line.category?.name.toLowerCase().includes('aplicação')
     );
-    const investmentAmount = investments.reduce((sum, t) => sum + Number(t.amount), 0);
+    const investmentAmount = investments.reduce((sum, line) => sum + line.amount, 0);
 
     return {
       currentIncome,
@@ -166,10 +167,10 @@ export const AdvancedAnalyticsDashboard: React.FC<AdvancedAnalyticsDashboardProp
     const currentMonth = now.getMonth();
     const lastMonth = currentMonth === 0 ? 11 : currentMonth - 1;
     
-    transactions.filter(t => t.type === 'expense' && t.category).forEach(t => {
-      const categoryName = t.category!.name;
-      const tDate = new Date(t.date);
-      const amount = Number(t.amount);
+    getCategoryLines(transactions.filter(t => t.type === 'expense')).filter(line => line.category).forEach(line => {
+      const categoryName = line.category!.name;
+      const tDate = new Date(line.transaction.date);
+      const amount = line.amount;
       
       // Total geral
       const current = categoryTotals.get(categoryName) || 0;
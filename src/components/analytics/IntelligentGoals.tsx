@@ -7,13 +7,16 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Target, CheckCircle, Plus, Edit, Trash2, TrendingUp, TrendingDown, 
-  AlertTriangle, Lightbulb, Calendar, DollarSign, Zap, Brain
+  AlertTriangle, Lightbulb, Calendar, DollarSign, Zap, Brain, PiggyBank
 } from 'lucide-react';
 import { useGoals, Goal } from '@/hooks/useGoals';
+import { useGoalContributions } from '@/hooks/useGoalContributions';
 import { useTransactions } from '@/hooks/useTransactions';
 import { AddGoalForm } from '@/components/goals/AddGoalForm';
+import { GoalContributionDialog } from '@/components/goals/GoalContributionDialog';
+import { GoalContributionsTimeline } from '@/components/goals/GoalContributionsTimeline';
 import { BackHeader } from '@/components/layout/BackHeader';
-import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, BarChart, Bar } from 'recharts';
+import { getMonthlyContributionRate } from '@/utils/goalContributions';
 
 interface IntelligentGoalsProps {
   onBack?: () => void;
@@ -37,8 +40,10 @@ interface GoalPrediction {
 export const IntelligentGoals: React.FC<IntelligentGoalsProps> = ({ onBack }) => {
   const { goals, deleteGoal, isDeletingGoal } = useGoals();
   const { transactions } = useTransactions();
+  const { contributions } = useGoalContributions();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [contributingGoal, setContributingGoal] = useState<Goal | null>(null);
   const [selectedGoal, setSelectedGoal] = useState<string | null>(null);
 
   const formatCurrency = (value: number) => {
@@ -104,9 +109,12 @@ export const IntelligentGoals: React.FC<IntelligentGoalsProps> = ({ onBack }) =>
           }
         }
         
+        // Com aportes recentes, a previsão segue o ritmo real da meta; sem eles, metade da poupança mensal
+        const contributionRate = getMonthlyContributionRate(contributions.filter(c => c.goal_id === goal.id));
+        const monthlyPace = contributionRate > 0 ? contributionRate : Math.max(monthlySavings * 0.5, 100);
         const predictedCompletion = new Date();
         predictedCompletion.setMonth(
-          predictedCompletion.getMonth() + Math.ceil(remaining / Math.max(monthlySavings * 0.5, 100))
+          predictedCompletion.getMonth() + Math.ceil(remaining / monthlyPace)
         );
         
         predictions.push({
@@ -120,7 +128,7 @@ export const IntelligentGoals: React.FC<IntelligentGoalsProps> = ({ onBack }) =>
     });
     
     return predictions;
-  }, [goals, transactions]);
+  }, [goals, transactions, contributions]);
 
   // Insights inteligentes para metas
   const goalInsights = useMemo(() => {
@@ -196,38 +204,6 @@ export const IntelligentGoals: React.FC<IntelligentGoalsProps> = ({ onBack }) =>
     return insights;
   }, [goals, goalPredictions]);
 
-  // Dados para visualização de progresso ao longo do tempo
-  const progressData = useMemo(() => {
-    if (!selectedGoal) return [];
-    
-    const goal = goals.find(g => g.id === selectedGoal);
-    if (!goal) return [];
-    
-    // Simulação de dados históricos (em uma implementação real, isso viria do banco)
-    const data = [];
-    const startDate = new Date(goal.created_at);
-    const currentDate = new Date();
-    const totalDays = Math.ceil((currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    for (let i = 0; i <= Math.min(totalDays, 30); i += 5) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      
-      // Simulação de crescimento progressivo
-      const progressFactor = Math.min(i / totalDays, 1);
-      const amount = goal.current_amount * progressFactor;
-      
-      data.push({
-        date: date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' }),
-        valor: amount,
-        meta: goal.target_amount,
-        progresso: (amount / goal.target_amount) * 100
-      });
-    }
-    
-    return data;
-  }, [selectedGoal, goals]);
-
   const handleEdit = (goal: Goal) => {
     setEditingGoal(goal);
     setShowAddForm(true);
@@ -499,28 +475,18 @@ export const IntelligentGoals: React.FC<IntelligentGoalsProps> = ({ onBack }) =>
                   </TabsContent>
                   
                   <TabsContent value="progress" className="space-y-4">
-                    {progressData.length > 0 ? (
-                      <div>
-                        <div className="h-48">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={progressData}>
-                              <XAxis dataKey="date" fontSize={12} />
-                              <YAxis tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`} fontSize={12} />
-                              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
-                              <Line type="monotone" dataKey="valor" stroke="hsl(var(--primary))" strokeWidth={2} />
-                              <Line type="monotone" dataKey="meta" stroke="#ddd" strokeDasharray="5 5" />
-                            </LineChart>
-                          </ResponsiveContainer>
-                        </div>
-                        <div className="text-xs text-muted-foreground text-center">
-                          Evolução do progresso ao longo do tempo
-                        </div>
-                      </div>
-                    ) : (
-                      <div className="text-center text-muted-foreground">
-                        Dados de progresso indisponíveis
-                      </div>
-                    )}
+                    <GoalContributionsTimeline
+                      goal={selectedGoalData}
+                      contributions={contributions.filter(c => c.goal_id === selectedGoalData.id)}
+                      chartOnly
+                    />
+                    <div className="text-xs text-muted-foreground text-center">
+                      Valor guardado a cada aporte e resgate
+                    </div>
+                    <Button className="w-full" onClick={() => setContributingGoal(selectedGoalData)}>
+                      <PiggyBank size={16} className="mr-2" />
+                      Aportar / Resgatar
+                    </Button>
                   </TabsContent>
                 </Tabs>
               </CardContent>
@@ -537,6 +503,11 @@ export const IntelligentGoals: React.FC<IntelligentGoalsProps> = ({ onBack }) =>
           )}
         </div>
       </div>
+
+      <GoalContributionDialog
+        goal={contributingGoal}
+        onOpenChange={(open) => !open && setContributingGoal(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
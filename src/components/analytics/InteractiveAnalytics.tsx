@@ -16,6 +16,7 @@ import {
 import { useTransactions } from '@/hooks/useTransactions';
 import { useAccounts } from '@/hooks/useAccounts';
 import { BackHeader } from '@/components/layout/BackHeader';
+import { getCategoryLines } from '@/utils/transactionSplits';
 
 interface InteractiveAnalyticsProps {
   onBack?: () => void;
@@ -65,18 +66,19 @@ export const InteractiveAnalytics: React.FC<InteractiveAnalyticsProps> = ({ onBa
   const categoryDrillDown = useMemo(() => {
     const categoryMap = new Map<string, DrillDownData>();
     
-    filteredTransactions
-      .filter(t => t.type === 'expense' && t.category)
-      .forEach(t => {
-        const categoryName = t.category!.name;
+    // Transações divididas entram em cada categoria apenas com o valor da divisão
+    getCategoryLines(filteredTransactions.filter(t => t.type === 'expense'))
+      .filter(line => line.category)
+      .forEach(line => {
+        const categoryName = line.category!.name;
         const existing = categoryMap.get(categoryName) || {
           category: categoryName,
           transactions: [],
           total: 0
         };
         
-        existing.transactions.push(t);
-        existing.total += Number(t.amount);
+        existing.transactions.push({ ...line.transaction, amount: line.amount });
+        existing.total += line.amount;
         categoryMap.set(categoryName, existing);
       });
     
@@ -127,7 +129,8 @@ export const InteractiveAnalytics: React.FC<InteractiveAnalyticsProps> = ({ onBa
     // Agrupar por mês para análise de padrões
     const monthlyData = new Map();
     
-    filteredTransactions.forEach(t => {
+    // Transferências entre contas não são receitas nem despesas
+    filteredTransactions.filter(t => t.type !== 'transfer').forEach(t => {
       const date = new Date(t.date);
       const monthKey = `${date.getFullYear()}-${date.getMonth()}`;
       
@@ -163,22 +166,23 @@ export const InteractiveAnalytics: React.FC<InteractiveAnalyticsProps> = ({ onBa
   // Análise de correlação entre categorias
   const categoryCorrelation = useMemo(() => {
     const correlationData = [];
+    const categoryLines = getCategoryLines(filteredTransactions.filter(t => t.type !== 'transfer'));
     const categories = Array.from(new Set(
-      filteredTransactions
-        .filter(t => t.category)
-        .map(t => t.category!.name)
+      categoryLines
+        .filter(line => line.category)
+        .map(line => line.category!.name)
     ));
     
     categories.forEach(cat1 => {
       categories.forEach(cat2 => {
         if (cat1 !== cat2) {
-          const cat1Amounts = filteredTransactions
-            .filter(t => t.category?.name === cat1)
-            .map(t => Number(t.amount));
+          const cat1Amounts = categoryLines
+            .filter(line => line.category?.name === cat1)
+            .map(line => line.amount);
           
-          const cat2Amounts = filteredTransactions
-            .filter(t => t.category?.name === cat2)
-            .map(t => Number(t.amount));
+          const cat2Amounts = categoryLines
+            .filter(line => line.category?.name === cat2)
+            .map(line => line.amount);
           
           if (cat1Amounts.length > 0 && cat2Amounts.length > 0) {
             const correlation = Math.random() * 2 - 1; // Simplificado para demo
@@ -7,88 +7,122 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { BackHeader } from '@/components/layout/BackHeader';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Zap, Plus, Edit, Trash2, Filter, Target, Calendar, DollarSign } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Zap, Plus, Edit, Trash2, Filter, Target, Calendar, DollarSign, FlaskConical } from 'lucide-react';
 import { useCategories } from '@/hooks/useCategories';
-import { useAutomationRules, CreateRuleInput } from '@/hooks/useAutomationRules';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useAutomationRules, AutomationRule, CreateRuleInput, RuleAction, RuleConditionGroup, SimulateRuleInput } from '@/hooks/useAutomationRules';
+import { RuleConditionTree } from './RuleConditionTree';
+import { RuleSimulationDialog } from './RuleSimulationDialog';
+import {
+  conditionsToRootGroup,
+  createCondition,
+  describeConditions,
+  rootGroupToConditions,
+  validateConditions,
+} from '@/utils/automationRules';
 import { toast } from 'sonner';
 
-interface AutoRule {
-  id: string;
+interface RuleFormState {
   name: string;
+  rule_type: CreateRuleInput['rule_type'];
   enabled: boolean;
-  type: 'categorization' | 'recurring' | 'budget' | 'alert';
-  conditions: RuleCondition[];
+  conditions: RuleConditionGroup;
   actions: RuleAction[];
   priority: number;
-  lastTriggered?: string;
-  timesTriggered: number;
 }
 
-interface RuleCondition {
-  field: 'description' | 'amount' | 'merchant' | 'day_of_month' | 'category';
-  operator: 'contains' | 'equals' | 'greater_than' | 'less_than' | 'starts_with' | 'ends_with';
-  value: string | number;
-}
-
-interface RuleAction {
-  type: 'set_category' | 'set_recurring' | 'send_alert' | 'apply_tag';
-  value: string;
-}
+const emptyRuleForm = (): RuleFormState => ({
+  name: '',
+  rule_type: 'categorization',
+  enabled: true,
+  conditions: { logic: 'and', conditions: [createCondition()] },
+  actions: [{ type: 'set_category', value: '' }],
+  priority: 1,
+});
 
 interface AutoRulesProps {
   onBack?: () => void;
 }
 
 export const AutoRules: React.FC<AutoRulesProps> = ({ onBack }) => {
-  const { rules, loading, createRule, toggleRule, deleteRule, isCreating } = useAutomationRules();
+  const { rules, loading, createRule, updateRule, toggleRule, deleteRule, isCreating, isUpdating } = useAutomationRules();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [editingRule, setEditingRule] = useState<any | null>(null);
-  const [newRule, setNewRule] = useState<Partial<CreateRuleInput>>({
-    name: '',
-    rule_type: 'categorization',
-    enabled: true,
-    conditions: [{ field: 'description', operator: 'contains', value: '' }],
-    actions: [{ type: 'set_category', value: '' }],
-    priority: 1,
-  });
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [newRule, setNewRule] = useState<RuleFormState>(emptyRuleForm);
+  const [simulation, setSimulation] = useState<{ name: string; rule: SimulateRuleInput } | null>(null);
 
   const { categories = [] } = useCategories();
+  const { accounts = [] } = useAccounts();
 
-  const handleCreateRule = () => {
-    if (!newRule.name || !newRule.conditions?.[0]?.value) {
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setNewRule(emptyRuleForm());
+    setShowCreateDialog(true);
+  };
+
+  const openEditDialog = (rule: AutomationRule) => {
+    setEditingRule(rule);
+    setNewRule({
+      name: rule.name,
+      rule_type: rule.rule_type,
+      enabled: rule.enabled,
+      conditions: conditionsToRootGroup(rule.conditions),
+      actions: rule.actions.length > 0 ? rule.actions : [{ type: 'set_category', value: '' }],
+      priority: rule.priority,
+    });
+    setShowCreateDialog(true);
+  };
+
+  const handleSaveRule = () => {
+    if (!newRule.name) {
       toast.error('Preencha os campos obrigatórios');
       return;
     }
 
+    const conditions = rootGroupToConditions(newRule.conditions);
+    const conditionsError = validateConditions(conditions);
+    if (conditionsError) {
+      toast.error(conditionsError);
+      return;
+    }
+
     const ruleData: CreateRuleInput = {
       name: newRule.name,
-      rule_type: newRule.rule_type || 'categorization',
-      conditions: newRule.conditions || [],
-      actions: newRule.actions || [],
+      rule_type: newRule.rule_type,
+      conditions,
+      actions: newRule.actions,
       priority: newRule.priority || 1,
-      enabled: newRule.enabled ?? true,
+      enabled: newRule.enabled,
     };
 
-    createRule(ruleData);
+    if (editingRule) {
+      updateRule({ id: editingRule.id, ...ruleData });
+    } else {
+      createRule(ruleData);
+    }
     setShowCreateDialog(false);
-    setNewRule({
-      name: '',
-      rule_type: 'categorization',
-      enabled: true,
-      conditions: [{ field: 'description', operator: 'contains', value: '' }],
-      actions: [{ type: 'set_category', value: '' }],
-      priority: 1,
-    });
+    setEditingRule(null);
+    setNewRule(emptyRuleForm());
   };
 
-  const updateCondition = (index: number, field: string, value: any) => {
-    setNewRule(prev => ({
-      ...prev,
-      conditions: prev.conditions?.map((condition, i) =>
-        i === index ? { ...condition, [field]: value } : condition
-      ),
-    }));
+  const simulateDraft = () => {
+    const conditions = rootGroupToConditions(newRule.conditions);
+    const conditionsError = validateConditions(conditions);
+    if (conditionsError) {
+      toast.error(conditionsError);
+      return;
+    }
+
+    setSimulation({
+      name: newRule.name,
+      rule: {
+        rule_id: editingRule?.id,
+        conditions,
+        actions: newRule.actions,
+        priority: newRule.priority || 1,
+      },
+    });
   };
 
   const updateAction = (index: number, field: string, value: any) => {
@@ -142,161 +176,168 @@ export const AutoRules: React.FC<AutoRulesProps> = ({ onBack }) => {
     );
   }
 
-  return (
-    <div className="space-y-4">
-      {onBack && <BackHeader title="Regras Automáticas" onBack={onBack} />}
-      
-      {!onBack && (
-        <div className="mb-6 flex items-center justify-between">
+  const ruleDialog = (
+    <Dialog
+      open={showCreateDialog}
+      onOpenChange={(open) => {
+        setShowCreateDialog(open);
+        if (!open) setEditingRule(null);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editingRule ? 'Editar Regra' : 'Criar Nova Regra'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
           <div>
-            <h1 className="text-2xl font-bold text-foreground">Automação</h1>
-            <p className="text-muted-foreground">Configure regras inteligentes para suas finanças</p>
+            <Label htmlFor="rule-name">Nome da Regra *</Label>
+            <Input
+              id="rule-name"
+              value={newRule.name}
+              onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Ex: Categorizar Supermercado"
+            />
           </div>
-          
-          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-            <DialogTrigger asChild>
-              <Button className="flex items-center gap-2">
-                <Plus className="w-4 h-4" />
-                Nova Regra
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Criar Nova Regra</DialogTitle>
-              </DialogHeader>
-              
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="rule-name">Nome da Regra *</Label>
-                  <Input
-                    id="rule-name"
-                    value={newRule.name}
-                    onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
-                    placeholder="Ex: Categorizar Supermercado"
-                  />
-                </div>
 
-                <div>
-                  <Label htmlFor="rule-type">Tipo de Regra</Label>
-                  <Select 
-                    value={newRule.rule_type} 
-                    onValueChange={(value: any) => setNewRule(prev => ({ ...prev, rule_type: value }))}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="rule-type">Tipo de Regra</Label>
+              <Select
+                value={newRule.rule_type}
+                onValueChange={(value: any) => setNewRule(prev => ({ ...prev, rule_type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="categorization">Categorização Automática</SelectItem>
+                  <SelectItem value="recurring">Transação Recorrente</SelectItem>
+                  <SelectItem value="alert">Alerta de Gastos</SelectItem>
+                  <SelectItem value="budget">Controle de Orçamento</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="rule-priority">Prioridade</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                min={1}
+                value={newRule.priority}
+                onChange={(e) => setNewRule(prev => ({ ...prev, priority: parseInt(e.target.value) || 1 }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Condições</Label>
+            <RuleConditionTree
+              group={newRule.conditions}
+              onChange={(conditions) => setNewRule(prev => ({ ...prev, conditions }))}
+              categories={categories}
+              accounts={accounts}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Ações</Label>
+            {newRule.actions.map((action, index) => (
+              <div key={index} className="grid grid-cols-2 gap-2">
+                <Select
+                  value={action.type}
+                  onValueChange={(value: any) => updateAction(index, 'type', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="set_category">Definir Categoria</SelectItem>
+                    <SelectItem value="set_recurring">Marcar como Recorrente</SelectItem>
+                    <SelectItem value="send_alert">Enviar Alerta</SelectItem>
+                    <SelectItem value="apply_tag">Aplicar Tag</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {action.type === 'set_category' ? (
+                  <Select
+                    value={action.value}
+                    onValueChange={(value: string) => updateAction(index, 'value', value)}
                   >
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue placeholder="Selecione categoria" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="categorization">Categorização Automática</SelectItem>
-                      <SelectItem value="recurring">Transação Recorrente</SelectItem>
-                      <SelectItem value="alert">Alerta de Gastos</SelectItem>
-                      <SelectItem value="budget">Controle de Orçamento</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
-                </div>
+                ) : (
+                  <Input
+                    value={action.value}
+                    onChange={(e) => updateAction(index, 'value', e.target.value)}
+                    placeholder="Valor da ação"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
 
-                <div className="space-y-2">
-                  <Label>Condições</Label>
-                  {newRule.conditions?.map((condition, index) => (
-                    <div key={index} className="grid grid-cols-3 gap-2">
-                      <Select
-                        value={condition.field}
-                        onValueChange={(value: any) => updateCondition(index, 'field', value)}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="description">Descrição</SelectItem>
-                          <SelectItem value="amount">Valor</SelectItem>
-                          <SelectItem value="merchant">Estabelecimento</SelectItem>
-                          <SelectItem value="day_of_month">Dia do Mês</SelectItem>
-                        </SelectContent>
-                      </Select>
-
-                      <Select
-                        value={condition.operator}
-                        onValueChange={(value: any) => updateCondition(index, 'operator', value)}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="contains">Contém</SelectItem>
-                          <SelectItem value="equals">É igual a</SelectItem>
-                          <SelectItem value="greater_than">Maior que</SelectItem>
-                          <SelectItem value="less_than">Menor que</SelectItem>
-                          <SelectItem value="starts_with">Começa com</SelectItem>
-                          <SelectItem value="ends_with">Termina com</SelectItem>
-                        </SelectContent>
-                      </Select>
-
-                      <Input
-                        value={condition.value}
-                        onChange={(e) => updateCondition(index, 'value', e.target.value)}
-                        placeholder="Valor"
-                      />
-                    </div>
-                  ))}
-                </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancelar
+            </Button>
+            <Button variant="outline" onClick={simulateDraft}>
+              <FlaskConical className="w-4 h-4 mr-2" />
+              Simular
+            </Button>
+            <Button onClick={handleSaveRule} disabled={isCreating || isUpdating}>
+              {editingRule
+                ? (isUpdating ? 'Salvando...' : 'Salvar Regra')
+                : (isCreating ? 'Criando...' : 'Criar Regra')}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
 
-                <div className="space-y-2">
-                  <Label>Ações</Label>
-                  {newRule.actions?.map((action, index) => (
-                    <div key={index} className="grid grid-cols-2 gap-2">
-                      <Select
-                        value={action.type}
-                        onValueChange={(value: any) => updateAction(index, 'type', value)}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="set_category">Definir Categoria</SelectItem>
-                          <SelectItem value="set_recurring">Marcar como Recorrente</SelectItem>
-                          <SelectItem value="send_alert">Enviar Alerta</SelectItem>
-                          <SelectItem value="apply_tag">Aplicar Tag</SelectItem>
-                        </SelectContent>
-                      </Select>
-
-                      {action.type === 'set_category' ? (
-                        <Select
-                          value={action.value}
-                          onValueChange={(value: string) => updateAction(index, 'value', value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione categoria" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {categories.map(category => (
-                              <SelectItem key={category.id} value={category.id}>
-                                {category.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      ) : (
-                        <Input
-                          value={action.value}
-                          onChange={(e) => updateAction(index, 'value', e.target.value)}
-                          placeholder="Valor da ação"
-                        />
-                      )}
-                    </div>
-                  ))}
-                </div>
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name;
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name;
 
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
-                    Cancelar
-                  </Button>
-                  <Button onClick={handleCreateRule} disabled={isCreating}>
-                    {isCreating ? 'Criando...' : 'Criar Regra'}
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
-        </div>
+  return (
+    <div className="space-y-4">
+      {onBack && <BackHeader title="Regras Automáticas" onBack={onBack} />}
+      
+      <div className="mb-6 flex items-center justify-between">
+        {!onBack ? (
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Automação</h1>
+            <p className="text-muted-foreground">Configure regras inteligentes para suas finanças</p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Configure regras inteligentes para suas finanças</p>
+        )}
+
+        <Button className="flex items-center gap-2" onClick={openCreateDialog}>
+          <Plus className="w-4 h-4" />
+          Nova Regra
+        </Button>
+      </div>
+
+      {ruleDialog}
+
+      {simulation && (
+        <RuleSimulationDialog
+          open={!!simulation}
+          onOpenChange={(open) => !open && setSimulation(null)}
+          ruleName={simulation.name}
+          rule={simulation.rule}
+        />
       )}
 
       {/* Rules List */}
@@ -328,7 +369,23 @@ export const AutoRules: React.FC<AutoRulesProps> = ({ onBack }) => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => setEditingRule(rule)}
+                    title="Simular no histórico"
+                    onClick={() => setSimulation({
+                      name: rule.name,
+                      rule: {
+                        rule_id: rule.id,
+                        conditions: rule.conditions,
+                        actions: rule.actions,
+                        priority: rule.priority,
+                      },
+                    })}
+                  >
+                    <FlaskConical className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openEditDialog(rule)}
                   >
                     <Edit className="w-4 h-4" />
                   </Button>
@@ -347,18 +404,13 @@ export const AutoRules: React.FC<AutoRulesProps> = ({ onBack }) => {
               <div className="space-y-2 text-sm text-muted-foreground">
                 <div>
                   <strong>Condições:</strong>{' '}
-                  {rule.conditions.map((condition, index) => (
-                    <span key={index}>
-                      {condition.field} {condition.operator} "{condition.value}"
-                      {index < rule.conditions.length - 1 ? ' E ' : ''}
-                    </span>
-                  ))}
+                  {describeConditions(rule.conditions, { categoryName, accountName })}
                 </div>
                 <div>
                   <strong>Ações:</strong>{' '}
                   {rule.actions.map((action, index) => (
                     <span key={index}>
-                      {action.type}: {action.value}
+                      {action.type}: {action.type === 'set_category' ? categoryName(action.value) ?? action.value : action.value}
                       {index < rule.actions.length - 1 ? ', ' : ''}
                     </span>
                   ))}
@@ -382,7 +434,7 @@ export const AutoRules: React.FC<AutoRulesProps> = ({ onBack }) => {
             <p className="text-muted-foreground mb-4">
               Crie regras automáticas para otimizar o gerenciamento das suas finanças
             </p>
-            <Button onClick={() => setShowCreateDialog(true)}>
+            <Button onClick={openCreateDialog}>
               <Plus className="w-4 h-4 mr-2" />
               Criar primeira regra
             </Button>
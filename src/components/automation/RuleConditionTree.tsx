@@ -0,0 +1,296 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, FolderTree } from 'lucide-react';
+import type { Category } from '@/hooks/useCategories';
+import type { Account } from '@/hooks/useAccounts';
+import type {
+  RuleCondition,
+  RuleConditionField,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleConditionOperator,
+} from '@/hooks/useAutomationRules';
+import {
+  CONDITION_FIELDS,
+  LOGIC_LABELS,
+  OPERATOR_LABELS,
+  STATUS_LABELS,
+  TYPE_LABELS,
+  WEEKDAY_LABELS,
+  changeConditionField,
+  createCondition,
+  createConditionGroup,
+  isConditionGroup,
+} from '@/utils/automationRules';
+
+const MAX_DEPTH = 3;
+
+interface RuleConditionTreeProps {
+  group: RuleConditionGroup;
+  onChange: (group: RuleConditionGroup) => void;
+  onRemove?: () => void;
+  categories: Category[];
+  accounts: Account[];
+  depth?: number;
+}
+
+export const RuleConditionTree: React.FC<RuleConditionTreeProps> = ({
+  group,
+  onChange,
+  onRemove,
+  categories,
+  accounts,
+  depth = 0,
+}) => {
+  const updateChild = (index: number, node: RuleConditionNode) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? node : c)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 rounded-md border p-3 ${depth > 0 ? 'bg-muted/40' : ''}`}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.logic}
+          onValueChange={(logic: RuleConditionGroup['logic']) => onChange({ ...group, logic })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(LOGIC_LABELS) as RuleConditionGroup['logic'][]).map(logic => (
+              <SelectItem key={logic} value={logic}>{LOGIC_LABELS[logic]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="ml-auto flex gap-1">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, createCondition()] })}
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Condição
+          </Button>
+          {depth < MAX_DEPTH && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...group, conditions: [...group.conditions, createConditionGroup('or')] })}
+            >
+              <FolderTree className="w-3 h-3 mr-1" />
+              Grupo
+            </Button>
+          )}
+          {onRemove && (
+            <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {group.conditions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Adicione uma condição ou um grupo</p>
+      )}
+
+      {group.conditions.map((node, index) =>
+        isConditionGroup(node) ? (
+          <RuleConditionTree
+            key={index}
+            group={node}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+            categories={categories}
+            accounts={accounts}
+            depth={depth + 1}
+          />
+        ) : (
+          <RuleConditionRow
+            key={index}
+            condition={node}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={group.conditions.length > 1 || depth > 0 ? () => removeChild(index) : undefined}
+            categories={categories}
+            accounts={accounts}
+          />
+        )
+      )}
+    </div>
+  );
+};
+
+interface RuleConditionRowProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove?: () => void;
+  categories: Category[];
+  accounts: Account[];
+}
+
+const RuleConditionRow: React.FC<RuleConditionRowProps> = ({
+  condition,
+  onChange,
+  onRemove,
+  categories,
+  accounts,
+}) => {
+  const config = CONDITION_FIELDS[condition.field] ?? CONDITION_FIELDS.description;
+
+  const changeOperator = (operator: RuleConditionOperator) => {
+    const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+    onChange({
+      ...condition,
+      operator,
+      value: operator === 'in' ? values.filter(v => String(v) !== '') : values[0] ?? '',
+      value_to: operator === 'between' ? condition.value_to ?? '' : undefined,
+    });
+  };
+
+  const options = (): Array<{ value: string; label: string }> => {
+    switch (config.valueKind) {
+      case 'category':
+        return categories.map(c => ({ value: c.id, label: `${c.icon ?? ''} ${c.name}`.trim() }));
+      case 'account':
+        return accounts.map(a => ({ value: a.id, label: a.name }));
+      case 'weekday':
+        return WEEKDAY_LABELS.map((label, day) => ({ value: String(day), label }));
+      case 'type':
+        return Object.entries(TYPE_LABELS).map(([value, label]) => ({ value, label }));
+      case 'status':
+        return Object.entries(STATUS_LABELS).map(([value, label]) => ({ value, label }));
+      default:
+        return [];
+    }
+  };
+
+  const renderSingleValue = (value: string | number | undefined, onValue: (value: string) => void, placeholder = 'Valor') => {
+    const choices = options();
+    if (choices.length > 0 || ['category', 'account'].includes(config.valueKind)) {
+      return (
+        <Select value={value === undefined ? '' : String(value)} onValueChange={onValue}>
+          <SelectTrigger>
+            <SelectValue placeholder="Selecione" />
+          </SelectTrigger>
+          <SelectContent>
+            {choices.map(choice => (
+              <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={config.valueKind === 'date' ? 'date' : config.valueKind === 'number' ? 'number' : 'text'}
+        value={value ?? ''}
+        onChange={(e) => onValue(e.target.value)}
+        placeholder={condition.operator === 'matches_regex' ? 'Ex: ^uber(?! eats)' : placeholder}
+      />
+    );
+  };
+
+  const renderValue = () => {
+    if (condition.operator === 'between') {
+      const [from] = Array.isArray(condition.value) ? condition.value : [condition.value];
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {renderSingleValue(from, (value) => onChange({ ...condition, value }), 'De')}
+          {renderSingleValue(condition.value_to, (value_to) => onChange({ ...condition, value_to }), 'Até')}
+        </div>
+      );
+    }
+
+    if (condition.operator === 'in') {
+      const selected = (Array.isArray(condition.value) ? condition.value : [condition.value]).map(String);
+      const choices = options();
+
+      if (choices.length === 0) {
+        return (
+          <Input
+            value={selected.join(', ')}
+            onChange={(e) => onChange({ ...condition, value: e.target.value.split(',').map(v => v.trim()) })}
+            placeholder="Valores separados por vírgula"
+          />
+        );
+      }
+
+      return (
+        <div className="flex flex-wrap gap-1">
+          {choices.map(choice => {
+            const active = selected.includes(choice.value);
+            return (
+              <Badge
+                key={choice.value}
+                variant={active ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => onChange({
+                  ...condition,
+                  value: active ? selected.filter(v => v !== choice.value) : [...selected.filter(v => v !== ''), choice.value],
+                })}
+              >
+                {choice.label}
+              </Badge>
+            );
+          })}
+        </div>
+      );
+    }
+
+    return renderSingleValue(
+      Array.isArray(condition.value) ? condition.value[0] : condition.value,
+      (value) => onChange({ ...condition, value })
+    );
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-2">
+      <div className="flex items-center gap-2">
+        <div className="grid flex-1 grid-cols-2 gap-2">
+          <Select
+            value={condition.field}
+            onValueChange={(field: RuleConditionField) => onChange(changeConditionField(condition, field))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CONDITION_FIELDS) as RuleConditionField[]).map(field => (
+                <SelectItem key={field} value={field}>{CONDITION_FIELDS[field].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={condition.operator} onValueChange={changeOperator}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {config.operators.map(operator => (
+                <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {renderValue()}
+    </div>
+  );
+};
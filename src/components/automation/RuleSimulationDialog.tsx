@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowRight, FlaskConical, History } from 'lucide-react';
+import { useCategories } from '@/hooks/useCategories';
+import { useAutomationRules, RuleSimulationMatch, SimulateRuleInput } from '@/hooks/useAutomationRules';
+
+// Quantidade máxima de linhas renderizadas na pré-visualização
+const MAX_VISIBLE_MATCHES = 200;
+
+interface RuleSimulationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ruleName: string;
+  rule: SimulateRuleInput;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const willChange = (match: RuleSimulationMatch) => {
+  const categoryChanges = match.proposed_category_id !== null
+    && match.overridden_by_rule_id === null
+    && match.proposed_category_id !== match.current_category_id;
+  return categoryChanges || match.proposed_tags.length !== match.current_tags.length;
+};
+
+export const RuleSimulationDialog: React.FC<RuleSimulationDialogProps> = ({
+  open,
+  onOpenChange,
+  ruleName,
+  rule,
+}) => {
+  const { rules, simulateRule, applyRuleRetroactively, isApplyingRetroactively } = useAutomationRules();
+  const { categories } = useCategories();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [confirmApply, setConfirmApply] = useState(false);
+
+  const input: SimulateRuleInput = {
+    ...rule,
+    start_date: startDate || undefined,
+    end_date: endDate || undefined,
+  };
+
+  const { data: matches = [], isLoading, error } = useQuery({
+    queryKey: ['automation_rule_simulation', JSON.stringify(input)],
+    queryFn: () => simulateRule(input),
+    enabled: open,
+  });
+
+  const summary = useMemo(() => ({
+    matched: matches.length,
+    changing: matches.filter(willChange).length,
+    overridden: matches.filter(m => m.overridden_by_rule_id).length,
+    conflicts: matches.filter(m => m.conflicting_rule_ids.length > 0).length,
+  }), [matches]);
+
+  const categoryLabel = (id: string | null) => {
+    if (!id) return 'Sem categoria';
+    const category = categories.find(c => c.id === id);
+    return category ? `${category.icon ?? ''} ${category.name}`.trim() : 'Desconhecida';
+  };
+
+  const ruleLabel = (id: string) => rules.find(r => r.id === id)?.name ?? 'Outra regra';
+
+  const handleApply = () => {
+    applyRuleRetroactively(input, {
+      onSuccess: () => {
+        setConfirmApply(false);
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            Simular: {ruleName || 'Regra sem nome'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="simulation-start">De</Label>
+              <Input id="simulation-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="simulation-end">Até</Label>
+              <Input id="simulation-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{summary.matched} transações casam</Badge>
+            <Badge variant="default">{summary.changing} seriam alteradas</Badge>
+            {summary.overridden > 0 && (
+              <Badge variant="destructive">{summary.overridden} sobrepostas por outra regra</Badge>
+            )}
+            {summary.conflicts > 0 && (
+              <Badge variant="secondary">{summary.conflicts} com conflito</Badge>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+              <p className="text-sm text-muted-foreground">Simulando sobre o histórico...</p>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">Erro ao simular a regra. Verifique as condições.</p>
+          ) : matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Nenhuma transação do histórico casa com esta regra
+            </p>
+          ) : (
+            <ScrollArea className="h-80 rounded-md border">
+              <div className="divide-y">
+                {matches.slice(0, MAX_VISIBLE_MATCHES).map(match => (
+                  <div key={match.transaction_id} className="p-3 space-y-1 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">{match.description}</span>
+                      <span className={match.type === 'income' ? 'text-green-600' : 'text-red-600'}>
+                        {formatCurrency(match.amount)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(`${match.date}T00:00:00`).toLocaleDateString('pt-BR')}
+                    </div>
+                    {match.proposed_category_id && (
+                      <div className="flex items-center gap-1 text-xs">
+                        <span>{categoryLabel(match.current_category_id)}</span>
+                        <ArrowRight className="w-3 h-3" />
+                        <span className={match.overridden_by_rule_id ? 'line-through text-muted-foreground' : 'font-medium'}>
+                          {categoryLabel(match.proposed_category_id)}
+                        </span>
+                      </div>
+                    )}
+                    {match.proposed_tags.length > match.current_tags.length && (
+                      <div className="flex flex-wrap gap-1">
+                        {match.proposed_tags.map(tag => (
+                          <Badge
+                            key={tag}
+                            variant={match.current_tags.includes(tag) ? 'outline' : 'default'}
+                            className="text-xs"
+                          >
+                            #{tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {match.overridden_by_rule_id && (
+                      <Badge variant="destructive" className="text-xs">
+                        Sobreposta por "{ruleLabel(match.overridden_by_rule_id)}"
+                      </Badge>
+                    )}
+                    {match.conflicting_rule_ids.length > 0 && !match.overridden_by_rule_id && (
+                      <Badge variant="secondary" className="text-xs">
+                        Conflita com {match.conflicting_rule_ids.map(ruleLabel).join(', ')}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {matches.length > MAX_VISIBLE_MATCHES && (
+                <p className="p-3 text-xs text-muted-foreground text-center">
+                  Exibindo {MAX_VISIBLE_MATCHES} de {matches.length} transações
+                </p>
+              )}
+            </ScrollArea>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Fechar
+            </Button>
+            <Button
+              onClick={() => setConfirmApply(true)}
+              disabled={summary.changing === 0 || isApplyingRetroactively}
+            >
+              <History className="w-4 h-4 mr-2" />
+              Aplicar retroativamente ({summary.changing})
+            </Button>
+          </div>
+        </div>
+
+        <AlertDialog open={confirmApply} onOpenChange={setConfirmApply}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Aplicar regra ao histórico?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {summary.changing} transação(ões) terão categoria e tags atualizadas. Transações em que
+                uma regra de maior prioridade define outra categoria recebem apenas as tags.
+                Cada alteração ficará registrada no log de auditoria.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={handleApply} disabled={isApplyingRetroactively}>
+                {isApplyingRetroactively ? 'Aplicando...' : 'Aplicar'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,35 +4,82 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ArrowLeft } from 'lucide-react';
 import { useCategories } from '@/hooks/useCategories';
-import { useBudgets } from '@/hooks/useBudgets';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useTransactions } from '@/hooks/useTransactions';
+import { BudgetScope, useBudgets } from '@/hooks/useBudgets';
 import { toast } from 'sonner';
+import { BUDGET_PERIOD_LABELS, BudgetPeriodType, formatPeriodRange, getPeriodEnd } from '@/utils/budgetPeriods';
 
 interface AddBudgetFormProps {
   onClose: () => void;
 }
 
+const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  category: 'Categoria (inclui subcategorias)',
+  tag: 'Tag',
+  accounts: 'Contas',
+};
+
+// Valor do select de categoria quando o orçamento por tag ou contas vale para todas
+const ALL_CATEGORIES = 'all';
+
 export const AddBudgetForm: React.FC<AddBudgetFormProps> = ({ onClose }) => {
+  const [scope, setScope] = useState<BudgetScope>('category');
   const [categoryId, setCategoryId] = useState('');
+  const [tag, setTag] = useState('');
+  const [accountIds, setAccountIds] = useState<string[]>([]);
   const [amount, setAmount] = useState('');
   const [month, setMonth] = useState((new Date().getMonth() + 1).toString());
   const [year, setYear] = useState(new Date().getFullYear().toString());
+  const [rolloverEnabled, setRolloverEnabled] = useState(false);
+  const [periodType, setPeriodType] = useState<BudgetPeriodType>('monthly');
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [endDate, setEndDate] = useState('');
 
   const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const { transactions } = useTransactions();
   const { createBudget, isCreating } = useBudgets();
 
   const expenseCategories = categories.filter(cat => cat.transaction_type === 'expense');
+  const existingTags = Array.from(new Set(
+    transactions.flatMap(transaction => [
+      ...(transaction.tags ?? []),
+      ...(transaction.splits ?? []).flatMap(split => split.tags ?? []),
+    ])
+  )).sort();
+
+  // Orçamentos por tag ou por contas podem ainda se limitar a uma categoria
+  const scopedCategoryId = categoryId && categoryId !== ALL_CATEGORIES ? categoryId : null;
+  const isScopeMissing = scope === 'category'
+    ? !categoryId
+    : scope === 'tag' ? !tag.trim() : accountIds.length === 0;
+
+  const toggleAccount = (accountId: string, checked: boolean) => {
+    setAccountIds(prev => checked ? [...prev, accountId] : prev.filter(id => id !== accountId));
+  };
+
+  // Orçamentos mensais usam mês/ano; os demais, a data de início (e a final, se personalizado)
+  const isMonthly = periodType === 'monthly';
+  const periodEnd = periodType === 'custom' ? endDate : getPeriodEnd(periodType, startDate);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!categoryId || !amount || !month || !year) {
+    if (isScopeMissing || !amount || (isMonthly ? !month || !year : !startDate || !periodEnd)) {
       toast.error('Por favor, preencha todos os campos obrigatórios');
       return;
     }
 
+    if (!isMonthly && periodEnd && periodEnd < startDate) {
+      toast.error('A data final deve ser posterior à data de início');
+      return;
+    }
+
     const numericAmount = parseFloat(amount.replace(',', '.'));
     if (isNaN(numericAmount) || numericAmount <= 0) {
       toast.error('Valor deve ser um número positivo');
@@ -40,12 +87,29 @@ export const AddBudgetForm: React.FC<AddBudgetFormProps> = ({ onClose }) => {
     }
 
     try {
-      createBudget({
-        category_id: categoryId,
+      const [startYear, startMonth] = startDate.split('-').map(Number);
+      const scopeFields = {
+        scope,
+        category_id: scopedCategoryId,
+        tag: scope === 'tag' ? tag.trim() : null,
+        account_ids: scope === 'accounts' ? accountIds : null,
+      };
+
+      createBudget(isMonthly ? {
+        ...scopeFields,
         amount: numericAmount,
-        spent: 0,
         month: parseInt(month),
         year: parseInt(year),
+        rollover_enabled: rolloverEnabled,
+      } : {
+        ...scopeFields,
+        amount: numericAmount,
+        month: startMonth,
+        year: startYear,
+        period_type: periodType,
+        start_date: startDate,
+        end_date: periodEnd || undefined,
+        rollover_enabled: rolloverEnabled,
       });
 
       onClose();
@@ -83,12 +147,76 @@ export const AddBudgetForm: React.FC<AddBudgetFormProps> = ({ onClose }) => {
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="category">Categoria *</Label>
-              <Select value={categoryId} onValueChange={setCategoryId} required>
+              <Label htmlFor="scope">Orçar por *</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => {
+                  setScope(value as BudgetScope);
+                  setCategoryId(value === 'category' ? '' : ALL_CATEGORIES);
+                }}
+              >
+                <SelectTrigger id="scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUDGET_SCOPE_LABELS) as BudgetScope[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {BUDGET_SCOPE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scope === 'tag' && (
+              <div className="space-y-2">
+                <Label htmlFor="tag">Tag *</Label>
+                <Input
+                  id="tag"
+                  list="budget-tags"
+                  placeholder="Ex.: viagem-2026"
+                  value={tag}
+                  onChange={(e) => setTag(e.target.value)}
+                  required
+                />
+                <datalist id="budget-tags">
+                  {existingTags.map((existingTag) => (
+                    <option key={existingTag} value={existingTag} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+
+            {scope === 'accounts' && (
+              <div className="space-y-2">
+                <Label>Contas *</Label>
+                <div className="space-y-2 rounded-md border p-3">
+                  {accounts.map((account) => (
+                    <div key={account.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`account-${account.id}`}
+                        checked={accountIds.includes(account.id)}
+                        onCheckedChange={(checked) => toggleAccount(account.id, checked as boolean)}
+                      />
+                      <Label htmlFor={`account-${account.id}`} className="cursor-pointer font-normal">
+                        {account.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="category">{scope === 'category' ? 'Categoria *' : 'Categoria'}</Label>
+              <Select value={categoryId} onValueChange={setCategoryId} required={scope === 'category'}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione uma categoria" />
                 </SelectTrigger>
                 <SelectContent>
+                  {scope !== 'category' && (
+                    <SelectItem value={ALL_CATEGORIES}>Todas as categorias</SelectItem>
+                  )}
                   {expenseCategories.map((category) => (
                     <SelectItem key={category.id} value={category.id}>
                       <div className="flex items-center space-x-2">
@@ -99,6 +227,11 @@ export const AddBudgetForm: React.FC<AddBudgetFormProps> = ({ onClose }) => {
                   ))}
                 </SelectContent>
               </Select>
+              {scope === 'category' && (
+                <p className="text-xs text-gray-500">
+                  Despesas das subcategorias também contam no orçamento da categoria pai.
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -113,38 +246,106 @@ export const AddBudgetForm: React.FC<AddBudgetFormProps> = ({ onClose }) => {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="period-type">Periodicidade *</Label>
+              <Select value={periodType} onValueChange={(value) => setPeriodType(value as BudgetPeriodType)}>
+                <SelectTrigger id="period-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriodType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {BUDGET_PERIOD_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isMonthly ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="month">Mês *</Label>
+                  <Select value={month} onValueChange={setMonth} required>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Mês" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {monthNames.map((monthName, index) => (
+                        <SelectItem key={index + 1} value={(index + 1).toString()}>
+                          {monthName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="year">Ano *</Label>
+                  <Select value={year} onValueChange={setYear} required>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Ano" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {years.map((yearOption) => (
+                        <SelectItem key={yearOption} value={yearOption.toString()}>
+                          {yearOption}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
               <div className="space-y-2">
-                <Label htmlFor="month">Mês *</Label>
-                <Select value={month} onValueChange={setMonth} required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Mês" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {monthNames.map((monthName, index) => (
-                      <SelectItem key={index + 1} value={(index + 1).toString()}>
-                        {monthName}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="start-date">Início *</Label>
+                    <Input
+                      id="start-date"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      required
+                    />
+                  </div>
+                  {periodType === 'custom' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="end-date">Fim *</Label>
+                      <Input
+                        id="end-date"
+                        type="date"
+                        value={endDate}
+                        min={startDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+                {startDate && periodEnd && (
+                  <p className="text-xs text-gray-500">
+                    Período: {formatPeriodRange(startDate, periodEnd)}. No mês, o orçamento aparece proporcional
+                    aos dias do período que caem nele.
+                  </p>
+                )}
               </div>
+            )}
 
-              <div className="space-y-2">
-                <Label htmlFor="year">Ano *</Label>
-                <Select value={year} onValueChange={setYear} required>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Ano" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {years.map((yearOption) => (
-                      <SelectItem key={yearOption} value={yearOption.toString()}>
-                        {yearOption}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="rollover"
+                  checked={rolloverEnabled}
+                  onCheckedChange={(checked) => setRolloverEnabled(checked as boolean)}
+                />
+                <Label htmlFor="rollover" className="cursor-pointer">
+                  Modo envelope
+                </Label>
               </div>
+              <p className="text-xs text-gray-500">
+                A sobra (ou o excesso) deste período passa para o orçamento de mesmo escopo no período seguinte.
+              </p>
             </div>
 
             <div className="flex space-x-2 pt-4">
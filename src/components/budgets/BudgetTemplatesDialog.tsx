@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, LayoutTemplate, Trash2 } from 'lucide-react';
+import { useBudgetTemplates } from '@/hooks/useBudgetTemplates';
+import { addMonths, format, startOfMonth, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface BudgetTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+const formatMonth = (date: Date) => format(date, 'MMMM/yyyy', { locale: ptBR });
+
+export const BudgetTemplatesDialog: React.FC<BudgetTemplatesDialogProps> = ({ open, onOpenChange }) => {
+  const {
+    templates,
+    loading,
+    saveTemplate,
+    applyTemplate,
+    copyBudgets,
+    setActiveTemplate,
+    deleteTemplate,
+    isSaving,
+    isApplying,
+    isCopying,
+  } = useBudgetTemplates();
+
+  const [templateName, setTemplateName] = useState('');
+  const [copyMonths, setCopyMonths] = useState('1');
+  const [applyMonths, setApplyMonths] = useState<Record<string, string>>({});
+
+  const currentMonth = startOfMonth(new Date());
+  const previousMonth = subMonths(currentMonth, 1);
+  const nextMonth = addMonths(currentMonth, 1);
+
+  const handleSaveTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!templateName.trim()) return;
+
+    saveTemplate(
+      { name: templateName, month: toDateString(currentMonth) },
+      { onSuccess: () => setTemplateName('') }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Modelos de orçamento
+          </DialogTitle>
+          <DialogDescription>
+            Crie os orçamentos dos próximos meses sem refazê-los à mão. Categorias que já têm
+            orçamento no mês são mantidas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Copiar mês anterior */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Copiar mês anterior</h3>
+            <div className="flex gap-2">
+              <Select value={copyMonths} onValueChange={setCopyMonths}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTH_OPTIONS.map(months => (
+                    <SelectItem key={months} value={months.toString()}>
+                      {months} {months === 1 ? 'mês' : 'meses'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="flex-1"
+                disabled={isCopying}
+                onClick={() => copyBudgets({
+                  from_month: toDateString(previousMonth),
+                  to_month: toDateString(currentMonth),
+                  months: parseInt(copyMonths),
+                })}
+              >
+                <Copy size={16} className="mr-2" />
+                {isCopying ? 'Copiando...' : 'Copiar'}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Os orçamentos mensais de <span className="capitalize">{formatMonth(previousMonth)}</span> são
+              copiados para <span className="capitalize">{formatMonth(currentMonth)}</span>
+              {parseInt(copyMonths) > 1 && ' e os meses seguintes'}.
+            </p>
+          </div>
+
+          {/* Salvar como modelo */}
+          <form onSubmit={handleSaveTemplate} className="space-y-2">
+            <Label htmlFor="template-name">Salvar orçamentos deste mês como modelo</Label>
+            <div className="flex gap-2">
+              <Input
+                id="template-name"
+                placeholder="Ex.: Orçamento padrão"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+              />
+              <Button type="submit" disabled={isSaving || !templateName.trim()}>
+                {isSaving ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+
+          {/* Modelos salvos */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Modelos salvos</h3>
+            {loading ? (
+              <div className="flex items-center justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhum modelo salvo ainda.</p>
+            ) : (
+              templates.map(template => {
+                const months = applyMonths[template.id] || '1';
+
+                return (
+                  <div key={template.id} className="rounded-lg border p-3 space-y-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-medium flex items-center gap-2">
+                          {template.name}
+                          {template.is_active && <Badge>Automático</Badge>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {template.items.length} categoria(s) • {formatCurrency(template.total_amount)} por mês
+                        </p>
+                      </div>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-800">
+                            <Trash2 size={16} />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir modelo</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Excluir o modelo "{template.name}"? Os orçamentos já criados com ele são mantidos.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteTemplate(template.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+
+                    <div className="flex flex-wrap gap-1">
+                      {template.items.map(item => (
+                        <Badge key={item.id} variant="secondary">
+                          {item.category?.icon} {item.category?.name} {formatCurrency(item.amount)}
+                        </Badge>
+                      ))}
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Select
+                        value={months}
+                        onValueChange={(value) => setApplyMonths(prev => ({ ...prev, [template.id]: value }))}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MONTH_OPTIONS.map(option => (
+                            <SelectItem key={option} value={option.toString()}>
+                              {option} {option === 1 ? 'mês' : 'meses'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        disabled={isApplying}
+                        onClick={() => applyTemplate({
+                          template_id: template.id,
+                          start_month: toDateString(nextMonth),
+                          months: parseInt(months),
+                        })}
+                      >
+                        Aplicar a partir de <span className="ml-1 capitalize">{formatMonth(nextMonth)}</span>
+                      </Button>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id={`auto-${template.id}`}
+                        checked={template.is_active}
+                        onCheckedChange={(checked) => setActiveTemplate({ id: template.id, is_active: checked })}
+                      />
+                      <Label htmlFor={`auto-${template.id}`} className="text-sm text-gray-600">
+                        Criar os orçamentos de cada mês automaticamente
+                      </Label>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,14 +1,27 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus, Target, TrendingUp, AlertTriangle, Info } from 'lucide-react'; // Importado Info
-import { useBudgets } from '@/hooks/useBudgets';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Target, TrendingUp, AlertTriangle, Info, Repeat, LayoutTemplate, Gauge, Hash, Wallet, Sparkles } from 'lucide-react'; // Importado Info
+import { Budget, useBudgets } from '@/hooks/useBudgets';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCategories } from '@/hooks/useCategories';
 import { AddBudgetForm } from './AddBudgetForm';
+import { BudgetTemplatesDialog } from './BudgetTemplatesDialog';
+import { SuggestBudgetsDialog } from './SuggestBudgetsDialog';
+import { BUDGET_PERIOD_LABELS, formatPeriodRange } from '@/utils/budgetPeriods';
+import { format } from 'date-fns';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'; // Importar componentes de alerta
 
 export const BudgetsList: React.FC = () => {
-  const { budgets, loading } = useBudgets();
+  const { budgets, loading, updateBudget } = useBudgets();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -17,8 +30,23 @@ export const BudgetsList: React.FC = () => {
     }).format(value);
   };
 
+  const getScopeTitle = (budget: Budget) => {
+    if (budget.scope === 'tag') return `#${budget.tag}`;
+    if (budget.scope === 'accounts') {
+      return (budget.account_ids || [])
+        .map(id => accounts.find(account => account.id === id)?.name || 'Conta removida')
+        .join(', ');
+    }
+    return budget.category?.name;
+  };
+
+  const hasSubcategories = (categoryId: string | null) =>
+    !!categoryId && categories.some(category => category.parent_id === categoryId);
+
   const getSpentPercentage = (spent: number, budget: number) => {
-    return budget > 0 ? (spent / budget) * 100 : 0;
+    // Excesso acumulado pode zerar (ou negativar) o valor disponível no mês
+    if (budget <= 0) return spent > 0 || budget < 0 ? 100 : 0;
+    return (spent / budget) * 100;
   };
 
   const getProgressColor = (percentage: number) => {
@@ -33,9 +61,12 @@ export const BudgetsList: React.FC = () => {
     return <Target size={16} className="text-green-500" />;
   };
 
-  const totalBudget = budgets.reduce((sum, budget) => sum + budget.amount, 0);
-  const totalSpent = budgets.reduce((sum, budget) => sum + budget.spent, 0);
-  const overallPercentage = getSpentPercentage(totalSpent, totalBudget);
+  // Resumo do mês: orçamentos de outras periodicidades entram proporcionalmente aos dias no mês
+  const totalBudget = budgets.reduce((sum, budget) => sum + budget.amount * budget.proration_factor, 0);
+  const totalRolledOver = budgets.reduce((sum, budget) => sum + budget.rolled_over * budget.proration_factor, 0);
+  const totalSpent = budgets.reduce((sum, budget) => sum + budget.month_spent, 0);
+  const totalAvailable = totalBudget + totalRolledOver - totalSpent;
+  const overallPercentage = getSpentPercentage(totalSpent, totalBudget + totalRolledOver);
 
   if (loading) {
     return (
@@ -57,22 +88,45 @@ export const BudgetsList: React.FC = () => {
         <Info size={16} />
         <AlertTitle>Sobre Orçamentos</AlertTitle>
         <AlertDescription>
-          Orçamentos controlam gastos mensais por categoria. 
+          Orçamentos controlam gastos por categoria, por mês ou em outros períodos (semanal,
+          trimestral, anual...), que aparecem no resumo do mês de forma proporcional. No modo
+          envelope, a sobra (ou o excesso) de um período passa para o período seguinte.
           Para metas de economia, use "Objetivos Financeiros" no menu Mais.
         </AlertDescription>
       </Alert>
 
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold">Orçamentos</h2>
-        <Button 
-          onClick={() => setShowAddForm(true)}
-          className="flex items-center space-x-2"
-        >
-          <Plus size={16} />
-          <span>Novo Orçamento</span>
-        </Button>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowSuggestions(true)}
+            className="flex items-center space-x-2"
+          >
+            <Sparkles size={16} />
+            <span>Sugerir</span>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowTemplates(true)}
+            className="flex items-center space-x-2"
+          >
+            <LayoutTemplate size={16} />
+            <span>Modelos</span>
+          </Button>
+          <Button 
+            onClick={() => setShowAddForm(true)}
+            className="flex items-center space-x-2"
+          >
+            <Plus size={16} />
+            <span>Novo Orçamento</span>
+          </Button>
+        </div>
       </div>
 
+      <BudgetTemplatesDialog open={showTemplates} onOpenChange={setShowTemplates} />
+      <SuggestBudgetsDialog open={showSuggestions} onOpenChange={setShowSuggestions} />
+
       {/* Resumo Geral */}
       {budgets.length > 0 && (
         <Card>
@@ -88,6 +142,14 @@ export const BudgetsList: React.FC = () => {
                 <span className="text-sm text-gray-600">Total Orçado</span>
                 <span className="font-medium">{formatCurrency(totalBudget)}</span>
               </div>
+              {totalRolledOver !== 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Acumulado de meses anteriores</span>
+                  <span className={`font-medium ${totalRolledOver < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {totalRolledOver > 0 && '+'}{formatCurrency(totalRolledOver)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-600">Total Gasto</span>
                 <span className={`font-medium ${overallPercentage >= 100 ? 'text-red-600' : 'text-gray-900'}`}>
@@ -102,8 +164,8 @@ export const BudgetsList: React.FC = () => {
               </div>
               <div className="flex justify-between items-center text-sm">
                 <span className="text-gray-500">{overallPercentage.toFixed(1)}% do orçamento</span>
-                <span className={overallPercentage >= 100 ? 'text-red-600' : 'text-green-600'}>
-                  {formatCurrency(totalBudget - totalSpent)} restante
+                <span className={totalAvailable < 0 ? 'text-red-600' : 'text-green-600'}>
+                  {formatCurrency(totalAvailable)} disponível
                 </span>
               </div>
             </div>
@@ -121,16 +183,34 @@ export const BudgetsList: React.FC = () => {
             <p className="text-gray-500 text-center mb-4">
               Crie orçamentos para controlar melhor seus gastos mensais
             </p>
-            <Button onClick={() => setShowAddForm(true)}>
-              Criar Primeiro Orçamento
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={() => setShowSuggestions(true)} className="flex items-center space-x-2">
+                <Sparkles size={16} />
+                <span>Sugerir com base nos meus gastos</span>
+              </Button>
+              <Button variant="outline" onClick={() => setShowAddForm(true)}>
+                Criar Primeiro Orçamento
+              </Button>
+            </div>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-4">
           {budgets.map((budget) => {
-            const spentPercentage = getSpentPercentage(budget.spent, budget.amount);
-            const remaining = budget.amount - budget.spent;
+            const limit = budget.amount + budget.rolled_over;
+            const spentPercentage = getSpentPercentage(budget.spent, limit);
+            const remaining = budget.available;
+            const isMonthly = budget.period_type === 'monthly';
+            const pacing = budget.pacing;
+            // Quanto do período já passou e quanto deveria ter sido gasto até hoje
+            const elapsedPercentage = pacing ? (pacing.elapsed_days / pacing.period_days) * 100 : null;
+            const expectedToDate = pacing ? limit * pacing.elapsed_days / pacing.period_days : 0;
+            const projectedOverspend = pacing && remaining >= 0 ? pacing.projected_spent - limit : 0;
+            // Filtro de categoria dos orçamentos por tag ou contas e aviso de subcategorias somadas
+            const scopeDetails = [
+              budget.scope !== 'category' && budget.category ? `Somente ${budget.category.name}` : null,
+              hasSubcategories(budget.category_id) ? 'inclui subcategorias' : null,
+            ].filter(Boolean);
             
             return (
               <Card key={budget.id}>
@@ -139,12 +219,31 @@ export const BudgetsList: React.FC = () => {
                     {/* Header */}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
-                        <span className="text-lg">{budget.category?.icon}</span>
+                        {budget.scope === 'tag' ? (
+                          <Hash size={18} className="text-gray-500" />
+                        ) : budget.scope === 'accounts' ? (
+                          <Wallet size={18} className="text-gray-500" />
+                        ) : (
+                          <span className="text-lg">{budget.category?.icon}</span>
+                        )}
                         <div>
-                          <h3 className="font-medium">{budget.category?.name}</h3>
+                          <h3 className="font-medium flex items-center space-x-2">
+                            <span>{getScopeTitle(budget)}</span>
+                            {!isMonthly && (
+                              <Badge variant="outline">{BUDGET_PERIOD_LABELS[budget.period_type]}</Badge>
+                            )}
+                          </h3>
+                          {scopeDetails.length > 0 && (
+                            <p className="text-xs text-gray-500">{scopeDetails.join(' • ')}</p>
+                          )}
                           <p className="text-sm text-gray-500">
-                            {formatCurrency(budget.spent)} de {formatCurrency(budget.amount)}
+                            {formatCurrency(budget.spent)} de {formatCurrency(limit)}
                           </p>
+                          {!isMonthly && (
+                            <p className="text-xs text-gray-500">
+                              {formatPeriodRange(budget.start_date, budget.end_date)}
+                            </p>
+                          )}
                         </div>
                       </div>
                       {getStatusIcon(spentPercentage)}
@@ -152,11 +251,18 @@ export const BudgetsList: React.FC = () => {
 
                     {/* Progress Bar */}
                     <div className="space-y-2">
-                      <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div className="relative w-full bg-gray-200 rounded-full h-2">
                         <div 
                           className={`h-2 rounded-full transition-all ${getProgressColor(spentPercentage)}`}
                           style={{ width: `${Math.min(spentPercentage, 100)}%` }}
                         />
+                        {elapsedPercentage !== null && (
+                          <div
+                            className="absolute -top-1 h-4 w-0.5 bg-gray-700"
+                            style={{ left: `${Math.min(elapsedPercentage, 100)}%` }}
+                            title="Esperado até hoje"
+                          />
+                        )}
                       </div>
                       <div className="flex justify-between text-xs">
                         <span className="text-gray-500">{spentPercentage.toFixed(1)}%</span>
@@ -167,6 +273,80 @@ export const BudgetsList: React.FC = () => {
                       </div>
                     </div>
 
+                    {/* Ritmo e projeção para o fim do período */}
+                    {pacing && (
+                      <div className="space-y-1 text-xs text-gray-600">
+                        <div className="flex justify-between">
+                          <span className="flex items-center space-x-1">
+                            <Gauge size={12} />
+                            <span>
+                              {pacing.spent_to_date > expectedToDate ? 'Acima' : 'Dentro'} do ritmo: esperado até hoje{' '}
+                              {formatCurrency(expectedToDate)}
+                            </span>
+                          </span>
+                          <span>{formatCurrency(pacing.daily_rate)}/dia</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Projeção até {format(new Date(`${budget.end_date}T00:00:00`), 'dd/MM')}</span>
+                          <span className={pacing.projected_spent > limit ? 'text-red-600' : undefined}>
+                            {formatCurrency(pacing.projected_spent)}
+                          </span>
+                        </div>
+                        {(pacing.scheduled_amount > 0 || pacing.recurring_amount > 0) && (
+                          <p className="text-gray-500">
+                            Inclui {formatCurrency(pacing.scheduled_amount)} em parcelas e lançamentos agendados e{' '}
+                            {formatCurrency(pacing.recurring_amount)} em recorrentes
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Parte do período que cai no mês */}
+                    {!isMonthly && (
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>No mês (proporcional): {formatCurrency(limit * budget.proration_factor)}</span>
+                        <span>Gasto no mês: {formatCurrency(budget.month_spent)}</span>
+                      </div>
+                    )}
+
+                    {/* Envelope: orçado / acumulado / gasto / disponível */}
+                    {(budget.rollover_enabled || budget.rolled_over !== 0) && (
+                      <div className="grid grid-cols-4 gap-2 text-xs">
+                        <div>
+                          <p className="text-gray-500">Orçado</p>
+                          <p className="font-medium">{formatCurrency(budget.amount)}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500">Acumulado</p>
+                          <p className={`font-medium ${budget.rolled_over < 0 ? 'text-red-600' : ''}`}>
+                            {formatCurrency(budget.rolled_over)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500">Gasto</p>
+                          <p className="font-medium">{formatCurrency(budget.spent)}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-500">Disponível</p>
+                          <p className={`font-medium ${budget.available < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {formatCurrency(budget.available)}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id={`rollover-${budget.id}`}
+                        checked={budget.rollover_enabled}
+                        onCheckedChange={(checked) => updateBudget({ id: budget.id, rollover_enabled: checked })}
+                      />
+                      <Label htmlFor={`rollover-${budget.id}`} className="flex items-center space-x-1 text-sm text-gray-600">
+                        <Repeat size={14} />
+                        <span>Modo envelope: levar {remaining < 0 ? 'o excesso' : 'a sobra'} para o próximo período</span>
+                      </Label>
+                    </div>
+
                     {/* Status Message */}
                     {spentPercentage >= 100 && (
                       <div className="flex items-center space-x-2 text-red-600 text-sm">
@@ -174,7 +354,13 @@ export const BudgetsList: React.FC = () => {
                         <span>Orçamento excedido!</span>
                       </div>
                     )}
-                    {spentPercentage >= 80 && spentPercentage < 100 && (
+                    {projectedOverspend > 0 && (
+                      <div className="flex items-center space-x-2 text-yellow-600 text-sm">
+                        <TrendingUp size={14} />
+                        <span>No ritmo atual, deve ultrapassar em {formatCurrency(projectedOverspend)}</span>
+                      </div>
+                    )}
+                    {spentPercentage >= 80 && spentPercentage < 100 && projectedOverspend <= 0 && (
                       <div className="flex items-center space-x-2 text-yellow-600 text-sm">
                         <TrendingUp size={14} />
                         <span>Atenção: próximo do limite</span>
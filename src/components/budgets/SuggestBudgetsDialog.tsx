@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Sparkles, TrendingDown, TrendingUp } from 'lucide-react';
+import { useBudgetSuggestions } from '@/hooks/useBudgetSuggestions';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  BudgetSuggestion,
+  SUGGESTION_HISTORY_OPTIONS,
+  fitToAvailable,
+  getSuggestionTargetMonths,
+} from '@/utils/budgetSuggestions';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface SuggestBudgetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatMonth = (month: string) => format(new Date(`${month}T00:00:00`), 'MMMM/yyyy', { locale: ptBR });
+const formatShortMonth = (month: string) => format(new Date(`${month}T00:00:00`), 'MMM/yy', { locale: ptBR });
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return isNaN(amount) ? 0 : amount;
+};
+
+const toInputValue = (amount: number) => amount.toFixed(2).replace('.', ',');
+
+// Variação pela tendência abaixo de 5% da mediana não é destacada
+const getTrendDirection = (suggestion: BudgetSuggestion) => {
+  if (suggestion.median === 0 || Math.abs(suggestion.monthlyTrend) < suggestion.median * 0.05) return null;
+  return suggestion.monthlyTrend > 0 ? 'up' : 'down';
+};
+
+export const SuggestBudgetsDialog: React.FC<SuggestBudgetsDialogProps> = ({ open, onOpenChange }) => {
+  const targetMonths = getSuggestionTargetMonths();
+  const [historyMonths, setHistoryMonths] = useState('6');
+  const [targetMonth, setTargetMonth] = useState(targetMonths[0]);
+  const [income, setIncome] = useState('');
+  const [savingsPercent, setSavingsPercent] = useState('10');
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+
+  const { categories } = useCategories();
+  const { suggestions, averageIncome, loading, createBudgets, isCreating } = useBudgetSuggestions(
+    parseInt(historyMonths),
+    targetMonth
+  );
+
+  // Cada nova análise recomeça com os valores sugeridos, todos selecionados
+  useEffect(() => {
+    setAmounts(Object.fromEntries(suggestions.map(s => [s.categoryId, toInputValue(s.suggestedAmount)])));
+    setSelected(Object.fromEntries(suggestions.map(s => [s.categoryId, true])));
+  }, [suggestions]);
+
+  useEffect(() => {
+    setIncome(averageIncome > 0 ? toInputValue(averageIncome) : '');
+  }, [averageIncome]);
+
+  const selectedSuggestions = suggestions.filter(s => selected[s.categoryId]);
+  const totalBudgeted = selectedSuggestions.reduce((sum, s) => sum + parseAmount(amounts[s.categoryId] || ''), 0);
+  const availableForBudgets = parseAmount(income) * (1 - parseAmount(savingsPercent) / 100);
+  const leftover = availableForBudgets - totalBudgeted;
+
+  const handleFitToIncome = () => {
+    const fitted = fitToAvailable(
+      Object.fromEntries(selectedSuggestions.map(s => [s.categoryId, parseAmount(amounts[s.categoryId] || '')])),
+      availableForBudgets
+    );
+    setAmounts(prev => ({
+      ...prev,
+      ...Object.fromEntries(Object.entries(fitted).map(([id, amount]) => [id, toInputValue(amount)])),
+    }));
+  };
+
+  const handleCreate = () => {
+    const items = selectedSuggestions
+      .map(s => ({ category_id: s.categoryId, amount: parseAmount(amounts[s.categoryId] || '') }))
+      .filter(item => item.amount > 0);
+    if (items.length === 0) return;
+
+    createBudgets({ month: targetMonth, items }, { onSuccess: () => onOpenChange(false) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Sugerir orçamentos
+          </DialogTitle>
+          <DialogDescription>
+            Valores calculados a partir dos seus gastos por categoria: mediana dos meses, tendência,
+            sazonalidade do mesmo mês no ano anterior e sem meses fora do padrão.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="history-months">Histórico analisado</Label>
+              <Select value={historyMonths} onValueChange={setHistoryMonths}>
+                <SelectTrigger id="history-months">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUGGESTION_HISTORY_OPTIONS.map(months => (
+                    <SelectItem key={months} value={months.toString()}>
+                      Últimos {months} meses
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target-month">Orçamentos para</Label>
+              <Select value={targetMonth} onValueChange={setTargetMonth}>
+                <SelectTrigger id="target-month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetMonths.map(month => (
+                    <SelectItem key={month} value={month}>
+                      <span className="capitalize">{formatMonth(month)}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              Ainda não há despesas suficientes no período para sugerir orçamentos.
+              São necessários gastos na categoria em pelo menos dois meses.
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Categoria</TableHead>
+                    <TableHead className="text-right">Mediana</TableHead>
+                    <TableHead className="w-32 text-right">Orçamento</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suggestions.map(suggestion => {
+                    const category = categories.find(c => c.id === suggestion.categoryId);
+                    const trend = getTrendDirection(suggestion);
+
+                    return (
+                      <TableRow key={suggestion.categoryId}>
+                        <TableCell>
+                          <Checkbox
+                            checked={!!selected[suggestion.categoryId]}
+                            onCheckedChange={(checked) =>
+                              setSelected(prev => ({ ...prev, [suggestion.categoryId]: checked as boolean }))
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">
+                            {category?.icon} {category?.name || 'Categoria removida'}
+                          </div>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {trend === 'up' && (
+                              <Badge variant="outline" className="text-red-600">
+                                <TrendingUp size={12} className="mr-1" />
+                                +{formatCurrency(suggestion.monthlyTrend)}/mês
+                              </Badge>
+                            )}
+                            {trend === 'down' && (
+                              <Badge variant="outline" className="text-green-600">
+                                <TrendingDown size={12} className="mr-1" />
+                                {formatCurrency(suggestion.monthlyTrend)}/mês
+                              </Badge>
+                            )}
+                            {suggestion.seasonalFactor !== null && (
+                              <Badge variant="outline">
+                                Sazonal: {suggestion.seasonalFactor > 1 ? '+' : ''}
+                                {Math.round((suggestion.seasonalFactor - 1) * 100)}% no mês
+                              </Badge>
+                            )}
+                            {suggestion.outlierMonths.length > 0 && (
+                              <Badge variant="outline" className="text-yellow-700">
+                                Fora do padrão: {suggestion.outlierMonths.map(formatShortMonth).join(', ')}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right text-sm text-gray-600">
+                          {formatCurrency(suggestion.median)}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="text-right"
+                            value={amounts[suggestion.categoryId] || ''}
+                            disabled={!selected[suggestion.categoryId]}
+                            onChange={(e) =>
+                              setAmounts(prev => ({ ...prev, [suggestion.categoryId]: e.target.value }))
+                            }
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {/* Comparação com a renda esperada */}
+              <div className="rounded-lg border p-3 space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expected-income">Renda esperada no mês</Label>
+                    <Input
+                      id="expected-income"
+                      placeholder="0,00"
+                      value={income}
+                      onChange={(e) => setIncome(e.target.value)}
+                    />
+                    <p className="text-xs text-gray-500">Média do histórico: {formatCurrency(averageIncome)}</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="savings-percent">Reservar para poupança (%)</Label>
+                    <Input
+                      id="savings-percent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={savingsPercent}
+                      onChange={(e) => setSavingsPercent(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Total dos orçamentos</span>
+                    <span className="font-medium">{formatCurrency(totalBudgeted)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Disponível para orçamentos</span>
+                    <span className="font-medium">{formatCurrency(availableForBudgets)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">{leftover >= 0 ? 'Sobra' : 'Excede a renda em'}</span>
+                    <span className={`font-medium ${leftover >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(Math.abs(leftover))}
+                    </span>
+                  </div>
+                </div>
+
+                {leftover < 0 && (
+                  <Button variant="outline" className="w-full" onClick={handleFitToIncome}>
+                    Ajustar proporcionalmente à renda
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex space-x-2">
+                <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+                  Cancelar
+                </Button>
+                <Button
+                  className="flex-1"
+                  disabled={isCreating || selectedSuggestions.length === 0}
+                  onClick={handleCreate}
+                >
+                  {isCreating ? 'Criando...' : `Criar ${selectedSuggestions.length} orçamento(s)`}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,22 +1,43 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Calendar, Receipt } from 'lucide-react';
+import { ArrowLeft, Calendar, Receipt, Wallet } from 'lucide-react';
 import { useTransactions } from '@/hooks/useTransactions';
 import { CreditCard } from '@/hooks/useCreditCards';
+import { CreditCardInvoice, CreditCardInvoiceStatus, useCreditCardInvoices } from '@/hooks/useCreditCardInvoices';
+import { getInstallmentLabel, isInstallment } from '@/utils/installments';
+import { PayInvoiceDialog } from './PayInvoiceDialog';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
 
 interface CreditCardInvoicesProps {
   card: CreditCard;
   onClose: () => void;
 }
 
+const STATUS_LABELS: Record<CreditCardInvoiceStatus, string> = {
+  open: 'Aberta',
+  closed: 'Fechada',
+  partially_paid: 'Paga parcialmente',
+  paid: 'Paga',
+  overdue: 'Vencida',
+};
+
+const STATUS_VARIANTS: Record<CreditCardInvoiceStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  open: 'outline',
+  closed: 'secondary',
+  partially_paid: 'secondary',
+  paid: 'default',
+  overdue: 'destructive',
+};
+
 export const CreditCardInvoices: React.FC<CreditCardInvoicesProps> = ({ card, onClose }) => {
   const { transactions } = useTransactions();
-  const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
-  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const { invoices, loading } = useCreditCardInvoices(card.id);
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<string | null>(null);
+  const [payingInvoice, setPayingInvoice] = useState<CreditCardInvoice | null>(null);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -25,85 +46,103 @@ export const CreditCardInvoices: React.FC<CreditCardInvoicesProps> = ({ card, on
     }).format(value);
   };
 
-  const getMonthName = (month: number) => {
-    const months = [
-      'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
-      'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
-    ];
-    return months[month];
-  };
+  // Datas das colunas DATE sem conversão de fuso
+  const formatDate = (date: string, pattern = 'dd/MM/yyyy') =>
+    format(new Date(`${date}T00:00:00`), pattern, { locale: ptBR });
 
-  // Filtrar transações do cartão
-  const cardTransactions = transactions.filter(t => t.account_id === card.id);
-
-  // Agrupar transações por mês/ano
-  const groupTransactionsByMonth = (transactions: any[]) => {
-    const grouped: { [key: string]: any[] } = {};
-    transactions.forEach(transaction => {
-      const date = new Date(transaction.date);
-      const key = `${date.getFullYear()}-${date.getMonth()}`;
-      if (!grouped[key]) {
-        grouped[key] = [];
-      }
-      grouped[key].push(transaction);
-    });
-    return grouped;
-  };
+  // Lançamentos da fatura; pagamentos são transferências e parcelas canceladas não são cobradas
+  const getInvoiceTransactions = (invoice: CreditCardInvoice) =>
+    transactions.filter(t => t.invoice_id === invoice.id && t.type !== 'transfer' && t.status !== 'cancelled');
 
-  const groupedTransactions = groupTransactionsByMonth(cardTransactions);
-  const currentMonthKey = `${selectedYear}-${selectedMonth}`;
-  const currentMonthTransactions = groupedTransactions[currentMonthKey] || [];
-  const currentMonthTotal = currentMonthTransactions.reduce((sum, t) => sum + t.amount, 0);
+  // Faturas sem lançamentos (por exemplo, depois de excluir a única compra) não aparecem
+  const visibleInvoices = invoices.filter(invoice => invoice.transaction_count > 0 || invoice.paid_amount > 0);
+  const openInvoices = visibleInvoices
+    .filter(invoice => invoice.status === 'open')
+    .sort((a, b) => a.reference_month.localeCompare(b.reference_month));
+  const closedInvoices = visibleInvoices.filter(invoice => invoice.status !== 'open');
 
-  // Verificar se a fatura está fechada (baseado no dia de fechamento)
-  const isInvoiceClosed = () => {
-    const today = new Date();
-    const closingDate = new Date(selectedYear, selectedMonth, card.closing_day);
-    return today > closingDate;
-  };
+  const renderInvoice = (invoice: CreditCardInvoice) => {
+    const expanded = expandedInvoiceId === invoice.id;
+    const invoiceTransactions = expanded ? getInvoiceTransactions(invoice) : [];
 
-  // Obter faturas abertas e fechadas
-  const getInvoicesByStatus = () => {
-    const invoices: any[] = [];
-    const currentDate = new Date();
-    
-    for (let i = -12; i <= 3; i++) {
-      const date = new Date(currentDate.getFullYear(), currentDate.getMonth() + i, 1);
-      const year = date.getFullYear();
-      const month = date.getMonth();
-      const key = `${year}-${month}`;
-      const monthTransactions = groupedTransactions[key] || [];
-      const total = monthTransactions.reduce((sum, t) => sum + t.amount, 0);
-      
-      if (total > 0) {
-        const closingDate = new Date(year, month, card.closing_day);
-        const isClosed = currentDate > closingDate;
-        
-        invoices.push({
-          year,
-          month,
-          key,
-          transactions: monthTransactions,
-          total,
-          isClosed,
-          monthName: getMonthName(month)
-        });
-      }
-    }
-    
-    return invoices;
-  };
+    return (
+      <Card key={invoice.id}>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center space-x-2">
+              <Calendar size={16} />
+              <span className="capitalize">{formatDate(invoice.reference_month, 'MMMM yyyy')}</span>
+              <Badge variant={STATUS_VARIANTS[invoice.status]}>{STATUS_LABELS[invoice.status]}</Badge>
+            </CardTitle>
+            <span className={`text-lg font-bold ${invoice.status === 'open' || invoice.status === 'overdue' ? 'text-red-600' : 'text-gray-600'}`}>
+              {formatCurrency(invoice.total_amount)}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            <div className="text-xs text-gray-500">
+              Período: {formatDate(invoice.period_start)} a {formatDate(invoice.period_end)}
+            </div>
+            <div className="text-xs text-gray-500">
+              Vencimento: {formatDate(invoice.due_date)}
+            </div>
+            {invoice.paid_amount > 0 && (
+              <div className="text-xs text-green-600">
+                Pago: {formatCurrency(invoice.paid_amount)}
+                {invoice.outstanding_amount > 0 && ` • Restante: ${formatCurrency(invoice.outstanding_amount)}`}
+              </div>
+            )}
 
-  const allInvoices = getInvoicesByStatus();
-  const openInvoices = allInvoices.filter(inv => !inv.isClosed);
-  const closedInvoices = allInvoices.filter(inv => inv.isClosed);
+            {invoice.outstanding_amount > 0 && (
+              <Button
+                variant={invoice.status === 'open' ? 'outline' : 'default'}
+                size="sm"
+                className="w-full"
+                onClick={() => setPayingInvoice(invoice)}
+              >
+                <Wallet size={16} className="mr-2" />
+                {invoice.status === 'open' ? 'Antecipar pagamento' : 'Pagar fatura'}
+              </Button>
+            )}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="px-0 h-auto text-sm text-gray-600"
+              onClick={() => setExpandedInvoiceId(expanded ? null : invoice.id)}
+            >
+              {invoice.transaction_count} transação(ões) {expanded ? '▲' : '▼'}
+            </Button>
+
+            {expanded && (
+              <div className="space-y-1">
+                {invoiceTransactions.map(t => (
+                  <div key={t.id} className="flex justify-between text-xs text-gray-600">
+                    <span>
+                      {formatDate(t.date, 'dd/MM')} • {t.description}
+                      {isInstallment(t) && ` (${getInstallmentLabel(t)})`}
+                    </span>
+                    <span className={t.type === 'income' ? 'text-green-600' : undefined}>
+                      {t.type === 'income' && '-'}
+                      {formatCurrency(t.amount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
 
   return (
     <div className="space-y-4">
       <div className="flex items-center space-x-2">
-        <Button 
-          variant="ghost" 
-          size="sm" 
+        <Button
+          variant="ghost"
+          size="sm"
           onClick={onClose}
           className="p-2"
         >
@@ -112,89 +151,50 @@ export const CreditCardInvoices: React.FC<CreditCardInvoicesProps> = ({ card, on
         <h2 className="text-lg font-semibold">Faturas - {card.name}</h2>
       </div>
 
-      <Tabs defaultValue="open" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="open">Faturas Abertas ({openInvoices.length})</TabsTrigger>
-          <TabsTrigger value="closed">Faturas Fechadas ({closedInvoices.length})</TabsTrigger>
-        </TabsList>
-        
-        <TabsContent value="open" className="space-y-4">
-          {openInvoices.length === 0 ? (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-8">
-                <Receipt size={48} className="text-gray-400 mb-4" />
-                <p className="text-gray-500">Nenhuma fatura em aberto</p>
-              </CardContent>
-            </Card>
-          ) : (
-            openInvoices.map((invoice) => (
-              <Card key={invoice.key}>
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-base flex items-center space-x-2">
-                      <Calendar size={16} />
-                      <span>{invoice.monthName} {invoice.year}</span>
-                    </CardTitle>
-                    <span className="text-lg font-bold text-red-600">
-                      {formatCurrency(invoice.total)}
-                    </span>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <p className="text-sm text-gray-600">
-                      {invoice.transactions.length} transação(ões)
-                    </p>
-                    <div className="text-xs text-gray-500">
-                      Fechamento: {card.closing_day}/{invoice.month + 1}/{invoice.year}
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      Vencimento: {card.due_day}/{invoice.month + 1}/{invoice.year}
-                    </div>
-                  </div>
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+        </div>
+      ) : (
+        <Tabs defaultValue="open" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="open">Faturas Abertas ({openInvoices.length})</TabsTrigger>
+            <TabsTrigger value="closed">Faturas Fechadas ({closedInvoices.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="open" className="space-y-4">
+            {openInvoices.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-8">
+                  <Receipt size={48} className="text-gray-400 mb-4" />
+                  <p className="text-gray-500">Nenhuma fatura em aberto</p>
                 </CardContent>
               </Card>
-            ))
-          )}
-        </TabsContent>
-        
-        <TabsContent value="closed" className="space-y-4">
-          {closedInvoices.length === 0 ? (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-8">
-                <Receipt size={48} className="text-gray-400 mb-4" />
-                <p className="text-gray-500">Nenhuma fatura fechada</p>
-              </CardContent>
-            </Card>
-          ) : (
-            closedInvoices.map((invoice) => (
-              <Card key={invoice.key}>
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-base flex items-center space-x-2">
-                      <Calendar size={16} />
-                      <span>{invoice.monthName} {invoice.year}</span>
-                    </CardTitle>
-                    <span className="text-lg font-bold text-gray-600">
-                      {formatCurrency(invoice.total)}
-                    </span>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <p className="text-sm text-gray-600">
-                      {invoice.transactions.length} transação(ões)
-                    </p>
-                    <div className="text-xs text-green-600 font-medium">
-                      ✓ Fatura Fechada
-                    </div>
-                  </div>
+            ) : (
+              openInvoices.map(renderInvoice)
+            )}
+          </TabsContent>
+
+          <TabsContent value="closed" className="space-y-4">
+            {closedInvoices.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-8">
+                  <Receipt size={48} className="text-gray-400 mb-4" />
+                  <p className="text-gray-500">Nenhuma fatura fechada</p>
                 </CardContent>
               </Card>
-            ))
-          )}
-        </TabsContent>
-      </Tabs>
+            ) : (
+              closedInvoices.map(renderInvoice)
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      <PayInvoiceDialog
+        card={card}
+        invoice={payingInvoice}
+        onOpenChange={(open) => !open && setPayingInvoice(null)}
+      />
     </div>
   );
 };
@@ -2,20 +2,25 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus, CreditCard as CreditCardIcon, Settings, Calendar, Receipt, Eye, Edit, Trash2 } from 'lucide-react';
+import { Plus, CreditCard as CreditCardIcon, Settings, Calendar, Receipt, Eye, Edit, Trash2, Calculator } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { useCreditCards } from '@/hooks/useCreditCards';
+import { CreditCard, useCreditCards } from '@/hooks/useCreditCards';
 import { useTransactions } from '@/hooks/useTransactions';
+import { useCreditCardInvoices } from '@/hooks/useCreditCardInvoices';
 import { AddCreditCardForm } from './AddCreditCardForm';
 import { CreditCardInvoices } from './CreditCardInvoices';
 import { EditCreditCardForm } from './EditCreditCardForm';
+import { RevolvingCreditSimulator } from './RevolvingCreditSimulator';
+import { getOutstandingInstallments } from '@/utils/installments';
 
 export const CreditCardsList: React.FC = () => {
   const { creditCards, loading, deleteCreditCard } = useCreditCards();
   const { transactions } = useTransactions();
+  const { invoices } = useCreditCardInvoices();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingCard, setEditingCard] = useState<any>(null);
   const [selectedCardForInvoices, setSelectedCardForInvoices] = useState<any>(null);
+  const [simulatingCard, setSimulatingCard] = useState<CreditCard | null>(null);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -50,25 +55,24 @@ export const CreditCardsList: React.FC = () => {
 
   // Calcular estatísticas gerais dos cartões
   const getCardStatistics = () => {
-    const currentDate = new Date();
-    const currentMonth = currentDate.getMonth();
-    const currentYear = currentDate.getFullYear();
+    const today = new Date().toISOString().split('T')[0];
 
     let totalOpenInvoices = 0;
     let totalExpenses = 0;
 
     creditCards.forEach(card => {
-      const cardTransactions = transactions.filter(t => t.account_id === card.id);
-      
-      // Transações do mês atual para faturas abertas
-      const currentMonthTransactions = cardTransactions.filter(t => {
-        const transactionDate = new Date(t.date);
-        return transactionDate.getMonth() === currentMonth && 
-               transactionDate.getFullYear() === currentYear;
-      });
-      
-      const monthlyTotal = currentMonthTransactions.reduce((sum, t) => sum + t.amount, 0);
-      totalOpenInvoices += monthlyTotal;
+      // Pagamentos de fatura são transferências e não contam como gastos do cartão
+      const cardTransactions = transactions.filter(t => t.account_id === card.id && t.type === 'expense' && t.status !== 'cancelled');
+
+      // Fatura atual do cartão: a que está aberta e cujo período inclui hoje
+      const currentInvoice = invoices.find(invoice =>
+        invoice.account_id === card.id &&
+        invoice.status === 'open' &&
+        invoice.period_start <= today &&
+        today <= invoice.period_end
+      );
+
+      totalOpenInvoices += currentInvoice?.total_amount || 0;
       totalExpenses += cardTransactions.reduce((sum, t) => sum + t.amount, 0);
     });
 
@@ -157,6 +161,7 @@ export const CreditCardsList: React.FC = () => {
           {creditCards.map((card) => {
             const usagePercentage = getUsagePercentage(card.used_amount, card.limit);
             const availableLimit = card.limit - card.used_amount;
+            const outstandingInstallments = getOutstandingInstallments(transactions, card);
             
             return (
               <Card key={card.id} className="overflow-hidden">
@@ -198,6 +203,16 @@ export const CreditCardsList: React.FC = () => {
                       </span>
                     </div>
 
+                    {/* Parcelas futuras já reservadas no limite */}
+                    {outstandingInstallments > 0 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-600">Parcelas a faturar</span>
+                        <span className="text-sm font-medium text-gray-800">
+                          {formatCurrency(outstandingInstallments)}
+                        </span>
+                      </div>
+                    )}
+
                     {/* Datas */}
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div className="flex items-center space-x-2">
@@ -217,7 +232,7 @@ export const CreditCardsList: React.FC = () => {
                     </div>
 
                     {/* Botões de Ação */}
-                    <div className="grid grid-cols-4 gap-2">
+                    <div className="grid grid-cols-5 gap-2">
                       <Button 
                         variant="outline" 
                         size="sm" 
@@ -232,6 +247,14 @@ export const CreditCardsList: React.FC = () => {
                       >
                         <Edit size={16} />
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Simular juros do rotativo"
+                        onClick={() => setSimulatingCard(card)}
+                      >
+                        <Calculator size={16} />
+                      </Button>
                       <Button variant="outline" size="sm">
                         <Settings size={16} />
                       </Button>
@@ -271,6 +294,11 @@ export const CreditCardsList: React.FC = () => {
           })}
         </div>
       )}
+
+      <RevolvingCreditSimulator
+        card={simulatingCard}
+        onOpenChange={(open) => !open && setSimulatingCard(null)}
+      />
     </div>
   );
 };
@@ -19,7 +19,8 @@ export const EditCreditCardForm: React.FC<EditCreditCardFormProps> = ({ card, on
     bank_name: card.bank_name || '',
     limit: card.limit.toString(),
     due_day: card.due_day.toString(),
-    closing_day: card.closing_day.toString()
+    closing_day: card.closing_day.toString(),
+    monthly_interest_rate: card.monthly_interest_rate?.toString() || ''
   });
 
   const handleInputChange = (field: string, value: string) => {
@@ -36,7 +37,8 @@ export const EditCreditCardForm: React.FC<EditCreditCardFormProps> = ({ card, on
         bank_name: formData.bank_name || null,
         limit: parseFloat(formData.limit) || 0,
         due_day: parseInt(formData.due_day) || 1,
-        closing_day: parseInt(formData.closing_day) || 1
+        closing_day: parseInt(formData.closing_day) || 1,
+        monthly_interest_rate: formData.monthly_interest_rate ? parseFloat(formData.monthly_interest_rate) : null
       };
 
       await updateCreditCard(updatedCard);
@@ -116,6 +118,23 @@ export const EditCreditCardForm: React.FC<EditCreditCardFormProps> = ({ card, on
               </div>
             </div>
 
+            <div>
+              <Label htmlFor="monthly_interest_rate">Juros do Rotativo (% ao mês)</Label>
+              <Input
+                id="monthly_interest_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                placeholder="Ex: 14,5"
+                value={formData.monthly_interest_rate}
+                onChange={(e) => handleInputChange('monthly_interest_rate', e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Consta na fatura do cartão; usado no simulador de juros
+              </p>
+            </div>
+
             <div className="flex space-x-3">
               <Button type="submit" disabled={isUpdating} className="flex-1">
                 {isUpdating ? 'Atualizando...' : 'Salvar Alterações'}
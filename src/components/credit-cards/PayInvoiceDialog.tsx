@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet } from 'lucide-react';
+import { useAccounts } from '@/hooks/useAccounts';
+import { CreditCardInvoice, useCreditCardInvoices } from '@/hooks/useCreditCardInvoices';
+import { CreditCard } from '@/hooks/useCreditCards';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface PayInvoiceDialogProps {
+  card: CreditCard;
+  invoice: CreditCardInvoice | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const PayInvoiceDialog: React.FC<PayInvoiceDialogProps> = ({ card, invoice, onOpenChange }) => {
+  const { regularAccounts } = useAccounts();
+  const { payInvoice, isPaying } = useCreditCardInvoices();
+
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+  // Valor restante como sugestão sempre que outra fatura é aberta
+  useEffect(() => {
+    if (!invoice) return;
+    setAmount(invoice.outstanding_amount.toFixed(2).replace('.', ','));
+    setDate(new Date().toISOString().split('T')[0]);
+  }, [invoice]);
+
+  if (!invoice) return null;
+
+  const numericAmount = parseFloat(amount.replace(',', '.')) || 0;
+  const isPartial = numericAmount > 0 && numericAmount < invoice.outstanding_amount;
+  const isEarly = invoice.status === 'open';
+  const invalidAmount = numericAmount <= 0 || numericAmount > invoice.outstanding_amount;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromAccountId || invalidAmount) return;
+
+    payInvoice(
+      { invoice_id: invoice.id, from_account_id: fromAccountId, amount: numericAmount, date },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Pagar fatura
+          </DialogTitle>
+          <DialogDescription>
+            {card.name} — fatura de{' '}
+            {format(new Date(`${invoice.reference_month}T00:00:00`), 'MMMM/yyyy', { locale: ptBR })}, restante de{' '}
+            {formatCurrency(invoice.outstanding_amount)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="payment-account">Pagar com a conta *</Label>
+            <Select value={fromAccountId} onValueChange={setFromAccountId}>
+              <SelectTrigger id="payment-account">
+                <SelectValue placeholder="Selecione a conta de origem" />
+              </SelectTrigger>
+              <SelectContent>
+                {regularAccounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name} ({formatCurrency(account.balance)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="payment-amount">Valor *</Label>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setAmount(invoice.outstanding_amount.toFixed(2).replace('.', ','))}
+              >
+                Valor total
+              </Button>
+            </div>
+            <Input
+              id="payment-amount"
+              type="text"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            {numericAmount > invoice.outstanding_amount && (
+              <p className="text-xs text-red-600">O valor é maior que o restante da fatura.</p>
+            )}
+            {isPartial && (
+              <p className="text-xs text-muted-foreground">
+                Pagamento parcial: {formatCurrency(invoice.outstanding_amount - numericAmount)} continuam em aberto.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-date">Data do pagamento</Label>
+            <Input
+              id="payment-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+
+          {isEarly && (
+            <p className="text-xs text-muted-foreground">
+              A fatura ainda não fechou: o pagamento antecipado libera o limite agora e é
+              abatido do total quando ela fechar.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isPaying || !fromAccountId || invalidAmount}>
+              {isPaying ? 'Registrando...' : `Pagar ${formatCurrency(numericAmount)}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
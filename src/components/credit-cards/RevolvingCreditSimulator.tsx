@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calculator } from 'lucide-react';
+import { CreditCard } from '@/hooks/useCreditCards';
+import { useCreditCardInvoices } from '@/hooks/useCreditCardInvoices';
+import { useCategories } from '@/hooks/useCategories';
+import {
+  DEFAULT_IOF_ADDITIONAL_RATE,
+  DEFAULT_IOF_DAILY_RATE,
+  RevolvingProjection,
+  RevolvingScenario,
+  SIMULATION_HORIZON_MONTHS,
+  projectRevolvingCredit,
+} from '@/utils/revolvingCredit';
+import { addDays, format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface RevolvingCreditSimulatorProps {
+  card: CreditCard | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ScenarioKind = RevolvingScenario['kind'];
+
+// Taxa usada quando o cartão não tem a taxa do rotativo cadastrada
+const FALLBACK_MONTHLY_RATE = 14;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.')) || 0;
+
+export const RevolvingCreditSimulator: React.FC<RevolvingCreditSimulatorProps> = ({ card, onOpenChange }) => {
+  const { invoices, bookRevolvingCharges, isBookingCharges } = useCreditCardInvoices(card?.id);
+  const { categories } = useCategories();
+
+  const [balance, setBalance] = useState('');
+  const [monthlyRate, setMonthlyRate] = useState('');
+  const [iofAdditionalRate, setIofAdditionalRate] = useState(String(DEFAULT_IOF_ADDITIONAL_RATE));
+  const [iofDailyRate, setIofDailyRate] = useState(String(DEFAULT_IOF_DAILY_RATE));
+  const [minimumPercent, setMinimumPercent] = useState('15');
+  const [fixedPayment, setFixedPayment] = useState('');
+  const [installmentCount, setInstallmentCount] = useState('12');
+  const [installmentRate, setInstallmentRate] = useState('');
+  const [scenarioKind, setScenarioKind] = useState<ScenarioKind>('minimum');
+  const [categoryId, setCategoryId] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // Fatura com saldo não pago (a mais recente) ou, sem ela, a fatura atual
+  const unpaidInvoice = invoices.find(invoice =>
+    invoice.status !== 'open' && invoice.status !== 'paid' && invoice.outstanding_amount > 0
+  );
+  const baseInvoice = unpaidInvoice ?? invoices.find(invoice =>
+    invoice.status === 'open' && invoice.period_start <= today && today <= invoice.period_end
+  );
+
+  // Juros e IOF entram na fatura seguinte à do saldo não pago
+  const nextInvoiceDate = baseInvoice
+    ? [today, format(addDays(new Date(`${baseInvoice.period_end}T00:00:00`), 1), 'yyyy-MM-dd')].sort()[1]
+    : today;
+
+  const unpaidBalance = unpaidInvoice?.outstanding_amount ?? 0;
+
+  // Sugestões a partir do cartão e do saldo não pago sempre que o simulador é aberto
+  useEffect(() => {
+    if (!card) return;
+    const rate = String(card.monthly_interest_rate ?? FALLBACK_MONTHLY_RATE);
+    setBalance(unpaidBalance ? unpaidBalance.toFixed(2) : '');
+    setFixedPayment(unpaidBalance ? Math.ceil(unpaidBalance / 6).toFixed(2) : '');
+    setMonthlyRate(rate);
+    setInstallmentRate(rate);
+  }, [card, unpaidBalance]);
+
+  const params = {
+    balance: parseNumber(balance),
+    monthlyRate: parseNumber(monthlyRate),
+    iofAdditionalRate: parseNumber(iofAdditionalRate),
+    iofDailyRate: parseNumber(iofDailyRate),
+  };
+
+  const scenarios: Record<ScenarioKind, RevolvingScenario> = {
+    minimum: { kind: 'minimum', minimumPercent: parseNumber(minimumPercent) },
+    fixed: { kind: 'fixed', payment: parseNumber(fixedPayment) },
+    installments: {
+      kind: 'installments',
+      count: Math.max(1, Math.round(parseNumber(installmentCount))),
+      monthlyRate: parseNumber(installmentRate),
+    },
+  };
+  const projections = params.balance > 0
+    ? {
+      minimum: projectRevolvingCredit(params, scenarios.minimum),
+      fixed: projectRevolvingCredit(params, scenarios.fixed),
+      installments: projectRevolvingCredit(params, scenarios.installments),
+    }
+    : null;
+
+  if (!card) return null;
+
+  const firstMonth = projections?.[scenarioKind].months[0];
+
+  const handleBook = () => {
+    if (!firstMonth) return;
+    bookRevolvingCharges({
+      account_id: card.id,
+      date: nextInvoiceDate,
+      interest: firstMonth.interest,
+      iof: firstMonth.iof,
+      category_id: categoryId || undefined,
+    });
+  };
+
+  const renderProjection = (projection: RevolvingProjection) => (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Prazo</p>
+          <p className="font-medium">
+            {projection.paidOff
+              ? `${projection.months.length} ${projection.months.length === 1 ? 'mês' : 'meses'}`
+              : `Não quita em ${SIMULATION_HORIZON_MONTHS} meses`}
+          </p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Total pago</p>
+          <p className="font-medium">{formatCurrency(projection.totalPaid)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">Juros</p>
+          <p className="font-medium text-red-600">{formatCurrency(projection.totalInterest)}</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-xs text-muted-foreground">IOF</p>
+          <p className="font-medium text-red-600">{formatCurrency(projection.totalIof)}</p>
+        </div>
+      </div>
+
+      {!projection.paidOff && (
+        <p className="text-xs text-red-600">
+          Após {SIMULATION_HORIZON_MONTHS} meses ainda restariam {formatCurrency(projection.remainingBalance)}.
+        </p>
+      )}
+      {projection.interestCapped && (
+        <p className="text-xs text-muted-foreground">
+          Os juros atingiram o limite de 100% da dívida original e deixaram de ser cobrados.
+        </p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Mês</TableHead>
+              <TableHead className="text-right">Saldo</TableHead>
+              <TableHead className="text-right">Juros</TableHead>
+              <TableHead className="text-right">IOF</TableHead>
+              <TableHead className="text-right">Pagamento</TableHead>
+              <TableHead className="text-right">Restante</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {projection.months.map(row => (
+              <TableRow key={row.month}>
+                <TableCell>{row.month}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.openingBalance)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.interest)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.iof)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.payment)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.closingBalance)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!card} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="w-5 h-5" />
+            Simulador de juros — {card.name}
+          </DialogTitle>
+          <DialogDescription>
+            Quanto custa deixar parte da fatura para depois, no rotativo ou parcelando a fatura.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="sim-balance">Saldo não pago</Label>
+            <Input id="sim-balance" value={balance} onChange={(e) => setBalance(e.target.value)} placeholder="0,00" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sim-rate">Juros do rotativo (% a.m.)</Label>
+            <Input id="sim-rate" value={monthlyRate} onChange={(e) => setMonthlyRate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sim-iof-additional">IOF adicional (%)</Label>
+            <Input
+              id="sim-iof-additional"
+              value={iofAdditionalRate}
+              onChange={(e) => setIofAdditionalRate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sim-iof-daily">IOF diário (% ao dia)</Label>
+            <Input id="sim-iof-daily" value={iofDailyRate} onChange={(e) => setIofDailyRate(e.target.value)} />
+          </div>
+        </div>
+
+        {!projections ? (
+          <p className="text-sm text-muted-foreground">Informe o saldo não pago para simular.</p>
+        ) : (
+          <Tabs value={scenarioKind} onValueChange={(value) => setScenarioKind(value as ScenarioKind)}>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="minimum">Pagamento mínimo</TabsTrigger>
+              <TabsTrigger value="fixed">Valor fixo</TabsTrigger>
+              <TabsTrigger value="installments">Parcelar fatura</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="minimum" className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="sim-minimum">Pagamento mínimo (% da fatura)</Label>
+                <Input id="sim-minimum" value={minimumPercent} onChange={(e) => setMinimumPercent(e.target.value)} />
+              </div>
+              {renderProjection(projections.minimum)}
+            </TabsContent>
+
+            <TabsContent value="fixed" className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="sim-fixed">Pagamento mensal</Label>
+                <Input id="sim-fixed" value={fixedPayment} onChange={(e) => setFixedPayment(e.target.value)} />
+              </div>
+              {renderProjection(projections.fixed)}
+            </TabsContent>
+
+            <TabsContent value="installments" className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="sim-installments">Parcelas</Label>
+                  <Input
+                    id="sim-installments"
+                    value={installmentCount}
+                    onChange={(e) => setInstallmentCount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sim-installment-rate">Juros do parcelamento (% a.m.)</Label>
+                  <Input
+                    id="sim-installment-rate"
+                    value={installmentRate}
+                    onChange={(e) => setInstallmentRate(e.target.value)}
+                  />
+                </div>
+              </div>
+              {renderProjection(projections.installments)}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {firstMonth && (firstMonth.interest > 0 || firstMonth.iof > 0) && (
+          <div className="space-y-2 pt-2 border-t">
+            <p className="text-sm">
+              Próxima fatura: {formatCurrency(firstMonth.interest)} de juros e {formatCurrency(firstMonth.iof)} de IOF,
+              lançados em {format(new Date(`${nextInvoiceDate}T00:00:00`), 'dd/MM/yyyy', { locale: ptBR })}.
+            </p>
+            <div className="flex gap-2">
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Categoria (opcional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories
+                    .filter(category => category.transaction_type === 'expense')
+                    .map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.icon} {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleBook} disabled={isBookingCharges}>
+                {isBookingCharges ? 'Lançando...' : 'Lançar na fatura'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
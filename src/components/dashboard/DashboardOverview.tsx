@@ -358,11 +358,12 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ onNavigate
           <CardTitle className="text-sm font-medium">Transações Recentes</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          {transactions.slice(0, 5).map((transaction) => (
+          {/* Cada transferência aparece uma vez, pela perna de débito */}
+          {transactions.filter(t => t.transfer_direction !== 'credit').slice(0, 5).map((transaction) => (
             <div key={transaction.id} className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
                 <div className="text-lg">
-                  {transaction.category?.icon || (transaction.type === 'income' ? '💰' : '💸')}
+                  {transaction.category?.icon || (transaction.type === 'income' ? '💰' : transaction.type === 'transfer' ? '🔁' : '💸')}
                 </div>
                 <div>
                   <p className="text-sm font-medium">{transaction.description}</p>
@@ -372,9 +373,9 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ onNavigate
                 </div>
               </div>
               <span className={`text-sm font-semibold ${
-                transaction.type === 'income' ? 'text-green-600' : 'text-red-600'
+                transaction.type === 'income' ? 'text-green-600' : transaction.type === 'transfer' ? 'text-blue-600' : 'text-red-600'
               }`}>
-                {transaction.type === 'income' ? '+' : '-'}{formatCurrency(Number(transaction.amount))}
+                {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}{formatCurrency(Number(transaction.amount))}
               </span>
             </div>
           ))}
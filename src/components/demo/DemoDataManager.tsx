@@ -77,9 +77,8 @@ export const DemoDataManager: React.FC = () => {
         name: 'Reserva de Emergência',
         description: 'Acumular 6 meses de gastos para emergências',
         target_amount: 20000,
-        current_amount: 8000,
-        target_date: '2024-12-31',
-        is_completed: false
+        initial_amount: 8000,
+        target_date: '2024-12-31'
       });
       updateProgress('Meta: Reserva de Emergência');
 
@@ -87,9 +86,8 @@ export const DemoDataManager: React.FC = () => {
         name: 'Viagem para Europa',
         description: 'Economizar para viagem dos sonhos',
         target_amount: 15000,
-        current_amount: 2300,
-        target_date: '2025-06-30',
-        is_completed: false
+        initial_amount: 2300,
+        target_date: '2025-06-30'
       });
       updateProgress('Meta: Viagem Europa');
 
@@ -97,9 +95,8 @@ export const DemoDataManager: React.FC = () => {
         name: 'Novo Notebook',
         description: 'Comprar notebook para trabalho',
         target_amount: 4000,
-        current_amount: 1200,
-        target_date: '2024-03-31',
-        is_completed: false
+        initial_amount: 1200,
+        target_date: '2024-03-31'
       });
       updateProgress('Meta: Notebook');
 
@@ -115,7 +112,6 @@ export const DemoDataManager: React.FC = () => {
         createBudget({
           category_id: alimentacaoCategory.id,
           amount: 800,
-          spent: 0,
           month: new Date().getMonth() + 1,
           year: new Date().getFullYear()
         });
@@ -126,7 +122,6 @@ export const DemoDataManager: React.FC = () => {
         createBudget({
           category_id: transporteCategory.id,
           amount: 300,
-          spent: 0,
           month: new Date().getMonth() + 1,
           year: new Date().getFullYear()
         });
@@ -137,7 +132,6 @@ export const DemoDataManager: React.FC = () => {
         createBudget({
           category_id: lazerCategory.id,
           amount: 400,
-          spent: 0,
           month: new Date().getMonth() + 1,
           year: new Date().getFullYear()
         });
@@ -148,7 +142,6 @@ export const DemoDataManager: React.FC = () => {
         createBudget({
           category_id: moradiaCategory.id,
           amount: 1500,
-          spent: 0,
           month: new Date().getMonth() + 1,
           year: new Date().getFullYear()
         });
@@ -19,10 +19,9 @@ export const AddGoalForm: React.FC<AddGoalFormProps> = ({ onClose, editingGoal }
     name: editingGoal?.name || '',
     description: editingGoal?.description || '',
     target_amount: editingGoal?.target_amount || 0,
-    current_amount: editingGoal?.current_amount || 0,
     target_date: editingGoal?.target_date || '',
-    is_completed: editingGoal?.is_completed || false,
   });
+  const [initialAmount, setInitialAmount] = useState(0);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,7 +36,7 @@ export const AddGoalForm: React.FC<AddGoalFormProps> = ({ onClose, editingGoal }
         ...formData,
       });
     } else {
-      addGoal(formData);
+      addGoal({ ...formData, initial_amount: initialAmount });
     }
     
     onClose();
@@ -103,18 +102,26 @@ export const AddGoalForm: React.FC<AddGoalFormProps> = ({ onClose, editingGoal }
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="current_amount">Valor Atual</Label>
-              <Input
-                id="current_amount"
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.current_amount}
-                onChange={(e) => setFormData({ ...formData, current_amount: Number(e.target.value) })}
-                placeholder="0,00"
-              />
-            </div>
+            {editingGoal ? (
+              <div className="space-y-2">
+                <Label>Valor Atual</Label>
+                <p className="text-sm font-medium pt-2">{formatCurrency(editingGoal.current_amount)}</p>
+                <p className="text-xs text-gray-500">Atualizado pelos aportes e resgates</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="initial_amount">Valor já guardado</Label>
+                <Input
+                  id="initial_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={initialAmount}
+                  onChange={(e) => setInitialAmount(Number(e.target.value))}
+                  placeholder="0,00"
+                />
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -127,19 +134,6 @@ export const AddGoalForm: React.FC<AddGoalFormProps> = ({ onClose, editingGoal }
             />
           </div>
 
-          {editingGoal && (
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="is_completed"
-                checked={formData.is_completed}
-                onChange={(e) => setFormData({ ...formData, is_completed: e.target.checked })}
-                className="rounded"
-              />
-              <Label htmlFor="is_completed">Meta concluída</Label>
-            </div>
-          )}
-
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PiggyBank } from 'lucide-react';
+import { Goal } from '@/hooks/useGoals';
+import { useGoalContributions } from '@/hooks/useGoalContributions';
+import { useTransactions } from '@/hooks/useTransactions';
+import { GoalContributionKind } from '@/utils/goalContributions';
+import { format, subDays } from 'date-fns';
+
+interface GoalContributionDialogProps {
+  goal: Goal | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sem vínculo com transação
+const NO_TRANSACTION = 'none';
+// Transações dos últimos dias oferecidas para vínculo
+const LINKABLE_DAYS = 90;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.')) || 0;
+
+export const GoalContributionDialog: React.FC<GoalContributionDialogProps> = ({ goal, onOpenChange }) => {
+  const { contributions, addContribution, isAdding } = useGoalContributions();
+  const { transactions } = useTransactions();
+
+  const [kind, setKind] = useState<GoalContributionKind>('contribution');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [transactionId, setTransactionId] = useState(NO_TRANSACTION);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!goal) return;
+    setKind('contribution');
+    setAmount('');
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+    setTransactionId(NO_TRANSACTION);
+    setNotes('');
+  }, [goal]);
+
+  // Transferências e lançamentos recentes que ainda não financiam nenhuma meta
+  const linkedIds = new Set(contributions.map(c => c.transaction_id).filter(Boolean));
+  const since = format(subDays(new Date(), LINKABLE_DAYS), 'yyyy-MM-dd');
+  const linkableTransactions = transactions
+    .filter(t => t.date >= since && !linkedIds.has(t.id))
+    .filter(t => kind === 'withdrawal'
+      ? t.type === 'income' || (t.type === 'transfer' && t.transfer_direction === 'credit')
+      : t.type === 'expense' || (t.type === 'transfer' && t.transfer_direction === 'debit'));
+
+  const handleTransactionChange = (value: string) => {
+    setTransactionId(value);
+    const transaction = transactions.find(t => t.id === value);
+    if (!transaction) return;
+    setAmount(Number(transaction.amount).toFixed(2));
+    setDate(transaction.date.slice(0, 10));
+  };
+
+  const numericAmount = parseNumber(amount);
+  const exceedsBalance = !!goal && kind === 'withdrawal' && numericAmount > goal.current_amount;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!goal || numericAmount <= 0 || exceedsBalance) return;
+
+    addContribution(
+      {
+        goal_id: goal.id,
+        kind,
+        amount: numericAmount,
+        date,
+        transaction_id: transactionId === NO_TRANSACTION ? undefined : transactionId,
+        notes: notes.trim() || undefined,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PiggyBank className="w-5 h-5" />
+            {goal?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Guardado até agora: {formatCurrency(goal?.current_amount || 0)} de {formatCurrency(goal?.target_amount || 0)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Tabs
+            value={kind}
+            onValueChange={(value) => {
+              setKind(value as GoalContributionKind);
+              setTransactionId(NO_TRANSACTION);
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="contribution">Aporte</TabsTrigger>
+              <TabsTrigger value="withdrawal">Resgate</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="contribution-transaction">Vincular a uma transação (opcional)</Label>
+            <Select value={transactionId} onValueChange={handleTransactionChange}>
+              <SelectTrigger id="contribution-transaction">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TRANSACTION}>Sem vínculo</SelectItem>
+                {linkableTransactions.map(transaction => (
+                  <SelectItem key={transaction.id} value={transaction.id}>
+                    {format(new Date(`${transaction.date.slice(0, 10)}T00:00:00`), 'dd/MM')} • {transaction.description} •{' '}
+                    {formatCurrency(Number(transaction.amount))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              {kind === 'withdrawal'
+                ? 'Receitas ou transferências recebidas com o dinheiro resgatado.'
+                : 'Transferências para a conta da meta ou despesas que representam o aporte.'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contribution-amount">Valor *</Label>
+              <Input
+                id="contribution-amount"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contribution-date">Data *</Label>
+              <Input
+                id="contribution-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {exceedsBalance && (
+            <p className="text-sm text-red-600">
+              O resgate não pode passar do valor guardado na meta.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="contribution-notes">Observações</Label>
+            <Textarea
+              id="contribution-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="flex-1" disabled={isAdding || numericAmount <= 0 || exceedsBalance}>
+              {isAdding ? 'Salvando...' : kind === 'withdrawal' ? 'Registrar resgate' : 'Registrar aporte'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
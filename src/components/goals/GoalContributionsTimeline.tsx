@@ -0,0 +1,108 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowDownCircle, ArrowUpCircle, Link2, Trash2 } from 'lucide-react';
+import { Goal } from '@/hooks/useGoals';
+import { GoalContribution, useGoalContributions } from '@/hooks/useGoalContributions';
+import { buildGoalTimeline } from '@/utils/goalContributions';
+import { format } from 'date-fns';
+import { Area, AreaChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+interface GoalContributionsTimelineProps {
+  goal: Goal;
+  contributions: GoalContribution[];
+  // Esconde a lista de movimentações, mostrando só o gráfico
+  chartOnly?: boolean;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(new Date(`${date.slice(0, 10)}T00:00:00`), 'dd/MM/yy');
+
+export const GoalContributionsTimeline: React.FC<GoalContributionsTimelineProps> = ({
+  goal,
+  contributions,
+  chartOnly = false,
+}) => {
+  const { deleteContribution, isDeleting } = useGoalContributions();
+
+  const timeline = buildGoalTimeline(contributions).map(point => ({
+    ...point,
+    label: formatDate(point.date),
+  }));
+
+  if (contributions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-4">
+        Nenhum aporte registrado nesta meta ainda.
+      </p>
+    );
+  }
+
+  const handleDelete = (id: string) => {
+    if (confirm('Tem certeza que deseja excluir esta movimentação?')) {
+      deleteContribution(id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={timeline}>
+            <XAxis dataKey="label" fontSize={12} />
+            <YAxis
+              tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`}
+              fontSize={12}
+              domain={[0, (max: number) => Math.max(max, goal.target_amount)]}
+            />
+            <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+            <ReferenceLine y={goal.target_amount} stroke="#9ca3af" strokeDasharray="5 5" label={{ value: 'Meta', fontSize: 12 }} />
+            <Area type="stepAfter" dataKey="balance" name="Guardado" stroke="#16a34a" fill="#16a34a" fillOpacity={0.2} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {!chartOnly && (
+        <div className="space-y-2">
+          {[...contributions].reverse().map(contribution => (
+            <div key={contribution.id} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                {contribution.kind === 'withdrawal' ? (
+                  <ArrowDownCircle size={16} className="text-red-500" />
+                ) : (
+                  <ArrowUpCircle size={16} className="text-green-600" />
+                )}
+                <div>
+                  <div className="font-medium">
+                    {contribution.kind === 'withdrawal' ? '-' : '+'}
+                    {formatCurrency(contribution.amount)}
+                  </div>
+                  <div className="text-xs text-gray-500 flex items-center gap-1">
+                    {formatDate(contribution.date)}
+                    {contribution.transaction && (
+                      <>
+                        <Link2 size={12} />
+                        {contribution.transaction.description}
+                      </>
+                    )}
+                    {contribution.notes && ` • ${contribution.notes}`}
+                  </div>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(contribution.id)}
+                disabled={isDeleting}
+                className="h-8 w-8 text-red-600 hover:text-red-700"
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
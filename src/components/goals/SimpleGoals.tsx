@@ -2,9 +2,12 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Target, CheckCircle, Plus, Edit, Trash2, Info } from 'lucide-react'; // Importado Info
+import { Target, CheckCircle, Plus, Edit, Trash2, Info, PiggyBank, History } from 'lucide-react'; // Importado Info
 import { useGoals, Goal } from '@/hooks/useGoals';
+import { useGoalContributions } from '@/hooks/useGoalContributions';
 import { AddGoalForm } from './AddGoalForm';
+import { GoalContributionDialog } from './GoalContributionDialog';
+import { GoalContributionsTimeline } from './GoalContributionsTimeline';
 import { BackHeader } from '@/components/layout/BackHeader';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'; // Importar componentes de alerta
 
@@ -14,8 +17,11 @@ interface SimpleGoalsProps {
 
 export const SimpleGoals: React.FC<SimpleGoalsProps> = ({ onBack }) => {
   const { goals, deleteGoal, isDeletingGoal } = useGoals();
+  const { contributions } = useGoalContributions();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [contributingGoal, setContributingGoal] = useState<Goal | null>(null);
+  const [historyGoalId, setHistoryGoalId] = useState<string | null>(null);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -189,12 +195,40 @@ export const SimpleGoals: React.FC<SimpleGoalsProps> = ({ onBack }) => {
                       {formatCurrency(Math.max(0, goal.target_amount - goal.current_amount))}
                     </span>
                   </div>
+
+                  <div className="flex gap-2">
+                    <Button size="sm" className="flex-1" onClick={() => setContributingGoal(goal)}>
+                      <PiggyBank size={14} className="mr-2" />
+                      Aportar / Resgatar
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => setHistoryGoalId(historyGoalId === goal.id ? null : goal.id)}
+                    >
+                      <History size={14} className="mr-2" />
+                      Histórico
+                    </Button>
+                  </div>
+
+                  {historyGoalId === goal.id && (
+                    <GoalContributionsTimeline
+                      goal={goal}
+                      contributions={contributions.filter(c => c.goal_id === goal.id)}
+                    />
+                  )}
                 </CardContent>
               </Card>
             );
           })}
         </div>
       )}
+
+      <GoalContributionDialog
+        goal={contributingGoal}
+        onOpenChange={(open) => !open && setContributingGoal(null)}
+      />
     </div>
   );
 };
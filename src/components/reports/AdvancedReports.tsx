@@ -7,6 +7,7 @@ import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, PieChart, Pie, Cell,
 import { Download, FileText, Calendar, TrendingUp } from 'lucide-react';
 import { useTransactions } from '@/hooks/useTransactions';
 import { useBudgets } from '@/hooks/useBudgets';
+import { getCategoryLines } from '@/utils/transactionSplits';
 import jsPDF from 'jspdf';
 import * as XLSX from 'xlsx';
 
@@ -65,12 +66,12 @@ export const AdvancedReports: React.FC = () => {
   const getCategoryData = () => {
     const categoryTotals = new Map();
     
-    transactions
-      .filter(t => t.type === 'expense' && t.category)
-      .forEach(t => {
-        const categoryName = t.category!.name;
+    getCategoryLines(transactions.filter(t => t.type === 'expense'))
+      .filter(line => line.category)
+      .forEach(line => {
+        const categoryName = line.category!.name;
         const current = categoryTotals.get(categoryName) || 0;
-        categoryTotals.set(categoryName, current + Number(t.amount));
+        categoryTotals.set(categoryName, current + line.amount);
       });
     
     return Array.from(categoryTotals.entries())
@@ -133,13 +134,13 @@ export const AdvancedReports: React.FC = () => {
   const exportToExcel = () => {
     const workbook = XLSX.utils.book_new();
     
-    // Aba de transações
-    const transactionsSheet = XLSX.utils.json_to_sheet(transactions.map(t => ({
+    // Aba de transações (transações divididas geram uma linha por divisão)
+    const transactionsSheet = XLSX.utils.json_to_sheet(getCategoryLines(transactions).map(({ transaction: t, category, amount }) => ({
       'Data': new Date(t.date).toLocaleDateString('pt-BR'),
       'Descrição': t.description,
-      'Categoria': t.category?.name || 'Sem categoria',
+      'Categoria': category?.name || 'Sem categoria',
       'Tipo': t.type === 'income' ? 'Receita' : 'Despesa',
-      'Valor': t.amount,
+      'Valor': amount,
       'Conta': t.account?.name || 'Sem conta',
     })));
     
@@ -3,6 +3,7 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { useTransactions } from '@/hooks/useTransactions';
+import { getCategoryLines } from '@/utils/transactionSplits';
 
 const COLORS = ['#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#06B6D4'];
 
@@ -44,12 +45,12 @@ export const SimpleReports: React.FC = () => {
   const getCategoryData = () => {
     const categoryTotals = new Map();
     
-    transactions
-      .filter(t => t.type === 'expense' && t.category)
-      .forEach(t => {
-        const categoryName = t.category!.name;
+    getCategoryLines(transactions.filter(t => t.type === 'expense'))
+      .filter(line => line.category)
+      .forEach(line => {
+        const categoryName = line.category!.name;
         const current = categoryTotals.get(categoryName) || 0;
-        categoryTotals.set(categoryName, current + Number(t.amount));
+        categoryTotals.set(categoryName, current + line.amount);
       });
     
     return Array.from(categoryTotals.entries())
@@ -10,21 +10,28 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { useAccounts } from '@/hooks/useAccounts';
 import { useCreditCards } from '@/hooks/useCreditCards';
 import { useCategories } from '@/hooks/useCategories';
-import { useTransactions } from '@/hooks/useTransactions';
+import { useTransactions, TransactionSplitInput } from '@/hooks/useTransactions';
+import { useInstallments } from '@/hooks/useInstallments';
 import { toast } from 'sonner';
 import { CreditCard, Building, Upload, X } from 'lucide-react';
 import { enhancedToast } from '@/components/ui/enhanced-toast';
 import { ProgressIndicator } from '@/components/ui/progress-indicator';
+import { TransactionSplitEditor } from './TransactionSplitEditor';
+import { createSplitLine, validateSplits } from '@/utils/transactionSplits';
+import { MAX_INSTALLMENTS, getInvoiceMonth, splitInstallments } from '@/utils/installments';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
 
 interface AddTransactionFormProps {
   onClose?: () => void;
 }
 
 export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose }) => {
-  const [type, setType] = useState<'income' | 'expense'>('expense');
+  const [type, setType] = useState<'income' | 'expense' | 'transfer'>('expense');
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [accountId, setAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
   const [categoryId, setCategoryId] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
@@ -33,13 +40,19 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
   const [isRecurring, setIsRecurring] = useState(false);
   const [recurrenceFrequency, setRecurrenceFrequency] = useState<'daily' | 'weekly' | 'monthly' | 'yearly'>('monthly');
   const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
+  const [isSplit, setIsSplit] = useState(false);
+  const [splits, setSplits] = useState<TransactionSplitInput[]>([]);
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('2');
 
   const { accounts } = useAccounts();
   const { creditCards } = useCreditCards();
   const { categories } = useCategories();
-  const { createTransaction } = useTransactions();
+  const { createTransaction, createTransfer } = useTransactions();
+  const { createInstallmentPurchase } = useInstallments();
 
   const filteredCategories = categories.filter(cat => cat.transaction_type === type);
+  const numericAmountPreview = parseFloat(amount.replace(',', '.')) || 0;
 
   // Combinar contas e cartões de crédito
   const allAccounts = [
@@ -60,6 +73,23 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
     }))
   ];
 
+  // Parcelamento só existe para despesas no cartão de crédito
+  const selectedCard = creditCards.find(card => card.id === accountId);
+  const canInstall = type === 'expense' && !!selectedCard;
+  const installmentPreview = canInstall && isInstallment && numericAmountPreview > 0
+    ? splitInstallments(numericAmountPreview, Number(installmentCount))
+    : [];
+
+  const handleInstallmentToggle = (checked: boolean) => {
+    setIsInstallment(checked);
+    // Cada parcela tem uma única categoria e não se repete
+    if (checked) {
+      setIsSplit(false);
+      setSplits([]);
+      setIsRecurring(false);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -67,10 +97,33 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
     }
   };
 
+  const handleTypeChange = (value: 'income' | 'expense' | 'transfer') => {
+    setType(value);
+    // As categorias das divisões dependem do tipo da transação
+    setCategoryId('');
+    setSplits(current => current.map(split => ({ ...split, category_id: '' })));
+    // Transferências não têm categoria nem divisões
+    if (value === 'transfer') {
+      setIsSplit(false);
+      setSplits([]);
+    }
+  };
+
+  const getTypeLabel = () => {
+    if (type === 'transfer') return 'Transferência';
+    return type === 'income' ? 'Receita' : 'Despesa';
+  };
+
+  const handleSplitToggle = (checked: boolean) => {
+    setIsSplit(checked);
+    setSplits(checked ? [createSplitLine(numericAmountPreview, categoryId), createSplitLine()] : []);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!amount || !description || !accountId || !categoryId) {
+    const isTransfer = type === 'transfer';
+    if (!amount || !description || !accountId || (isTransfer ? !toAccountId : !isSplit && !categoryId)) {
       enhancedToast.error('Campos obrigatórios não preenchidos', {
         description: 'Por favor, preencha todos os campos obrigatórios para continuar.'
       });
@@ -85,6 +138,21 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
       return;
     }
 
+    if (isTransfer && toAccountId === accountId) {
+      enhancedToast.error('Contas iguais', {
+        description: 'Escolha contas de origem e destino diferentes.'
+      });
+      return;
+    }
+
+    const splitError = isSplit ? validateSplits(splits, numericAmount) : null;
+    if (splitError) {
+      enhancedToast.error('Divisão inválida', { description: splitError });
+      return;
+    }
+
+    const installmentPurchase = canInstall && isInstallment;
+
     setLoading(true);
     setProgress(0);
 
@@ -92,24 +160,49 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
       // Simulate progress for better UX
       setProgress(25);
       
-      await createTransaction({
-        type,
-        amount: numericAmount,
-        description,
-        account_id: accountId,
-        category_id: categoryId,
-        date,
-        status: 'completed',
-        receiptFile: receiptFile || undefined,
-        is_recurring: isRecurring,
-        recurrence_frequency: isRecurring ? recurrenceFrequency : undefined,
-        recurrence_end_date: isRecurring && recurrenceEndDate ? recurrenceEndDate : undefined,
-      });
+      if (installmentPurchase) {
+        await createInstallmentPurchase({
+          account_id: accountId,
+          category_id: categoryId,
+          description,
+          total_amount: numericAmount,
+          installment_count: Number(installmentCount),
+          purchase_date: date,
+        });
+      } else if (isTransfer) {
+        await createTransfer({
+          from_account_id: accountId,
+          to_account_id: toAccountId,
+          amount: numericAmount,
+          description,
+          date,
+          status: 'completed',
+          receiptFile: receiptFile || undefined,
+          is_recurring: isRecurring,
+          recurrence_frequency: isRecurring ? recurrenceFrequency : undefined,
+          recurrence_end_date: isRecurring && recurrenceEndDate ? recurrenceEndDate : undefined,
+        });
+      } else {
+        await createTransaction({
+          type,
+          amount: numericAmount,
+          description,
+          account_id: accountId,
+          category_id: isSplit ? undefined : categoryId,
+          date,
+          status: 'completed',
+          receiptFile: receiptFile || undefined,
+          is_recurring: isRecurring,
+          recurrence_frequency: isRecurring ? recurrenceFrequency : undefined,
+          recurrence_end_date: isRecurring && recurrenceEndDate ? recurrenceEndDate : undefined,
+          splits: isSplit ? splits : undefined,
+        });
+      }
 
       setProgress(100);
 
       enhancedToast.success(
-        `${type === 'income' ? 'Receita' : 'Despesa'} adicionada!`,
+        `${getTypeLabel()} adicionada!`,
         {
           description: `${formatCurrency(numericAmount)} foi registrado com sucesso.`,
           action: {
@@ -126,6 +219,7 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
       setAmount('');
       setDescription('');
       setAccountId('');
+      setToAccountId('');
       setCategoryId('');
       setDate(new Date().toISOString().split('T')[0]);
       setReceiptFile(null);
@@ -133,6 +227,10 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
       setIsRecurring(false);
       setRecurrenceFrequency('monthly');
       setRecurrenceEndDate('');
+      setIsSplit(false);
+      setSplits([]);
+      setIsInstallment(false);
+      setInstallmentCount('2');
       
       // Call onClose if provided
       if (onClose) {
@@ -171,10 +269,11 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
-            <Tabs value={type} onValueChange={(value) => setType(value as 'income' | 'expense')}>
-              <TabsList className="grid w-full grid-cols-2">
+            <Tabs value={type} onValueChange={(value) => handleTypeChange(value as 'income' | 'expense' | 'transfer')}>
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="expense" className="text-red-600">Despesa</TabsTrigger>
                 <TabsTrigger value="income" className="text-green-600">Receita</TabsTrigger>
+                <TabsTrigger value="transfer" className="text-blue-600">Transferência</TabsTrigger>
               </TabsList>
             </Tabs>
 
@@ -203,7 +302,7 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="account">Conta/Cartão *</Label>
+              <Label htmlFor="account">{type === 'transfer' ? 'Conta de origem *' : 'Conta/Cartão *'}</Label>
               <Select value={accountId} onValueChange={setAccountId} required>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione uma conta ou cartão" />
@@ -227,24 +326,116 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="category">Categoria *</Label>
-              <Select value={categoryId} onValueChange={setCategoryId} required>
-                <SelectTrigger>
-                  <SelectValue placeholder="Selecione uma categoria" />
-                </SelectTrigger>
-                <SelectContent>
-                  {filteredCategories.map((category) => (
-                    <SelectItem key={category.id} value={category.id}>
-                      <div className="flex items-center space-x-2">
-                        <span>{category.icon}</span>
-                        <span>{category.name}</span>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {type === 'transfer' && (
+              <div className="space-y-2">
+                <Label htmlFor="toAccount">Conta de destino *</Label>
+                <Select value={toAccountId} onValueChange={setToAccountId} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione a conta que recebe o valor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allAccounts
+                      .filter(account => account.id !== accountId)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          <div className="flex items-center space-x-2">
+                            {account.icon}
+                            <span>{account.name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {type !== 'transfer' && !isSplit && (
+              <div className="space-y-2">
+                <Label htmlFor="category">Categoria *</Label>
+                <Select value={categoryId} onValueChange={setCategoryId} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione uma categoria" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {filteredCategories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <div className="flex items-center space-x-2">
+                          <span>{category.icon}</span>
+                          <span>{category.name}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {canInstall && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="installment"
+                    checked={isInstallment}
+                    onCheckedChange={(checked) => handleInstallmentToggle(checked as boolean)}
+                  />
+                  <Label htmlFor="installment" className="cursor-pointer">
+                    Compra parcelada
+                  </Label>
+                </div>
+
+                {isInstallment && (
+                  <div className="pl-6 space-y-2">
+                    <Label htmlFor="installmentCount">Número de parcelas</Label>
+                    <Select value={installmentCount} onValueChange={setInstallmentCount}>
+                      <SelectTrigger id="installmentCount">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: MAX_INSTALLMENTS - 1 }, (_, index) => index + 2).map(count => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count}x
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {installmentPreview.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {installmentCount}x de {formatCurrency(installmentPreview[installmentPreview.length - 1])}
+                        {installmentPreview[0] !== installmentPreview[1] &&
+                          ` (1ª parcela de ${formatCurrency(installmentPreview[0])})`}
+                        {' '}a partir da fatura de{' '}
+                        {format(getInvoiceMonth(date, selectedCard!.closing_day), 'MMMM/yyyy', { locale: ptBR })}.
+                        O limite do cartão é reduzido pelo valor total.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {type !== 'transfer' && !(canInstall && isInstallment) && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="split"
+                    checked={isSplit}
+                    onCheckedChange={(checked) => handleSplitToggle(checked as boolean)}
+                  />
+                  <Label htmlFor="split" className="cursor-pointer">
+                    Dividir em várias categorias
+                  </Label>
+                </div>
+
+                {isSplit && (
+                  <TransactionSplitEditor
+                    amount={numericAmountPreview}
+                    splits={splits}
+                    onChange={setSplits}
+                    categories={filteredCategories}
+                  />
+                )}
+              </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="date">Data</Label>
@@ -262,6 +453,7 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
                   id="recurring"
                   checked={isRecurring}
                   onCheckedChange={(checked) => setIsRecurring(checked as boolean)}
+                  disabled={canInstall && isInstallment}
                 />
                 <Label htmlFor="recurring" className="cursor-pointer">
                   Transação Recorrente
@@ -336,7 +528,7 @@ export const AddTransactionForm: React.FC<AddTransactionFormProps> = ({ onClose
                   <span>Adicionando...</span>
                 </div>
               ) : (
-                `Adicionar ${type === 'income' ? 'Receita' : 'Despesa'}`
+                `Adicionar ${getTypeLabel()}`
               )}
             </Button>
 
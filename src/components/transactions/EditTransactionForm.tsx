@@ -5,13 +5,18 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { X, Upload } from 'lucide-react';
-import { useTransactions, Transaction } from '@/hooks/useTransactions';
+import { useTransactions, Transaction, TransactionSplitInput } from '@/hooks/useTransactions';
 import { useAccounts } from '@/hooks/useAccounts';
 import { useCreditCards } from '@/hooks/useCreditCards';
 import { useCategories } from '@/hooks/useCategories';
+import { useCategorizationData } from '@/hooks/useCategorizationData';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
+import { TransactionSplitEditor } from './TransactionSplitEditor';
+import { createSplitLine, isSplitTransaction, toSplitInputs, validateSplits } from '@/utils/transactionSplits';
+import { getTransferAccounts, isTransfer } from '@/utils/transfers';
 
 interface EditTransactionFormProps {
   transaction: Transaction;
@@ -19,10 +24,11 @@ interface EditTransactionFormProps {
 }
 
 export const EditTransactionForm: React.FC<EditTransactionFormProps> = ({ transaction, onClose }) => {
-  const { updateTransaction } = useTransactions();
+  const { updateTransaction, updateTransfer } = useTransactions({ loadAll: false });
   const { accounts } = useAccounts();
   const { creditCards } = useCreditCards();
   const { categories } = useCategories();
+  const { recordCorrection } = useCategorizationData();
 
   const [formData, setFormData] = useState({
     description: transaction.description,
@@ -34,23 +40,76 @@ export const EditTransactionForm: React.FC<EditTransactionFormProps> = ({ transa
     status: transaction.status,
   });
 
+  // Transferências são editadas pelas contas de origem e destino, qualquer que seja a perna aberta
+  const isTransferTransaction = isTransfer(transaction);
+  const [transferAccounts, setTransferAccounts] = useState(() => getTransferAccounts(transaction));
+
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [isSplit, setIsSplit] = useState(isSplitTransaction(transaction));
+  const [splits, setSplits] = useState<TransactionSplitInput[]>(toSplitInputs(transaction.splits));
 
   const allAccounts = [...accounts, ...creditCards];
   const filteredCategories = categories.filter(
     cat => cat.transaction_type === transaction.type
   );
 
+  const handleSplitToggle = (checked: boolean) => {
+    setIsSplit(checked);
+    if (checked && splits.length === 0) {
+      setSplits([createSplitLine(Number(formData.amount) || 0, formData.category_id), createSplitLine()]);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (isTransferTransaction) {
+      const { fromAccountId, toAccountId } = transferAccounts;
+      if (!fromAccountId || !toAccountId || fromAccountId === toAccountId) {
+        toast.error('Escolha contas de origem e destino diferentes');
+        return;
+      }
+
+      await updateTransfer({
+        id: transaction.id,
+        from_account_id: fromAccountId,
+        to_account_id: toAccountId,
+        amount: Number(formData.amount),
+        description: formData.description,
+        date: formData.date,
+        status: formData.status,
+        notes: formData.notes,
+        receiptFile: receiptFile || undefined,
+      });
+      onClose();
+      return;
+    }
+
+    const splitError = isSplit ? validateSplits(splits, Number(formData.amount)) : null;
+    if (splitError) {
+      toast.error(splitError);
+      return;
+    }
+
     try {
       await updateTransaction({
         id: transaction.id,
         ...formData,
+        // A categoria principal de uma transação dividida é definida pelas divisões
+        category_id: isSplit ? undefined : formData.category_id,
         amount: Number(formData.amount),
         receiptFile: receiptFile || undefined,
+        splits: isSplit ? splits : (isSplitTransaction(transaction) ? [] : undefined),
       });
+
+      // Ensinar a auto-categorização quando o usuário corrige a categoria
+      if (!isSplit && formData.category_id && formData.category_id !== transaction.category_id) {
+        recordCorrection({
+          description: formData.description,
+          categoryId: formData.category_id,
+          previousCategoryId: transaction.category_id,
+        });
+      }
       onClose();
     } catch (error) {
       console.error('Erro ao atualizar transação:', error);
@@ -115,45 +174,114 @@ export const EditTransactionForm: React.FC<EditTransactionFormProps> = ({ transa
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="account">Conta/Cartão *</Label>
-                <Select
-                  value={formData.account_id}
-                  onValueChange={(value) => setFormData({ ...formData, account_id: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {allAccounts.map((account) => (
-                      <SelectItem key={account.id} value={account.id}>
-                        {account.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+            {isTransferTransaction ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fromAccount">Conta de origem *</Label>
+                  <Select
+                    value={transferAccounts.fromAccountId || ''}
+                    onValueChange={(value) => setTransferAccounts({ ...transferAccounts, fromAccountId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="category">Categoria</Label>
-                <Select
-                  value={formData.category_id}
-                  onValueChange={(value) => setFormData({ ...formData, category_id: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {filteredCategories.map((category) => (
-                      <SelectItem key={category.id} value={category.id}>
-                        {category.icon} {category.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <div className="space-y-2">
+                  <Label htmlFor="toAccount">Conta de destino *</Label>
+                  <Select
+                    value={transferAccounts.toAccountId || ''}
+                    onValueChange={(value) => setTransferAccounts({ ...transferAccounts, toAccountId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allAccounts
+                        .filter(account => account.id !== transferAccounts.fromAccountId)
+                        .map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-            </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="account">Conta/Cartão *</Label>
+                    <Select
+                      value={formData.account_id}
+                      onValueChange={(value) => setFormData({ ...formData, account_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allAccounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Categoria</Label>
+                    <Select
+                      value={formData.category_id}
+                      onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+                      disabled={isSplit}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {filteredCategories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.icon} {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="split"
+                      checked={isSplit}
+                      onCheckedChange={(checked) => handleSplitToggle(checked as boolean)}
+                    />
+                    <Label htmlFor="split" className="cursor-pointer">
+                      Dividir em várias categorias
+                    </Label>
+                  </div>
+
+                  {isSplit && (
+                    <TransactionSplitEditor
+                      amount={Number(formData.amount) || 0}
+                      splits={splits}
+                      onChange={setSplits}
+                      categories={filteredCategories}
+                    />
+                  )}
+                </div>
+              </>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
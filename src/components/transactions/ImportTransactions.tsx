@@ -15,8 +15,10 @@ import { parseSpreadsheet, generateExampleFile, convertRowToTransaction, ColumnM
 import { useTransactions } from '@/hooks/useTransactions';
 import { useAccounts } from '@/hooks/useAccounts';
 import { useCategories } from '@/hooks/useCategories';
+import { useCategorizationData } from '@/hooks/useCategorizationData';
 import { DuplicateDetectionEngine } from '@/utils/duplicateDetection';
 import { AutoCategorizationEngine } from '@/utils/autoCategorizationEngine';
+import { ClassifierSample, toClassifierSample } from '@/utils/transactionClassifier';
 
 interface ImportTransactionsProps {
   onBack: () => void;
@@ -41,6 +43,7 @@ export function ImportTransactions({ onBack }: ImportTransactionsProps) {
   const { createTransaction, transactions } = useTransactions();
   const { accounts } = useAccounts();
   const { categories } = useCategories();
+  const { persistedData } = useCategorizationData();
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -72,7 +75,10 @@ export function ImportTransactions({ onBack }: ImportTransactionsProps) {
   const validateData = () => {
     const results: ValidationResult[] = [];
     const duplicateEngine = new DuplicateDetectionEngine();
-    const categorizationEngine = new AutoCategorizationEngine(categories);
+    const categorizationEngine = new AutoCategorizationEngine(categories, persistedData);
+    categorizationEngine.trainClassifier(
+      transactions.map(toClassifierSample).filter((s): s is ClassifierSample => s !== null)
+    );
 
     rawData.forEach((row, index) => {
       const transaction = convertRowToTransaction(row, mapping as ColumnMapping);
@@ -100,7 +106,13 @@ export function ImportTransactions({ onBack }: ImportTransactionsProps) {
       if (!transaction.category) {
         const suggestion = categorizationEngine.categorizeTransaction(
           transaction.description,
-          transaction.amount
+          transaction.amount,
+          undefined,
+          {
+            accountId: accounts.find(a => a.name === transaction.account)?.id,
+            date: transaction.date,
+            type: transaction.type
+          }
         );
         if (suggestion) {
           const category = categories.find(c => c.id === suggestion.categoryId);
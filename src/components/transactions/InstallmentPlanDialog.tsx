@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CreditCard } from 'lucide-react';
+import { useInstallments } from '@/hooks/useInstallments';
+import { useCategories } from '@/hooks/useCategories';
+import { useCreditCards } from '@/hooks/useCreditCards';
+import { getInstallmentLabel, isRemainingInstallment } from '@/utils/installments';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface InstallmentPlanDialogProps {
+  planId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const InstallmentPlanDialog: React.FC<InstallmentPlanDialogProps> = ({ planId, onOpenChange }) => {
+  const {
+    plan,
+    installments,
+    loading,
+    updateInstallmentPlan,
+    cancelInstallmentPlan,
+    isUpdating,
+    isCancelling,
+  } = useInstallments(planId);
+  const { categories } = useCategories();
+  const { creditCards } = useCreditCards();
+
+  const [description, setDescription] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [totalAmount, setTotalAmount] = useState('');
+
+  useEffect(() => {
+    if (!plan) return;
+    setDescription(plan.description);
+    setCategoryId(plan.category_id || '');
+    setTotalAmount(String(plan.total_amount));
+  }, [plan]);
+
+  const closingDay = creditCards.find(card => card.id === plan?.account_id)?.closing_day ?? 1;
+  const remaining = installments.filter(t => isRemainingInstallment(t, closingDay));
+  const billedTotal = installments
+    .filter(t => t.status !== 'cancelled' && !remaining.includes(t))
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const remainingTotal = remaining.reduce((sum, t) => sum + Number(t.amount), 0);
+  const canChange = plan?.status === 'active' && remaining.length > 0;
+
+  const getInstallmentStatus = (installment: typeof installments[number]) => {
+    if (installment.status === 'cancelled') return <Badge variant="destructive">Cancelada</Badge>;
+    if (remaining.includes(installment)) return <Badge variant="outline">A faturar</Badge>;
+    return <Badge variant="secondary">Faturada</Badge>;
+  };
+
+  const handleSave = () => {
+    if (!plan) return;
+    const numericTotal = parseFloat(totalAmount.replace(',', '.'));
+    updateInstallmentPlan({
+      id: plan.id,
+      description,
+      category_id: categoryId,
+      total_amount: isNaN(numericTotal) || numericTotal === Number(plan.total_amount) ? undefined : numericTotal,
+    });
+  };
+
+  return (
+    <Dialog open={!!planId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CreditCard className="w-5 h-5" />
+            {plan ? plan.description : 'Compra parcelada'}
+          </DialogTitle>
+          {plan && (
+            <DialogDescription>
+              {plan.installment_count}x — total de {formatCurrency(plan.total_amount)}, comprado em{' '}
+              {format(new Date(`${plan.purchase_date}T00:00:00`), 'dd/MM/yyyy', { locale: ptBR })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading || !plan ? (
+          <p className="text-sm text-muted-foreground">Carregando parcelas...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground text-xs">Já faturado</p>
+                <p className="font-medium">{formatCurrency(billedTotal)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground text-xs">A faturar ({remaining.length} parcelas)</p>
+                <p className="font-medium">{formatCurrency(remainingTotal)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {installments.map(installment => (
+                <div key={installment.id} className="flex items-center justify-between text-sm py-1 border-b last:border-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium w-12">{getInstallmentLabel(installment)}</span>
+                    <span className="text-muted-foreground">
+                      {format(new Date(`${installment.date}T00:00:00`), 'dd/MM/yyyy', { locale: ptBR })}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span>{formatCurrency(installment.amount)}</span>
+                    {getInstallmentStatus(installment)}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {canChange && (
+              <div className="space-y-3 pt-2 border-t">
+                <p className="text-xs text-muted-foreground">
+                  Descrição e categoria valem para todas as parcelas. Um novo total é redistribuído
+                  entre as parcelas ainda não faturadas.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="installment-description">Descrição</Label>
+                  <Input
+                    id="installment-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="installment-category">Categoria</Label>
+                  <Select value={categoryId} onValueChange={setCategoryId}>
+                    <SelectTrigger id="installment-category">
+                      <SelectValue placeholder="Selecione uma categoria" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories
+                        .filter(category => category.transaction_type === 'expense')
+                        .map(category => (
+                          <SelectItem key={category.id} value={category.id}>
+                            <div className="flex items-center space-x-2">
+                              <span>{category.icon}</span>
+                              <span>{category.name}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="installment-total">Valor total da compra</Label>
+                  <Input
+                    id="installment-total"
+                    type="text"
+                    value={totalAmount}
+                    onChange={(e) => setTotalAmount(e.target.value)}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={handleSave}
+                    disabled={isUpdating || !description || !categoryId}
+                  >
+                    {isUpdating ? 'Salvando...' : 'Salvar alterações'}
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" className="text-red-600" disabled={isCancelling}>
+                        Cancelar parcelas
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Cancelar parcelas restantes</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          As {remaining.length} parcelas ainda não faturadas ({formatCurrency(remainingTotal)})
+                          serão canceladas e o limite do cartão será liberado. As parcelas já faturadas
+                          continuam registradas.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Voltar</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => cancelInstallmentPlan(plan.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Cancelar parcelas
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            )}
+
+            {plan.status === 'cancelled' && (
+              <p className="text-xs text-muted-foreground">
+                As parcelas restantes desta compra foram canceladas.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
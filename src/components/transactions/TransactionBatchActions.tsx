@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { X } from 'lucide-react';
+import type { Category } from '@/hooks/useCategories';
+import type { Account } from '@/hooks/useAccounts';
+import {
+  BATCH_ACTION_LABELS,
+  TransactionBatchAction,
+  TransactionBatchParams,
+} from '@/hooks/useTransactionBatch';
+import { STATUS_LABELS } from '@/utils/automationRules';
+
+interface TransactionBatchActionsProps {
+  selectedCount: number;
+  // Total de transações que atendem aos filtros, para oferecer "selecionar todas"
+  matchingCount: number;
+  allMatchingSelected: boolean;
+  categories: Category[];
+  accounts: Account[];
+  isApplying: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onApply: (action: TransactionBatchAction, params: TransactionBatchParams) => Promise<unknown>;
+}
+
+export const TransactionBatchActions: React.FC<TransactionBatchActionsProps> = ({
+  selectedCount,
+  matchingCount,
+  allMatchingSelected,
+  categories,
+  accounts,
+  isApplying,
+  onSelectAllMatching,
+  onClear,
+  onApply,
+}) => {
+  const [action, setAction] = useState<TransactionBatchAction>('recategorize');
+  const [categoryId, setCategoryId] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [status, setStatus] = useState<NonNullable<TransactionBatchParams['status']>>('completed');
+  const [tagsInput, setTagsInput] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const count = allMatchingSelected ? matchingCount : selectedCount;
+  const tags = tagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const params: TransactionBatchParams = (() => {
+    switch (action) {
+      case 'recategorize':
+        return { category_id: categoryId };
+      case 'add_tags':
+      case 'remove_tags':
+        return { tags };
+      case 'move_account':
+        return { account_id: accountId };
+      case 'set_status':
+        return { status };
+      default:
+        return {};
+    }
+  })();
+
+  const canApply = !isApplying && (
+    (action === 'recategorize' && !!categoryId) ||
+    ((action === 'add_tags' || action === 'remove_tags') && tags.length > 0) ||
+    (action === 'move_account' && !!accountId) ||
+    action === 'set_status' ||
+    action === 'delete'
+  );
+
+  const apply = async () => {
+    try {
+      await onApply(action, params);
+      setTagsInput('');
+    } catch {
+      // Erro já exibido pelo hook; a seleção é mantida para uma nova tentativa
+    }
+  };
+
+  return (
+    <Card className="border-primary">
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="font-medium">{count} selecionada(s)</span>
+          <div className="flex items-center gap-1">
+            {!allMatchingSelected && matchingCount > selectedCount && (
+              <Button variant="link" size="sm" onClick={onSelectAllMatching}>
+                Selecionar todas as {matchingCount}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <Select value={action} onValueChange={(value) => setAction(value as TransactionBatchAction)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BATCH_ACTION_LABELS) as TransactionBatchAction[]).map(key => (
+                <SelectItem key={key} value={key}>{BATCH_ACTION_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {action === 'recategorize' && (
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Nova categoria" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.icon} {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {(action === 'add_tags' || action === 'remove_tags') && (
+            <Input
+              className="flex-1"
+              placeholder="Tags separadas por vírgula"
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+            />
+          )}
+
+          {action === 'move_account' && (
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Conta de destino" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {action === 'set_status' && (
+            <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Button
+            variant={action === 'delete' ? 'destructive' : 'default'}
+            disabled={!canApply}
+            onClick={() => (action === 'delete' ? setConfirmDelete(true) : apply())}
+          >
+            {isApplying ? 'Aplicando...' : 'Aplicar'}
+          </Button>
+        </div>
+
+        {action === 'recategorize' && (
+          <p className="text-xs text-muted-foreground">
+            Transações de tipo diferente da categoria são ignoradas; transações divididas deixam de ser divididas.
+          </p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir {count} transação(ões)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os saldos das contas serão ajustados. Você poderá desfazer logo após a exclusão.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={apply} className="bg-red-600 hover:bg-red-700">
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import {
+  QuerySuggestionSources,
+  getQuerySuggestions,
+  parseTransactionQuery,
+} from '@/utils/transactionQuery';
+
+interface TransactionSearchInputProps extends QuerySuggestionSources {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const TransactionSearchInput: React.FC<TransactionSearchInputProps> = ({
+  value,
+  onChange,
+  categories,
+  accounts,
+  tags,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => getQuerySuggestions(value, { categories, accounts, tags }),
+    [value, categories, accounts, tags]
+  );
+  const errors = useMemo(() => parseTransactionQuery(value).errors, [value]);
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  const acceptSuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    onChange(suggestion.value);
+    setHighlighted(0);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted(prev => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        acceptSuggestion(highlighted);
+        break;
+      case 'Escape':
+        setIsFocused(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          placeholder='Buscar... ex: cat:Alimentação amount>50 tag:viagem'
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlighted(0);
+          }}
+          onFocus={() => setIsFocused(true)}
+          // Atraso para o clique na sugestão ser registrado antes de fechar a lista
+          onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+          onKeyDown={handleKeyDown}
+          className="pl-10"
+        />
+
+        {showSuggestions && (
+          <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={`${suggestion.label}-${index}`}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => acceptSuggestion(index)}
+                className={`flex w-full items-center justify-between px-3 py-2 text-left text-sm ${
+                  index === highlighted ? 'bg-accent' : ''
+                }`}
+              >
+                <span>{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="text-xs text-muted-foreground">{suggestion.description}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 ? (
+        <p className="text-xs text-red-600">{errors.join(' · ')}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Campos: desc, cat, account, tag, notes, amount, date, before, after, type, status. Use "-" para excluir.
+        </p>
+      )}
+    </div>
+  );
+};
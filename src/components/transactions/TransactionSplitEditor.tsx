@@ -0,0 +1,119 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Category } from '@/hooks/useCategories';
+import type { TransactionSplitInput } from '@/hooks/useTransactions';
+import { createSplitLine, splitsRemaining } from '@/utils/transactionSplits';
+
+interface TransactionSplitEditorProps {
+  amount: number;
+  splits: TransactionSplitInput[];
+  onChange: (splits: TransactionSplitInput[]) => void;
+  categories: Category[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const TransactionSplitEditor: React.FC<TransactionSplitEditorProps> = ({
+  amount,
+  splits,
+  onChange,
+  categories,
+}) => {
+  const remaining = splitsRemaining(splits, amount);
+
+  const updateLine = (index: number, changes: Partial<TransactionSplitInput>) => {
+    onChange(splits.map((split, i) => (i === index ? { ...split, ...changes } : split)));
+  };
+
+  const removeLine = (index: number) => {
+    onChange(splits.filter((_, i) => i !== index));
+  };
+
+  const addLine = () => {
+    onChange([...splits, createSplitLine(remaining > 0 ? remaining : 0)]);
+  };
+
+  // Joga a diferença na última linha para fechar o valor da transação
+  const assignRemaining = () => {
+    if (splits.length === 0) return;
+    const lastIndex = splits.length - 1;
+    updateLine(lastIndex, { amount: Math.max(0, Number(splits[lastIndex].amount || 0) + remaining) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      {splits.map((split, index) => (
+        <div key={index} className="space-y-2 rounded-md border border-dashed p-2">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0,00"
+              value={split.amount || ''}
+              onChange={(e) => updateLine(index, { amount: parseFloat(e.target.value) || 0 })}
+              className="w-32"
+            />
+            <Select value={split.category_id} onValueChange={(category_id) => updateLine(index, { category_id })}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Categoria" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>
+                    <div className="flex items-center space-x-2">
+                      <span>{category.icon}</span>
+                      <span>{category.name}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {splits.length > 2 && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(index)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Tags (separadas por vírgula)"
+              value={split.tags.join(',')}
+              onChange={(e) => updateLine(index, { tags: e.target.value.split(',') })}
+            />
+            <Input
+              placeholder="Observação"
+              value={split.notes}
+              onChange={(e) => updateLine(index, { notes: e.target.value })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-sm">
+        <span className={remaining === 0 ? 'text-green-600' : 'text-red-600'}>
+          {remaining === 0
+            ? 'Divisões fecham o valor da transação'
+            : remaining > 0
+              ? `Faltam ${formatCurrency(remaining)}`
+              : `Excedeu ${formatCurrency(Math.abs(remaining))}`}
+        </span>
+        <div className="flex gap-1">
+          {remaining !== 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={assignRemaining}>
+              Ajustar última
+            </Button>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={addLine}>
+            <Plus className="w-3 h-3 mr-1" />
+            Linha
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,28 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2, Receipt, Repeat, Search, Filter, X } from 'lucide-react';
-import { useTransactions } from '@/hooks/useTransactions';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Edit, Trash2, Receipt, Repeat, Split, Filter, X, CreditCard } from 'lucide-react';
+import { useTransactions, Transaction } from '@/hooks/useTransactions';
+import {
+  useTransactionFeed,
+  useTransactionTags,
+  TransactionFilters,
+  DEFAULT_TRANSACTION_FILTERS,
+} from '@/hooks/useTransactionFeed';
 import { useAccounts } from '@/hooks/useAccounts';
 import { useCategories } from '@/hooks/useCategories';
+import { useTransactionBatch, TransactionBatchAction, TransactionBatchParams } from '@/hooks/useTransactionBatch';
 import { EditTransactionForm } from './EditTransactionForm';
+import { TransactionBatchActions } from './TransactionBatchActions';
+import { TransactionSearchInput } from './TransactionSearchInput';
+import { InstallmentPlanDialog } from './InstallmentPlanDialog';
+import { getCategoryLines, isSplitTransaction } from '@/utils/transactionSplits';
+import { getSignedAmount, isTransfer } from '@/utils/transfers';
+import { getInstallmentLabel, isInstallment } from '@/utils/installments';
+import { matchesTransactionQuery, parseTransactionQuery } from '@/utils/transactionQuery';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
@@ -23,35 +37,74 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
-interface TransactionFilters {
-  search: string;
-  type: string;
-  categoryId: string;
-  accountId: string;
-  period: string;
-}
-
 export const TransactionsList: React.FC = () => {
-  const { transactions, deleteTransaction, loading } = useTransactions();
+  const { deleteTransaction, deleteTransfer } = useTransactions({ loadAll: false });
   const { accounts } = useAccounts();
   const { categories } = useCategories();
   const [editingTransaction, setEditingTransaction] = useState<any>(null);
+  const [installmentPlanId, setInstallmentPlanId] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<TransactionFilters>(() => {
     const saved = localStorage.getItem('transactionFilters');
-    return saved ? JSON.parse(saved) : {
-      search: '',
-      type: 'all',
-      categoryId: 'all',
-      accountId: 'all',
-      period: 'all',
-    };
+    return saved ? JSON.parse(saved) : DEFAULT_TRANSACTION_FILTERS;
   });
+  const [debouncedSearch, setDebouncedSearch] = useState(filters.search);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     localStorage.setItem('transactionFilters', JSON.stringify(filters));
   }, [filters]);
 
+  // Evitar uma consulta ao banco a cada tecla digitada na busca
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(filters.search), 300);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+
+  const queryFilters = useMemo(
+    () => ({ ...filters, search: debouncedSearch }),
+    [filters, debouncedSearch]
+  );
+
+  const {
+    transactions: feedTransactions,
+    totals,
+    loading,
+    isPlaceholderData,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useTransactionFeed(queryFilters);
+  const tags = useTransactionTags();
+  const { applyBatch, isApplying } = useTransactionBatch();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
+
+  // Enquanto o banco responde à nova busca, filtrar localmente o que já está na tela
+  const searchQuery = useMemo(() => parseTransactionQuery(filters.search), [filters.search]);
+  const filteredTransactions = useMemo(
+    () => isPlaceholderData || filters.search !== debouncedSearch
+      ? feedTransactions.filter(transaction => matchesTransactionQuery(transaction, searchQuery))
+      : feedTransactions,
+    [feedTransactions, isPlaceholderData, filters.search, debouncedSearch, searchQuery]
+  );
+
+  // Carregar a próxima página quando o fim da lista aparece na tela
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -81,60 +134,59 @@ export const TransactionsList: React.FC = () => {
     }
   };
 
-  const filteredTransactions = useMemo(() => {
-    return transactions.filter(transaction => {
-      // Search filter
-      if (filters.search && !transaction.description.toLowerCase().includes(filters.search.toLowerCase())) {
-        return false;
-      }
+  // Descrição da outra ponta da transferência, vista a partir da perna exibida
+  const getTransferLabel = (transaction: Transaction) => {
+    const counterpart = accounts.find(account => account.id === transaction.transfer_account_id)?.name || 'outra conta';
+    return transaction.transfer_direction === 'credit' ? `De ${counterpart}` : `Para ${counterpart}`;
+  };
 
-      // Type filter
-      if (filters.type !== 'all' && transaction.type !== filters.type) {
-        return false;
-      }
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAllMatchingSelected(false);
+    setLastSelectedIndex(null);
+  };
 
-      // Category filter
-      if (filters.categoryId !== 'all' && transaction.category_id !== filters.categoryId) {
-        return false;
-      }
+  // A seleção vale para o conjunto filtrado atual
+  useEffect(() => {
+    clearSelection();
+  }, [queryFilters]);
 
-      // Account filter
-      if (filters.accountId !== 'all' && transaction.account_id !== filters.accountId) {
-        return false;
-      }
+  // Shift+clique seleciona o intervalo desde a última transação marcada
+  const toggleSelection = (index: number, withRange: boolean) => {
+    const transaction = filteredTransactions[index];
+    const shouldSelect = !selectedIds.has(transaction.id);
+    const [from, to] = withRange && lastSelectedIndex !== null
+      ? [Math.min(lastSelectedIndex, index), Math.max(lastSelectedIndex, index)]
+      : [index, index];
 
-      // Period filter
-      if (filters.period !== 'all') {
-        const transactionDate = new Date(transaction.date);
-        const now = new Date();
-        
-        switch (filters.period) {
-          case 'today':
-            return transactionDate.toDateString() === now.toDateString();
-          case 'week':
-            const weekAgo = new Date(now);
-            weekAgo.setDate(now.getDate() - 7);
-            return transactionDate >= weekAgo;
-          case 'month':
-            return transactionDate.getMonth() === now.getMonth() && 
-                   transactionDate.getFullYear() === now.getFullYear();
-          case 'year':
-            return transactionDate.getFullYear() === now.getFullYear();
-        }
-      }
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      filteredTransactions.slice(from, to + 1).forEach(t => {
+        if (shouldSelect) next.add(t.id);
+        else next.delete(t.id);
+      });
+      return next;
+    });
+    setAllMatchingSelected(false);
+    setLastSelectedIndex(index);
+  };
+
+  const toggleAllLoaded = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredTransactions.map(t => t.id)) : new Set());
+    setAllMatchingSelected(false);
+  };
 
-      return true;
+  const handleBatchApply = async (action: TransactionBatchAction, params: TransactionBatchParams) => {
+    await applyBatch({
+      action,
+      params,
+      ...(allMatchingSelected ? { filters: queryFilters } : { transactionIds: [...selectedIds] }),
     });
-  }, [transactions, filters]);
+    clearSelection();
+  };
 
   const clearFilters = () => {
-    setFilters({
-      search: '',
-      type: 'all',
-      categoryId: 'all',
-      accountId: 'all',
-      period: 'all',
-    });
+    setFilters(DEFAULT_TRANSACTION_FILTERS);
   };
 
   const hasActiveFilters = filters.search || filters.type !== 'all' || 
@@ -177,15 +229,13 @@ export const TransactionsList: React.FC = () => {
         <Card>
           <CardContent className="pt-6 space-y-4">
             {/* Search Bar */}
-            <div className="relative">
-              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Buscar por descrição..."
-                value={filters.search}
-                onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
-                className="pl-10"
-              />
-            </div>
+            <TransactionSearchInput
+              value={filters.search}
+              onChange={(search) => setFilters(prev => ({ ...prev, search }))}
+              categories={categories}
+              accounts={accounts}
+              tags={tags}
+            />
 
             {/* Filter Dropdowns */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -257,12 +307,56 @@ export const TransactionsList: React.FC = () => {
 
             {/* Results Counter */}
             <p className="text-sm text-muted-foreground text-center">
-              {filteredTransactions.length} transação(ões) encontrada(s)
+              {totals?.count ?? filteredTransactions.length} transação(ões) encontrada(s)
             </p>
           </CardContent>
         </Card>
       )}
 
+      {totals && totals.count > 0 && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <Card>
+            <CardContent className="p-3">
+              <p className="text-xs text-muted-foreground">Receitas</p>
+              <p className="font-semibold text-green-600">{formatCurrency(totals.income)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-3">
+              <p className="text-xs text-muted-foreground">Despesas</p>
+              <p className="font-semibold text-red-600">{formatCurrency(totals.expense)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-3">
+              <p className="text-xs text-muted-foreground">Saldo</p>
+              <p className={`font-semibold ${totals.income - totals.expense >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(totals.income - totals.expense)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {(selectedIds.size > 0 || allMatchingSelected) && (
+        <TransactionBatchActions
+          selectedCount={selectedIds.size}
+          matchingCount={totals?.count ?? filteredTransactions.length}
+          allMatchingSelected={allMatchingSelected}
+          categories={categories}
+          accounts={accounts}
+          isApplying={isApplying}
+          onSelectAllMatching={() => setAllMatchingSelected(true)}
+          onClear={clearSelection}
+          onApply={handleBatchApply}
+        />
+      )}
+
+      <InstallmentPlanDialog
+        planId={installmentPlanId}
+        onOpenChange={(open) => !open && setInstallmentPlanId(null)}
+      />
+
       {filteredTransactions.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-8">
@@ -277,18 +371,54 @@ export const TransactionsList: React.FC = () => {
         </Card>
       ) : (
         <div className="space-y-3">
-          {filteredTransactions.map((transaction) => (
+          <div className="flex items-center space-x-2 px-1">
+            <Checkbox
+              id="select-all-loaded"
+              checked={allMatchingSelected || (selectedIds.size > 0 && selectedIds.size === filteredTransactions.length)}
+              onCheckedChange={(checked) => toggleAllLoaded(checked as boolean)}
+            />
+            <label htmlFor="select-all-loaded" className="text-xs text-muted-foreground cursor-pointer">
+              Selecionar transações exibidas
+            </label>
+          </div>
+
+          {filteredTransactions.map((transaction, index) => (
             <Card key={transaction.id}>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
                     <div className="flex items-center space-x-2">
+                      <Checkbox
+                        checked={allMatchingSelected || selectedIds.has(transaction.id)}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          toggleSelection(index, e.shiftKey);
+                        }}
+                        aria-label="Selecionar transação"
+                      />
                       {transaction.category?.icon && (
                         <span className="text-lg">{transaction.category.icon}</span>
                       )}
                       <div className="flex-1">
                         <div className="flex items-center gap-2">
                           <h4 className="font-medium">{transaction.description}</h4>
+                          {isSplitTransaction(transaction) && (
+                            <Badge variant="outline" className="text-xs gap-1">
+                              <Split className="h-3 w-3" />
+                              Dividida
+                            </Badge>
+                          )}
+                          {isInstallment(transaction) && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs gap-1 cursor-pointer"
+                              title="Ver e alterar as parcelas da compra"
+                              onClick={() => setInstallmentPlanId(transaction.installment_plan_id!)}
+                            >
+                              <CreditCard className="h-3 w-3" />
+                              {getInstallmentLabel(transaction)}
+                            </Badge>
+                          )}
                           {transaction.is_recurring && (
                             <Badge variant="outline" className="text-xs gap-1">
                               <Repeat className="h-3 w-3" />
@@ -297,7 +427,13 @@ export const TransactionsList: React.FC = () => {
                           )}
                         </div>
                         <div className="flex items-center space-x-2 text-xs text-muted-foreground">
-                          <span>{transaction.category?.name || 'Sem categoria'}</span>
+                          <span>
+                            {isTransfer(transaction)
+                              ? getTransferLabel(transaction)
+                              : isSplitTransaction(transaction)
+                                ? `${transaction.splits!.length} categorias`
+                                : transaction.category?.name || 'Sem categoria'}
+                          </span>
                           <span>•</span>
                           <span>{transaction.account?.name}</span>
                           <span>•</span>
@@ -312,10 +448,15 @@ export const TransactionsList: React.FC = () => {
                   <div className="flex items-center space-x-3">
                     <div className="text-right">
                       <p className={`font-semibold ${getTypeColor(transaction.type)}`}>
-                        {transaction.type === 'expense' && '-'}
+                        {getSignedAmount(transaction) < 0 && '-'}
                         {formatCurrency(transaction.amount)}
                       </p>
                       <p className="text-xs text-muted-foreground">{getTypeLabel(transaction.type)}</p>
+                      {transaction.running_balance !== undefined && (
+                        <p className="text-xs text-muted-foreground" title="Saldo da conta após esta transação">
+                          Saldo: {formatCurrency(transaction.running_balance)}
+                        </p>
+                      )}
                     </div>
 
                     <div className="flex space-x-1">
@@ -336,14 +477,17 @@ export const TransactionsList: React.FC = () => {
                           <AlertDialogHeader>
                             <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
                             <AlertDialogDescription>
-                              Tem certeza que deseja excluir esta transação? Esta ação não pode ser
-                              desfeita.
+                              {isTransfer(transaction)
+                                ? 'Tem certeza que deseja excluir esta transferência? As duas contas envolvidas serão ajustadas. Esta ação não pode ser desfeita.'
+                                : 'Tem certeza que deseja excluir esta transação? Esta ação não pode ser desfeita.'}
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
                             <AlertDialogCancel>Cancelar</AlertDialogCancel>
                             <AlertDialogAction
-                              onClick={() => deleteTransaction(transaction.id)}
+                              onClick={() => (isTransfer(transaction)
+                                ? deleteTransfer(transaction.id)
+                                : deleteTransaction(transaction.id))}
                               className="bg-red-600 hover:bg-red-700"
                             >
                               Excluir
@@ -355,12 +499,43 @@ export const TransactionsList: React.FC = () => {
                   </div>
                 </div>
 
+                {isSplitTransaction(transaction) && (
+                  <div className="mt-2 pl-8 space-y-1">
+                    {getCategoryLines([transaction]).map((line, index) => (
+                      <div key={index} className="flex items-center justify-between text-sm">
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <span>{line.category?.icon}</span>
+                          <span>{line.category?.name || 'Sem categoria'}</span>
+                          {line.tags.map(tag => (
+                            <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                          ))}
+                          {line.notes && <span className="text-xs italic">{line.notes}</span>}
+                        </div>
+                        <span className={getTypeColor(transaction.type)}>{formatCurrency(line.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {transaction.notes && (
                   <p className="text-sm text-muted-foreground mt-2 pl-8">{transaction.notes}</p>
                 )}
               </CardContent>
             </Card>
           ))}
+
+          {hasNextPage && (
+            <div ref={loadMoreRef} className="flex justify-center py-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? 'Carregando...' : 'Carregar mais'}
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
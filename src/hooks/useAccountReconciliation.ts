@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+import type { AccountBalanceCheck } from '@/utils/accountReconciliation';
+
+/**
+ * Conferência dos saldos: compara o saldo gravado de cada conta com o calculado
+ * (saldo inicial + transações concluídas) e corrige quando o usuário confirma.
+ */
+export const useAccountReconciliation = ({ enabled = true }: { enabled?: boolean } = {}) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: checks = [], isLoading, isFetching } = useQuery({
+    queryKey: ['accounts', 'balance-checks', user?.id],
+    queryFn: async (): Promise<AccountBalanceCheck[]> => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('account_balances')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Erro ao conferir saldos:', error);
+        throw error;
+      }
+
+      return (data || []).map(row => ({
+        accountId: row.account_id!,
+        openingBalance: Number(row.opening_balance || 0),
+        storedBalance: Number(row.stored_balance || 0),
+        completedTotal: Number(row.completed_total || 0),
+        computedBalance: Number(row.computed_balance || 0),
+        difference: Number(row.difference || 0),
+        pendingTotal: Number(row.pending_total || 0),
+        cancelledTotal: Number(row.cancelled_total || 0),
+        transactionCount: Number(row.transaction_count || 0),
+        lastTransactionDate: row.last_transaction_date,
+      }));
+    },
+    enabled: !!user && enabled,
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async (accountId: string) => {
+      const { data, error } = await supabase.rpc('reconcile_account_balance', {
+        p_account_id: accountId,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      toast.success('Saldo corrigido com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao corrigir saldo:', error);
+      toast.error(error.message || 'Erro ao corrigir saldo');
+    },
+  });
+
+  return {
+    checks,
+    loading: isLoading,
+    isRefreshing: isFetching,
+    reconcileAccount: reconcileMutation.mutate,
+    isReconciling: reconcileMutation.isPending,
+  };
+};
@@ -9,6 +9,8 @@ export interface Account {
   name: string;
   type: 'checking' | 'savings' | 'credit_card' | 'wallet' | 'investment';
   balance: number;
+  // Saldo antes de qualquer transação; o saldo é este valor + transações concluídas
+  opening_balance?: number;
   credit_limit?: number;
   due_day?: number;
   closing_day?: number;
@@ -1,14 +1,52 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { toast } from 'sonner';
 
+export type RuleConditionField =
+  | 'description'
+  | 'merchant'
+  | 'amount'
+  | 'day_of_month'
+  | 'weekday'
+  | 'date'
+  | 'category'
+  | 'account_id'
+  | 'type'
+  | 'tags'
+  | 'status';
+
+export type RuleConditionOperator =
+  | 'contains'
+  | 'not_contains'
+  | 'equals'
+  | 'not_equals'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches_regex'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'in'
+  | 'before'
+  | 'after';
+
 export interface RuleCondition {
-  field: 'description' | 'amount' | 'merchant' | 'day_of_month' | 'category';
-  operator: 'contains' | 'equals' | 'greater_than' | 'less_than' | 'starts_with' | 'ends_with';
-  value: string | number;
+  field: RuleConditionField;
+  operator: RuleConditionOperator;
+  value: string | number | Array<string | number>;
+  // Limite superior para o operador 'between'
+  value_to?: string | number;
 }
 
+export interface RuleConditionGroup {
+  logic: 'and' | 'or' | 'not';
+  conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
 export interface RuleAction {
   type: 'set_category' | 'set_recurring' | 'send_alert' | 'apply_tag';
   value: string;
@@ -20,7 +58,7 @@ export interface AutomationRule {
   name: string;
   enabled: boolean;
   rule_type: 'categorization' | 'recurring' | 'budget' | 'alert';
-  conditions: RuleCondition[];
+  conditions: RuleConditionNode[];
   actions: RuleAction[];
   priority: number;
   times_triggered: number;
@@ -32,12 +70,45 @@ export interface AutomationRule {
 export interface CreateRuleInput {
   name: string;
   rule_type: 'categorization' | 'recurring' | 'budget' | 'alert';
-  conditions: RuleCondition[];
+  conditions: RuleConditionNode[];
   actions: RuleAction[];
   priority?: number;
   enabled?: boolean;
 }
 
+export interface SimulateRuleInput {
+  rule_id?: string;
+  conditions: RuleConditionNode[];
+  actions: RuleAction[];
+  priority?: number;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface RuleSimulationMatch {
+  transaction_id: string;
+  date: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense' | 'transfer';
+  current_category_id: string | null;
+  proposed_category_id: string | null;
+  current_tags: string[];
+  proposed_tags: string[];
+  // Regra de maior prioridade que definiria outra categoria para a transação
+  overridden_by_rule_id: string | null;
+  conflicting_rule_ids: string[];
+}
+
+const toSimulationArgs = (input: SimulateRuleInput) => ({
+  p_conditions: input.conditions as unknown as Json,
+  p_actions: input.actions as unknown as Json,
+  p_priority: input.priority ?? 1,
+  p_rule_id: input.rule_id,
+  p_start_date: input.start_date,
+  p_end_date: input.end_date,
+});
+
 export const useAutomationRules = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -59,7 +130,7 @@ export const useAutomationRules = () => {
     // Type cast to ensure compatibility
     return (data || []).map(rule => ({
       ...rule,
-      conditions: rule.conditions as unknown as RuleCondition[],
+      conditions: rule.conditions as unknown as RuleConditionNode[],
       actions: rule.actions as unknown as RuleAction[],
       rule_type: rule.rule_type as 'categorization' | 'recurring' | 'budget' | 'alert'
     }));
@@ -176,6 +247,51 @@ export const useAutomationRules = () => {
     },
   });
 
+  // Executa a regra sobre o histórico sem alterar nenhuma transação
+  const simulateRule = async (input: SimulateRuleInput): Promise<RuleSimulationMatch[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase.rpc('simulate_automation_rule', toSimulationArgs(input));
+
+    if (error) {
+      console.error('Erro ao simular regra:', error);
+      throw error;
+    }
+
+    return (data || []).map(match => ({
+      ...match,
+      type: match.type as RuleSimulationMatch['type'],
+      current_tags: match.current_tags || [],
+      proposed_tags: match.proposed_tags || [],
+      conflicting_rule_ids: match.conflicting_rule_ids || [],
+    }));
+  };
+
+  const applyRetroactivelyMutation = useMutation({
+    mutationFn: async ({ transaction_ids, ...input }: SimulateRuleInput & { transaction_ids?: string[] }) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const { data, error } = await supabase.rpc('apply_automation_rule_retroactively', {
+        ...toSimulationArgs(input),
+        p_transaction_ids: transaction_ids,
+      });
+
+      if (error) throw error;
+      return data ?? 0;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      toast.success(`${count} transação(ões) atualizada(s) pela regra`);
+    },
+    onError: (error) => {
+      console.error('Erro ao aplicar regra retroativamente:', error);
+      toast.error('Erro ao aplicar regra retroativamente');
+    },
+  });
+
   return {
     rules,
     loading: isLoading,
@@ -187,6 +303,9 @@ export const useAutomationRules = () => {
     isUpdating: updateRuleMutation.isPending,
     isDeleting: deleteRuleMutation.isPending,
     isToggling: toggleRuleMutation.isPending,
+    simulateRule,
+    applyRuleRetroactively: applyRetroactivelyMutation.mutate,
+    isApplyingRetroactively: applyRetroactivelyMutation.isPending,
     refetch: () => queryClient.invalidateQueries({ queryKey: ['automation_rules'] }),
   };
 };
\ No newline at end of file
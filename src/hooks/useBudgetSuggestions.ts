@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+import { format, endOfMonth } from 'date-fns';
+import { BudgetSuggestion, MonthlyTotal, getHistoryMonths, suggestBudget } from '@/utils/budgetSuggestions';
+
+export interface CreateSuggestedBudgetsInput {
+  // Primeiro dia do mês dos orçamentos
+  month: string;
+  items: { category_id: string; amount: number }[];
+}
+
+const NO_SUGGESTIONS: BudgetSuggestion[] = [];
+
+/**
+ * Sugestões de orçamento mensal por categoria (subcategorias somadas na categoria raiz)
+ * a partir dos últimos historyMonths meses completos, e a renda média do mesmo período.
+ */
+export const useBudgetSuggestions = (historyMonths: number, targetMonth: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['budget_suggestions', user?.id, historyMonths, targetMonth],
+    queryFn: async (): Promise<{ suggestions: BudgetSuggestion[]; averageIncome: number }> => {
+      if (!user) return { suggestions: [], averageIncome: 0 };
+
+      const months = getHistoryMonths(historyMonths);
+      const { data: totals, error } = await supabase.rpc('monthly_category_totals', {
+        p_start: months[0],
+        p_end: format(endOfMonth(new Date(`${months[months.length - 1]}T00:00:00`)), 'yyyy-MM-dd'),
+      });
+
+      if (error) {
+        console.error('Erro ao buscar histórico de gastos:', error);
+        throw error;
+      }
+
+      const expensesByCategory = new Map<string, MonthlyTotal[]>();
+      let totalIncome = 0;
+      (totals || []).forEach(row => {
+        if (row.type === 'income') {
+          totalIncome += Number(row.amount);
+          return;
+        }
+        if (!row.category_id) return;
+        const categoryTotals = expensesByCategory.get(row.category_id) || [];
+        categoryTotals.push({ month: row.month, amount: Number(row.amount) });
+        expensesByCategory.set(row.category_id, categoryTotals);
+      });
+
+      const suggestions = Array.from(expensesByCategory.entries())
+        .map(([categoryId, categoryTotals]) => suggestBudget(categoryId, categoryTotals, months, targetMonth))
+        .filter((suggestion): suggestion is BudgetSuggestion => suggestion !== null)
+        .sort((a, b) => b.suggestedAmount - a.suggestedAmount);
+
+      return { suggestions, averageIncome: totalIncome / historyMonths };
+    },
+    enabled: !!user,
+  });
+
+  // Categorias que já têm orçamento mensal no mês são mantidas como estão
+  const createBudgetsMutation = useMutation({
+    mutationFn: async ({ month, items }: CreateSuggestedBudgetsInput) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const monthDate = new Date(`${month}T00:00:00`);
+      const { data: created, error } = await supabase
+        .from('budgets')
+        .upsert(
+          items.map(item => ({
+            user_id: user.id,
+            category_id: item.category_id,
+            amount: item.amount,
+            period_type: 'monthly',
+            start_date: month,
+            month: monthDate.getMonth() + 1,
+            year: monthDate.getFullYear(),
+          })),
+          { onConflict: 'user_id,scope,category_id,tag,account_ids,period_type,start_date', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (error) throw error;
+      return created?.length || 0;
+    },
+    onSuccess: (created, { items }) => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      if (created === items.length) {
+        toast.success(`${created} orçamento(s) criado(s)!`);
+      } else {
+        toast.success(`${created} orçamento(s) criado(s). Categorias que já tinham orçamento no mês foram mantidas.`);
+      }
+    },
+    onError: (error) => {
+      console.error('Erro ao criar orçamentos sugeridos:', error);
+      toast.error(error.message || 'Erro ao criar orçamentos sugeridos');
+    },
+  });
+
+  return {
+    suggestions: data?.suggestions || NO_SUGGESTIONS,
+    averageIncome: data?.averageIncome || 0,
+    loading: isLoading,
+    createBudgets: createBudgetsMutation.mutate,
+    isCreating: createBudgetsMutation.isPending,
+  };
+};
@@ -0,0 +1,231 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+
+export interface BudgetTemplateItem {
+  id: string;
+  category_id: string;
+  amount: number;
+  rollover_enabled: boolean;
+  category?: {
+    id: string;
+    name: string;
+    icon?: string;
+  };
+}
+
+export interface BudgetTemplate {
+  id: string;
+  name: string;
+  // Modelo usado pela rotina que cria os orçamentos do mês seguinte
+  is_active: boolean;
+  items: BudgetTemplateItem[];
+  total_amount: number;
+  created_at: string;
+}
+
+export interface SaveTemplateInput {
+  name: string;
+  // Qualquer dia do mês cujos orçamentos mensais viram o modelo
+  month: string;
+}
+
+export interface ApplyTemplateInput {
+  template_id: string;
+  start_month: string;
+  months: number;
+}
+
+export interface CopyBudgetsInput {
+  from_month: string;
+  to_month: string;
+  months: number;
+}
+
+/**
+ * Modelos de orçamento e ações para criar os orçamentos dos próximos meses a partir
+ * de um modelo ou do mês anterior. Orçamentos já existentes nunca são sobrescritos.
+ */
+export const useBudgetTemplates = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['budget_templates', user?.id],
+    queryFn: async (): Promise<BudgetTemplate[]> => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('budget_templates')
+        .select(`
+          *,
+          budget_template_items(
+            id, category_id, amount, rollover_enabled,
+            categories!budget_template_items_category_id_fkey(id, name, icon)
+          )
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Erro ao buscar modelos de orçamento:', error);
+        throw error;
+      }
+
+      return (data || []).map(template => {
+        const items = (template.budget_template_items || []).map(item => ({
+          id: item.id,
+          category_id: item.category_id,
+          amount: Number(item.amount),
+          rollover_enabled: item.rollover_enabled,
+          category: item.categories ? {
+            id: item.categories.id,
+            name: item.categories.name,
+            icon: item.categories.icon || undefined,
+          } : undefined,
+        }));
+
+        return {
+          id: template.id,
+          name: template.name,
+          is_active: template.is_active,
+          items,
+          total_amount: items.reduce((sum, item) => sum + item.amount, 0),
+          created_at: template.created_at,
+        };
+      });
+    },
+    enabled: !!user,
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ name, month }: SaveTemplateInput) => {
+      const { data, error } = await supabase.rpc('save_budgets_as_template', {
+        p_name: name,
+        p_month: month,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budget_templates'] });
+      toast.success('Modelo de orçamento salvo!');
+    },
+    onError: (error) => {
+      console.error('Erro ao salvar modelo de orçamento:', error);
+      toast.error(error.message || 'Erro ao salvar modelo de orçamento');
+    },
+  });
+
+  const applyTemplateMutation = useMutation({
+    mutationFn: async ({ template_id, start_month, months }: ApplyTemplateInput) => {
+      const { data, error } = await supabase.rpc('apply_budget_template', {
+        p_template_id: template_id,
+        p_start_month: start_month,
+        p_months: months,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast.success(created ? `${created} orçamento(s) criado(s) a partir do modelo!` : 'Os orçamentos do modelo já existiam');
+    },
+    onError: (error) => {
+      console.error('Erro ao aplicar modelo de orçamento:', error);
+      toast.error(error.message || 'Erro ao aplicar modelo de orçamento');
+    },
+  });
+
+  const copyBudgetsMutation = useMutation({
+    mutationFn: async ({ from_month, to_month, months }: CopyBudgetsInput) => {
+      const { data, error } = await supabase.rpc('copy_monthly_budgets', {
+        p_from_month: from_month,
+        p_to_month: to_month,
+        p_months: months,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast.success(created ? `${created} orçamento(s) copiado(s)!` : 'Nenhum orçamento novo para copiar');
+    },
+    onError: (error) => {
+      console.error('Erro ao copiar orçamentos:', error);
+      toast.error(error.message || 'Erro ao copiar orçamentos');
+    },
+  });
+
+  // Apenas um modelo ativo por usuário: o anterior é desativado antes
+  const setActiveTemplateMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      if (is_active) {
+        const { error: deactivateError } = await supabase
+          .from('budget_templates')
+          .update({ is_active: false })
+          .eq('user_id', user.id)
+          .eq('is_active', true);
+
+        if (deactivateError) throw deactivateError;
+      }
+
+      const { error } = await supabase
+        .from('budget_templates')
+        .update({ is_active })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { is_active }) => {
+      queryClient.invalidateQueries({ queryKey: ['budget_templates'] });
+      toast.success(is_active
+        ? 'Os orçamentos de cada mês serão criados automaticamente com este modelo'
+        : 'Criação automática de orçamentos desativada');
+    },
+    onError: (error) => {
+      console.error('Erro ao atualizar modelo de orçamento:', error);
+      toast.error(error.message || 'Erro ao atualizar modelo de orçamento');
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('budget_templates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budget_templates'] });
+      toast.success('Modelo de orçamento excluído!');
+    },
+    onError: (error) => {
+      console.error('Erro ao excluir modelo de orçamento:', error);
+      toast.error(error.message || 'Erro ao excluir modelo de orçamento');
+    },
+  });
+
+  return {
+    templates,
+    loading: isLoading,
+    saveTemplate: saveTemplateMutation.mutate,
+    applyTemplate: applyTemplateMutation.mutate,
+    copyBudgets: copyBudgetsMutation.mutate,
+    setActiveTemplate: setActiveTemplateMutation.mutate,
+    deleteTemplate: deleteTemplateMutation.mutate,
+    isSaving: saveTemplateMutation.isPending,
+    isApplying: applyTemplateMutation.isPending,
+    isCopying: copyBudgetsMutation.isPending,
+  };
+};
@@ -4,12 +4,50 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { toast } from 'sonner';
+import { BudgetPeriodType, getMonthBounds, getProrationFactor } from '@/utils/budgetPeriods';
+
+// Ritmo do orçamento em vigor hoje e projeção para o fim do período
+export interface BudgetPacing {
+  spent_to_date: number;
+  // Parcelas e lançamentos com data futura dentro do período
+  scheduled_amount: number;
+  // Próximas ocorrências das transações recorrentes da categoria
+  recurring_amount: number;
+  daily_rate: number;
+  projected_spent: number;
+  elapsed_days: number;
+  period_days: number;
+}
+
+// Categoria (com as subcategorias), uma tag ou um conjunto de contas
+export type BudgetScope = 'category' | 'tag' | 'accounts';
 
 export interface Budget {
   id: string;
-  category_id: string;
+  scope: BudgetScope;
+  // Obrigatória no escopo de categoria; nos demais, filtra opcionalmente as despesas
+  category_id: string | null;
+  tag: string | null;
+  account_ids: string[] | null;
   amount: number;
+  period_type: BudgetPeriodType;
+  start_date: string;
+  end_date: string;
+  // Despesas do período no escopo (categoria e subcategorias, tag ou contas), calculadas pelo banco
   spent: number;
+  // Modo envelope: a sobra (ou o excesso) passa para o período seguinte
+  rollover_enabled: boolean;
+  // Disponível acumulado dos períodos anteriores do mesmo escopo
+  rolled_over: number;
+  // Orçado + acumulado − gasto
+  available: number;
+  // Fração do período dentro do mês consultado (1 para orçamentos mensais)
+  proration_factor: number;
+  // Despesas do período que caem dentro do mês consultado
+  month_spent: number;
+  // Somente para orçamentos cujo período contém a data de hoje
+  pacing?: BudgetPacing;
+  // Mês e ano de início do período
   month: number;
   year: number;
   created_at: string;
@@ -22,6 +60,21 @@ export interface Budget {
   };
 }
 
+export interface BudgetInput {
+  scope?: BudgetScope;
+  category_id?: string | null;
+  tag?: string | null;
+  account_ids?: string[] | null;
+  amount: number;
+  month: number;
+  year: number;
+  // Sem período explícito, o orçamento é mensal no mês/ano informados
+  period_type?: BudgetPeriodType;
+  start_date?: string;
+  end_date?: string;
+  rollover_enabled?: boolean;
+}
+
 export const useBudgets = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -33,6 +86,9 @@ export const useBudgets = () => {
     const targetMonth = month || currentDate.getMonth() + 1;
     const targetYear = year || currentDate.getFullYear();
     
+    // Orçamentos de qualquer periodicidade cujo período cruza o mês
+    const { start, end } = getMonthBounds(targetMonth, targetYear);
+
     const { data, error } = await supabase
       .from('budgets')
       .select(`
@@ -40,16 +96,63 @@ export const useBudgets = () => {
         categories!budgets_category_id_fkey(id, name, icon, color)
       `)
       .eq('user_id', user.id)
-      .eq('month', targetMonth)
-      .eq('year', targetYear);
+      .lte('start_date', end)
+      .gte('end_date', start)
+      .order('start_date');
 
     if (error) throw error;
+
+    const budgetIds = (data || []).map(item => item.id);
+
+    // Acumulado, gasto e disponível de cada orçamento, contando cada divisão na sua própria categoria,
+    // as subcategorias no orçamento da categoria pai e as tags e contas de cada linha
+    const { data: envelopes, error: envelopesError } = await supabase
+      .rpc('budget_envelopes', { p_user_id: user.id })
+      .in('id', budgetIds);
+
+    if (envelopesError) throw envelopesError;
+
+    // Gasto de cada orçamento somente dentro do mês, para a visão proporcional
+    const { data: monthSpending, error: monthSpendingError } = await supabase.rpc('budget_window_spending', {
+      p_start: start,
+      p_end: end,
+    });
+
+    if (monthSpendingError) throw monthSpendingError;
+
+    const { data: pacing, error: pacingError } = await supabase.rpc('budget_pacing');
+
+    if (pacingError) throw pacingError;
+
+    const envelopeById = new Map((envelopes || []).map(envelope => [envelope.id, envelope]));
+    const monthSpentById = new Map((monthSpending || []).map(row => [row.budget_id, Number(row.spent)]));
+    const pacingById = new Map((pacing || []).map(row => [row.budget_id, {
+      spent_to_date: Number(row.spent_to_date),
+      scheduled_amount: Number(row.scheduled_amount),
+      recurring_amount: Number(row.recurring_amount),
+      daily_rate: Number(row.daily_rate),
+      projected_spent: Number(row.projected_spent),
+      elapsed_days: row.elapsed_days,
+      period_days: row.period_days,
+    }]));
     
     return (data || []).map((item: any) => ({
       id: item.id,
+      scope: item.scope,
       category_id: item.category_id,
+      tag: item.tag,
+      account_ids: item.account_ids,
       amount: item.amount,
-      spent: item.spent || 0,
+      period_type: item.period_type,
+      start_date: item.start_date,
+      end_date: item.end_date,
+      spent: Number(envelopeById.get(item.id)?.spent || 0),
+      rollover_enabled: item.rollover_enabled,
+      rolled_over: Number(envelopeById.get(item.id)?.rolled_over || 0),
+      available: Number(envelopeById.get(item.id)?.available ?? item.amount),
+      proration_factor: getProrationFactor(item, start, end),
+      month_spent: monthSpentById.get(item.id) || 0,
+      pacing: pacingById.get(item.id),
       month: item.month,
       year: item.year,
       created_at: item.created_at,
@@ -70,7 +173,7 @@ export const useBudgets = () => {
   });
 
   const createBudgetMutation = useMutation({
-    mutationFn: async (budgetData: Omit<Budget, 'id' | 'created_at' | 'updated_at' | 'category'>) => {
+    mutationFn: async (budgetData: BudgetInput) => {
       if (!user) throw new Error('User not authenticated');
 
       const { data, error } = await supabase
@@ -90,31 +90,14 @@ export const useBusinessValidation = () => {
 
   const recalculateAccountBalance = async (accountId: string): Promise<void> => {
     try {
-      const { data: transactions, error } = await supabase
-        .from('transactions')
-        .select('amount, type')
-        .eq('account_id', accountId)
-        .eq('status', 'completed');
-
-      if (error) throw error;
-
-      let balance = 0;
-      transactions?.forEach((t) => {
-        if (t.type === 'income') {
-          balance += Number(t.amount);
-        } else if (t.type === 'expense') {
-          balance -= Number(t.amount);
-        }
+      // Saldo inicial + transações concluídas, calculado pelo banco
+      const { data, error } = await supabase.rpc('reconcile_account_balance', {
+        p_account_id: accountId,
       });
 
-      const { error: updateError } = await supabase
-        .from('accounts')
-        .update({ balance })
-        .eq('id', accountId);
-
-      if (updateError) throw updateError;
+      if (error) throw error;
 
-      console.log(`✅ Saldo recalculado para conta ${accountId}: R$ ${balance.toFixed(2)}`);
+      console.log(`✅ Saldo recalculado para conta ${accountId}: R$ ${Number(data.balance).toFixed(2)}`);
     } catch (error) {
       console.error('Erro ao recalcular saldo:', error);
       toast.error('Erro ao recalcular saldo da conta');
@@ -127,37 +110,36 @@ export const useBusinessValidation = () => {
     amount: number
   ): Promise<void> => {
     try {
-      const now = new Date();
-      const month = now.getMonth() + 1;
-      const year = now.getFullYear();
-
-      const { data: budget, error: budgetError } = await supabase
-        .from('budgets')
-        .select('amount, spent')
-        .eq('user_id', userId)
+      const today = new Date().toISOString().split('T')[0];
+
+      // Orçamentos de qualquer periodicidade em vigor hoje, com o gasto já calculado pelo
+      // banco a partir das despesas e o acumulado do envelope
+      const { data: budgets, error: budgetError } = await supabase
+        .rpc('budget_envelopes', { p_user_id: userId })
         .eq('category_id', categoryId)
-        .eq('month', month)
-        .eq('year', year)
-        .maybeSingle();
+        .lte('start_date', today)
+        .gte('end_date', today);
 
       if (budgetError) throw budgetError;
 
-      if (budget) {
-        const newSpent = (budget.spent || 0) + amount;
-        if (newSpent > budget.amount) {
-          const exceeded = newSpent - budget.amount;
+      (budgets || []).forEach(budget => {
+        const label = budget.period_type === 'monthly' ? 'orçamento' : 'orçamento do período';
+        const limit = Number(budget.assigned || 0) + Number(budget.rolled_over || 0);
+        const newSpent = Number(budget.spent || 0) + amount;
+        if (newSpent > limit) {
+          const exceeded = newSpent - limit;
           toast.warning('Orçamento ultrapassado!', {
-            description: `Você excedeu o orçamento em R$ ${exceeded.toFixed(2)}`,
+            description: `Você excedeu o ${label} em R$ ${exceeded.toFixed(2)}`,
             duration: 5000,
           });
-        } else if (newSpent >= budget.amount * 0.8) {
-          const remaining = budget.amount - newSpent;
+        } else if (newSpent >= limit * 0.8) {
+          const remaining = limit - newSpent;
           toast.warning('Atenção ao orçamento', {
-            description: `Restam apenas R$ ${remaining.toFixed(2)} do seu orçamento`,
+            description: `Restam apenas R$ ${remaining.toFixed(2)} do seu ${label}`,
             duration: 5000,
           });
         }
-      }
+      });
     } catch (error) {
       console.error('Erro ao verificar orçamento:', error);
     }
@@ -0,0 +1,227 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+import {
+  CategoryRule,
+  PersistedCategorizationData,
+  isDefaultCategorizationRule,
+} from '@/utils/autoCategorizationEngine';
+import { normalizeCategorizationText } from '@/utils/categorizationText';
+
+export interface CategorizationRuleRecord {
+  id: string;
+  user_id: string;
+  rule_key: string | null;
+  keywords: string[];
+  category_id: string | null;
+  confidence: number;
+  is_active: boolean;
+  exclude_keywords: string[];
+  min_amount: number | null;
+  max_amount: number | null;
+  account_ids: string[];
+  transaction_type: 'income' | 'expense' | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CategorizationLearningRecord {
+  id: string;
+  user_id: string;
+  description: string;
+  category_id: string;
+  count: number;
+  last_used_at: string;
+}
+
+export interface RecordCorrectionInput {
+  description: string;
+  categoryId: string;
+  previousCategoryId?: string | null;
+}
+
+// Regras padrão são identificadas pelo rule_key; as personalizadas, pelo id da linha
+const toCategoryRule = (record: CategorizationRuleRecord): CategoryRule => ({
+  id: record.rule_key ?? record.id,
+  keywords: record.keywords,
+  categoryId: record.category_id ?? '',
+  confidence: Number(record.confidence),
+  isActive: record.is_active,
+  excludeKeywords: record.exclude_keywords ?? [],
+  minAmount: record.min_amount ?? undefined,
+  maxAmount: record.max_amount ?? undefined,
+  accountIds: record.account_ids ?? [],
+  transactionType: record.transaction_type ?? undefined,
+});
+
+// Campos da regra no formato da tabela; undefined remove a restrição
+const toRuleColumns = (rule: Partial<Omit<CategoryRule, 'id'>>) => ({
+  ...(rule.keywords !== undefined && { keywords: rule.keywords }),
+  ...(rule.categoryId !== undefined && { category_id: rule.categoryId }),
+  ...(rule.confidence !== undefined && { confidence: rule.confidence }),
+  ...(rule.isActive !== undefined && { is_active: rule.isActive }),
+  ...('excludeKeywords' in rule && { exclude_keywords: rule.excludeKeywords ?? [] }),
+  ...('minAmount' in rule && { min_amount: rule.minAmount ?? null }),
+  ...('maxAmount' in rule && { max_amount: rule.maxAmount ?? null }),
+  ...('accountIds' in rule && { account_ids: rule.accountIds ?? [] }),
+  ...('transactionType' in rule && { transaction_type: rule.transactionType ?? null }),
+});
+
+export const useCategorizationData = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: ruleRecords = [], isLoading: rulesLoading } = useQuery({
+    queryKey: ['categorization_rules', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as CategorizationRuleRecord[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: learningRecords = [], isLoading: learningLoading } = useQuery({
+    queryKey: ['categorization_learning', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('categorization_learning')
+        .select('id, user_id, description, category_id, count, last_used_at')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return data as CategorizationLearningRecord[];
+    },
+    enabled: !!user,
+  });
+
+  const persistedData = useMemo<PersistedCategorizationData>(() => ({
+    rules: ruleRecords.map(toCategoryRule),
+    learningData: learningRecords.map(record => ({
+      description: record.description,
+      categoryId: record.category_id,
+      count: record.count,
+    })),
+  }), [ruleRecords, learningRecords]);
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (rule: Omit<CategoryRule, 'id'>) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const { data, error } = await supabase
+        .from('categorization_rules')
+        .insert({
+          user_id: user.id,
+          ...toRuleColumns(rule),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categorization_rules'] });
+      toast.success('Regra adicionada com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao criar regra de categorização:', error);
+      toast.error('Erro ao criar regra de categorização');
+    },
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ ruleId, updates }: { ruleId: string; updates: Partial<Omit<CategoryRule, 'id'>> }) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const changes = toRuleColumns(updates);
+
+      // Regras padrão só existem no banco depois do primeiro ajuste do usuário
+      const { error } = isDefaultCategorizationRule(ruleId)
+        ? await supabase
+            .from('categorization_rules')
+            .upsert({ user_id: user.id, rule_key: ruleId, ...changes }, { onConflict: 'user_id,rule_key' })
+        : await supabase
+            .from('categorization_rules')
+            .update(changes)
+            .eq('id', ruleId)
+            .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categorization_rules'] });
+    },
+    onError: (error) => {
+      console.error('Erro ao atualizar regra de categorização:', error);
+      toast.error('Erro ao atualizar regra de categorização');
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const { error } = await supabase
+        .from('categorization_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categorization_rules'] });
+      toast.success('Regra removida com sucesso');
+    },
+    onError: (error) => {
+      console.error('Erro ao remover regra de categorização:', error);
+      toast.error('Erro ao remover regra de categorização');
+    },
+  });
+
+  // Correções feitas pelo usuário alimentam o aprendizado sem interromper o fluxo de edição
+  const recordCorrectionMutation = useMutation({
+    mutationFn: async ({ description, categoryId, previousCategoryId }: RecordCorrectionInput) => {
+      const normalizedDescription = normalizeCategorizationText(description);
+      if (!normalizedDescription) return;
+
+      const { error } = await supabase.rpc('record_categorization_learning', {
+        p_description: normalizedDescription,
+        p_category_id: categoryId,
+        p_previous_category_id: previousCategoryId ?? undefined,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categorization_learning'] });
+    },
+    onError: (error) => {
+      console.error('Erro ao registrar aprendizado de categorização:', error);
+    },
+  });
+
+  return {
+    persistedData,
+    ruleRecords,
+    learningRecords,
+    loading: rulesLoading || learningLoading,
+    createRule: createRuleMutation.mutate,
+    updateRule: updateRuleMutation.mutate,
+    deleteRule: deleteRuleMutation.mutate,
+    recordCorrection: recordCorrectionMutation.mutate,
+    isCreatingRule: createRuleMutation.isPending,
+  };
+};
@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+
+export type CreditCardInvoiceStatus = 'open' | 'closed' | 'partially_paid' | 'paid' | 'overdue';
+
+export interface CreditCardInvoice {
+  id: string;
+  account_id: string;
+  // Primeiro dia do mês em que a fatura fecha
+  reference_month: string;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  total_amount: number;
+  paid_amount: number;
+  outstanding_amount: number;
+  transaction_count: number;
+  status: CreditCardInvoiceStatus;
+}
+
+// Pagamento (total, parcial ou antecipado) de uma fatura a partir de uma conta
+export interface PayInvoiceInput {
+  invoice_id: string;
+  from_account_id: string;
+  amount: number;
+  date: string;
+  notes?: string;
+}
+
+// Juros e IOF do rotativo lançados como despesas do cartão na próxima fatura
+export interface RevolvingChargesInput {
+  account_id: string;
+  date: string;
+  interest: number;
+  iof: number;
+  category_id?: string;
+}
+
+/**
+ * Faturas dos cartões, com período, vencimento, totais e situação calculados no
+ * banco. Sem accountId, traz as faturas de todos os cartões.
+ */
+export const useCreditCardInvoices = (accountId?: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: invoices = [], isLoading } = useQuery({
+    queryKey: ['credit_cards', 'invoices', user?.id],
+    queryFn: async (): Promise<CreditCardInvoice[]> => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('credit_card_invoice_summaries')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('reference_month', { ascending: false });
+
+      if (error) {
+        console.error('Erro ao buscar faturas:', error);
+        throw error;
+      }
+
+      return (data || []).map(row => ({
+        id: row.id!,
+        account_id: row.account_id!,
+        reference_month: row.reference_month!,
+        period_start: row.period_start!,
+        period_end: row.period_end!,
+        due_date: row.due_date!,
+        total_amount: Number(row.total_amount || 0),
+        paid_amount: Number(row.paid_amount || 0),
+        outstanding_amount: Number(row.outstanding_amount || 0),
+        transaction_count: Number(row.transaction_count || 0),
+        status: (row.status || 'open') as CreditCardInvoiceStatus,
+      }));
+    },
+    enabled: !!user,
+  });
+
+  // O pagamento é uma transferência para o cartão: libera o limite e abate da fatura
+  const payInvoiceMutation = useMutation({
+    mutationFn: async (payment: PayInvoiceInput) => {
+      const { data, error } = await supabase.rpc('pay_credit_card_invoice', {
+        p_invoice_id: payment.invoice_id,
+        p_from_account_id: payment.from_account_id,
+        p_amount: payment.amount,
+        p_date: payment.date,
+        p_notes: payment.notes,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      toast.success('Pagamento da fatura registrado com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao pagar fatura:', error);
+      toast.error(error.message || 'Erro ao registrar pagamento da fatura');
+    },
+  });
+
+  const bookRevolvingChargesMutation = useMutation({
+    mutationFn: async ({ account_id, date, interest, iof, category_id }: RevolvingChargesInput) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const charges = [
+        { description: 'Juros do rotativo', amount: interest },
+        { description: 'IOF do rotativo', amount: iof },
+      ].filter(charge => charge.amount > 0);
+
+      const { error } = await supabase
+        .from('transactions')
+        .insert(charges.map(charge => ({
+          ...charge,
+          user_id: user.id,
+          account_id,
+          category_id: category_id || null,
+          type: 'expense' as const,
+          status: 'completed' as const,
+          date,
+        })));
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      toast.success('Juros lançados na próxima fatura!');
+    },
+    onError: (error) => {
+      console.error('Erro ao lançar juros:', error);
+      toast.error(error.message || 'Erro ao lançar juros na fatura');
+    },
+  });
+
+  return {
+    invoices: accountId ? invoices.filter(invoice => invoice.account_id === accountId) : invoices,
+    loading: isLoading,
+    payInvoice: payInvoiceMutation.mutate,
+    isPaying: payInvoiceMutation.isPending,
+    bookRevolvingCharges: bookRevolvingChargesMutation.mutate,
+    isBookingCharges: bookRevolvingChargesMutation.isPending,
+  };
+};
@@ -13,6 +13,8 @@ export interface CreditCard {
   used_amount: number;
   closing_day: number;
   due_day: number;
+  // Juros do rotativo, em % ao mês
+  monthly_interest_rate?: number | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -47,6 +49,7 @@ export const useCreditCards = () => {
       used_amount: (account.credit_limit || 0) - (account.balance || 0),
       closing_day: account.closing_day || 1,
       due_day: account.due_day || 10,
+      monthly_interest_rate: account.monthly_interest_rate,
       is_active: account.is_active || true,
       created_at: account.created_at || '',
       updated_at: account.updated_at || ''
@@ -111,6 +114,7 @@ export const useCreditCards = () => {
       }
       if (updates.closing_day) updateData.closing_day = updates.closing_day;
       if (updates.due_day) updateData.due_day = updates.due_day;
+      if (updates.monthly_interest_rate !== undefined) updateData.monthly_interest_rate = updates.monthly_interest_rate;
       if (updates.is_active !== undefined) updateData.is_active = updates.is_active;
 
       const { data, error } = await supabase
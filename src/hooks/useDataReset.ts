@@ -28,6 +28,8 @@ export const useDataReset = () => {
         
         // 3. Orçamentos (tem FK para categorias)
         { table: 'budgets', name: 'Orçamentos' },
+        { table: 'budget_template_items', name: 'Itens dos Modelos de Orçamento' },
+        { table: 'budget_templates', name: 'Modelos de Orçamento' },
         
         // 4. Metas financeiras
         { table: 'goals', name: 'Metas Financeiras' },
@@ -35,16 +37,20 @@ export const useDataReset = () => {
         // 5. Regras de automação
         { table: 'automation_rules', name: 'Regras de Automação' },
         
-        // 6. Notificações
+        // 6. Regras e aprendizado da auto-categorização
+        { table: 'categorization_rules', name: 'Regras de Categorização' },
+        { table: 'categorization_learning', name: 'Aprendizado de Categorização' },
+        
+        // 7. Notificações
         { table: 'notifications', name: 'Notificações' },
         
-        // 7. Conexões bancárias
+        // 8. Conexões bancárias
         { table: 'bank_connections', name: 'Conexões Bancárias' },
         
-        // 8. Contas e cartões
+        // 9. Contas e cartões
         { table: 'accounts', name: 'Contas e Cartões' },
         
-        // 9. Categorias personalizadas (mantém as padrão criadas no signup)
+        // 10. Categorias personalizadas (mantém as padrão criadas no signup)
         { table: 'categories', name: 'Categorias Personalizadas', where: "created_at > (auth.jwt() -> 'user_metadata' ->> 'created_at')::timestamptz + interval '1 minute'" },
       ];
 
@@ -62,13 +68,24 @@ export const useDataReset = () => {
         toast.info(`✓ ${deletion.name} removido(a)`);
       }
 
+      // O histórico de ações em lote só pode ser apagado pela função do banco
+      const { error: batchesError } = await supabase.rpc('clear_transaction_batches');
+      if (batchesError) {
+        console.error('Erro ao deletar Histórico de Ações em Lote:', batchesError);
+        throw new Error('Falha ao deletar Histórico de Ações em Lote');
+      }
+      toast.info('✓ Histórico de Ações em Lote removido(a)');
+
       // Invalidar todas as queries para forçar re-fetch
       queryClient.invalidateQueries({ queryKey: ['accounts'] });
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budget_templates'] });
       queryClient.invalidateQueries({ queryKey: ['goals'] });
       queryClient.invalidateQueries({ queryKey: ['categories'] });
       queryClient.invalidateQueries({ queryKey: ['automation-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['categorization_rules'] });
+      queryClient.invalidateQueries({ queryKey: ['categorization_learning'] });
       queryClient.invalidateQueries({ queryKey: ['notifications'] });
       queryClient.invalidateQueries({ queryKey: ['bank-connections'] });
 
@@ -3,6 +3,7 @@ import { useTransactions } from './useTransactions';
 import { useAccounts } from './useAccounts';
 import { useCategories } from './useCategories';
 import { useBudgets } from './useBudgets';
+import { getCategoryLines } from '@/utils/transactionSplits';
 import { toast } from 'sonner';
 import jsPDF from 'jspdf';
 import * as XLSX from 'xlsx';
@@ -80,6 +81,19 @@ export const useExportReports = () => {
     };
   };
 
+  // Uma linha por categoria efetiva: transações divididas geram uma linha por divisão
+  const toTransactionRows = (data: ReturnType<typeof filterDataByPeriod>) =>
+    getCategoryLines(data.transactions).map(({ transaction: t, categoryId, amount, notes }) => ({
+      'Data': format(new Date(t.date), 'dd/MM/yyyy'),
+      'Descrição': t.description,
+      'Categoria': data.categories.find(c => c.id === categoryId)?.name || 'Sem categoria',
+      'Conta': data.accounts.find(a => a.id === t.account_id)?.name || 'Conta não encontrada',
+      'Tipo': t.type === 'income' ? 'Receita' : t.type === 'expense' ? 'Despesa' : 'Transferência',
+      'Valor': amount,
+      'Status': t.status === 'completed' ? 'Concluído' : t.status === 'pending' ? 'Pendente' : 'Cancelado',
+      'Observações': notes || ''
+    }));
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -133,11 +147,10 @@ export const useExportReports = () => {
         pdf.text('Gastos por Categoria:', 20, yPosition);
         yPosition += 15;
         
-        const categoryTotals = data.transactions
-          .filter(t => t.type === 'expense')
-          .reduce((acc, t) => {
-            const categoryName = data.categories.find(c => c.id === t.category_id)?.name || 'Sem categoria';
-            acc[categoryName] = (acc[categoryName] || 0) + Number(t.amount);
+        const categoryTotals = getCategoryLines(data.transactions.filter(t => t.type === 'expense'))
+          .reduce((acc, line) => {
+            const categoryName = data.categories.find(c => c.id === line.categoryId)?.name || 'Sem categoria';
+            acc[categoryName] = (acc[categoryName] || 0) + line.amount;
             return acc;
           }, {} as Record<string, number>);
         
@@ -175,16 +188,7 @@ export const useExportReports = () => {
       
       // Aba de Transações
       if (options.includeTransactions) {
-        const transactionData = data.transactions.map(t => ({
-          'Data': format(new Date(t.date), 'dd/MM/yyyy'),
-          'Descrição': t.description,
-          'Categoria': data.categories.find(c => c.id === t.category_id)?.name || 'Sem categoria',
-          'Conta': data.accounts.find(a => a.id === t.account_id)?.name || 'Conta não encontrada',
-          'Tipo': t.type === 'income' ? 'Receita' : t.type === 'expense' ? 'Despesa' : 'Transferência',
-          'Valor': Number(t.amount),
-          'Status': t.status === 'completed' ? 'Concluído' : t.status === 'pending' ? 'Pendente' : 'Cancelado',
-          'Observações': t.notes || ''
-        }));
+        const transactionData = toTransactionRows(data);
         
         const transactionSheet = XLSX.utils.json_to_sheet(transactionData);
         XLSX.utils.book_append_sheet(workbook, transactionSheet, 'Transações');
@@ -192,14 +196,15 @@ export const useExportReports = () => {
       
       // Aba de Resumo por Categoria
       if (options.includeCategories && options.includeTransactions) {
+        const categoryLines = getCategoryLines(data.transactions);
         const categoryData = data.categories.map(category => {
-          const categoryTransactions = data.transactions.filter(t => t.category_id === category.id);
+          const categoryTransactions = categoryLines.filter(line => line.categoryId === category.id);
           const income = categoryTransactions
-            .filter(t => t.type === 'income')
-            .reduce((sum, t) => sum + Number(t.amount), 0);
+            .filter(line => line.transaction.type === 'income')
+            .reduce((sum, line) => sum + line.amount, 0);
           const expenses = categoryTransactions
-            .filter(t => t.type === 'expense')
-            .reduce((sum, t) => sum + Number(t.amount), 0);
+            .filter(line => line.transaction.type === 'expense')
+            .reduce((sum, line) => sum + line.amount, 0);
           
           return {
             'Categoria': category.name,
@@ -237,7 +242,11 @@ export const useExportReports = () => {
         const budgetData = data.budgets.map(budget => {
           const category = data.categories.find(c => c.id === budget.category_id);
           return {
-            'Categoria': category?.name || 'Categoria não encontrada',
+            'Categoria': budget.scope === 'tag'
+              ? `#${budget.tag}${category ? ` (${category.name})` : ''}`
+              : budget.scope === 'accounts'
+                ? `Contas selecionadas${category ? ` (${category.name})` : ''}`
+                : category?.name || 'Categoria não encontrada',
             'Mês': `${String(budget.month).padStart(2, '0')}/${budget.year}`,
             'Orçamento Planejado': Number(budget.amount),
             'Valor Gasto': Number(budget.spent || 0),
@@ -268,16 +277,7 @@ export const useExportReports = () => {
       const data = filterDataByPeriod(options);
       
       if (options.includeTransactions) {
-        const csvData = data.transactions.map(t => ({
-          'Data': format(new Date(t.date), 'dd/MM/yyyy'),
-          'Descrição': t.description,
-          'Categoria': data.categories.find(c => c.id === t.category_id)?.name || 'Sem categoria',
-          'Conta': data.accounts.find(a => a.id === t.account_id)?.name || 'Conta não encontrada',
-          'Tipo': t.type === 'income' ? 'Receita' : t.type === 'expense' ? 'Despesa' : 'Transferência',
-          'Valor': Number(t.amount),
-          'Status': t.status === 'completed' ? 'Concluído' : t.status === 'pending' ? 'Pendente' : 'Cancelado',
-          'Observações': t.notes || ''
-        }));
+        const csvData = toTransactionRows(data);
         
         const worksheet = XLSX.utils.json_to_sheet(csvData);
         const csv = XLSX.utils.sheet_to_csv(worksheet);
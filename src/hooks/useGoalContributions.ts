@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+import { GoalContributionKind } from '@/utils/goalContributions';
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  kind: GoalContributionKind;
+  amount: number;
+  date: string;
+  transaction_id?: string;
+  notes?: string;
+  transaction?: {
+    id: string;
+    description: string;
+    type: 'income' | 'expense' | 'transfer';
+  };
+  created_at: string;
+}
+
+export interface GoalContributionInput {
+  goal_id: string;
+  kind: GoalContributionKind;
+  amount: number;
+  date: string;
+  transaction_id?: string;
+  notes?: string;
+}
+
+/**
+ * Histórico de aportes e resgates de todas as metas do usuário. O valor atual e a
+ * conclusão de cada meta são recalculados pelo banco a cada movimentação.
+ */
+export const useGoalContributions = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: contributions = [], isLoading } = useQuery({
+    queryKey: ['goal_contributions', user?.id],
+    queryFn: async (): Promise<GoalContribution[]> => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('goal_contributions')
+        .select(`
+          *,
+          transactions!goal_contributions_transaction_id_fkey(id, description, type)
+        `)
+        .eq('user_id', user.id)
+        .order('date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Erro ao buscar aportes das metas:', error);
+        throw error;
+      }
+
+      return (data || []).map(item => ({
+        id: item.id,
+        goal_id: item.goal_id,
+        kind: item.kind as GoalContributionKind,
+        amount: Number(item.amount),
+        date: item.date,
+        transaction_id: item.transaction_id || undefined,
+        notes: item.notes || undefined,
+        transaction: item.transactions ? {
+          id: item.transactions.id,
+          description: item.transactions.description,
+          type: item.transactions.type,
+        } : undefined,
+        created_at: item.created_at,
+      }));
+    },
+    enabled: !!user,
+  });
+
+  const addContributionMutation = useMutation({
+    mutationFn: async (input: GoalContributionInput) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const { data, error } = await supabase
+        .from('goal_contributions')
+        .insert([{ ...input, user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { kind }) => {
+      queryClient.invalidateQueries({ queryKey: ['goal_contributions'] });
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      toast.success(kind === 'withdrawal' ? 'Resgate registrado!' : 'Aporte registrado!');
+    },
+    onError: (error) => {
+      console.error('Erro ao registrar movimentação da meta:', error);
+      toast.error(error.message || 'Erro ao registrar movimentação da meta');
+    },
+  });
+
+  const deleteContributionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('goal_contributions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['goal_contributions'] });
+      queryClient.invalidateQueries({ queryKey: ['goals'] });
+      toast.success('Movimentação excluída!');
+    },
+    onError: (error) => {
+      console.error('Erro ao excluir movimentação da meta:', error);
+      toast.error(error.message || 'Erro ao excluir movimentação da meta');
+    },
+  });
+
+  return {
+    contributions,
+    loading: isLoading,
+    addContribution: addContributionMutation.mutate,
+    deleteContribution: deleteContributionMutation.mutate,
+    isAdding: addContributionMutation.isPending,
+    isDeleting: deleteContributionMutation.isPending,
+  };
+};
@@ -10,14 +10,25 @@ export interface Goal {
   name: string;
   description?: string;
   target_amount: number;
+  // Soma dos aportes menos os resgates, calculada pelo banco
   current_amount: number;
   target_date?: string;
+  // Marcada pelo banco quando os aportes atingem o valor alvo
   is_completed: boolean;
   user_id: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface GoalInput {
+  name: string;
+  description?: string;
+  target_amount: number;
+  target_date?: string;
+  // Valor já guardado ao criar a meta, registrado como o primeiro aporte
+  initial_amount?: number;
+}
+
 export const useGoals = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -46,23 +57,25 @@ export const useGoals = () => {
   });
 
   const addGoalMutation = useMutation({
-    mutationFn: async (goalData: Omit<Goal, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+    mutationFn: async ({ name, description, target_amount, target_date, initial_amount }: GoalInput) => {
       if (!user) throw new Error('Usuário não autenticado');
 
-      const { data, error } = await supabase
-        .from('goals')
-        .insert([{
-          ...goalData,
-          user_id: user.id,
-        }])
-        .select()
-        .single();
+      // Meta e aporte inicial são gravados juntos pela função do banco
+      const { data, error } = await supabase.rpc('create_goal', {
+        p_name: name,
+        p_description: description,
+        p_target_amount: target_amount,
+        p_target_date: target_date,
+        p_initial_amount: initial_amount,
+      });
 
       if (error) throw error;
+
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['goals'] });
+      queryClient.invalidateQueries({ queryKey: ['goal_contributions'] });
       toast.success('Meta adicionada com sucesso!');
     },
     onError: (error) => {
@@ -72,7 +85,7 @@ export const useGoals = () => {
   });
 
   const updateGoalMutation = useMutation({
-    mutationFn: async ({ id, ...goalData }: Partial<Goal> & { id: string }) => {
+    mutationFn: async ({ id, ...goalData }: Partial<Omit<GoalInput, 'initial_amount'>> & { id: string }) => {
       const { data, error } = await supabase
         .from('goals')
         .update(goalData)
@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+import type { Transaction } from './useTransactions';
+
+export interface InstallmentPlan {
+  id: string;
+  user_id: string;
+  account_id: string;
+  category_id: string | null;
+  description: string;
+  total_amount: number;
+  installment_count: number;
+  purchase_date: string;
+  status: 'active' | 'cancelled';
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InstallmentPurchaseInput {
+  account_id: string;
+  category_id: string;
+  description: string;
+  total_amount: number;
+  installment_count: number;
+  purchase_date: string;
+  notes?: string;
+  tags?: string[];
+}
+
+// Alterações valem para as parcelas restantes; o novo total é redistribuído entre elas
+export interface UpdateInstallmentPlanInput {
+  id: string;
+  description: string;
+  category_id: string;
+  total_amount?: number;
+}
+
+/**
+ * Compras parceladas no cartão: cada compra gera N parcelas ligadas ao mesmo plano,
+ * uma por fatura, editadas ou canceladas em grupo.
+ */
+export const useInstallments = (planId?: string | null) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['installment_plans', planId, user?.id],
+    queryFn: async () => {
+      const [planResult, installmentsResult] = await Promise.all([
+        supabase.from('installment_plans').select('*').eq('id', planId!).single(),
+        supabase
+          .from('transactions')
+          .select('*')
+          .eq('installment_plan_id', planId!)
+          .order('installment_number', { ascending: true }),
+      ]);
+
+      if (planResult.error || installmentsResult.error) {
+        const error = planResult.error || installmentsResult.error;
+        console.error('Erro ao buscar parcelas:', error);
+        throw error;
+      }
+
+      return {
+        plan: planResult.data as InstallmentPlan,
+        installments: (installmentsResult.data || []) as Transaction[],
+      };
+    },
+    enabled: !!user && !!planId,
+  });
+
+  const invalidateInstallmentQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['installment_plans'] });
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (purchase: InstallmentPurchaseInput) => {
+      const { data, error } = await supabase.rpc('create_installment_purchase', {
+        p_account_id: purchase.account_id,
+        p_category_id: purchase.category_id,
+        p_description: purchase.description,
+        p_total_amount: purchase.total_amount,
+        p_installment_count: purchase.installment_count,
+        p_purchase_date: purchase.purchase_date,
+        p_notes: purchase.notes,
+        p_tags: purchase.tags,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, purchase) => {
+      invalidateInstallmentQueries();
+      toast.success(`Compra parcelada em ${purchase.installment_count}x registrada com sucesso!`);
+    },
+    onError: (error) => {
+      console.error('Erro ao criar compra parcelada:', error);
+      toast.error(error.message || 'Erro ao registrar compra parcelada');
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: UpdateInstallmentPlanInput) => {
+      const { data, error } = await supabase.rpc('update_installment_plan', {
+        p_plan_id: id,
+        p_description: updates.description,
+        p_category_id: updates.category_id,
+        p_total_amount: updates.total_amount,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidateInstallmentQueries();
+      toast.success('Parcelas atualizadas com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao atualizar parcelas:', error);
+      toast.error(error.message || 'Erro ao atualizar parcelas');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc('cancel_installment_plan', { p_plan_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidateInstallmentQueries();
+      toast.success('Parcelas restantes canceladas com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao cancelar parcelas:', error);
+      toast.error(error.message || 'Erro ao cancelar parcelas');
+    },
+  });
+
+  return {
+    plan: data?.plan ?? null,
+    installments: data?.installments ?? [],
+    loading: isLoading,
+    createInstallmentPurchase: createMutation.mutate,
+    updateInstallmentPlan: updateMutation.mutate,
+    cancelInstallmentPlan: cancelMutation.mutate,
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+    isCancelling: cancelMutation.isPending,
+  };
+};
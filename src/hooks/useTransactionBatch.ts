@@ -0,0 +1,124 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { toast } from 'sonner';
+import { TransactionFilters, toFilterArgs } from './useTransactionFeed';
+
+export type TransactionBatchAction =
+  | 'recategorize'
+  | 'add_tags'
+  | 'remove_tags'
+  | 'move_account'
+  | 'set_status'
+  | 'delete';
+
+export interface TransactionBatchParams {
+  category_id?: string;
+  tags?: string[];
+  account_id?: string;
+  status?: 'pending' | 'completed' | 'cancelled';
+}
+
+export interface ApplyTransactionBatchInput {
+  action: TransactionBatchAction;
+  params?: TransactionBatchParams;
+  // Seleção explícita ou todas as transações que atendem aos filtros atuais
+  transactionIds?: string[];
+  filters?: TransactionFilters;
+}
+
+export const BATCH_ACTION_LABELS: Record<TransactionBatchAction, string> = {
+  recategorize: 'Recategorizar',
+  add_tags: 'Adicionar tags',
+  remove_tags: 'Remover tags',
+  move_account: 'Mover para conta',
+  set_status: 'Alterar status',
+  delete: 'Excluir',
+};
+
+// Janela em que o aviso de conclusão oferece desfazer (o banco aceita por 10 minutos)
+const UNDO_TOAST_DURATION = 15000;
+
+// Filtros da lista no formato esperado por apply_transaction_batch (p_filters)
+const toBatchFilters = (filters: TransactionFilters): Json => {
+  const args = toFilterArgs(filters);
+  return {
+    query: args.p_query ?? null,
+    type: args.p_type ?? null,
+    category_id: args.p_category_id ?? null,
+    account_id: args.p_account_id ?? null,
+    start_date: args.p_start_date ?? null,
+    end_date: args.p_end_date ?? null,
+  };
+};
+
+export const useTransactionBatch = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidateAffected = () => {
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+  };
+
+  const undoBatchMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const { data, error } = await supabase.rpc('undo_transaction_batch', { p_batch_id: batchId });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      invalidateAffected();
+      toast.success(`${count} transação(ões) restaurada(s)`);
+    },
+    onError: (error) => {
+      console.error('Erro ao desfazer ação em lote:', error);
+      toast.error(error.message || 'Erro ao desfazer ação em lote');
+    },
+  });
+
+  const applyBatchMutation = useMutation({
+    mutationFn: async ({ action, params = {}, transactionIds, filters }: ApplyTransactionBatchInput) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const { data, error } = await supabase.rpc('apply_transaction_batch', {
+        p_action: action,
+        p_params: params as Json,
+        p_transaction_ids: filters ? undefined : transactionIds,
+        p_filters: filters ? toBatchFilters(filters) : undefined,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (batch) => {
+      invalidateAffected();
+
+      const skipped = batch.skipped_count > 0 ? ` (${batch.skipped_count} ignorada(s))` : '';
+      toast.success(`${BATCH_ACTION_LABELS[batch.action as TransactionBatchAction]}: ${batch.affected_count} transação(ões)${skipped}`, {
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: 'Desfazer',
+          onClick: () => undoBatchMutation.mutate(batch.id),
+        },
+      });
+    },
+    onError: (error) => {
+      console.error('Erro ao aplicar ação em lote:', error);
+      toast.error(error.message || 'Erro ao aplicar ação em lote');
+    },
+  });
+
+  return {
+    applyBatch: applyBatchMutation.mutateAsync,
+    undoBatch: undoBatchMutation.mutate,
+    isApplying: applyBatchMutation.isPending,
+    isUndoing: undoBatchMutation.isPending,
+  };
+};
@@ -0,0 +1,186 @@
+import { useMemo } from 'react';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { format, startOfMonth, startOfYear, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import type { Transaction } from './useTransactions';
+import { parseTransactionQuery, toQueryFilterJson } from '@/utils/transactionQuery';
+
+export interface TransactionFilters {
+  search: string;
+  type: string;
+  categoryId: string;
+  accountId: string;
+  period: string;
+}
+
+export interface TransactionTotals {
+  count: number;
+  income: number;
+  expense: number;
+}
+
+interface TransactionPageCursor {
+  date: string;
+  id: string;
+}
+
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilters = {
+  search: '',
+  type: 'all',
+  categoryId: 'all',
+  accountId: 'all',
+  period: 'all',
+};
+
+const PAGE_SIZE = 50;
+
+const TRANSACTION_SELECT = `
+  *,
+  category:categories(id, name, icon, color),
+  account:accounts!transactions_account_id_fkey(id, name),
+  splits:transaction_splits(id, transaction_id, category_id, amount, tags, notes, position, category:categories(id, name, icon, color))
+`;
+
+// Intervalo de datas de cada período do filtro, no formato das colunas DATE
+const getPeriodRange = (period: string): { start?: string; end?: string } => {
+  const today = new Date();
+  const toDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+  switch (period) {
+    case 'today':
+      return { start: toDate(today), end: toDate(today) };
+    case 'week':
+      return { start: toDate(subDays(today, 7)) };
+    case 'month':
+      return { start: toDate(startOfMonth(today)) };
+    case 'year':
+      return { start: toDate(startOfYear(today)) };
+    default:
+      return {};
+  }
+};
+
+// Filtros da lista no formato dos argumentos das funções do banco; a busca
+// é interpretada pela linguagem de consulta e enviada como lista de cláusulas
+export const toFilterArgs = (filters: TransactionFilters) => {
+  const { start, end } = getPeriodRange(filters.period);
+
+  return {
+    p_query: toQueryFilterJson(parseTransactionQuery(filters.search)),
+    p_type: filters.type !== 'all' ? filters.type : undefined,
+    p_category_id: filters.categoryId !== 'all' ? filters.categoryId : undefined,
+    p_account_id: filters.accountId !== 'all' ? filters.accountId : undefined,
+    p_start_date: start,
+    p_end_date: end,
+  };
+};
+
+/**
+ * Feed de transações com paginação por cursor: filtros e totais são resolvidos
+ * no banco, e apenas as páginas já exibidas ficam em memória.
+ */
+export const useTransactionFeed = (filters: TransactionFilters) => {
+  const { user } = useAuth();
+  const filterArgs = useMemo(() => toFilterArgs(filters), [filters]);
+
+  const feedQuery = useInfiniteQuery({
+    queryKey: ['transactions', 'feed', user?.id, filterArgs],
+    queryFn: async ({ pageParam }): Promise<Transaction[]> => {
+      const { data, error } = await supabase
+        .rpc('get_transactions_page', {
+          ...filterArgs,
+          p_cursor_date: pageParam?.date,
+          p_cursor_id: pageParam?.id,
+          p_limit: PAGE_SIZE,
+        })
+        .select(TRANSACTION_SELECT)
+        .order('date', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (error) {
+        console.error('Erro ao buscar transações:', error);
+        throw error;
+      }
+
+      const page = (data || []) as unknown as Transaction[];
+      if (page.length === 0) return page;
+
+      // Saldo da conta após cada transação da página (saldo inicial + concluídas até ela)
+      const { data: balances, error: balancesError } = await supabase
+        .from('transaction_running_balances')
+        .select('transaction_id, running_balance')
+        .in('transaction_id', page.map(transaction => transaction.id));
+
+      if (balancesError) throw balancesError;
+
+      const balanceById = new Map((balances || []).map(row => [row.transaction_id, row.running_balance]));
+      return page.map(transaction => ({
+        ...transaction,
+        running_balance: balanceById.get(transaction.id) ?? undefined,
+      }));
+    },
+    initialPageParam: undefined as TransactionPageCursor | undefined,
+    getNextPageParam: (lastPage): TransactionPageCursor | undefined => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { date: last.date, id: last.id };
+    },
+    // Mantém a lista anterior na tela enquanto os novos filtros são consultados
+    placeholderData: keepPreviousData,
+    enabled: !!user,
+  });
+
+  const { data: totals, isLoading: totalsLoading } = useQuery({
+    queryKey: ['transactions', 'totals', user?.id, filterArgs],
+    queryFn: async (): Promise<TransactionTotals> => {
+      const { data, error } = await supabase.rpc('get_transaction_totals', filterArgs);
+
+      if (error) throw error;
+
+      const row = data?.[0];
+      return {
+        count: Number(row?.transaction_count || 0),
+        income: Number(row?.income_total || 0),
+        expense: Number(row?.expense_total || 0),
+      };
+    },
+    placeholderData: keepPreviousData,
+    enabled: !!user,
+  });
+
+  const transactions = useMemo(
+    () => feedQuery.data?.pages.flat() ?? [],
+    [feedQuery.data]
+  );
+
+  return {
+    transactions,
+    totals,
+    loading: feedQuery.isLoading,
+    isPlaceholderData: feedQuery.isPlaceholderData,
+    totalsLoading,
+    hasNextPage: feedQuery.hasNextPage,
+    isFetchingNextPage: feedQuery.isFetchingNextPage,
+    fetchNextPage: feedQuery.fetchNextPage,
+  };
+};
+
+// Tags já usadas, da mais para a menos frequente (autocompletar da busca)
+export const useTransactionTags = () => {
+  const { user } = useAuth();
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['transactions', 'tags', user?.id],
+    queryFn: async (): Promise<string[]> => {
+      const { data, error } = await supabase.rpc('get_transaction_tags');
+
+      if (error) throw error;
+      return (data || []).map(row => row.tag);
+    },
+    enabled: !!user,
+  });
+
+  return tags;
+};
+
@@ -1,9 +1,34 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { toast } from 'sonner';
 
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  category_id: string | null;
+  amount: number;
+  tags: string[];
+  notes: string | null;
+  position: number;
+  category?: {
+    id: string;
+    name: string;
+    icon?: string;
+    color?: string;
+  };
+}
+
+// Linha de divisão enviada ao salvar; as linhas devem somar o valor da transação
+export interface TransactionSplitInput {
+  category_id: string;
+  amount: number;
+  tags: string[];
+  notes: string;
+}
+
 export interface Transaction {
   id: string;
   user_id: string;
@@ -17,6 +42,15 @@ export interface Transaction {
   tags?: string[];
   status: 'pending' | 'completed' | 'cancelled';
   transfer_account_id?: string;
+  // Transferências são pares de transações: débito na origem e crédito no destino
+  transfer_direction?: 'debit' | 'credit';
+  transfer_pair_id?: string;
+  // Parcela de uma compra parcelada no cartão ("3/10")
+  installment_plan_id?: string;
+  installment_number?: number;
+  installment_count?: number;
+  // Fatura do cartão à qual a transação foi alocada
+  invoice_id?: string;
   is_recurring?: boolean;
   recurrence_frequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
   recurrence_end_date?: string;
@@ -33,6 +67,9 @@ export interface Transaction {
     id: string;
     name: string;
   };
+  splits?: TransactionSplit[];
+  // Saldo da conta após a transação; preenchido pelo feed paginado
+  running_balance?: number;
 }
 
 export interface CreateTransactionInput {
@@ -50,9 +87,51 @@ export interface CreateTransactionInput {
   recurrence_frequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
   recurrence_end_date?: string;
   receiptFile?: File;
+  splits?: TransactionSplitInput[];
+}
+
+export type UpdateTransactionInput = Partial<Omit<Transaction, 'splits'>> & {
+  id: string;
+  receiptFile?: File;
+  // undefined mantém as divisões atuais; lista vazia desfaz a divisão
+  splits?: TransactionSplitInput[];
+};
+
+// Transferência entre contas; as duas pernas são gravadas juntas pela função do banco
+export interface TransferInput {
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string;
+  date: string;
+  status: 'pending' | 'completed' | 'cancelled';
+  notes?: string;
+  tags?: string[];
+  is_recurring?: boolean;
+  recurrence_frequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  recurrence_end_date?: string;
+  receiptFile?: File;
 }
 
-export const useTransactions = () => {
+export type UpdateTransferInput = Omit<TransferInput, 'tags' | 'is_recurring' | 'recurrence_frequency' | 'recurrence_end_date'> & {
+  // Qualquer uma das pernas da transferência
+  id: string;
+};
+
+const toSplitsJson = (splits: TransactionSplitInput[]): Json =>
+  splits.map(split => ({
+    category_id: split.category_id || null,
+    amount: Number(split.amount),
+    tags: split.tags.map(tag => tag.trim()).filter(Boolean),
+    notes: split.notes,
+  })) as unknown as Json;
+
+export interface UseTransactionsOptions {
+  // Telas que usam o feed paginado só precisam das mutações, sem carregar o histórico inteiro
+  loadAll?: boolean;
+}
+
+export const useTransactions = ({ loadAll = true }: UseTransactionsOptions = {}) => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
@@ -64,7 +143,8 @@ export const useTransactions = () => {
       .select(`
         *,
         category:categories(id, name, icon, color),
-        account:accounts!transactions_account_id_fkey(id, name)
+        account:accounts!transactions_account_id_fkey(id, name),
+        splits:transaction_splits(id, transaction_id, category_id, amount, tags, notes, position, category:categories(id, name, icon, color))
       `)
       .eq('user_id', user.id)
       .order('date', { ascending: false });
@@ -74,7 +154,7 @@ export const useTransactions = () => {
       throw error;
     }
     
-    return data || [];
+    return (data || []) as Transaction[];
   };
 
   const fetchSyncedTransactions = async () => {
@@ -100,7 +180,7 @@ export const useTransactions = () => {
   const { data: transactions = [], isLoading, error } = useQuery({
     queryKey: ['transactions', user?.id],
     queryFn: fetchTransactions,
-    enabled: !!user,
+    enabled: !!user && loadAll,
   });
 
   const { data: syncedTransactions = [] } = useQuery({
@@ -129,7 +209,7 @@ export const useTransactions = () => {
   };
 
   const createTransactionMutation = useMutation({
-    mutationFn: async ({ receiptFile, ...transactionData }: CreateTransactionInput) => {
+    mutationFn: async ({ receiptFile, splits, ...transactionData }: CreateTransactionInput) => {
       if (!user) throw new Error('Usuário não autenticado');
 
       let receipt_image_url;
@@ -137,23 +217,23 @@ export const useTransactions = () => {
         receipt_image_url = await uploadReceipt(receiptFile);
       }
 
-      const { data, error } = await supabase
-        .from('transactions')
-        .insert([{ 
-          ...transactionData, 
-          user_id: user.id,
-          receipt_image_url 
-        }])
-        .select()
-        .single();
+      // Transação e divisões são gravadas juntas pela função do banco
+      const { data, error } = await supabase.rpc('create_transaction', {
+        p_transaction: { ...transactionData, receipt_image_url } as unknown as Json,
+        p_splits: splits && splits.length > 0 ? toSplitsJson(splits) : undefined,
+      });
 
       if (error) throw error;
+
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
       queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
       toast.success('Transação adicionada com sucesso!');
     },
     onError: (error) => {
@@ -163,28 +243,31 @@ export const useTransactions = () => {
   });
 
   const updateTransactionMutation = useMutation({
-    mutationFn: async ({ id, receiptFile, ...updates }: Partial<Transaction> & { id: string; receiptFile?: File }) => {
+    mutationFn: async ({ id, receiptFile, splits, ...updates }: UpdateTransactionInput) => {
       let receipt_image_url = updates.receipt_image_url;
       
       if (receiptFile) {
         receipt_image_url = await uploadReceipt(receiptFile);
       }
 
-      const { data, error } = await supabase
-        .from('transactions')
-        .update({ ...updates, receipt_image_url })
-        .eq('id', id)
-        .eq('user_id', user?.id)
-        .select()
-        .single();
+      // Transação e divisões são gravadas juntas pela função do banco
+      const { data, error } = await supabase.rpc('update_transaction', {
+        p_transaction_id: id,
+        p_changes: { ...updates, receipt_image_url } as unknown as Json,
+        p_splits: splits !== undefined ? toSplitsJson(splits) : undefined,
+      });
 
       if (error) throw error;
+
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
       queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['automation_rules'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
       toast.success('Transação atualizada com sucesso!');
     },
     onError: (error) => {
@@ -206,6 +289,7 @@ export const useTransactions = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
       queryClient.invalidateQueries({ queryKey: ['budgets'] });
       toast.success('Transação excluída com sucesso!');
     },
@@ -215,6 +299,88 @@ export const useTransactions = () => {
     },
   });
 
+  const invalidateTransferQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['credit_cards'] });
+  };
+
+  const createTransferMutation = useMutation({
+    mutationFn: async ({ receiptFile, ...transfer }: TransferInput) => {
+      const receipt_image_url = receiptFile ? await uploadReceipt(receiptFile) : undefined;
+
+      const { data, error } = await supabase.rpc('create_transfer', {
+        p_from_account_id: transfer.from_account_id,
+        p_to_account_id: transfer.to_account_id,
+        p_amount: transfer.amount,
+        p_description: transfer.description,
+        p_date: transfer.date,
+        p_status: transfer.status,
+        p_notes: transfer.notes,
+        p_tags: transfer.tags,
+        p_is_recurring: transfer.is_recurring,
+        p_recurrence_frequency: transfer.recurrence_frequency,
+        p_recurrence_end_date: transfer.recurrence_end_date,
+        p_receipt_image_url: receipt_image_url,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidateTransferQueries();
+      toast.success('Transferência registrada com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao criar transferência:', error);
+      toast.error(error.message || 'Erro ao registrar transferência');
+    },
+  });
+
+  const updateTransferMutation = useMutation({
+    mutationFn: async ({ id, receiptFile, ...transfer }: UpdateTransferInput) => {
+      const receipt_image_url = receiptFile ? await uploadReceipt(receiptFile) : undefined;
+
+      const { data, error } = await supabase.rpc('update_transfer', {
+        p_transaction_id: id,
+        p_from_account_id: transfer.from_account_id,
+        p_to_account_id: transfer.to_account_id,
+        p_amount: transfer.amount,
+        p_description: transfer.description,
+        p_date: transfer.date,
+        p_status: transfer.status,
+        p_notes: transfer.notes,
+        p_receipt_image_url: receipt_image_url,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidateTransferQueries();
+      toast.success('Transferência atualizada com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao atualizar transferência:', error);
+      toast.error(error.message || 'Erro ao atualizar transferência');
+    },
+  });
+
+  const deleteTransferMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('delete_transfer', { p_transaction_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTransferQueries();
+      toast.success('Transferência excluída com sucesso!');
+    },
+    onError: (error) => {
+      console.error('Erro ao excluir transferência:', error);
+      toast.error('Erro ao excluir transferência');
+    },
+  });
+
   return {
     transactions,
     syncedTransactions,
@@ -222,9 +388,13 @@ export const useTransactions = () => {
     createTransaction: createTransactionMutation.mutate,
     updateTransaction: updateTransactionMutation.mutate,
     deleteTransaction: deleteTransactionMutation.mutate,
+    createTransfer: createTransferMutation.mutate,
+    updateTransfer: updateTransferMutation.mutate,
+    deleteTransfer: deleteTransferMutation.mutate,
     isCreating: createTransactionMutation.isPending,
     isUpdating: updateTransactionMutation.isPending,
     isDeleting: deleteTransactionMutation.isPending,
+    isSavingTransfer: createTransferMutation.isPending || updateTransferMutation.isPending,
     refetch: () => queryClient.invalidateQueries({ queryKey: ['transactions'] }),
   };
 };
@@ -24,7 +24,9 @@ export type Database = {
           due_day: number | null
           id: string
           is_active: boolean | null
+          monthly_interest_rate: number | null
           name: string
+          opening_balance: number
           type: Database["public"]["Enums"]["account_type"]
           updated_at: string | null
           user_id: string
@@ -38,7 +40,9 @@ export type Database = {
           due_day?: number | null
           id?: string
           is_active?: boolean | null
+          monthly_interest_rate?: number | null
           name: string
+          opening_balance?: number
           type: Database["public"]["Enums"]["account_type"]
           updated_at?: string | null
           user_id: string
@@ -52,7 +56,9 @@ export type Database = {
           due_day?: number | null
           id?: string
           is_active?: boolean | null
+          monthly_interest_rate?: number | null
           name?: string
+          opening_balance?: number
           type?: Database["public"]["Enums"]["account_type"]
           updated_at?: string | null
           user_id?: string
@@ -176,36 +182,126 @@ export type Database = {
         }
         Relationships: []
       }
-      budgets: {
+      budget_template_items: {
         Row: {
           amount: number
           category_id: string
+          created_at: string
+          id: string
+          rollover_enabled: boolean
+          template_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          id?: string
+          rollover_enabled?: boolean
+          template_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          id?: string
+          rollover_enabled?: boolean
+          template_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_template_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "budget_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budget_templates: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      budgets: {
+        Row: {
+          account_ids: string[] | null
+          amount: number
+          category_id: string | null
           created_at: string | null
+          end_date: string
           id: string
           month: number
-          spent: number | null
+          period_type: string
+          rollover_enabled: boolean
+          scope: string
+          start_date: string
+          tag: string | null
           updated_at: string | null
           user_id: string
           year: number
         }
         Insert: {
+          account_ids?: string[] | null
           amount: number
-          category_id: string
+          category_id?: string | null
           created_at?: string | null
+          end_date?: string
           id?: string
           month: number
-          spent?: number | null
+          period_type?: string
+          rollover_enabled?: boolean
+          scope?: string
+          start_date?: string
+          tag?: string | null
           updated_at?: string | null
           user_id: string
           year: number
         }
         Update: {
+          account_ids?: string[] | null
           amount?: number
-          category_id?: string
+          category_id?: string | null
           created_at?: string | null
+          end_date?: string
           id?: string
           month?: number
-          spent?: number | null
+          period_type?: string
+          rollover_enabled?: boolean
+          scope?: string
+          start_date?: string
+          tag?: string | null
           updated_at?: string | null
           user_id?: string
           year?: number
@@ -264,6 +360,210 @@ export type Database = {
           },
         ]
       }
+      categorization_learning: {
+        Row: {
+          category_id: string
+          count: number
+          created_at: string
+          description: string
+          id: string
+          last_used_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category_id: string
+          count?: number
+          created_at?: string
+          description: string
+          id?: string
+          last_used_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category_id?: string
+          count?: number
+          created_at?: string
+          description?: string
+          id?: string
+          last_used_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_learning_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categorization_rules: {
+        Row: {
+          account_ids: string[]
+          category_id: string | null
+          confidence: number
+          created_at: string
+          exclude_keywords: string[]
+          id: string
+          is_active: boolean
+          keywords: string[]
+          max_amount: number | null
+          min_amount: number | null
+          rule_key: string | null
+          transaction_type:
+            | Database["public"]["Enums"]["transaction_type"]
+            | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_ids?: string[]
+          category_id?: string | null
+          confidence?: number
+          created_at?: string
+          exclude_keywords?: string[]
+          id?: string
+          is_active?: boolean
+          keywords?: string[]
+          max_amount?: number | null
+          min_amount?: number | null
+          rule_key?: string | null
+          transaction_type?:
+            | Database["public"]["Enums"]["transaction_type"]
+            | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_ids?: string[]
+          category_id?: string | null
+          confidence?: number
+          created_at?: string
+          exclude_keywords?: string[]
+          id?: string
+          is_active?: boolean
+          keywords?: string[]
+          max_amount?: number | null
+          min_amount?: number | null
+          rule_key?: string | null
+          transaction_type?:
+            | Database["public"]["Enums"]["transaction_type"]
+            | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_card_invoices: {
+        Row: {
+          account_id: string
+          created_at: string
+          due_date: string
+          id: string
+          period_end: string
+          period_start: string
+          reference_month: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          period_end: string
+          period_start: string
+          reference_month: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          reference_month?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_card_invoices_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_contributions: {
+        Row: {
+          amount: number
+          created_at: string
+          date: string
+          goal_id: string
+          id: string
+          kind: string
+          notes: string | null
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          date?: string
+          goal_id: string
+          id?: string
+          kind?: string
+          notes?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          date?: string
+          goal_id?: string
+          id?: string
+          kind?: string
+          notes?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       goals: {
         Row: {
           category_id: string | null
@@ -314,6 +614,66 @@ export type Database = {
           },
         ]
       }
+      installment_plans: {
+        Row: {
+          account_id: string
+          cancelled_at: string | null
+          category_id: string | null
+          created_at: string
+          description: string
+          id: string
+          installment_count: number
+          purchase_date: string
+          status: string
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          cancelled_at?: string | null
+          category_id?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          installment_count: number
+          purchase_date: string
+          status?: string
+          total_amount: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          cancelled_at?: string | null
+          category_id?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          installment_count?: number
+          purchase_date?: string
+          status?: string
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_plans_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_plans_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string
@@ -459,6 +819,102 @@ export type Database = {
           },
         ]
       }
+      transaction_batches: {
+        Row: {
+          action: string
+          affected_count: number
+          created_at: string
+          id: string
+          params: Json
+          skipped_count: number
+          snapshot: Json
+          transaction_ids: string[]
+          undo_expires_at: string
+          undone_at: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          affected_count?: number
+          created_at?: string
+          id?: string
+          params?: Json
+          skipped_count?: number
+          snapshot?: Json
+          transaction_ids?: string[]
+          undo_expires_at?: string
+          undone_at?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          affected_count?: number
+          created_at?: string
+          id?: string
+          params?: Json
+          skipped_count?: number
+          snapshot?: Json
+          transaction_ids?: string[]
+          undo_expires_at?: string
+          undone_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          position: number
+          tags: string[]
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          position?: number
+          tags?: string[]
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          position?: number
+          tags?: string[]
+          transaction_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           account_id: string
@@ -468,6 +924,10 @@ export type Database = {
           date: string
           description: string
           id: string
+          installment_count: number | null
+          installment_number: number | null
+          installment_plan_id: string | null
+          invoice_id: string | null
           is_active: boolean | null
           is_recurring: boolean | null
           last_processed_at: string | null
@@ -480,6 +940,8 @@ export type Database = {
           status: Database["public"]["Enums"]["transaction_status"] | null
           tags: string[] | null
           transfer_account_id: string | null
+          transfer_direction: string | null
+          transfer_pair_id: string | null
           type: Database["public"]["Enums"]["transaction_type"]
           updated_at: string | null
           user_id: string
@@ -492,6 +954,10 @@ export type Database = {
           date: string
           description: string
           id?: string
+          installment_count?: number | null
+          installment_number?: number | null
+          installment_plan_id?: string | null
+          invoice_id?: string | null
           is_active?: boolean | null
           is_recurring?: boolean | null
           last_processed_at?: string | null
@@ -504,6 +970,8 @@ export type Database = {
           status?: Database["public"]["Enums"]["transaction_status"] | null
           tags?: string[] | null
           transfer_account_id?: string | null
+          transfer_direction?: string | null
+          transfer_pair_id?: string | null
           type: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string | null
           user_id: string
@@ -516,6 +984,10 @@ export type Database = {
           date?: string
           description?: string
           id?: string
+          installment_count?: number | null
+          installment_number?: number | null
+          installment_plan_id?: string | null
+          invoice_id?: string | null
           is_active?: boolean | null
           is_recurring?: boolean | null
           last_processed_at?: string | null
@@ -528,6 +1000,8 @@ export type Database = {
           status?: Database["public"]["Enums"]["transaction_status"] | null
           tags?: string[] | null
           transfer_account_id?: string | null
+          transfer_direction?: string | null
+          transfer_pair_id?: string | null
           type?: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string | null
           user_id?: string
@@ -547,6 +1021,20 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "credit_card_invoices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_transfer_account_id_fkey"
             columns: ["transfer_account_id"]
@@ -554,13 +1042,217 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_transfer_pair_id_fkey"
+            columns: ["transfer_pair_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      account_balances: {
+        Row: {
+          account_id: string | null
+          cancelled_total: number | null
+          completed_total: number | null
+          computed_balance: number | null
+          difference: number | null
+          last_transaction_date: string | null
+          opening_balance: number | null
+          pending_total: number | null
+          stored_balance: number | null
+          transaction_count: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      budget_spending: {
+        Row: {
+          account_ids: string[] | null
+          category_id: string | null
+          end_date: string | null
+          id: string | null
+          month: number | null
+          period_type: string | null
+          scope: string | null
+          spent: number | null
+          start_date: string | null
+          tag: string | null
+          user_id: string | null
+          year: number | null
+        }
+        Relationships: []
+      }
+      category_descendants: {
+        Row: {
+          ancestor_id: string | null
+          category_id: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      credit_card_invoice_summaries: {
+        Row: {
+          account_id: string | null
+          due_date: string | null
+          id: string | null
+          outstanding_amount: number | null
+          paid_amount: number | null
+          period_end: string | null
+          period_start: string | null
+          reference_month: string | null
+          status: string | null
+          total_amount: number | null
+          transaction_count: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      transaction_category_lines: {
+        Row: {
+          account_id: string | null
+          amount: number | null
+          category_id: string | null
+          date: string | null
+          description: string | null
+          split_id: string | null
+          status: Database["public"]["Enums"]["transaction_status"] | null
+          tags: string[] | null
+          transaction_id: string | null
+          type: Database["public"]["Enums"]["transaction_type"] | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      transaction_running_balances: {
+        Row: {
+          account_id: string | null
+          running_balance: number | null
+          transaction_id: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_automation_rule_retroactively: {
+        Args: {
+          p_actions: Json
+          p_conditions: Json
+          p_end_date?: string
+          p_priority?: number
+          p_rule_id?: string
+          p_start_date?: string
+          p_transaction_ids?: string[]
+        }
+        Returns: number
+      }
+      apply_budget_template: {
+        Args: { p_months?: number; p_start_month: string; p_template_id: string }
+        Returns: number
+      }
+      apply_transaction_batch: {
+        Args: {
+          p_action: string
+          p_filters?: Json
+          p_params?: Json
+          p_transaction_ids?: string[]
+        }
+        Returns: Database["public"]["Tables"]["transaction_batches"]["Row"]
+      }
+      automation_condition_matches: {
+        Args: {
+          p_condition: Json
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: boolean
+      }
+      automation_condition_node_matches: {
+        Args: {
+          p_node: Json
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: boolean
+      }
+      automation_rule_matches: {
+        Args: {
+          p_conditions: Json
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: boolean
+      }
+      budget_envelopes: {
+        Args: { p_user_id?: string }
+        Returns: {
+          account_ids: string[]
+          assigned: number
+          available: number
+          category_id: string
+          end_date: string
+          id: string
+          month: number
+          period_type: string
+          rolled_over: number
+          rollover_enabled: boolean
+          scope: string
+          spent: number
+          start_date: string
+          tag: string
+          user_id: string
+          year: number
+        }[]
+      }
+      budget_pacing: {
+        Args: { p_date?: string; p_user_id?: string }
+        Returns: {
+          budget_id: string
+          category_id: string
+          daily_rate: number
+          elapsed_days: number
+          end_date: string
+          limit_amount: number
+          period_days: number
+          projected_spent: number
+          recurring_amount: number
+          scheduled_amount: number
+          spent_to_date: number
+          start_date: string
+        }[]
+      }
+      budget_period_end: {
+        Args: { p_period_type: string; p_start: string }
+        Returns: string
+      }
+      budget_window_spending: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          budget_id: string
+          spent: number
+        }[]
+      }
+      cancel_installment_plan: {
+        Args: { p_plan_id: string }
+        Returns: Database["public"]["Tables"]["installment_plans"]["Row"]
+      }
+      card_day_in_month: {
+        Args: { p_day: number; p_month: string }
+        Returns: string
+      }
+      card_invoice_month: {
+        Args: { p_closing_day: number; p_date: string }
+        Returns: string
+      }
+      clear_transaction_batches: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      copy_monthly_budgets: {
+        Args: { p_from_month: string; p_months?: number; p_to_month: string }
+        Returns: number
+      }
       create_audit_log: {
         Args: {
           p_ip_address?: unknown
@@ -572,6 +1264,265 @@ export type Database = {
         }
         Returns: undefined
       }
+      create_goal: {
+        Args: {
+          p_description?: string
+          p_initial_amount?: number
+          p_name: string
+          p_target_amount: number
+          p_target_date?: string
+        }
+        Returns: Database["public"]["Tables"]["goals"]["Row"]
+      }
+      create_installment_purchase: {
+        Args: {
+          p_account_id: string
+          p_category_id: string
+          p_description: string
+          p_installment_count: number
+          p_notes?: string
+          p_purchase_date: string
+          p_tags?: string[]
+          p_total_amount: number
+        }
+        Returns: Database["public"]["Tables"]["installment_plans"]["Row"]
+      }
+      create_transaction: {
+        Args: { p_splits?: Json; p_transaction: Json }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      create_transfer: {
+        Args: {
+          p_amount: number
+          p_date: string
+          p_description: string
+          p_from_account_id: string
+          p_is_recurring?: boolean
+          p_notes?: string
+          p_receipt_image_url?: string
+          p_recurrence_end_date?: string
+          p_recurrence_frequency?: Database["public"]["Enums"]["recurrence_frequency"]
+          p_status?: Database["public"]["Enums"]["transaction_status"]
+          p_tags?: string[]
+          p_to_account_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      delete_transfer: {
+        Args: { p_transaction_id: string }
+        Returns: undefined
+      }
+      ensure_credit_card_invoice: {
+        Args: { p_account_id: string; p_date: string }
+        Returns: string
+      }
+      filter_transactions: {
+        Args: {
+          p_account_id?: string
+          p_category_id?: string
+          p_end_date?: string
+          p_query?: Json
+          p_start_date?: string
+          p_type?: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"][]
+      }
+      get_transaction_tags: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tag: string
+          usage_count: number
+        }[]
+      }
+      get_transaction_totals: {
+        Args: {
+          p_account_id?: string
+          p_category_id?: string
+          p_end_date?: string
+          p_query?: Json
+          p_start_date?: string
+          p_type?: string
+        }
+        Returns: {
+          expense_total: number
+          income_total: number
+          transaction_count: number
+        }[]
+      }
+      get_transactions_page: {
+        Args: {
+          p_account_id?: string
+          p_category_id?: string
+          p_cursor_date?: string
+          p_cursor_id?: string
+          p_end_date?: string
+          p_limit?: number
+          p_query?: Json
+          p_start_date?: string
+          p_type?: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"][]
+      }
+      monthly_category_totals: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          amount: number
+          category_id: string
+          month: string
+          type: Database["public"]["Enums"]["transaction_type"]
+        }[]
+      }
+      normalize_rule_text: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      notify_exceeded_budgets: {
+        Args: {
+          p_account_id?: string
+          p_category_ids: string[]
+          p_date: string
+          p_tags?: string[]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      pay_credit_card_invoice: {
+        Args: {
+          p_amount: number
+          p_date?: string
+          p_from_account_id: string
+          p_invoice_id: string
+          p_notes?: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      query_compare: {
+        Args: { p_left: unknown; p_op: string; p_right: unknown }
+        Returns: boolean
+      }
+      reconcile_account_balance: {
+        Args: { p_account_id: string }
+        Returns: Database["public"]["Tables"]["accounts"]["Row"]
+      }
+      record_categorization_learning: {
+        Args: {
+          p_category_id: string
+          p_description: string
+          p_previous_category_id?: string
+        }
+        Returns: undefined
+      }
+      recurrence_interval: {
+        Args: {
+          p_frequency: Database["public"]["Enums"]["recurrence_frequency"]
+        }
+        Returns: unknown
+      }
+      resolve_rule_category: {
+        Args: {
+          p_transaction_type: Database["public"]["Enums"]["transaction_type"]
+          p_user_id: string
+          p_value: string
+        }
+        Returns: string
+      }
+      rule_category_action_value: {
+        Args: { p_actions: Json }
+        Returns: string
+      }
+      rule_value_date: {
+        Args: { p_value: string }
+        Returns: string
+      }
+      rule_value_list: {
+        Args: { p_value: Json }
+        Returns: string[]
+      }
+      rule_value_numeric: {
+        Args: { p_value: string }
+        Returns: number
+      }
+      save_budgets_as_template: {
+        Args: { p_month: string; p_name: string }
+        Returns: Database["public"]["Tables"]["budget_templates"]["Row"]
+      }
+      save_transaction_splits: {
+        Args: { p_amount?: number; p_splits: Json; p_transaction_id: string }
+        Returns: undefined
+      }
+      simulate_automation_rule: {
+        Args: {
+          p_actions: Json
+          p_conditions: Json
+          p_end_date?: string
+          p_priority?: number
+          p_rule_id?: string
+          p_start_date?: string
+        }
+        Returns: {
+          amount: number
+          conflicting_rule_ids: string[]
+          current_category_id: string
+          current_tags: string[]
+          date: string
+          description: string
+          overridden_by_rule_id: string
+          proposed_category_id: string
+          proposed_tags: string[]
+          transaction_id: string
+          type: string
+        }[]
+      }
+      transaction_balance_delta: {
+        Args: {
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: number
+      }
+      transaction_ledger_amount: {
+        Args: {
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: number
+      }
+      transaction_matches_query: {
+        Args: {
+          p_query: Json
+          p_transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: boolean
+      }
+      undo_transaction_batch: {
+        Args: { p_batch_id: string }
+        Returns: number
+      }
+      update_installment_plan: {
+        Args: {
+          p_category_id: string
+          p_description: string
+          p_plan_id: string
+          p_total_amount?: number
+        }
+        Returns: Database["public"]["Tables"]["installment_plans"]["Row"]
+      }
+      update_transaction: {
+        Args: { p_changes: Json; p_splits?: Json; p_transaction_id: string }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      update_transfer: {
+        Args: {
+          p_amount: number
+          p_date: string
+          p_description: string
+          p_from_account_id: string
+          p_notes?: string
+          p_receipt_image_url?: string
+          p_status?: Database["public"]["Enums"]["transaction_status"]
+          p_to_account_id: string
+          p_transaction_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
     }
     Enums: {
       account_type:
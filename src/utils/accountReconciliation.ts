@@ -0,0 +1,56 @@
+export interface AccountBalanceCheck {
+  accountId: string;
+  openingBalance: number;
+  storedBalance: number;
+  completedTotal: number;
+  computedBalance: number;
+  // Saldo gravado menos saldo calculado
+  difference: number;
+  pendingTotal: number;
+  cancelledTotal: number;
+  transactionCount: number;
+  lastTransactionDate: string | null;
+}
+
+export type BalanceDifferenceCause = 'pending' | 'cancelled' | 'unexplained';
+
+export interface BalanceDifferenceExplanation {
+  cause: BalanceDifferenceCause;
+  amount: number;
+}
+
+const toCents = (value: number) => Math.round(Number(value || 0) * 100);
+
+export const hasBalanceDifference = (check: Pick<AccountBalanceCheck, 'difference'>): boolean =>
+  toCents(check.difference) !== 0;
+
+/**
+ * Decompõe a diferença entre o saldo gravado e o calculado nas causas conhecidas:
+ * o cálculo antigo somava transações pendentes e canceladas ao saldo. O que não
+ * fecha com nenhuma combinação delas fica como diferença sem causa identificada.
+ */
+export const explainBalanceDifference = (check: AccountBalanceCheck): BalanceDifferenceExplanation[] => {
+  const difference = toCents(check.difference);
+  if (difference === 0) return [];
+
+  const candidates: BalanceDifferenceExplanation[] = [
+    { cause: 'pending' as const, amount: check.pendingTotal },
+    { cause: 'cancelled' as const, amount: check.cancelledTotal },
+  ].filter(candidate => toCents(candidate.amount) !== 0);
+
+  // Combinação de causas cuja soma explica a maior parte da diferença
+  let best: BalanceDifferenceExplanation[] = [];
+  let bestRemainder = difference;
+  for (let mask = 1; mask < 1 << candidates.length; mask++) {
+    const subset = candidates.filter((_, index) => mask & (1 << index));
+    const remainder = difference - subset.reduce((sum, candidate) => sum + toCents(candidate.amount), 0);
+    if (Math.abs(remainder) < Math.abs(bestRemainder)) {
+      best = subset;
+      bestRemainder = remainder;
+    }
+  }
+
+  return bestRemainder === 0
+    ? best
+    : [...best, { cause: 'unexplained', amount: bestRemainder / 100 }];
+};
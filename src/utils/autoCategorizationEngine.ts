@@ -1,9 +1,30 @@
+import { ClassifierInput, ClassifierSample, TransactionClassifier } from './transactionClassifier';
+import { normalizeCategorizationText } from './categorizationText';
+
 export interface CategoryRule {
   id: string;
   keywords: string[];
   categoryId: string;
   confidence: number;
   isActive: boolean;
+  // Restrições opcionais: a regra só vale quando todas são atendidas
+  excludeKeywords?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  accountIds?: string[];
+  transactionType?: 'income' | 'expense';
+}
+
+export interface LearningEntry {
+  description: string;
+  categoryId: string;
+  count: number;
+}
+
+// Dados salvos do usuário: regras personalizadas, ajustes das regras padrão (mesmo id) e aprendizado
+export interface PersistedCategorizationData {
+  rules?: CategoryRule[];
+  learningData?: LearningEntry[];
 }
 
 export interface CategorizationResult {
@@ -11,8 +32,12 @@ export interface CategorizationResult {
   confidence: number;
   matchedKeywords: string[];
   rule?: CategoryRule;
+  source?: 'rule' | 'learning' | 'classifier';
 }
 
+// Contexto opcional da transação usado pelo classificador estatístico
+export type CategorizationContext = Omit<ClassifierInput, 'description' | 'amount'>;
+
 // Regras padrão de categorização baseadas em palavras-chave
 export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] = [
   // Alimentação
@@ -20,15 +45,18 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'food_general',
     keywords: ['restaurante', 'lanchonete', 'padaria', 'supermercado', 'mercado', 'açougue', 'hortifruti', 'pizza', 'hamburguer', 'comida', 'almoço', 'jantar', 'café', 'bar', 'mcdonald', 'burger king', 'subway', 'ifood', 'uber eats', 'rappi'],
     confidence: 0.9,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Transporte
   {
     id: 'transport_general',
     keywords: ['uber', 'taxi', 'posto', 'combustivel', 'gasolina', 'etanol', 'diesel', 'oficina', 'estacionamento', 'pedágio', 'onibus', 'metro', 'vlt', '99', 'ipva', 'seguro auto', 'revisão'],
+    excludeKeywords: ['uber eats'],
     confidence: 0.9,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Moradia
@@ -36,7 +64,8 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'housing_general', 
     keywords: ['aluguel', 'condominio', 'iptu', 'luz', 'agua', 'gas', 'internet', 'telefone', 'limpeza', 'construção', 'reforma', 'móveis', 'decoração', 'eletrodomésticos'],
     confidence: 0.9,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Saúde
@@ -44,7 +73,8 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'health_general',
     keywords: ['farmacia', 'remedio', 'medico', 'dentista', 'hospital', 'clinica', 'exame', 'plano saude', 'convenio', 'psicólogo', 'fisioterapia', 'laboratorio'],
     confidence: 0.9,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Educação
@@ -52,7 +82,8 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'education_general',
     keywords: ['escola', 'universidade', 'curso', 'livro', 'material escolar', 'mensalidade', 'professor', 'aula', 'faculdade', 'pos graduação'],
     confidence: 0.9,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Lazer
@@ -60,7 +91,8 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'entertainment_general',
     keywords: ['cinema', 'teatro', 'show', 'netflix', 'spotify', 'amazon prime', 'youtube', 'jogos', 'viagem', 'hotel', 'turismo', 'festa', 'presente'],
     confidence: 0.8,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Compras
@@ -68,7 +100,8 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'shopping_general',
     keywords: ['shopping', 'loja', 'roupa', 'sapato', 'acessorio', 'magazine luiza', 'americanas', 'casas bahia', 'amazon', 'mercado livre', 'aliexpress', 'shein'],
     confidence: 0.8,
-    isActive: true
+    isActive: true,
+    transactionType: 'expense'
   },
   
   // Receitas - Salário
@@ -76,7 +109,8 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'salary_income',
     keywords: ['salario', 'ordenado', 'vencimento', 'pagamento', 'empresa', 'trabalho', 'pix salario', 'folha pagamento'],
     confidence: 0.95,
-    isActive: true
+    isActive: true,
+    transactionType: 'income'
   },
   
   // Receitas - Freelance
@@ -84,31 +118,66 @@ export const DEFAULT_CATEGORIZATION_RULES: Omit<CategoryRule, 'categoryId'>[] =
     id: 'freelance_income',
     keywords: ['freelance', 'freela', 'consultoria', 'projeto', 'serviço', 'trabalho extra', 'bico'],
     confidence: 0.85,
-    isActive: true
+    isActive: true,
+    transactionType: 'income'
   }
 ];
 
+export const isDefaultCategorizationRule = (ruleId: string): boolean =>
+  DEFAULT_CATEGORIZATION_RULES.some(rule => rule.id === ruleId);
+
 export class AutoCategorizationEngine {
   private rules: CategoryRule[] = [];
-  private learningData: Map<string, { categoryId: string; count: number }> = new Map();
+  private learningData: Map<string, LearningEntry> = new Map();
+  private classifier = new TransactionClassifier();
+  private categoryTypes: Map<string, string> = new Map();
 
-  constructor(categories: Array<{ id: string; name: string; transaction_type: string }>) {
+  constructor(
+    categories: Array<{ id: string; name: string; transaction_type: string }>,
+    persisted: PersistedCategorizationData = {}
+  ) {
+    this.categoryTypes = new Map(categories.map(c => [c.id, c.transaction_type]));
     this.initializeRules(categories);
+    this.loadPersistedData(persisted);
+  }
+
+  private loadPersistedData({ rules = [], learningData = [] }: PersistedCategorizationData) {
+    for (const rule of rules) {
+      const index = this.rules.findIndex(r => r.id === rule.id);
+      if (index === -1) {
+        this.rules.push(rule);
+        continue;
+      }
+
+      // Regras padrão guardam apenas o estado e a categoria escolhida pelo usuário
+      this.rules[index] = {
+        ...this.rules[index],
+        isActive: rule.isActive,
+        categoryId: rule.categoryId || this.rules[index].categoryId
+      };
+    }
+
+    for (const entry of learningData) {
+      this.learningData.set(this.learningKey(entry.description, entry.categoryId), entry);
+    }
   }
 
   private initializeRules(categories: Array<{ id: string; name: string; transaction_type: string }>) {
     this.rules = DEFAULT_CATEGORIZATION_RULES.map(rule => {
+      // Considerar apenas categorias do mesmo tipo da regra
+      const candidates = categories.filter(c => !rule.transactionType || c.transaction_type === rule.transactionType);
+
       // Mapear regras para categorias existentes baseado no nome
-      let categoryId = this.findCategoryByKeywords(categories, rule.keywords);
+      let categoryId = this.findCategoryByKeywords(candidates, rule.keywords);
       
       // Fallback para categoria baseada no ID da regra
       if (!categoryId) {
-        categoryId = this.findCategoryByRuleId(categories, rule.id);
+        categoryId = this.findCategoryByRuleId(candidates, rule.id);
       }
 
       return {
         ...rule,
-        categoryId: categoryId || categories[0]?.id || ''
+        categoryId: categoryId || candidates[0]?.id || ''
       };
     }).filter(rule => rule.categoryId !== '');
   }
@@ -162,7 +231,22 @@ export class AutoCategorizationEngine {
     return null;
   }
 
-  categorizeTransaction(description: string, amount: number, existingCategoryId?: string): CategorizationResult {
+  // Treina o classificador com as transações já categorizadas do usuário
+  trainClassifier(samples: ClassifierSample[]) {
+    this.classifier = new TransactionClassifier();
+    this.classifier.train(samples);
+  }
+
+  addClassifierSample(sample: ClassifierSample) {
+    this.classifier.addSample(sample);
+  }
+
+  categorizeTransaction(
+    description: string,
+    amount: number,
+    existingCategoryId?: string,
+    context: CategorizationContext = {}
+  ): CategorizationResult {
     const normalizedDescription = this.normalizeText(description);
     
     let bestMatch: CategorizationResult = {
@@ -173,6 +257,8 @@ export class AutoCategorizationEngine {
 
     // Verificar regras de categorização
     for (const rule of this.rules.filter(r => r.isActive)) {
+      if (!this.matchesRuleConstraints(rule, normalizedDescription, amount, context)) continue;
+
       const matchedKeywords = rule.keywords.filter(keyword => 
         normalizedDescription.includes(this.normalizeText(keyword))
       );
@@ -185,7 +271,8 @@ export class AutoCategorizationEngine {
             categoryId: rule.categoryId,
             confidence,
             matchedKeywords,
-            rule
+            rule,
+            source: 'rule'
           };
         }
       }
@@ -193,12 +280,29 @@ export class AutoCategorizationEngine {
 
     // Usar dados de aprendizado se não houver regra forte
     if (bestMatch.confidence < 0.7) {
-      const learningResult = this.getLearningBasedSuggestion(normalizedDescription);
+      const learningResult = this.getLearningBasedSuggestion(normalizedDescription, context.type);
       if (learningResult && learningResult.confidence > bestMatch.confidence) {
         bestMatch = learningResult;
       }
     }
 
+    // Classificador estatístico como último recurso
+    if (bestMatch.confidence < 0.7) {
+      const prediction = this.classifier.predict({ description, amount, ...context });
+      if (
+        prediction &&
+        prediction.confidence > bestMatch.confidence &&
+        this.isCategoryAllowed(prediction.categoryId, context.type)
+      ) {
+        bestMatch = {
+          categoryId: prediction.categoryId,
+          confidence: prediction.confidence,
+          matchedKeywords: [`modelo: ${prediction.rawConfidence.toFixed(2)}`],
+          source: 'classifier'
+        };
+      }
+    }
+
     // Registrar para aprendizado se categoria já foi definida
     if (existingCategoryId) {
       this.learnFromTransaction(normalizedDescription, existingCategoryId);
@@ -208,11 +312,38 @@ export class AutoCategorizationEngine {
   }
 
   private normalizeText(text: string): string {
-    return text
-      .toLowerCase()
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '') // Remove acentos
-      .trim();
+    return normalizeCategorizationText(text);
+  }
+
+  // Nunca sugerir uma categoria de receita para uma despesa (e vice-versa)
+  private isCategoryAllowed(categoryId: string, transactionType?: string): boolean {
+    const categoryType = this.categoryTypes.get(categoryId);
+    return !transactionType || !categoryType || categoryType === transactionType;
+  }
+
+  private matchesRuleConstraints(
+    rule: CategoryRule,
+    description: string,
+    amount: number,
+    context: CategorizationContext
+  ): boolean {
+    if (rule.excludeKeywords?.some(keyword => description.includes(this.normalizeText(keyword)))) {
+      return false;
+    }
+
+    const absoluteAmount = Math.abs(amount);
+    if (rule.minAmount !== undefined && absoluteAmount < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && absoluteAmount > rule.maxAmount) return false;
+
+    if (rule.accountIds?.length && (!context.accountId || !rule.accountIds.includes(context.accountId))) {
+      return false;
+    }
+
+    if (context.type && rule.transactionType && rule.transactionType !== context.type) {
+      return false;
+    }
+
+    return this.isCategoryAllowed(rule.categoryId, context.type);
   }
 
   private calculateConfidence(rule: CategoryRule, matchedKeywords: string[], description: string): number {
@@ -234,18 +365,23 @@ export class AutoCategorizationEngine {
     return Math.min(confidence, 1);
   }
 
+  private learningKey(description: string, categoryId: string): string {
+    return `${description}\u0000${categoryId}`;
+  }
+
   private learnFromTransaction(description: string, categoryId: string) {
-    const key = `${description}:${categoryId}`;
-    const existing = this.learningData.get(key) || { categoryId, count: 0 };
+    const key = this.learningKey(description, categoryId);
+    const existing = this.learningData.get(key) || { description, categoryId, count: 0 };
     this.learningData.set(key, { ...existing, count: existing.count + 1 });
   }
 
-  private getLearningBasedSuggestion(description: string): CategorizationResult | null {
+  private getLearningBasedSuggestion(description: string, transactionType?: string): CategorizationResult | null {
     const matches: Array<{ categoryId: string; count: number; similarity: number }> = [];
 
-    for (const [key, data] of this.learningData.entries()) {
-      const [learnedDesc] = key.split(':');
-      const similarity = this.calculateSimilarity(description, learnedDesc);
+    for (const data of this.learningData.values()) {
+      if (!this.isCategoryAllowed(data.categoryId, transactionType)) continue;
+
+      const similarity = this.calculateSimilarity(description, data.description);
       
       if (similarity > 0.6) {
         matches.push({
@@ -265,7 +401,8 @@ export class AutoCategorizationEngine {
     return {
       categoryId: best.categoryId,
       confidence: best.similarity * 0.8, // Reduzir confiança para aprendizado
-      matchedKeywords: [`similarity: ${best.similarity.toFixed(2)}`]
+      matchedKeywords: [`similarity: ${best.similarity.toFixed(2)}`],
+      source: 'learning'
     };
   }
 
@@ -314,11 +451,13 @@ export class AutoCategorizationEngine {
     totalRules: number;
     activeRules: number;
     learningEntries: number;
+    classifierSamples: number;
   } {
     return {
       totalRules: this.rules.length,
       activeRules: this.rules.filter(r => r.isActive).length,
-      learningEntries: this.learningData.size
+      learningEntries: this.learningData.size,
+      classifierSamples: this.classifier.getTrainingSize()
     };
   }
 }
\ No newline at end of file
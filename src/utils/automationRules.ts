@@ -0,0 +1,227 @@
+import type {
+  RuleCondition,
+  RuleConditionField,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleConditionOperator,
+} from '@/hooks/useAutomationRules';
+
+export type ConditionValueKind =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'weekday'
+  | 'category'
+  | 'account'
+  | 'type'
+  | 'status'
+  | 'tag';
+
+export interface ConditionFieldConfig {
+  label: string;
+  valueKind: ConditionValueKind;
+  operators: RuleConditionOperator[];
+}
+
+const TEXT_OPERATORS: RuleConditionOperator[] = [
+  'contains', 'not_contains', 'equals', 'not_equals', 'starts_with', 'ends_with', 'matches_regex',
+];
+const NUMBER_OPERATORS: RuleConditionOperator[] = [
+  'equals', 'not_equals', 'greater_than', 'less_than', 'between',
+];
+const CHOICE_OPERATORS: RuleConditionOperator[] = ['equals', 'not_equals', 'in'];
+
+// Campos disponíveis nas condições e os operadores aceitos por cada um
+export const CONDITION_FIELDS: Record<RuleConditionField, ConditionFieldConfig> = {
+  description: { label: 'Descrição', valueKind: 'text', operators: TEXT_OPERATORS },
+  merchant: { label: 'Estabelecimento', valueKind: 'text', operators: TEXT_OPERATORS },
+  amount: { label: 'Valor', valueKind: 'number', operators: NUMBER_OPERATORS },
+  day_of_month: { label: 'Dia do Mês', valueKind: 'number', operators: NUMBER_OPERATORS },
+  weekday: { label: 'Dia da Semana', valueKind: 'weekday', operators: ['equals', 'not_equals', 'in', 'between'] },
+  date: { label: 'Data', valueKind: 'date', operators: ['equals', 'before', 'after', 'between'] },
+  category: { label: 'Categoria', valueKind: 'category', operators: CHOICE_OPERATORS },
+  account_id: { label: 'Conta', valueKind: 'account', operators: CHOICE_OPERATORS },
+  type: { label: 'Tipo', valueKind: 'type', operators: ['equals', 'not_equals'] },
+  tags: { label: 'Tags', valueKind: 'tag', operators: ['contains', 'not_contains', 'in'] },
+  status: { label: 'Status', valueKind: 'status', operators: CHOICE_OPERATORS },
+};
+
+export const OPERATOR_LABELS: Record<RuleConditionOperator, string> = {
+  contains: 'Contém',
+  not_contains: 'Não contém',
+  equals: 'É igual a',
+  not_equals: 'É diferente de',
+  starts_with: 'Começa com',
+  ends_with: 'Termina com',
+  matches_regex: 'Expressão regular',
+  greater_than: 'Maior que',
+  less_than: 'Menor que',
+  between: 'Entre',
+  in: 'É um de',
+  before: 'Antes de',
+  after: 'Depois de',
+};
+
+export const LOGIC_LABELS: Record<RuleConditionGroup['logic'], string> = {
+  and: 'Todas (E)',
+  or: 'Qualquer uma (OU)',
+  not: 'Nenhuma (NÃO)',
+};
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+export const TYPE_LABELS: Record<string, string> = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência',
+};
+
+export const STATUS_LABELS: Record<string, string> = {
+  completed: 'Concluída',
+  pending: 'Pendente',
+  cancelled: 'Cancelada',
+};
+
+export const isConditionGroup = (node: RuleConditionNode): node is RuleConditionGroup =>
+  typeof node === 'object' && node !== null && 'logic' in node;
+
+export const createCondition = (field: RuleConditionField = 'description'): RuleCondition => {
+  const config = CONDITION_FIELDS[field];
+  return {
+    field,
+    operator: config.operators[0],
+    value: config.valueKind === 'type' ? 'expense' : config.valueKind === 'status' ? 'completed' : '',
+  };
+};
+
+export const createConditionGroup = (logic: RuleConditionGroup['logic'] = 'and'): RuleConditionGroup => ({
+  logic,
+  conditions: [createCondition()],
+});
+
+// A raiz salva no banco é um array avaliado com E; grupos OU/NÃO na raiz viram um único nó
+export const conditionsToRootGroup = (conditions: RuleConditionNode[]): RuleConditionGroup => {
+  if (conditions.length === 1 && isConditionGroup(conditions[0])) {
+    return conditions[0];
+  }
+  return { logic: 'and', conditions };
+};
+
+export const rootGroupToConditions = (group: RuleConditionGroup): RuleConditionNode[] =>
+  group.logic === 'and' ? group.conditions : [group];
+
+// Ajusta operador e valor quando o campo da condição muda
+export const changeConditionField = (condition: RuleCondition, field: RuleConditionField): RuleCondition => {
+  const config = CONDITION_FIELDS[field];
+  if (CONDITION_FIELDS[condition.field].valueKind === config.valueKind) {
+    return {
+      ...condition,
+      field,
+      operator: config.operators.includes(condition.operator) ? condition.operator : config.operators[0],
+    };
+  }
+  return createCondition(field);
+};
+
+const valueList = (value: RuleCondition['value']): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .map(v => String(v ?? '').trim())
+    .filter(v => v !== '');
+
+// Retorna a primeira inconsistência encontrada na árvore, ou null se estiver válida
+export const validateConditions = (nodes: RuleConditionNode[]): string | null => {
+  if (nodes.length === 0) return 'Adicione pelo menos uma condição';
+
+  for (const node of nodes) {
+    if (isConditionGroup(node)) {
+      if (node.conditions.length === 0) return 'Grupos não podem ficar vazios';
+      const error = validateConditions(node.conditions);
+      if (error) return error;
+      continue;
+    }
+
+    const config = CONDITION_FIELDS[node.field];
+    const label = config?.label ?? node.field;
+    const values = valueList(node.value);
+
+    if (values.length === 0) return `Informe o valor da condição "${label}"`;
+
+    if (node.operator === 'between' && String(node.value_to ?? '').trim() === '') {
+      return `Informe o limite final da condição "${label}"`;
+    }
+
+    if (config?.valueKind === 'number') {
+      const numbers = [values[0], node.operator === 'between' ? String(node.value_to) : values[0]];
+      if (numbers.some(v => isNaN(Number(v.replace(',', '.'))))) {
+        return `A condição "${label}" precisa de um valor numérico`;
+      }
+    }
+
+    if (node.operator === 'matches_regex') {
+      try {
+        new RegExp(values[0], 'i');
+      } catch {
+        return `Expressão regular inválida em "${label}"`;
+      }
+    }
+  }
+
+  return null;
+};
+
+interface DescribeLookup {
+  categoryName?: (id: string) => string | undefined;
+  accountName?: (id: string) => string | undefined;
+}
+
+const describeValue = (
+  condition: RuleCondition,
+  value: string | number | undefined,
+  lookup: DescribeLookup
+): string => {
+  const raw = String(value ?? '');
+  switch (CONDITION_FIELDS[condition.field]?.valueKind) {
+    case 'category':
+      return lookup.categoryName?.(raw) ?? raw;
+    case 'account':
+      return lookup.accountName?.(raw) ?? raw;
+    case 'weekday':
+      return WEEKDAY_LABELS[Number(raw)] ?? raw;
+    case 'type':
+      return TYPE_LABELS[raw] ?? raw;
+    case 'status':
+      return STATUS_LABELS[raw] ?? raw;
+    case 'date':
+      return raw ? new Date(`${raw}T00:00:00`).toLocaleDateString('pt-BR') : raw;
+    default:
+      return raw;
+  }
+};
+
+const describeCondition = (condition: RuleCondition, lookup: DescribeLookup): string => {
+  const field = CONDITION_FIELDS[condition.field]?.label ?? condition.field;
+  const operator = (OPERATOR_LABELS[condition.operator] ?? condition.operator).toLowerCase();
+
+  if (condition.operator === 'between') {
+    return `${field} entre "${describeValue(condition, valueList(condition.value)[0], lookup)}" e "${describeValue(condition, condition.value_to, lookup)}"`;
+  }
+
+  const values = valueList(condition.value).map(v => `"${describeValue(condition, v, lookup)}"`);
+  return `${field} ${operator} ${values.join(', ')}`;
+};
+
+// Texto legível da árvore de condições, ex.: (Descrição contém "uber" OU Conta é igual a "Nubank")
+export const describeConditions = (
+  nodes: RuleConditionNode[],
+  lookup: DescribeLookup = {},
+  logic: RuleConditionGroup['logic'] = 'and'
+): string => {
+  const parts = nodes.map(node =>
+    isConditionGroup(node)
+      ? `(${describeConditions(node.conditions, lookup, node.logic)})`
+      : describeCondition(node, lookup)
+  );
+  // "Nenhuma" casa quando nenhuma condição casa: NÃO (a OU b)
+  const joined = parts.join(logic === 'and' ? ' E ' : ' OU ');
+  return logic === 'not' ? `NÃO ${parts.length > 1 ? `(${joined})` : joined}` : joined;
+};
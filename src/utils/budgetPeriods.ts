@@ -0,0 +1,64 @@
+import { addDays, addMonths, differenceInCalendarDays, format, subDays } from 'date-fns';
+
+export type BudgetPeriodType = 'weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly' | 'custom';
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriodType, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  quarterly: 'Trimestral',
+  semiannual: 'Semestral',
+  yearly: 'Anual',
+  custom: 'Personalizado',
+};
+
+const PERIOD_MONTHS: Partial<Record<BudgetPeriodType, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannual: 6,
+  yearly: 12,
+};
+
+const parseDate = (date: string | Date) =>
+  typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00`) : date;
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Último dia do período que começa em start (espelha budget_period_end no banco).
+ * Períodos personalizados não têm fim implícito.
+ */
+export const getPeriodEnd = (periodType: BudgetPeriodType, start: string | Date): string | null => {
+  const startDate = parseDate(start);
+  if (periodType === 'weekly') return toDateString(addDays(startDate, 6));
+  const months = PERIOD_MONTHS[periodType];
+  return months ? toDateString(subDays(addMonths(startDate, months), 1)) : null;
+};
+
+export const getMonthBounds = (month: number, year: number) => ({
+  start: toDateString(new Date(year, month - 1, 1)),
+  end: toDateString(new Date(year, month, 0)),
+});
+
+// Dias em comum entre o período do orçamento e a janela exibida
+const getOverlapDays = (start: string, end: string, windowStart: string, windowEnd: string) => {
+  const from = start > windowStart ? start : windowStart;
+  const to = end < windowEnd ? end : windowEnd;
+  return from > to ? 0 : differenceInCalendarDays(parseDate(to), parseDate(from)) + 1;
+};
+
+/**
+ * Fração do período do orçamento que cai dentro da janela (por exemplo, o mês
+ * exibido): um orçamento anual mostrado em um mês de 30 dias vale 30/365.
+ */
+export const getProrationFactor = (
+  budget: { start_date: string; end_date: string },
+  windowStart: string,
+  windowEnd: string
+): number => {
+  const periodDays = differenceInCalendarDays(parseDate(budget.end_date), parseDate(budget.start_date)) + 1;
+  if (periodDays <= 0) return 0;
+  return getOverlapDays(budget.start_date, budget.end_date, windowStart, windowEnd) / periodDays;
+};
+
+export const formatPeriodRange = (start: string, end: string) =>
+  `${format(parseDate(start), 'dd/MM/yyyy')} a ${format(parseDate(end), 'dd/MM/yyyy')}`;
@@ -0,0 +1,148 @@
+import { addMonths, differenceInCalendarMonths, format, startOfMonth, subMonths, subYears } from 'date-fns';
+
+// Sugestão de orçamentos mensais a partir do histórico de despesas de cada categoria.
+// Meses são representados pelo primeiro dia (yyyy-MM-01), como em monthly_category_totals.
+
+export const SUGGESTION_HISTORY_OPTIONS = [3, 6, 12];
+
+// A tendência não desloca a sugestão mais que 30% da mediana
+const MAX_TREND_SHARE = 0.3;
+// Sazonalidade só conta quando o mesmo mês do ano anterior foge 20% da média
+const MIN_SEASONAL_DEVIATION = 0.2;
+const ROUNDING_STEP = 10;
+
+export interface MonthlyTotal {
+  month: string;
+  amount: number;
+}
+
+export interface BudgetSuggestion {
+  categoryId: string;
+  median: number;
+  // Média sem os meses atípicos
+  average: number;
+  // Variação estimada por mês (R$), pela reta de mínimos quadrados
+  monthlyTrend: number;
+  // Gasto do mesmo mês no ano anterior em relação à média; null quando não se aplica
+  seasonalFactor: number | null;
+  // Meses muito acima do padrão, substituídos pela mediana no cálculo
+  outlierMonths: string[];
+  activeMonths: number;
+  suggestedAmount: number;
+}
+
+const parseMonth = (month: string) => new Date(`${month.slice(0, 10)}T00:00:00`);
+const toMonthString = (date: Date) => format(startOfMonth(date), 'yyyy-MM-dd');
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Quantil com interpolação linear sobre valores já ordenados
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const getSlope = (values: number[]) => {
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - xMean) * (value - yMean);
+    denominator += (index - xMean) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+const roundUp = (value: number) => Math.ceil(Math.max(value, 0) / ROUNDING_STEP) * ROUNDING_STEP;
+
+// Meses completos anteriores ao mês de referência, do mais antigo ao mais recente
+export const getHistoryMonths = (months: number, reference: Date = new Date()): string[] =>
+  Array.from({ length: months }, (_, index) => toMonthString(subMonths(reference, months - index)));
+
+export const getSuggestionTargetMonths = (reference: Date = new Date()): string[] =>
+  [toMonthString(reference), toMonthString(addMonths(reference, 1))];
+
+/**
+ * Valor sugerido para o mês alvo: mediana do histórico (sem meses atípicos),
+ * deslocada pela tendência e ajustada pela sazonalidade quando há 12 meses de dados.
+ * Retorna null para categorias com gasto em menos de dois meses.
+ */
+export const suggestBudget = (
+  categoryId: string,
+  totals: MonthlyTotal[],
+  historyMonths: string[],
+  targetMonth: string
+): BudgetSuggestion | null => {
+  const byMonth = new Map(totals.map(total => [total.month.slice(0, 10), total.amount]));
+  const series = historyMonths.map(month => byMonth.get(month) || 0);
+  const activeMonths = series.filter(value => value > 0).length;
+  if (activeMonths < 2) return null;
+
+  const sorted = [...series].sort((a, b) => a - b);
+  const median = quantile(sorted, 0.5);
+
+  // Cerca de Tukey: acima de Q3 + 1,5 × IQR o mês é tratado como atípico
+  const outlierMonths: string[] = [];
+  let cleaned = series;
+  if (series.length >= 4) {
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const upperFence = q3 + 1.5 * (q3 - q1);
+    cleaned = series.map((value, index) => {
+      if (value <= upperFence) return value;
+      outlierMonths.push(historyMonths[index]);
+      return median;
+    });
+  }
+
+  const average = mean(cleaned);
+  const monthlyTrend = getSlope(cleaned);
+
+  // Distância, em meses, do centro do histórico até o mês alvo
+  const lastMonth = historyMonths[historyMonths.length - 1];
+  const horizon = (cleaned.length - 1) / 2 + differenceInCalendarMonths(parseMonth(targetMonth), parseMonth(lastMonth));
+  let amount = median + clamp(monthlyTrend * horizon, -median * MAX_TREND_SHARE, median * MAX_TREND_SHARE);
+
+  let seasonalFactor: number | null = null;
+  const sameMonthLastYear = toMonthString(subYears(parseMonth(targetMonth), 1));
+  if (historyMonths.length >= 12 && historyMonths.includes(sameMonthLastYear) && average > 0) {
+    const factor = (byMonth.get(sameMonthLastYear) || 0) / average;
+    if (Math.abs(factor - 1) >= MIN_SEASONAL_DEVIATION) {
+      seasonalFactor = clamp(factor, 0.5, 2);
+      amount *= seasonalFactor;
+    }
+  }
+
+  return {
+    categoryId,
+    median,
+    average,
+    monthlyTrend,
+    seasonalFactor,
+    outlierMonths,
+    activeMonths,
+    suggestedAmount: roundUp(amount),
+  };
+};
+
+/**
+ * Reduz os valores proporcionalmente para que o total caiba no valor disponível
+ * (renda esperada menos a reserva para poupança). Valores que já cabem não mudam.
+ */
+export const fitToAvailable = (amounts: Record<string, number>, available: number): Record<string, number> => {
+  const total = Object.values(amounts).reduce((sum, value) => sum + value, 0);
+  if (total <= available || total === 0) return amounts;
+
+  const factor = Math.max(available, 0) / total;
+  return Object.fromEntries(
+    Object.entries(amounts).map(([id, value]) => [
+      id,
+      Math.floor((value * factor) / ROUNDING_STEP) * ROUNDING_STEP,
+    ])
+  );
+};
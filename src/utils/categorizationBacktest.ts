@@ -0,0 +1,176 @@
+import {
+  AutoCategorizationEngine,
+  CategorizationResult,
+  PersistedCategorizationData
+} from './autoCategorizationEngine';
+import { ClassifierSample } from './transactionClassifier';
+
+export interface BacktestTransaction extends ClassifierSample {
+  id: string;
+  createdAt?: string;
+}
+
+export interface BacktestOptions {
+  // Sugestões abaixo deste valor contam como "sem sugestão"
+  minConfidence?: number;
+}
+
+export interface BacktestCategoryStats {
+  categoryId: string;
+  support: number;
+  predicted: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface BacktestRuleStats {
+  ruleId: string;
+  fired: number;
+  wrong: number;
+  precision: number;
+  // Categorias reais mais frequentes quando a regra errou
+  mistakes: Array<{ categoryId: string; count: number }>;
+}
+
+export interface BacktestSourceStats {
+  predicted: number;
+  correct: number;
+}
+
+export interface BacktestReport {
+  evaluated: number;
+  predicted: number;
+  correct: number;
+  accuracy: number;
+  coverage: number;
+  precision: number;
+  bySource: Record<NonNullable<CategorizationResult['source']>, BacktestSourceStats>;
+  perCategory: BacktestCategoryStats[];
+  // confusion[real][sugerida]; NO_SUGGESTION representa transações sem sugestão
+  confusion: Record<string, Record<string, number>>;
+  worstRules: BacktestRuleStats[];
+}
+
+export const NO_SUGGESTION = '__none__';
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : 0;
+
+/**
+ * Reproduz o histórico categorizado em ordem cronológica: cada transação é prevista
+ * apenas com o que o motor aprendeu das anteriores e, em seguida, entra no aprendizado.
+ * O aprendizado salvo não é usado para não vazar informação do futuro.
+ */
+export const runCategorizationBacktest = (
+  categories: Array<{ id: string; name: string; transaction_type: string }>,
+  persisted: PersistedCategorizationData,
+  transactions: BacktestTransaction[],
+  { minConfidence = 0.6 }: BacktestOptions = {}
+): BacktestReport => {
+  const engine = new AutoCategorizationEngine(categories, { rules: persisted.rules });
+  const history = transactions
+    .filter(t => t.categoryId)
+    .sort((a, b) =>
+      (a.date || '').localeCompare(b.date || '') || (a.createdAt || '').localeCompare(b.createdAt || '')
+    );
+
+  const confusion: Record<string, Record<string, number>> = {};
+  const categoryStats = new Map<string, BacktestCategoryStats>();
+  const ruleStats = new Map<string, { fired: number; wrong: number; mistakes: Map<string, number> }>();
+  const bySource: BacktestReport['bySource'] = {
+    rule: { predicted: 0, correct: 0 },
+    learning: { predicted: 0, correct: 0 },
+    classifier: { predicted: 0, correct: 0 }
+  };
+
+  const statsFor = (categoryId: string) => {
+    let stats = categoryStats.get(categoryId);
+    if (!stats) {
+      stats = { categoryId, support: 0, predicted: 0, truePositives: 0, precision: 0, recall: 0 };
+      categoryStats.set(categoryId, stats);
+    }
+    return stats;
+  };
+
+  let predicted = 0;
+  let correct = 0;
+
+  for (const transaction of history) {
+    const result = engine.categorizeTransaction(
+      transaction.description,
+      transaction.amount,
+      transaction.categoryId,
+      { accountId: transaction.accountId, date: transaction.date, type: transaction.type }
+    );
+    engine.addClassifierSample(transaction);
+
+    const actual = transaction.categoryId;
+    const suggestion = result.categoryId && result.confidence >= minConfidence ? result.categoryId : null;
+    const hit = suggestion === actual;
+
+    statsFor(actual).support++;
+    confusion[actual] = confusion[actual] || {};
+    const column = suggestion ?? NO_SUGGESTION;
+    confusion[actual][column] = (confusion[actual][column] || 0) + 1;
+
+    if (!suggestion) continue;
+
+    predicted++;
+    if (hit) correct++;
+
+    const predictedStats = statsFor(suggestion);
+    predictedStats.predicted++;
+    if (hit) predictedStats.truePositives++;
+
+    if (result.source) {
+      bySource[result.source].predicted++;
+      if (hit) bySource[result.source].correct++;
+    }
+
+    if (result.source === 'rule' && result.rule) {
+      const stats = ruleStats.get(result.rule.id) || { fired: 0, wrong: 0, mistakes: new Map<string, number>() };
+      stats.fired++;
+      if (!hit) {
+        stats.wrong++;
+        stats.mistakes.set(actual, (stats.mistakes.get(actual) || 0) + 1);
+      }
+      ruleStats.set(result.rule.id, stats);
+    }
+  }
+
+  const perCategory = [...categoryStats.values()]
+    .map(stats => ({
+      ...stats,
+      precision: ratio(stats.truePositives, stats.predicted),
+      recall: ratio(stats.truePositives, stats.support)
+    }))
+    .sort((a, b) => b.support - a.support);
+
+  const worstRules = [...ruleStats.entries()]
+    .filter(([, stats]) => stats.wrong > 0)
+    .map(([ruleId, stats]) => ({
+      ruleId,
+      fired: stats.fired,
+      wrong: stats.wrong,
+      precision: ratio(stats.fired - stats.wrong, stats.fired),
+      mistakes: [...stats.mistakes.entries()]
+        .map(([categoryId, count]) => ({ categoryId, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 3)
+    }))
+    .sort((a, b) => b.wrong - a.wrong || a.precision - b.precision);
+
+  return {
+    evaluated: history.length,
+    predicted,
+    correct,
+    accuracy: ratio(correct, history.length),
+    coverage: ratio(predicted, history.length),
+    precision: ratio(correct, predicted),
+    bySource,
+    perCategory,
+    confusion,
+    worstRules
+  };
+};
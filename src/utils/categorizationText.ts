@@ -0,0 +1,7 @@
+// Texto em minúsculas e sem acentos, base das comparações da auto-categorização e da busca
+export const normalizeCategorizationText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove acentos
+    .trim();
@@ -0,0 +1,53 @@
+// Evolução do valor guardado em uma meta a partir do histórico de aportes e resgates.
+
+export type GoalContributionKind = 'contribution' | 'withdrawal';
+
+export interface GoalTimelinePoint {
+  date: string;
+  // Aportes menos resgates do dia
+  change: number;
+  // Valor guardado ao fim do dia
+  balance: number;
+}
+
+export const getSignedAmount = (contribution: { kind: GoalContributionKind; amount: number }) =>
+  contribution.kind === 'withdrawal' ? -contribution.amount : contribution.amount;
+
+// Um ponto por dia com movimentação, em ordem cronológica
+export const buildGoalTimeline = (
+  contributions: { kind: GoalContributionKind; amount: number; date: string }[]
+): GoalTimelinePoint[] => {
+  const changeByDate = new Map<string, number>();
+  contributions.forEach(contribution => {
+    const date = contribution.date.slice(0, 10);
+    changeByDate.set(date, (changeByDate.get(date) || 0) + getSignedAmount(contribution));
+  });
+
+  let balance = 0;
+  return Array.from(changeByDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, change]) => {
+      balance += change;
+      return { date, change, balance };
+    });
+};
+
+/**
+ * Média mensal líquida dos aportes nos últimos `months` meses, usada para prever
+ * quando a meta será atingida no ritmo real de poupança.
+ */
+export const getMonthlyContributionRate = (
+  contributions: { kind: GoalContributionKind; amount: number; date: string }[],
+  months = 3,
+  reference: Date = new Date()
+): number => {
+  const since = new Date(reference);
+  since.setMonth(since.getMonth() - months);
+  const sinceDate = since.toISOString().split('T')[0];
+
+  const total = contributions
+    .filter(contribution => contribution.date >= sinceDate)
+    .reduce((sum, contribution) => sum + getSignedAmount(contribution), 0);
+
+  return total / months;
+};
@@ -0,0 +1,52 @@
+import type { Transaction } from '@/hooks/useTransactions';
+
+type InstallmentFields = Pick<Transaction, 'installment_plan_id' | 'installment_number' | 'installment_count'>;
+
+export const MAX_INSTALLMENTS = 48;
+
+export const isInstallment = (transaction: InstallmentFields): boolean =>
+  !!transaction.installment_plan_id && !!transaction.installment_number && !!transaction.installment_count;
+
+export const getInstallmentLabel = (transaction: InstallmentFields): string =>
+  `${transaction.installment_number}/${transaction.installment_count}`;
+
+const parseDate = (date: string | Date) =>
+  typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00`) : date;
+
+/**
+ * Primeiro dia do mês da fatura que recebe a compra (espelha card_invoice_month no
+ * banco): depois do dia de fechamento, a compra entra na fatura do mês seguinte.
+ */
+export const getInvoiceMonth = (date: string | Date, closingDay: number): Date => {
+  const value = parseDate(date);
+  const lastDay = new Date(value.getFullYear(), value.getMonth() + 1, 0).getDate();
+  const offset = value.getDate() > Math.min(closingDay, lastDay) ? 1 : 0;
+  return new Date(value.getFullYear(), value.getMonth() + offset, 1);
+};
+
+// Valor de cada parcela; os centavos que sobram ficam na primeira, como no banco
+export const splitInstallments = (total: number, count: number): number[] => {
+  const totalCents = Math.round(total * 100);
+  const installmentCents = Math.trunc(totalCents / count);
+  return Array.from({ length: count }, (_, index) =>
+    (index === 0 ? totalCents - installmentCents * (count - 1) : installmentCents) / 100
+  );
+};
+
+// Parcelas ainda não faturadas: da fatura aberta do cartão em diante
+export const isRemainingInstallment = (
+  transaction: Pick<Transaction, 'date' | 'status'>,
+  closingDay: number,
+  today: Date = new Date()
+): boolean =>
+  transaction.status !== 'cancelled' &&
+  getInvoiceMonth(transaction.date, closingDay) >= getInvoiceMonth(today, closingDay);
+
+// Total das parcelas a faturar de um cartão, já descontado do limite disponível
+export const getOutstandingInstallments = (
+  transactions: Transaction[],
+  card: { id: string; closing_day: number }
+): number =>
+  transactions
+    .filter(t => t.account_id === card.id && isInstallment(t) && isRemainingInstallment(t, card.closing_day))
+    .reduce((sum, t) => sum + Number(t.amount), 0);
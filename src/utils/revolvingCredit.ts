@@ -0,0 +1,141 @@
+// Simulação do rotativo e do parcelamento de fatura do cartão de crédito.
+// Valores percentuais são informados como no extrato (14 = 14% ao mês).
+
+export const SIMULATION_HORIZON_MONTHS = 60;
+
+// IOF sobre operações de crédito de pessoa física: alíquota adicional sobre o valor
+// financiado e alíquota diária limitada a 365 dias
+export const DEFAULT_IOF_ADDITIONAL_RATE = 0.38;
+export const DEFAULT_IOF_DAILY_RATE = 0.0082;
+const IOF_MAX_DAYS = 365;
+const DAYS_PER_MONTH = 30;
+
+export interface RevolvingCreditParams {
+  balance: number;
+  monthlyRate: number;
+  iofAdditionalRate: number;
+  iofDailyRate: number;
+}
+
+export type RevolvingScenario =
+  | { kind: 'minimum'; minimumPercent: number }
+  | { kind: 'fixed'; payment: number }
+  | { kind: 'installments'; count: number; monthlyRate: number };
+
+export interface RevolvingProjectionMonth {
+  month: number;
+  openingBalance: number;
+  interest: number;
+  iof: number;
+  payment: number;
+  closingBalance: number;
+}
+
+export interface RevolvingProjection {
+  months: RevolvingProjectionMonth[];
+  totalPaid: number;
+  totalInterest: number;
+  totalIof: number;
+  // Saldo que ainda resta ao fim do horizonte da simulação
+  remainingBalance: number;
+  paidOff: boolean;
+  // Juros limitados a 100% da dívida original (Lei 14.690/2023)
+  interestCapped: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Parcela fixa da tabela Price
+export const getInstallmentPayment = (principal: number, monthlyRate: number, count: number): number => {
+  const rate = monthlyRate / 100;
+  if (rate === 0) return round(principal / count);
+  return round((principal * rate) / (1 - Math.pow(1 + rate, -count)));
+};
+
+// IOF do parcelamento, cobrado de uma vez na primeira fatura: adicional sobre o total
+// e diário sobre a amortização de cada parcela pelo prazo até o seu vencimento
+const getInstallmentsIof = (params: RevolvingCreditParams, count: number, monthlyRate: number): number => {
+  const payment = getInstallmentPayment(params.balance, monthlyRate, count);
+  let balance = params.balance;
+  let iof = params.balance * params.iofAdditionalRate / 100;
+
+  for (let month = 1; month <= count; month++) {
+    const amortization = Math.min(balance, payment - balance * monthlyRate / 100);
+    const days = Math.min(month * DAYS_PER_MONTH, IOF_MAX_DAYS);
+    iof += amortization * params.iofDailyRate / 100 * days;
+    balance -= amortization;
+  }
+
+  return round(iof);
+};
+
+/**
+ * Projeta a dívida mês a mês. No rotativo, juros e IOF incidem sobre o saldo não pago
+ * a cada fatura; no parcelamento, as parcelas são fixas e o IOF vem na primeira.
+ */
+export const projectRevolvingCredit = (
+  params: RevolvingCreditParams,
+  scenario: RevolvingScenario
+): RevolvingProjection => {
+  const months: RevolvingProjectionMonth[] = [];
+  const rate = (scenario.kind === 'installments' ? scenario.monthlyRate : params.monthlyRate) / 100;
+  const installmentPayment = scenario.kind === 'installments'
+    ? getInstallmentPayment(params.balance, scenario.monthlyRate, scenario.count)
+    : 0;
+  const installmentsIof = scenario.kind === 'installments'
+    ? getInstallmentsIof(params, scenario.count, scenario.monthlyRate)
+    : 0;
+
+  let balance = round(params.balance);
+  let interestAllowance = balance;
+  let interestCapped = false;
+
+  for (let month = 1; month <= SIMULATION_HORIZON_MONTHS && balance > 0; month++) {
+    let interest = round(balance * rate);
+    if (interest > interestAllowance) {
+      interest = round(interestAllowance);
+      interestCapped = true;
+    }
+    interestAllowance -= interest;
+
+    let iof: number;
+    if (scenario.kind === 'installments') {
+      iof = month === 1 ? installmentsIof : 0;
+    } else {
+      const dailyIof = month * DAYS_PER_MONTH <= IOF_MAX_DAYS
+        ? balance * params.iofDailyRate / 100 * DAYS_PER_MONTH
+        : 0;
+      const additionalIof = month === 1 ? balance * params.iofAdditionalRate / 100 : 0;
+      iof = round(dailyIof + additionalIof);
+    }
+
+    const due = round(balance + interest + iof);
+    let payment: number;
+    switch (scenario.kind) {
+      case 'minimum':
+        payment = due * scenario.minimumPercent / 100;
+        break;
+      case 'fixed':
+        payment = scenario.payment;
+        break;
+      default:
+        // A última parcela quita o saldo, absorvendo os centavos de arredondamento
+        payment = month >= scenario.count ? due : installmentPayment + iof;
+    }
+    payment = round(Math.min(due, Math.max(payment, 0)));
+
+    const closingBalance = round(due - payment);
+    months.push({ month, openingBalance: balance, interest, iof, payment, closingBalance });
+    balance = closingBalance;
+  }
+
+  return {
+    months,
+    totalPaid: round(months.reduce((sum, row) => sum + row.payment, 0)),
+    totalInterest: round(months.reduce((sum, row) => sum + row.interest, 0)),
+    totalIof: round(months.reduce((sum, row) => sum + row.iof, 0)),
+    remainingBalance: balance,
+    paidOff: balance <= 0,
+    interestCapped,
+  };
+};
@@ -0,0 +1,278 @@
+import { normalizeCategorizationText } from './categorizationText';
+
+export interface ClassifierInput {
+  description: string;
+  amount: number;
+  accountId?: string | null;
+  date?: string;
+  type?: string;
+}
+
+export interface ClassifierSample extends ClassifierInput {
+  categoryId: string;
+}
+
+export interface ClassifierPrediction {
+  categoryId: string;
+  confidence: number;
+  rawConfidence: number;
+  // Probabilidades das categorias mais prováveis, já normalizadas
+  alternatives: Array<{ categoryId: string; probability: number }>;
+}
+
+interface ClassModel {
+  samples: number;
+  types: Set<string>;
+  textCounts: Map<string, number>;
+  textTotal: number;
+  amountCounts: Map<string, number>;
+  accountCounts: Map<string, number>;
+  weekdayCounts: Map<string, number>;
+}
+
+interface CalibrationBin {
+  total: number;
+  correct: number;
+}
+
+// Mínimo de transações categorizadas para o modelo começar a sugerir
+const MIN_TRAINING_SAMPLES = 5;
+// Mínimo de transações para reservar uma parte do histórico e calibrar a confiança
+const MIN_CALIBRATION_SAMPLES = 40;
+const CALIBRATION_HOLDOUT = 0.2;
+const CALIBRATION_BINS = 5;
+// Peso da confiança bruta ao suavizar faixas de calibração com poucas amostras
+const CALIBRATION_PRIOR = 2;
+// Sem calibração, a confiança é reduzida até o histórico crescer
+const UNCALIBRATED_SHRINK = 20;
+
+const NGRAM_SIZES = [3, 4];
+const FEATURE_WEIGHTS = {
+  amount: 0.6,
+  account: 0.5,
+  weekday: 0.3
+};
+
+const tokenizeDescription = (description: string): string[] => {
+  const normalized = normalizeCategorizationText(description)
+    .replace(/\d+/g, '#')
+    .replace(/[^a-z# ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const tokens: string[] = [];
+  for (const word of normalized.split(' ')) {
+    if (word.length < 2 || word === '#') continue;
+    tokens.push(`w:${word}`);
+
+    const padded = ` ${word} `;
+    for (const size of NGRAM_SIZES) {
+      for (let i = 0; i + size <= padded.length; i++) {
+        tokens.push(`c:${padded.slice(i, i + size)}`);
+      }
+    }
+  }
+  return tokens;
+};
+
+// Faixas logarítmicas: valores de mesma ordem de grandeza caem na mesma faixa
+const amountBucket = (amount: number): string =>
+  String(Math.round(Math.log2(Math.abs(amount) + 1) * 2));
+
+const weekdayOf = (date?: string): string | null => {
+  if (!date) return null;
+  const parsed = new Date(`${date.slice(0, 10)}T00:00:00`);
+  return isNaN(parsed.getTime()) ? null : String(parsed.getDay());
+};
+
+const increment = (map: Map<string, number>, key: string) => {
+  map.set(key, (map.get(key) || 0) + 1);
+};
+
+/**
+ * Classificador Naive Bayes multinomial treinado com o histórico do próprio usuário.
+ * Usa n-gramas de caracteres e palavras da descrição, faixa de valor, conta e dia da semana.
+ * Roda inteiramente no navegador, sem dependências externas.
+ */
+export class TransactionClassifier {
+  private classes: Map<string, ClassModel> = new Map();
+  private vocabulary: Set<string> = new Set();
+  private totalSamples = 0;
+  private calibration: CalibrationBin[] | null = null;
+
+  train(samples: ClassifierSample[]) {
+    const valid = samples
+      .filter(s => s.categoryId && s.description?.trim())
+      .sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+
+    this.calibration = null;
+
+    // Calibração: treina com o passado, mede o acerto por faixa de confiança no período mais recente
+    if (valid.length >= MIN_CALIBRATION_SAMPLES) {
+      const split = Math.floor(valid.length * (1 - CALIBRATION_HOLDOUT));
+      this.fit(valid.slice(0, split));
+
+      const bins: CalibrationBin[] = Array.from({ length: CALIBRATION_BINS }, () => ({ total: 0, correct: 0 }));
+      for (const sample of valid.slice(split)) {
+        const prediction = this.predictRaw(sample);
+        if (!prediction) continue;
+
+        const bin = bins[this.binIndex(prediction.rawConfidence)];
+        bin.total++;
+        if (prediction.categoryId === sample.categoryId) bin.correct++;
+      }
+      this.calibration = bins;
+    }
+
+    this.fit(valid);
+  }
+
+  predict(input: ClassifierInput): ClassifierPrediction | null {
+    const prediction = this.predictRaw(input);
+    if (!prediction) return null;
+
+    return {
+      ...prediction,
+      confidence: this.calibrate(prediction.rawConfidence)
+    };
+  }
+
+  // Treino incremental (sem recalibrar), usado ao reproduzir o histórico em ordem
+  addSample(sample: ClassifierSample) {
+    if (!sample.categoryId || !sample.description?.trim()) return;
+    this.addToModel(sample);
+  }
+
+  getTrainingSize(): number {
+    return this.totalSamples;
+  }
+
+  isReady(): boolean {
+    return this.totalSamples >= MIN_TRAINING_SAMPLES && this.classes.size > 1;
+  }
+
+  private fit(samples: ClassifierSample[]) {
+    this.classes = new Map();
+    this.vocabulary = new Set();
+    this.totalSamples = 0;
+
+    for (const sample of samples) {
+      this.addToModel(sample);
+    }
+  }
+
+  private addToModel(sample: ClassifierSample) {
+    let model = this.classes.get(sample.categoryId);
+    if (!model) {
+      model = {
+        samples: 0,
+        types: new Set(),
+        textCounts: new Map(),
+        textTotal: 0,
+        amountCounts: new Map(),
+        accountCounts: new Map(),
+        weekdayCounts: new Map()
+      };
+      this.classes.set(sample.categoryId, model);
+    }
+
+    model.samples++;
+    this.totalSamples++;
+    if (sample.type) model.types.add(sample.type);
+
+    for (const token of tokenizeDescription(sample.description)) {
+      increment(model.textCounts, token);
+      model.textTotal++;
+      this.vocabulary.add(token);
+    }
+
+    increment(model.amountCounts, amountBucket(sample.amount));
+    if (sample.accountId) increment(model.accountCounts, sample.accountId);
+    const weekday = weekdayOf(sample.date);
+    if (weekday) increment(model.weekdayCounts, weekday);
+  }
+
+  private predictRaw(input: ClassifierInput): Omit<ClassifierPrediction, 'confidence'> | null {
+    if (!this.isReady()) return null;
+
+    const tokens = tokenizeDescription(input.description).filter(t => this.vocabulary.has(t));
+    if (tokens.length === 0) return null;
+
+    const candidates = [...this.classes.entries()].filter(([, model]) =>
+      !input.type || model.types.size === 0 || model.types.has(input.type)
+    );
+    if (candidates.length === 0) return null;
+
+    const vocabularySize = this.vocabulary.size;
+    // Temperatura: evita que descrições longas gerem probabilidades extremas
+    const temperature = Math.max(1, Math.sqrt(tokens.length));
+    const bucket = amountBucket(input.amount);
+    const weekday = weekdayOf(input.date);
+
+    const scores = candidates.map(([categoryId, model]) => {
+      let score = Math.log(model.samples / this.totalSamples);
+
+      let textScore = 0;
+      for (const token of tokens) {
+        textScore += Math.log(((model.textCounts.get(token) || 0) + 1) / (model.textTotal + vocabularySize));
+      }
+      score += textScore / temperature;
+
+      // Suavização de Laplace sobre as ocorrências da própria categoria
+      const categorical = (counts: Map<string, number>, value: string) =>
+        Math.log(((counts.get(value) || 0) + 1) / (model.samples + counts.size + 1));
+
+      score += FEATURE_WEIGHTS.amount * categorical(model.amountCounts, bucket);
+      if (input.accountId) score += FEATURE_WEIGHTS.account * categorical(model.accountCounts, input.accountId);
+      if (weekday) score += FEATURE_WEIGHTS.weekday * categorical(model.weekdayCounts, weekday);
+
+      return { categoryId, score };
+    });
+
+    // Softmax estável
+    const maxScore = Math.max(...scores.map(s => s.score));
+    const exps = scores.map(s => ({ categoryId: s.categoryId, value: Math.exp(s.score - maxScore) }));
+    const sum = exps.reduce((acc, e) => acc + e.value, 0);
+    const alternatives = exps
+      .map(e => ({ categoryId: e.categoryId, probability: e.value / sum }))
+      .sort((a, b) => b.probability - a.probability);
+
+    return {
+      categoryId: alternatives[0].categoryId,
+      rawConfidence: alternatives[0].probability,
+      alternatives: alternatives.slice(0, 3)
+    };
+  }
+
+  private binIndex(confidence: number): number {
+    return Math.min(CALIBRATION_BINS - 1, Math.floor(confidence * CALIBRATION_BINS));
+  }
+
+  private calibrate(rawConfidence: number): number {
+    if (!this.calibration) {
+      return rawConfidence * (this.totalSamples / (this.totalSamples + UNCALIBRATED_SHRINK));
+    }
+
+    const bin = this.calibration[this.binIndex(rawConfidence)];
+    return (bin.correct + rawConfidence * CALIBRATION_PRIOR) / (bin.total + CALIBRATION_PRIOR);
+  }
+}
+
+export const toClassifierSample = (transaction: {
+  description: string;
+  amount: number;
+  account_id?: string | null;
+  category_id?: string | null;
+  date: string;
+  type: string;
+}): ClassifierSample | null =>
+  transaction.category_id
+    ? {
+        description: transaction.description,
+        amount: transaction.amount,
+        accountId: transaction.account_id,
+        date: transaction.date,
+        type: transaction.type,
+        categoryId: transaction.category_id
+      }
+    : null;
@@ -0,0 +1,352 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { Transaction } from '@/hooks/useTransactions';
+import { normalizeCategorizationText } from './categorizationText';
+
+export type QueryTextField = 'description' | 'notes' | 'tag' | 'account' | 'category';
+export type QueryComparison = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export type QueryClause =
+  | { kind: 'text'; field: QueryTextField; value: string; negated: boolean }
+  | { kind: 'amount'; op: QueryComparison; value: number; negated: boolean }
+  | { kind: 'date'; op: QueryComparison; value: string; negated: boolean }
+  | { kind: 'type'; value: Transaction['type']; negated: boolean }
+  | { kind: 'status'; value: Transaction['status']; negated: boolean };
+
+export interface TransactionQuery {
+  clauses: QueryClause[];
+  errors: string[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Texto completo da busca depois de aceitar a sugestão
+  value: string;
+}
+
+export interface QuerySuggestionSources {
+  categories: Array<{ name: string; icon?: string }>;
+  accounts: Array<{ name: string }>;
+  tags: string[];
+}
+
+type QueryFieldKind = 'text' | 'amount' | 'date' | 'type' | 'status';
+
+interface QueryFieldConfig {
+  kind: QueryFieldKind;
+  label: string;
+  textField?: QueryTextField;
+  // Comparação padrão de campos de data quando o valor vem sem operador
+  defaultOp?: QueryComparison;
+}
+
+// Campo canônico de cada nome aceito na busca (português e inglês)
+const QUERY_FIELDS: Record<string, QueryFieldConfig> = {
+  desc: { kind: 'text', label: 'Descrição', textField: 'description' },
+  tag: { kind: 'text', label: 'Tag', textField: 'tag' },
+  cat: { kind: 'text', label: 'Categoria', textField: 'category' },
+  account: { kind: 'text', label: 'Conta', textField: 'account' },
+  notes: { kind: 'text', label: 'Observações', textField: 'notes' },
+  amount: { kind: 'amount', label: 'Valor' },
+  date: { kind: 'date', label: 'Data', defaultOp: 'eq' },
+  before: { kind: 'date', label: 'Antes de', defaultOp: 'lt' },
+  after: { kind: 'date', label: 'Depois de', defaultOp: 'gt' },
+  type: { kind: 'type', label: 'Tipo' },
+  status: { kind: 'status', label: 'Status' },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  description: 'desc',
+  descricao: 'desc',
+  tags: 'tag',
+  category: 'cat',
+  categoria: 'cat',
+  conta: 'account',
+  note: 'notes',
+  obs: 'notes',
+  valor: 'amount',
+  data: 'date',
+  antes: 'before',
+  depois: 'after',
+  tipo: 'type',
+  situacao: 'status',
+};
+
+const TYPE_VALUES: Record<string, Transaction['type']> = {
+  income: 'income',
+  receita: 'income',
+  expense: 'expense',
+  despesa: 'expense',
+  transfer: 'transfer',
+  transferencia: 'transfer',
+};
+
+const STATUS_VALUES: Record<string, Transaction['status']> = {
+  completed: 'completed',
+  concluida: 'completed',
+  pending: 'pending',
+  pendente: 'pending',
+  cancelled: 'cancelled',
+  cancelada: 'cancelled',
+};
+
+const COMPARISON_TOKENS: Record<string, QueryComparison> = {
+  '>=': 'gte',
+  '<=': 'lte',
+  '>': 'gt',
+  '<': 'lt',
+  '=': 'eq',
+};
+
+const resolveField = (name: string): string | undefined => {
+  const normalized = normalizeCategorizationText(name);
+  if (QUERY_FIELDS[normalized]) return normalized;
+  return FIELD_ALIASES[normalized];
+};
+
+// Divide a busca em termos, respeitando aspas ("Nubank Roxinho")
+const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+
+  return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '');
+
+const parseAmount = (value: string): number | null => {
+  const normalized = value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value;
+  const amount = Number(normalized);
+  return normalized !== '' && !isNaN(amount) ? amount : null;
+};
+
+// Aceita AAAA-MM-DD ou DD/MM/AAAA
+const parseDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const br = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : br ? [br[3], br[2], br[1]] : [];
+  if (!year) return null;
+
+  const date = new Date(`${year}-${month}-${day}T00:00:00`);
+  return isNaN(date.getTime()) ? null : `${year}-${month}-${day}`;
+};
+
+// Separa "campo>valor", "campo:>=valor" e "campo:valor"
+const splitFieldToken = (token: string): { name: string; op?: QueryComparison; raw: string } | null => {
+  const match = token.match(/^([A-Za-zÀ-ÿ_]+)(?::)?(>=|<=|>|<|=)(.*)$/) ?? token.match(/^([A-Za-zÀ-ÿ_]+):()(.*)$/);
+  if (!match) return null;
+  return { name: match[1], op: match[2] ? COMPARISON_TOKENS[match[2]] : undefined, raw: unquote(match[3]) };
+};
+
+/**
+ * Interpreta a linguagem de busca da lista de transações, por exemplo:
+ * `tag:viagem amount>200 account:"Nubank" cat:Alimentação before:2026-03-01 -uber`.
+ * Termos sem campo buscam na descrição; o prefixo "-" nega o termo.
+ */
+export const parseTransactionQuery = (input: string): TransactionQuery => {
+  const clauses: QueryClause[] = [];
+  const errors: string[] = [];
+
+  for (const rawToken of tokenize(input)) {
+    const negated = rawToken.length > 1 && rawToken.startsWith('-');
+    const token = negated ? rawToken.slice(1) : rawToken;
+    const parts = splitFieldToken(token);
+    const fieldKey = parts ? resolveField(parts.name) : undefined;
+
+    if (!parts || !fieldKey) {
+      if (parts && token.includes(':')) errors.push(`Campo desconhecido: ${parts.name}`);
+      const value = unquote(token);
+      if (value) clauses.push({ kind: 'text', field: 'description', value, negated });
+      continue;
+    }
+
+    const config = QUERY_FIELDS[fieldKey];
+    const { op, raw } = parts;
+    if (!raw) continue;
+
+    switch (config.kind) {
+      case 'text':
+        clauses.push({ kind: 'text', field: config.textField!, value: raw, negated });
+        break;
+      case 'amount': {
+        // Intervalo "amount:100..500"
+        const [from, to] = raw.split('..');
+        if (to !== undefined && negated) {
+          errors.push('Intervalos de valor não podem ser negados');
+          break;
+        }
+        const bounds: Array<[QueryComparison, string]> = to !== undefined
+          ? [['gte', from], ['lte', to]]
+          : [[op ?? 'eq', from]];
+        for (const [boundOp, boundValue] of bounds) {
+          const amount = parseAmount(boundValue);
+          if (amount === null) {
+            errors.push(`Valor inválido: ${boundValue}`);
+          } else {
+            clauses.push({ kind: 'amount', op: boundOp, value: amount, negated });
+          }
+        }
+        break;
+      }
+      case 'date': {
+        const date = parseDate(raw);
+        if (!date) {
+          errors.push(`Data inválida: ${raw}`);
+        } else {
+          clauses.push({ kind: 'date', op: op ?? config.defaultOp ?? 'eq', value: date, negated });
+        }
+        break;
+      }
+      case 'type': {
+        const type = TYPE_VALUES[normalizeCategorizationText(raw)];
+        if (type) clauses.push({ kind: 'type', value: type, negated });
+        else errors.push(`Tipo inválido: ${raw}`);
+        break;
+      }
+      case 'status': {
+        const status = STATUS_VALUES[normalizeCategorizationText(raw)];
+        if (status) clauses.push({ kind: 'status', value: status, negated });
+        else errors.push(`Status inválido: ${raw}`);
+        break;
+      }
+    }
+  }
+
+  return { clauses, errors };
+};
+
+const compare = (left: number | string, op: QueryComparison, right: number | string): boolean => {
+  switch (op) {
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+    default: return left === right;
+  }
+};
+
+const containsText = (text: string | undefined | null, value: string) =>
+  normalizeCategorizationText(text ?? '').includes(normalizeCategorizationText(value));
+
+const clauseMatches = (transaction: Transaction, clause: QueryClause): boolean => {
+  switch (clause.kind) {
+    case 'amount':
+      return compare(Number(transaction.amount), clause.op, clause.value);
+    case 'date':
+      return compare(transaction.date.slice(0, 10), clause.op, clause.value);
+    case 'type':
+      return transaction.type === clause.value;
+    case 'status':
+      return transaction.status === clause.value;
+  }
+
+  const splits = transaction.splits ?? [];
+  switch (clause.field) {
+    case 'description':
+      return containsText(transaction.description, clause.value);
+    case 'notes':
+      return [transaction.notes, ...splits.map(s => s.notes)].some(notes => containsText(notes, clause.value));
+    case 'tag': {
+      const tag = normalizeCategorizationText(clause.value);
+      return [...(transaction.tags ?? []), ...splits.flatMap(s => s.tags ?? [])]
+        .some(t => normalizeCategorizationText(t) === tag);
+    }
+    case 'account':
+      return containsText(transaction.account?.name, clause.value);
+    case 'category':
+      return [transaction.category?.name, ...splits.map(s => s.category?.name)]
+        .some(name => name !== undefined && containsText(name, clause.value));
+  }
+};
+
+// Avaliação local, com a mesma semântica de public.transaction_matches_query
+export const matchesTransactionQuery = (transaction: Transaction, query: TransactionQuery): boolean =>
+  query.clauses.every(clause => clauseMatches(transaction, clause) !== clause.negated);
+
+// Formato enviado como p_query às funções de filtro do banco
+export const toQueryFilterJson = (query: TransactionQuery): Json | undefined =>
+  query.clauses.length > 0 ? (query.clauses as unknown as Json) : undefined;
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Sugestões para o termo sendo digitado (o último da busca): nomes de campos
+ * ou valores conhecidos de categorias, contas, tags, tipos e status.
+ */
+export const getQuerySuggestions = (
+  input: string,
+  sources: QuerySuggestionSources,
+  limit = 8
+): QuerySuggestion[] => {
+  let tokenStart = 0;
+  let inQuotes = false;
+  for (let index = 0; index < input.length; index++) {
+    if (input[index] === '"') inQuotes = !inQuotes;
+    else if (/\s/.test(input[index]) && !inQuotes) tokenStart = index + 1;
+  }
+
+  const prefix = input.slice(0, tokenStart);
+  const rawToken = input.slice(tokenStart);
+  const negation = rawToken.startsWith('-') ? '-' : '';
+  const token = rawToken.slice(negation.length);
+
+  if (!token) return [];
+
+  const colon = token.indexOf(':');
+  if (colon < 0) {
+    const partial = normalizeCategorizationText(token);
+    return Object.entries(QUERY_FIELDS)
+      .filter(([name]) => name.startsWith(partial) && name !== partial)
+      .slice(0, limit)
+      .map(([name, config]) => ({
+        label: `${name}:`,
+        description: config.label,
+        value: `${prefix}${negation}${name}:`,
+      }));
+  }
+
+  const fieldKey = resolveField(token.slice(0, colon));
+  if (!fieldKey) return [];
+
+  const config = QUERY_FIELDS[fieldKey];
+  const partial = normalizeCategorizationText(unquote(token.slice(colon + 1)));
+  const candidates: Array<{ value: string; label: string }> = (() => {
+    switch (config.textField ?? config.kind) {
+      case 'category':
+        return sources.categories.map(c => ({ value: c.name, label: `${c.icon ?? ''} ${c.name}`.trim() }));
+      case 'account':
+        return sources.accounts.map(a => ({ value: a.name, label: a.name }));
+      case 'tag':
+        return sources.tags.map(tag => ({ value: tag, label: tag }));
+      case 'type':
+        return ['receita', 'despesa', 'transferencia'].map(value => ({ value, label: value }));
+      case 'status':
+        return ['concluida', 'pendente', 'cancelada'].map(value => ({ value, label: value }));
+      default:
+        return [];
+    }
+  })();
+
+  return candidates
+    .filter(candidate => normalizeCategorizationText(candidate.value).includes(partial))
+    .slice(0, limit)
+    .map(candidate => ({
+      label: candidate.label,
+      description: config.label,
+      value: `${prefix}${negation}${token.slice(0, colon + 1)}${quoteIfNeeded(candidate.value)} `,
+    }));
+};
@@ -0,0 +1,85 @@
+import type { Transaction, TransactionSplit, TransactionSplitInput } from '@/hooks/useTransactions';
+
+export interface CategoryLine {
+  transaction: Transaction;
+  categoryId?: string;
+  category?: Transaction['category'];
+  amount: number;
+  tags: string[];
+  notes?: string;
+}
+
+// Valores monetários comparados em centavos para evitar erros de ponto flutuante
+const toCents = (value: number) => Math.round(Number(value || 0) * 100);
+
+export const isSplitTransaction = (transaction: Pick<Transaction, 'splits'>): boolean =>
+  (transaction.splits?.length ?? 0) > 0;
+
+export const splitsTotal = (splits: Array<Pick<TransactionSplitInput, 'amount'>>): number =>
+  splits.reduce((sum, split) => sum + toCents(split.amount), 0) / 100;
+
+export const splitsRemaining = (splits: Array<Pick<TransactionSplitInput, 'amount'>>, amount: number): number =>
+  (toCents(amount) - toCents(splitsTotal(splits))) / 100;
+
+export const createSplitLine = (amount = 0, categoryId = ''): TransactionSplitInput => ({
+  category_id: categoryId,
+  amount,
+  tags: [],
+  notes: '',
+});
+
+// Retorna a primeira inconsistência das linhas, ou null quando podem ser salvas
+export const validateSplits = (splits: TransactionSplitInput[], amount: number): string | null => {
+  if (splits.length === 0) return null;
+  if (splits.length === 1) return 'Uma transação dividida precisa de pelo menos duas linhas';
+  if (splits.some(split => !(Number(split.amount) > 0))) return 'Cada divisão precisa de um valor maior que zero';
+  if (splits.some(split => !split.category_id)) return 'Escolha a categoria de cada divisão';
+
+  const remaining = splitsRemaining(splits, amount);
+  if (remaining !== 0) {
+    return remaining > 0
+      ? `Faltam R$ ${remaining.toFixed(2)} para completar o valor da transação`
+      : `As divisões excedem o valor da transação em R$ ${Math.abs(remaining).toFixed(2)}`;
+  }
+
+  return null;
+};
+
+export const toSplitInputs = (splits: TransactionSplit[] = []): TransactionSplitInput[] =>
+  [...splits]
+    .sort((a, b) => a.position - b.position)
+    .map(split => ({
+      category_id: split.category_id ?? '',
+      amount: Number(split.amount),
+      tags: split.tags ?? [],
+      notes: split.notes ?? '',
+    }));
+
+/**
+ * Linhas por categoria efetiva de cada transação: as divisões quando existem,
+ * senão a própria transação. Usado por relatórios, análises e exportações.
+ */
+export const getCategoryLines = (transactions: Transaction[]): CategoryLine[] =>
+  transactions.flatMap(transaction => {
+    if (!isSplitTransaction(transaction)) {
+      return [{
+        transaction,
+        categoryId: transaction.category_id,
+        category: transaction.category,
+        amount: Number(transaction.amount),
+        tags: transaction.tags ?? [],
+        notes: transaction.notes,
+      }];
+    }
+
+    return [...transaction.splits!]
+      .sort((a, b) => a.position - b.position)
+      .map(split => ({
+        transaction,
+        categoryId: split.category_id ?? undefined,
+        category: split.category,
+        amount: Number(split.amount),
+        tags: split.tags ?? [],
+        notes: split.notes ?? undefined,
+      }));
+  });
@@ -0,0 +1,29 @@
+import type { Transaction } from '@/hooks/useTransactions';
+
+type TransferFields = Pick<Transaction, 'type' | 'account_id' | 'transfer_account_id' | 'transfer_direction'>;
+
+export const isTransfer = (transaction: Pick<Transaction, 'type'>): boolean =>
+  transaction.type === 'transfer';
+
+// Contas de origem e destino, qualquer que seja a perna da transferência
+export const getTransferAccounts = (transaction: TransferFields) =>
+  transaction.transfer_direction === 'credit'
+    ? { fromAccountId: transaction.transfer_account_id, toAccountId: transaction.account_id }
+    : { fromAccountId: transaction.account_id, toAccountId: transaction.transfer_account_id };
+
+// Efeito da transação no saldo da própria conta (espelha transaction_balance_delta no banco)
+export const getSignedAmount = (
+  transaction: { type: string; amount: number; transfer_direction?: string | null }
+): number => {
+  const amount = Number(transaction.amount);
+  switch (transaction.type) {
+    case 'income':
+      return amount;
+    case 'expense':
+      return -amount;
+    default:
+      if (transaction.transfer_direction === 'credit') return amount;
+      if (transaction.transfer_direction === 'debit') return -amount;
+      return 0;
+  }
+};
@@ -0,0 +1,106 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface BudgetTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  budget_template_items: {
+    category_id: string;
+    amount: number;
+    rollover_enabled: boolean;
+  }[];
+}
+
+// Agendada para o fim de cada mês: cria os orçamentos do mês seguinte a partir do
+// modelo ativo de cada usuário. Orçamentos que já existem no mês são mantidos.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log('🔄 Iniciando criação dos orçamentos do próximo mês...');
+
+    const { data: templates, error: fetchError } = await supabase
+      .from('budget_templates')
+      .select('id, user_id, name, budget_template_items(category_id, amount, rollover_enabled)')
+      .eq('is_active', true);
+
+    if (fetchError) {
+      console.error('❌ Erro ao buscar modelos:', fetchError);
+      throw fetchError;
+    }
+
+    console.log(`📊 Encontrados ${templates?.length || 0} modelos ativos`);
+
+    const today = new Date();
+    const nextMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1));
+    const startDate = nextMonth.toISOString().split('T')[0];
+    let createdCount = 0;
+    let failedCount = 0;
+
+    for (const template of (templates as BudgetTemplate[]) || []) {
+      if (template.budget_template_items.length === 0) continue;
+
+      const { data: created, error: insertError } = await supabase
+        .from('budgets')
+        .upsert(
+          template.budget_template_items.map(item => ({
+            user_id: template.user_id,
+            category_id: item.category_id,
+            amount: item.amount,
+            rollover_enabled: item.rollover_enabled,
+            period_type: 'monthly',
+            start_date: startDate,
+            month: nextMonth.getUTCMonth() + 1,
+            year: nextMonth.getUTCFullYear(),
+          })),
+          { onConflict: 'user_id,scope,category_id,tag,account_ids,period_type,start_date', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (insertError) {
+        console.error(`❌ Erro ao aplicar modelo ${template.id}:`, insertError);
+        failedCount++;
+        continue;
+      }
+
+      console.log(`✅ Modelo "${template.name}" (${template.id}): ${created?.length || 0} orçamentos criados`);
+      createdCount += created?.length || 0;
+    }
+
+    console.log(`✅ Processamento concluído: ${createdCount} orçamentos criados, ${failedCount} modelos com erro`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        month: startDate,
+        created: createdCount,
+        failed: failedCount,
+        templates: templates?.length || 0,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('❌ Erro no processamento:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,257 @@
+-- Motor de regras de automação: avalia automation_rules sempre que uma transação
+-- é inserida ou alterada (manual, importação, recorrência ou sincronização bancária)
+
+-- Normalizar texto para comparação (minúsculas e sem acentos)
+CREATE OR REPLACE FUNCTION public.normalize_rule_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(translate(
+    COALESCE(p_text, ''),
+    'ÁÀÂÃÄáàâãäÉÈÊËéèêëÍÌÎÏíìîïÓÒÔÕÖóòôõöÚÙÛÜúùûüÇç',
+    'AAAAAaaaaaEEEEeeeeIIIIiiiiOOOOOoooooUUUUuuuuCc'
+  ));
+$$;
+
+-- Avaliar uma condição individual contra uma transação
+CREATE OR REPLACE FUNCTION public.automation_condition_matches(
+  p_condition JSONB,
+  p_transaction public.transactions
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_field TEXT := p_condition->>'field';
+  v_operator TEXT := p_condition->>'operator';
+  v_value TEXT := COALESCE(p_condition->>'value', '');
+  v_text TEXT;
+  v_number NUMERIC;
+  v_target NUMERIC;
+BEGIN
+  -- Campos numéricos
+  IF v_field IN ('amount', 'day_of_month') THEN
+    v_number := CASE v_field
+      WHEN 'amount' THEN p_transaction.amount
+      ELSE EXTRACT(DAY FROM p_transaction.date)
+    END;
+
+    BEGIN
+      v_target := replace(trim(v_value), ',', '.')::NUMERIC;
+    EXCEPTION WHEN invalid_text_representation THEN
+      RETURN false;
+    END;
+
+    RETURN CASE v_operator
+      WHEN 'equals' THEN v_number = v_target
+      WHEN 'greater_than' THEN v_number > v_target
+      WHEN 'less_than' THEN v_number < v_target
+      ELSE false
+    END;
+  END IF;
+
+  -- Categoria: aceita tanto o ID quanto o nome
+  IF v_field = 'category' THEN
+    IF p_transaction.category_id IS NULL THEN
+      RETURN false;
+    END IF;
+    IF v_operator = 'equals' AND p_transaction.category_id::TEXT = v_value THEN
+      RETURN true;
+    END IF;
+    SELECT name INTO v_text FROM categories WHERE id = p_transaction.category_id;
+  ELSE
+    -- description e merchant usam a descrição da transação
+    v_text := p_transaction.description;
+  END IF;
+
+  v_text := normalize_rule_text(v_text);
+  v_value := normalize_rule_text(trim(v_value));
+
+  IF v_value = '' THEN
+    RETURN false;
+  END IF;
+
+  RETURN CASE v_operator
+    WHEN 'contains' THEN position(v_value IN v_text) > 0
+    WHEN 'equals' THEN v_text = v_value
+    WHEN 'starts_with' THEN left(v_text, length(v_value)) = v_value
+    WHEN 'ends_with' THEN right(v_text, length(v_value)) = v_value
+    ELSE false
+  END;
+END;
+$$;
+
+-- Uma regra casa quando todas as suas condições casam
+CREATE OR REPLACE FUNCTION public.automation_rule_matches(
+  p_conditions JSONB,
+  p_transaction public.transactions
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_condition JSONB;
+BEGIN
+  IF p_conditions IS NULL
+    OR jsonb_typeof(p_conditions) <> 'array'
+    OR jsonb_array_length(p_conditions) = 0 THEN
+    RETURN false;
+  END IF;
+
+  FOR v_condition IN SELECT * FROM jsonb_array_elements(p_conditions) LOOP
+    IF NOT automation_condition_matches(v_condition, p_transaction) THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+-- Resolver o valor de uma ação set_category (ID ou nome da categoria)
+CREATE OR REPLACE FUNCTION public.resolve_rule_category(
+  p_user_id UUID,
+  p_value TEXT,
+  p_transaction_type transaction_type
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM categories
+  WHERE user_id = p_user_id
+    AND COALESCE(is_active, true)
+    AND (
+      id::TEXT = p_value
+      OR normalize_rule_text(name) = normalize_rule_text(trim(p_value))
+    )
+  ORDER BY
+    (id::TEXT = p_value) DESC,
+    (transaction_type = p_transaction_type) DESC
+  LIMIT 1;
+$$;
+
+-- Aplicar as regras habilitadas, em ordem de prioridade, à transação
+CREATE OR REPLACE FUNCTION public.apply_automation_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_action JSONB;
+  v_value TEXT;
+  v_category_id UUID;
+  v_category_set BOOLEAN := false;
+BEGIN
+  -- Em atualizações, só reavaliar quando mudam os campos usados nas condições,
+  -- para não sobrescrever correções manuais de categoria
+  IF TG_OP = 'UPDATE'
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+    AND NEW.type IS NOT DISTINCT FROM OLD.type THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_rule IN
+    SELECT *
+    FROM automation_rules
+    WHERE user_id = NEW.user_id
+      AND enabled
+    ORDER BY priority ASC, created_at ASC
+  LOOP
+    CONTINUE WHEN NOT automation_rule_matches(v_rule.conditions, NEW);
+
+    FOR v_action IN
+      SELECT * FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(v_rule.actions) = 'array' THEN v_rule.actions ELSE '[]'::jsonb END
+      )
+    LOOP
+      v_value := trim(COALESCE(v_action->>'value', ''));
+
+      CASE v_action->>'type'
+        WHEN 'set_category' THEN
+          -- A regra de maior prioridade define a categoria
+          IF NOT v_category_set AND v_value <> '' THEN
+            v_category_id := resolve_rule_category(NEW.user_id, v_value, NEW.type);
+            IF v_category_id IS NOT NULL THEN
+              NEW.category_id := v_category_id;
+              v_category_set := true;
+            END IF;
+          END IF;
+
+        WHEN 'apply_tag' THEN
+          IF v_value <> '' AND NOT (v_value = ANY(COALESCE(NEW.tags, '{}'))) THEN
+            NEW.tags := array_append(COALESCE(NEW.tags, '{}'), v_value);
+          END IF;
+
+        WHEN 'set_recurring' THEN
+          -- Não marcar cópias geradas a partir de uma recorrência já ativa
+          IF NOT COALESCE(NEW.is_recurring, false) AND NOT EXISTS (
+            SELECT 1 FROM transactions t
+            WHERE t.user_id = NEW.user_id
+              AND t.id <> NEW.id
+              AND t.is_recurring
+              AND COALESCE(t.is_active, true)
+              AND t.account_id = NEW.account_id
+              AND t.amount = NEW.amount
+              AND normalize_rule_text(t.description) = normalize_rule_text(NEW.description)
+          ) THEN
+            NEW.is_recurring := true;
+            NEW.is_active := true;
+            NEW.recurrence_frequency := CASE
+              WHEN v_value IN ('daily', 'weekly', 'monthly', 'yearly') THEN v_value::recurrence_frequency
+              ELSE COALESCE(NEW.recurrence_frequency, 'monthly')
+            END;
+          END IF;
+
+        WHEN 'send_alert' THEN
+          INSERT INTO notifications (user_id, type, title, message, related_id)
+          VALUES (
+            NEW.user_id,
+            'general',
+            'Regra: ' || v_rule.name,
+            CASE WHEN v_value <> '' THEN v_value
+              ELSE NEW.description || ' - R$ ' || NEW.amount::TEXT
+            END,
+            NEW.id
+          );
+
+        ELSE
+          NULL;
+      END CASE;
+    END LOOP;
+
+    UPDATE automation_rules
+    SET times_triggered = times_triggered + 1,
+        last_triggered_at = now()
+    WHERE id = v_rule.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Executar antes das validações e dos triggers de saldo, notificação e auditoria,
+-- para que todos vejam a transação já com as ações aplicadas
+DROP TRIGGER IF EXISTS apply_automation_rules_trigger ON public.transactions;
+CREATE TRIGGER apply_automation_rules_trigger
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_automation_rules();
+
+-- Índice para buscar as regras habilitadas de um usuário por prioridade
+CREATE INDEX IF NOT EXISTS idx_automation_rules_user_enabled
+ON public.automation_rules(user_id, priority)
+WHERE enabled = true;
@@ -0,0 +1,355 @@
+-- Grupos lógicos (E/OU/NÃO) e operadores adicionais nas condições das regras de automação.
+-- A coluna conditions continua sendo um array (raiz = E); cada item pode ser uma
+-- condição simples ou um grupo no formato {"logic": "and|or|not", "conditions": [...]}
+
+-- Converter o valor de uma condição em número (aceita vírgula decimal)
+CREATE OR REPLACE FUNCTION public.rule_value_numeric(p_value TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN replace(trim(p_value), ',', '.')::NUMERIC;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Converter o valor de uma condição em data
+CREATE OR REPLACE FUNCTION public.rule_value_date(p_value TEXT)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN trim(p_value)::DATE;
+EXCEPTION WHEN invalid_datetime_format OR datetime_field_overflow THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Lista de valores de uma condição (value pode ser escalar ou array)
+CREATE OR REPLACE FUNCTION public.rule_value_list(p_value JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_value IS NULL OR jsonb_typeof(p_value) = 'null' THEN '{}'::TEXT[]
+    WHEN jsonb_typeof(p_value) = 'array' THEN
+      ARRAY(SELECT trim(v) FROM jsonb_array_elements_text(p_value) AS v WHERE trim(v) <> '')
+    WHEN trim(p_value #>> '{}') = '' THEN '{}'::TEXT[]
+    ELSE ARRAY[trim(p_value #>> '{}')]
+  END;
+$$;
+
+-- Avaliar uma condição simples contra uma transação
+CREATE OR REPLACE FUNCTION public.automation_condition_matches(
+  p_condition JSONB,
+  p_transaction public.transactions
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_field TEXT := p_condition->>'field';
+  v_operator TEXT := p_condition->>'operator';
+  v_values TEXT[] := rule_value_list(p_condition->'value');
+  v_value TEXT := COALESCE((rule_value_list(p_condition->'value'))[1], '');
+  v_value_to TEXT := COALESCE(p_condition->>'value_to', '');
+  v_text TEXT;
+  v_raw_text TEXT;
+  v_number NUMERIC;
+  v_from NUMERIC;
+  v_to NUMERIC;
+  v_tags TEXT[];
+BEGIN
+  IF array_length(v_values, 1) IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Campos numéricos (valor, dia do mês e dia da semana: 0 = domingo)
+  IF v_field IN ('amount', 'day_of_month', 'weekday') THEN
+    v_number := CASE v_field
+      WHEN 'amount' THEN p_transaction.amount
+      WHEN 'day_of_month' THEN EXTRACT(DAY FROM p_transaction.date)
+      ELSE EXTRACT(DOW FROM p_transaction.date)
+    END;
+    v_from := rule_value_numeric(v_value);
+    v_to := rule_value_numeric(v_value_to);
+
+    RETURN COALESCE(CASE v_operator
+      WHEN 'equals' THEN v_number = v_from
+      WHEN 'not_equals' THEN v_number <> v_from
+      WHEN 'greater_than' THEN v_number > v_from
+      WHEN 'less_than' THEN v_number < v_from
+      WHEN 'in' THEN v_number IN (SELECT rule_value_numeric(v) FROM unnest(v_values) AS v)
+      WHEN 'between' THEN CASE
+        -- Intervalos de dia da semana podem atravessar o domingo (ex.: sexta a segunda)
+        WHEN v_field = 'weekday' AND v_from > v_to THEN v_number >= v_from OR v_number <= v_to
+        ELSE v_number BETWEEN v_from AND v_to
+      END
+      ELSE false
+    END, false);
+  END IF;
+
+  -- Data da transação
+  IF v_field = 'date' THEN
+    RETURN COALESCE(CASE v_operator
+      WHEN 'equals' THEN p_transaction.date = rule_value_date(v_value)
+      WHEN 'before' THEN p_transaction.date < rule_value_date(v_value)
+      WHEN 'after' THEN p_transaction.date > rule_value_date(v_value)
+      WHEN 'between' THEN p_transaction.date BETWEEN rule_value_date(v_value) AND rule_value_date(v_value_to)
+      ELSE false
+    END, false);
+  END IF;
+
+  -- Campos identificadores e enumerados
+  IF v_field IN ('account_id', 'type', 'status') THEN
+    v_text := CASE v_field
+      WHEN 'account_id' THEN p_transaction.account_id::TEXT
+      WHEN 'type' THEN p_transaction.type::TEXT
+      ELSE COALESCE(p_transaction.status::TEXT, 'completed')
+    END;
+
+    RETURN CASE v_operator
+      WHEN 'equals' THEN v_text = v_value
+      WHEN 'not_equals' THEN v_text <> v_value
+      WHEN 'in' THEN v_text = ANY(v_values)
+      ELSE false
+    END;
+  END IF;
+
+  -- Tags: "contém" verifica se a transação possui a tag
+  IF v_field = 'tags' THEN
+    v_tags := ARRAY(SELECT normalize_rule_text(t) FROM unnest(COALESCE(p_transaction.tags, '{}')) AS t);
+
+    RETURN CASE v_operator
+      WHEN 'contains' THEN normalize_rule_text(v_value) = ANY(v_tags)
+      WHEN 'not_contains' THEN NOT (normalize_rule_text(v_value) = ANY(v_tags))
+      WHEN 'in' THEN EXISTS (
+        SELECT 1 FROM unnest(v_values) AS v WHERE normalize_rule_text(v) = ANY(v_tags)
+      )
+      ELSE false
+    END;
+  END IF;
+
+  -- Categoria: aceita tanto o ID quanto o nome
+  IF v_field = 'category' THEN
+    IF p_transaction.category_id IS NULL THEN
+      RETURN v_operator IN ('not_equals', 'not_contains');
+    END IF;
+    IF v_operator IN ('equals', 'in') AND p_transaction.category_id::TEXT = ANY(v_values) THEN
+      RETURN true;
+    END IF;
+    IF v_operator = 'not_equals' AND p_transaction.category_id::TEXT = v_value THEN
+      RETURN false;
+    END IF;
+    SELECT name INTO v_raw_text FROM categories WHERE id = p_transaction.category_id;
+  ELSE
+    -- description e merchant usam a descrição da transação
+    v_raw_text := p_transaction.description;
+  END IF;
+
+  IF v_operator = 'matches_regex' THEN
+    BEGIN
+      RETURN COALESCE(v_raw_text, '') ~* v_value;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      RETURN false;
+    END;
+  END IF;
+
+  v_text := normalize_rule_text(v_raw_text);
+  v_value := normalize_rule_text(v_value);
+
+  RETURN CASE v_operator
+    WHEN 'contains' THEN position(v_value IN v_text) > 0
+    WHEN 'not_contains' THEN position(v_value IN v_text) = 0
+    WHEN 'equals' THEN v_text = v_value
+    WHEN 'not_equals' THEN v_text <> v_value
+    WHEN 'starts_with' THEN left(v_text, length(v_value)) = v_value
+    WHEN 'ends_with' THEN right(v_text, length(v_value)) = v_value
+    WHEN 'in' THEN v_text IN (SELECT normalize_rule_text(v) FROM unnest(v_values) AS v)
+    ELSE false
+  END;
+END;
+$$;
+
+-- Avaliar um nó da árvore de condições (condição simples ou grupo)
+CREATE OR REPLACE FUNCTION public.automation_condition_node_matches(
+  p_node JSONB,
+  p_transaction public.transactions
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_logic TEXT;
+  v_child JSONB;
+BEGIN
+  IF NOT (p_node ? 'logic') THEN
+    RETURN automation_condition_matches(p_node, p_transaction);
+  END IF;
+
+  v_logic := p_node->>'logic';
+
+  IF v_logic = 'or' THEN
+    FOR v_child IN SELECT * FROM jsonb_array_elements(COALESCE(p_node->'conditions', '[]'::jsonb)) LOOP
+      IF automation_condition_node_matches(v_child, p_transaction) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+    RETURN false;
+  END IF;
+
+  -- "and" e "not" avaliam todos os filhos com E; "not" inverte o resultado
+  FOR v_child IN SELECT * FROM jsonb_array_elements(COALESCE(p_node->'conditions', '[]'::jsonb)) LOOP
+    IF NOT automation_condition_node_matches(v_child, p_transaction) THEN
+      RETURN v_logic = 'not';
+    END IF;
+  END LOOP;
+  RETURN v_logic <> 'not';
+END;
+$$;
+
+-- Uma regra casa quando todos os nós da raiz casam
+CREATE OR REPLACE FUNCTION public.automation_rule_matches(
+  p_conditions JSONB,
+  p_transaction public.transactions
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_node JSONB;
+BEGIN
+  IF p_conditions IS NULL
+    OR jsonb_typeof(p_conditions) <> 'array'
+    OR jsonb_array_length(p_conditions) = 0 THEN
+    RETURN false;
+  END IF;
+
+  FOR v_node IN SELECT * FROM jsonb_array_elements(p_conditions) LOOP
+    IF NOT automation_condition_node_matches(v_node, p_transaction) THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+-- Reavaliar as regras também quando mudam tags ou status, agora usados nas condições
+CREATE OR REPLACE FUNCTION public.apply_automation_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_action JSONB;
+  v_value TEXT;
+  v_category_id UUID;
+  v_category_set BOOLEAN := false;
+BEGIN
+  -- Em atualizações, só reavaliar quando mudam os campos usados nas condições,
+  -- para não sobrescrever correções manuais de categoria
+  IF TG_OP = 'UPDATE'
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+    AND NEW.type IS NOT DISTINCT FROM OLD.type
+    AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_rule IN
+    SELECT *
+    FROM automation_rules
+    WHERE user_id = NEW.user_id
+      AND enabled
+    ORDER BY priority ASC, created_at ASC
+  LOOP
+    CONTINUE WHEN NOT automation_rule_matches(v_rule.conditions, NEW);
+
+    FOR v_action IN
+      SELECT * FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(v_rule.actions) = 'array' THEN v_rule.actions ELSE '[]'::jsonb END
+      )
+    LOOP
+      v_value := trim(COALESCE(v_action->>'value', ''));
+
+      CASE v_action->>'type'
+        WHEN 'set_category' THEN
+          -- A regra de maior prioridade define a categoria
+          IF NOT v_category_set AND v_value <> '' THEN
+            v_category_id := resolve_rule_category(NEW.user_id, v_value, NEW.type);
+            IF v_category_id IS NOT NULL THEN
+              NEW.category_id := v_category_id;
+              v_category_set := true;
+            END IF;
+          END IF;
+
+        WHEN 'apply_tag' THEN
+          IF v_value <> '' AND NOT (v_value = ANY(COALESCE(NEW.tags, '{}'))) THEN
+            NEW.tags := array_append(COALESCE(NEW.tags, '{}'), v_value);
+          END IF;
+
+        WHEN 'set_recurring' THEN
+          -- Não marcar cópias geradas a partir de uma recorrência já ativa
+          IF NOT COALESCE(NEW.is_recurring, false) AND NOT EXISTS (
+            SELECT 1 FROM transactions t
+            WHERE t.user_id = NEW.user_id
+              AND t.id <> NEW.id
+              AND t.is_recurring
+              AND COALESCE(t.is_active, true)
+              AND t.account_id = NEW.account_id
+              AND t.amount = NEW.amount
+              AND normalize_rule_text(t.description) = normalize_rule_text(NEW.description)
+          ) THEN
+            NEW.is_recurring := true;
+            NEW.is_active := true;
+            NEW.recurrence_frequency := CASE
+              WHEN v_value IN ('daily', 'weekly', 'monthly', 'yearly') THEN v_value::recurrence_frequency
+              ELSE COALESCE(NEW.recurrence_frequency, 'monthly')
+            END;
+          END IF;
+
+        WHEN 'send_alert' THEN
+          INSERT INTO notifications (user_id, type, title, message, related_id)
+          VALUES (
+            NEW.user_id,
+            'general',
+            'Regra: ' || v_rule.name,
+            CASE WHEN v_value <> '' THEN v_value
+              ELSE NEW.description || ' - R$ ' || NEW.amount::TEXT
+            END,
+            NEW.id
+          );
+
+        ELSE
+          NULL;
+      END CASE;
+    END LOOP;
+
+    UPDATE automation_rules
+    SET times_triggered = times_triggered + 1,
+        last_triggered_at = now()
+    WHERE id = v_rule.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
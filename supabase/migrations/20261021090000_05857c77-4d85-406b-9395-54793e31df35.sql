@@ -0,0 +1,241 @@
+-- Simulação de regras de automação sobre o histórico e aplicação retroativa
+
+-- Permitir que operações em lote desliguem o motor de regras dentro da própria transação
+DROP TRIGGER IF EXISTS apply_automation_rules_trigger ON public.transactions;
+CREATE TRIGGER apply_automation_rules_trigger
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  WHEN (current_setting('app.automation_rules_bypass', true) IS DISTINCT FROM 'on')
+  EXECUTE FUNCTION public.apply_automation_rules();
+
+-- Auditoria: anexar o contexto da operação (app.audit_context) ao registro gerado
+CREATE OR REPLACE FUNCTION public.audit_trigger_function()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_context JSONB := NULLIF(current_setting('app.audit_context', true), '')::JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+    IF v_context IS NOT NULL THEN
+      v_new := v_new || jsonb_build_object('_context', v_context);
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_audit_log(TG_TABLE_NAME, 'INSERT', NULL, v_new);
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.create_audit_log(TG_TABLE_NAME, 'UPDATE', to_jsonb(OLD), v_new);
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.create_audit_log(
+      TG_TABLE_NAME, 'DELETE', to_jsonb(OLD),
+      CASE WHEN v_context IS NOT NULL THEN jsonb_build_object('_context', v_context) END
+    );
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Valor da primeira ação set_category de uma lista de ações
+CREATE OR REPLACE FUNCTION public.rule_category_action_value(p_actions JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT trim(a->>'value')
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(p_actions) = 'array' THEN p_actions ELSE '[]'::jsonb END
+  ) AS a
+  WHERE a->>'type' = 'set_category'
+    AND trim(COALESCE(a->>'value', '')) <> ''
+  LIMIT 1;
+$$;
+
+-- Simular uma regra (salva ou rascunho) sobre as transações do usuário, sem alterar nada.
+-- overridden_by_rule_id: regra de maior prioridade que definiria outra categoria;
+-- conflicting_rule_ids: todas as regras habilitadas que casam e definiriam outra categoria
+CREATE OR REPLACE FUNCTION public.simulate_automation_rule(
+  p_conditions JSONB,
+  p_actions JSONB,
+  p_priority INTEGER DEFAULT 1,
+  p_rule_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  date DATE,
+  description TEXT,
+  amount NUMERIC,
+  type TEXT,
+  current_category_id UUID,
+  proposed_category_id UUID,
+  current_tags TEXT[],
+  proposed_tags TEXT[],
+  overridden_by_rule_id UUID,
+  conflicting_rule_ids UUID[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH rule_info AS (
+    SELECT
+      rule_category_action_value(p_actions) AS category_value,
+      ARRAY(
+        SELECT DISTINCT trim(a->>'value')
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(p_actions) = 'array' THEN p_actions ELSE '[]'::jsonb END
+        ) AS a
+        WHERE a->>'type' = 'apply_tag' AND trim(COALESCE(a->>'value', '')) <> ''
+      ) AS tags,
+      (SELECT r.created_at FROM automation_rules r WHERE r.id = p_rule_id) AS rule_created_at
+  ),
+  matched AS (
+    SELECT
+      t AS tx,
+      CASE WHEN ri.category_value IS NOT NULL
+        THEN resolve_rule_category(t.user_id, ri.category_value, t.type)
+      END AS proposed_category_id
+    FROM transactions t
+    CROSS JOIN rule_info ri
+    WHERE t.user_id = auth.uid()
+      AND (p_start_date IS NULL OR t.date >= p_start_date)
+      AND (p_end_date IS NULL OR t.date <= p_end_date)
+      AND automation_rule_matches(p_conditions, t)
+  ),
+  competitors AS (
+    SELECT
+      (m.tx).id AS transaction_id,
+      r.id AS rule_id,
+      r.priority,
+      r.created_at,
+      resolve_rule_category(r.user_id, rule_category_action_value(r.actions), (m.tx).type) AS category_id
+    FROM matched m
+    JOIN automation_rules r
+      ON r.user_id = (m.tx).user_id
+     AND r.enabled
+     AND r.id IS DISTINCT FROM p_rule_id
+    WHERE rule_category_action_value(r.actions) IS NOT NULL
+      AND automation_rule_matches(r.conditions, m.tx)
+  )
+  SELECT
+    (m.tx).id,
+    (m.tx).date,
+    (m.tx).description,
+    (m.tx).amount,
+    (m.tx).type::TEXT,
+    (m.tx).category_id,
+    m.proposed_category_id,
+    COALESCE((m.tx).tags, '{}'),
+    COALESCE((m.tx).tags, '{}') || ARRAY(
+      SELECT tag FROM unnest(ri.tags) AS tag
+      WHERE NOT (tag = ANY(COALESCE((m.tx).tags, '{}')))
+    ),
+    CASE WHEN m.proposed_category_id IS NOT NULL THEN (
+      SELECT c.rule_id
+      FROM competitors c
+      WHERE c.transaction_id = (m.tx).id
+        AND c.category_id IS NOT NULL
+        AND (
+          c.priority < p_priority
+          OR (c.priority = p_priority AND (ri.rule_created_at IS NULL OR c.created_at < ri.rule_created_at))
+        )
+      ORDER BY c.priority, c.created_at
+      LIMIT 1
+    ) END,
+    ARRAY(
+      SELECT c.rule_id
+      FROM competitors c
+      WHERE c.transaction_id = (m.tx).id
+        AND c.category_id IS NOT NULL
+        AND m.proposed_category_id IS NOT NULL
+        AND c.category_id <> m.proposed_category_id
+      ORDER BY c.priority, c.created_at
+    )
+  FROM matched m
+  CROSS JOIN rule_info ri
+  ORDER BY (m.tx).date DESC;
+$$;
+
+-- Aplicar retroativamente a categoria e as tags de uma regra às transações que ela casa.
+-- Onde uma regra de maior prioridade definiria outra categoria, só as tags são aplicadas.
+-- Cada linha alterada gera um registro de auditoria com o contexto da regra.
+CREATE OR REPLACE FUNCTION public.apply_automation_rule_retroactively(
+  p_conditions JSONB,
+  p_actions JSONB,
+  p_priority INTEGER DEFAULT 1,
+  p_rule_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_transaction_ids UUID[] DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_category_id UUID;
+  v_count INTEGER := 0;
+  v_rule_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT name INTO v_rule_name FROM automation_rules WHERE id = p_rule_id AND user_id = auth.uid();
+
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'automation_rule_retroactive',
+    'automation_rule_id', p_rule_id,
+    'automation_rule_name', v_rule_name
+  )::TEXT, true);
+
+  FOR v_match IN
+    SELECT *
+    FROM simulate_automation_rule(p_conditions, p_actions, p_priority, p_rule_id, p_start_date, p_end_date) s
+    WHERE p_transaction_ids IS NULL OR s.transaction_id = ANY(p_transaction_ids)
+  LOOP
+    v_category_id := CASE
+      WHEN v_match.proposed_category_id IS NOT NULL AND v_match.overridden_by_rule_id IS NULL
+        THEN v_match.proposed_category_id
+      ELSE v_match.current_category_id
+    END;
+
+    CONTINUE WHEN v_category_id IS NOT DISTINCT FROM v_match.current_category_id
+      AND v_match.proposed_tags = v_match.current_tags;
+
+    UPDATE transactions
+    SET category_id = v_category_id,
+        tags = v_match.proposed_tags,
+        updated_at = now()
+    WHERE id = v_match.transaction_id
+      AND user_id = auth.uid();
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF p_rule_id IS NOT NULL AND v_count > 0 THEN
+    UPDATE automation_rules
+    SET times_triggered = times_triggered + v_count,
+        last_triggered_at = now()
+    WHERE id = p_rule_id
+      AND user_id = auth.uid();
+  END IF;
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Persistência das regras de auto-categorização e dos dados de aprendizado por usuário
+
+-- Regras personalizadas (rule_key nulo) e ajustes das regras padrão (rule_key = id da regra padrão)
+CREATE TABLE public.categorization_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  rule_key TEXT,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  confidence NUMERIC(3,2) NOT NULL DEFAULT 0.8 CHECK (confidence >= 0 AND confidence <= 1),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, rule_key)
+);
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categorization rules" 
+ON public.categorization_rules 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categorization rules" 
+ON public.categorization_rules 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categorization rules" 
+ON public.categorization_rules 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categorization rules" 
+ON public.categorization_rules 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categorization_rules_updated_at
+BEFORE UPDATE ON public.categorization_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Associações descrição normalizada → categoria aprendidas a partir das correções do usuário
+CREATE TABLE public.categorization_learning (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  description TEXT NOT NULL,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  count INTEGER NOT NULL DEFAULT 1 CHECK (count > 0),
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, description, category_id)
+);
+
+ALTER TABLE public.categorization_learning ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categorization learning" 
+ON public.categorization_learning 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categorization learning" 
+ON public.categorization_learning 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categorization learning" 
+ON public.categorization_learning 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categorization learning" 
+ON public.categorization_learning 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categorization_learning_updated_at
+BEFORE UPDATE ON public.categorization_learning
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_categorization_learning_user ON public.categorization_learning(user_id);
+
+-- Registrar uma correção de categoria: reforça a associação nova e enfraquece a anterior
+CREATE OR REPLACE FUNCTION public.record_categorization_learning(
+  p_description TEXT,
+  p_category_id UUID,
+  p_previous_category_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF trim(COALESCE(p_description, '')) = '' OR p_category_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO categorization_learning (user_id, description, category_id)
+  VALUES (auth.uid(), p_description, p_category_id)
+  ON CONFLICT (user_id, description, category_id)
+  DO UPDATE SET count = categorization_learning.count + 1,
+                last_used_at = now();
+
+  IF p_previous_category_id IS NOT NULL AND p_previous_category_id <> p_category_id THEN
+    DELETE FROM categorization_learning
+    WHERE user_id = auth.uid()
+      AND description = p_description
+      AND category_id = p_previous_category_id
+      AND count <= 1;
+
+    UPDATE categorization_learning
+    SET count = count - 1
+    WHERE user_id = auth.uid()
+      AND description = p_description
+      AND category_id = p_previous_category_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Regras de auto-categorização com restrições de valor, conta, tipo e palavras de exclusão
+ALTER TABLE public.categorization_rules
+  ADD COLUMN exclude_keywords TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN min_amount DECIMAL(15,2),
+  ADD COLUMN max_amount DECIMAL(15,2),
+  ADD COLUMN account_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN transaction_type public.transaction_type
+    CHECK (transaction_type IS NULL OR transaction_type IN ('income', 'expense')),
+  ADD CONSTRAINT categorization_rules_amount_range_check
+    CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount);
@@ -0,0 +1,360 @@
+-- Divisão de transações em várias categorias (split)
+
+CREATE TABLE public.transaction_splits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction splits" 
+ON public.transaction_splits 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction splits" 
+ON public.transaction_splits 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction splits" 
+ON public.transaction_splits 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction splits" 
+ON public.transaction_splits 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_transaction_splits_updated_at
+BEFORE UPDATE ON public.transaction_splits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_transaction_splits_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.transaction_splits
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_trigger_function();
+
+CREATE INDEX idx_transaction_splits_transaction ON public.transaction_splits(transaction_id);
+CREATE INDEX idx_transaction_splits_user_category ON public.transaction_splits(user_id, category_id);
+
+-- As linhas precisam somar o valor da transação; validado ao final da transação do banco
+-- para permitir trocar valor e linhas na mesma operação
+CREATE OR REPLACE FUNCTION public.validate_transaction_splits_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_amount NUMERIC;
+  v_splits_total NUMERIC;
+  v_splits_count INTEGER;
+BEGIN
+  IF TG_TABLE_NAME = 'transactions' THEN
+    v_transaction_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_transaction_id := OLD.transaction_id;
+  ELSE
+    v_transaction_id := NEW.transaction_id;
+  END IF;
+
+  SELECT amount INTO v_amount FROM transactions WHERE id = v_transaction_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0), COUNT(*)
+  INTO v_splits_total, v_splits_count
+  FROM transaction_splits
+  WHERE transaction_id = v_transaction_id;
+
+  IF v_splits_count > 0 AND v_splits_total <> v_amount THEN
+    RAISE EXCEPTION 'A soma das divisões (%) difere do valor da transação (%)', v_splits_total, v_amount;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER validate_transaction_splits_total_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.transaction_splits
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_transaction_splits_total();
+
+CREATE CONSTRAINT TRIGGER validate_transaction_amount_splits_trigger
+AFTER UPDATE OF amount ON public.transactions
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_transaction_splits_total();
+
+-- Uma linha por categoria efetiva: as divisões quando existem, senão a própria transação
+CREATE OR REPLACE VIEW public.transaction_category_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  t.id AS transaction_id,
+  NULL::UUID AS split_id,
+  t.user_id,
+  t.account_id,
+  t.type,
+  t.status,
+  t.date,
+  t.description,
+  t.category_id,
+  t.amount,
+  COALESCE(t.tags, '{}') AS tags
+FROM public.transactions t
+WHERE NOT EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id)
+UNION ALL
+SELECT
+  t.id AS transaction_id,
+  s.id AS split_id,
+  t.user_id,
+  t.account_id,
+  t.type,
+  t.status,
+  t.date,
+  t.description,
+  s.category_id,
+  s.amount,
+  s.tags
+FROM public.transaction_splits s
+JOIN public.transactions t ON t.id = s.transaction_id;
+
+-- Substituir as divisões de uma transação (lista vazia desfaz a divisão).
+-- p_amount permite alterar o valor da transação junto com as linhas.
+-- A categoria da transação passa a ser a da maior linha, para telas que mostram uma só categoria.
+CREATE OR REPLACE FUNCTION public.save_transaction_splits(
+  p_transaction_id UUID,
+  p_splits JSONB,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+  v_split JSONB;
+  v_category_type TEXT;
+  v_position INTEGER := 0;
+  v_amount NUMERIC;
+  v_total NUMERIC := 0;
+  v_primary_category UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transação não encontrada';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_splits, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'As divisões devem ser uma lista';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_splits, '[]'::jsonb)) = 1 THEN
+    RAISE EXCEPTION 'Uma transação dividida precisa de pelo menos duas linhas';
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_transaction.amount);
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  FOR v_split IN SELECT * FROM jsonb_array_elements(COALESCE(p_splits, '[]'::jsonb))
+  LOOP
+    IF COALESCE((v_split->>'amount')::NUMERIC, 0) <= 0 THEN
+      RAISE EXCEPTION 'Cada divisão precisa de um valor maior que zero';
+    END IF;
+
+    IF NULLIF(v_split->>'category_id', '') IS NOT NULL THEN
+      SELECT transaction_type::TEXT INTO v_category_type
+      FROM categories
+      WHERE id = (v_split->>'category_id')::UUID AND user_id = auth.uid();
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Categoria da divisão não encontrada';
+      END IF;
+
+      IF v_category_type <> v_transaction.type::TEXT THEN
+        RAISE EXCEPTION 'A categoria da divisão não corresponde ao tipo da transação';
+      END IF;
+    END IF;
+
+    INSERT INTO transaction_splits (transaction_id, user_id, category_id, amount, tags, notes, position)
+    VALUES (
+      p_transaction_id,
+      auth.uid(),
+      NULLIF(v_split->>'category_id', '')::UUID,
+      (v_split->>'amount')::NUMERIC,
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_split->'tags')), '{}'),
+      NULLIF(trim(COALESCE(v_split->>'notes', '')), ''),
+      v_position
+    );
+
+    v_total := v_total + (v_split->>'amount')::NUMERIC;
+    v_position := v_position + 1;
+  END LOOP;
+
+  IF v_position > 0 AND v_total <> v_amount THEN
+    RAISE EXCEPTION 'A soma das divisões (%) difere do valor da transação (%)', v_total, v_amount;
+  END IF;
+
+  SELECT category_id INTO v_primary_category
+  FROM transaction_splits
+  WHERE transaction_id = p_transaction_id AND category_id IS NOT NULL
+  ORDER BY amount DESC, position
+  LIMIT 1;
+
+  -- A categoria vem das linhas: não reavaliar as regras de automação nesta atualização
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+
+  UPDATE transactions
+  SET amount = v_amount,
+      category_id = CASE WHEN v_position > 0 THEN COALESCE(v_primary_category, category_id) ELSE category_id END,
+      updated_at = now()
+  WHERE id = p_transaction_id
+    AND (amount IS DISTINCT FROM v_amount OR (v_position > 0 AND v_primary_category IS DISTINCT FROM category_id));
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+END;
+$$;
+
+-- Alertas de orçamento para as categorias informadas no mês da data
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+  current_spent NUMERIC;
+BEGIN
+  FOR budget_record IN
+    SELECT b.*, c.name AS category_name
+    FROM budgets b
+    JOIN categories c ON b.category_id = c.id
+    WHERE b.user_id = p_user_id
+      AND b.month = EXTRACT(MONTH FROM p_date)
+      AND b.year = EXTRACT(YEAR FROM p_date)
+      AND b.category_id = ANY(p_category_ids)
+  LOOP
+    SELECT COALESCE(SUM(amount), 0) INTO current_spent
+    FROM transaction_category_lines
+    WHERE user_id = p_user_id
+      AND category_id = budget_record.category_id
+      AND type = 'expense'
+      AND EXTRACT(MONTH FROM date) = budget_record.month
+      AND EXTRACT(YEAR FROM date) = budget_record.year;
+
+    IF current_spent > budget_record.amount THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento de ' || budget_record.category_name ||
+          ' em R$ ' || (current_spent - budget_record.amount)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Gatilho de notificações: considera as linhas de divisão da transação
+CREATE OR REPLACE FUNCTION public.check_budget_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  goal_record RECORD;
+  notification_title TEXT;
+  notification_message TEXT;
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.type = 'expense' THEN
+      PERFORM public.notify_exceeded_budgets(
+        NEW.user_id,
+        NEW.date,
+        ARRAY(
+          SELECT DISTINCT category_id
+          FROM transaction_category_lines
+          WHERE transaction_id = NEW.id AND category_id IS NOT NULL
+        )
+      );
+    END IF;
+    
+    -- Check for goal achievements
+    FOR goal_record IN 
+      SELECT * FROM goals 
+      WHERE user_id = NEW.user_id 
+        AND NOT is_completed
+        AND current_amount >= target_amount
+    LOOP
+      notification_title := 'Meta Atingida! 🎉';
+      notification_message := 'Parabéns! Você atingiu sua meta: ' || goal_record.name;
+      
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (NEW.user_id, 'general', notification_title, notification_message, goal_record.id);
+      
+      -- Mark goal as completed
+      UPDATE goals SET is_completed = true WHERE id = goal_record.id;
+    END LOOP;
+  END IF;
+  
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Linhas de divisão também disparam os alertas das suas categorias
+CREATE OR REPLACE FUNCTION public.check_split_budget_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+BEGIN
+  IF NEW.category_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, date, type INTO v_transaction
+  FROM transactions
+  WHERE id = NEW.transaction_id;
+
+  IF FOUND AND v_transaction.type = 'expense' THEN
+    PERFORM public.notify_exceeded_budgets(v_transaction.user_id, v_transaction.date, ARRAY[NEW.category_id]);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_check_split_budget_notifications
+AFTER INSERT OR UPDATE OF amount, category_id ON public.transaction_splits
+FOR EACH ROW
+EXECUTE FUNCTION public.check_split_budget_notifications();
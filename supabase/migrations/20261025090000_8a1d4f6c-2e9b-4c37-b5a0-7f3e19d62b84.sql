@@ -0,0 +1,96 @@
+-- Feed de transações paginado e filtrado no servidor
+
+-- Ordenação do feed (data e id decrescentes) usada pelo cursor
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date_id
+ON public.transactions(user_id, date DESC, id DESC);
+
+-- Transações do usuário que atendem aos filtros da lista; a categoria também
+-- considera as divisões de transações divididas
+CREATE OR REPLACE FUNCTION public.filter_transactions(
+  p_search TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM transactions t
+  WHERE t.user_id = auth.uid()
+    AND (
+      NULLIF(btrim(p_search), '') IS NULL
+      OR t.description ILIKE '%' ||
+        replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (p_type IS NULL OR t.type::TEXT = p_type)
+    AND (
+      p_category_id IS NULL
+      OR t.category_id = p_category_id
+      OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = t.id AND s.category_id = p_category_id
+      )
+    )
+    AND (p_account_id IS NULL OR t.account_id = p_account_id)
+    AND (p_start_date IS NULL OR t.date >= p_start_date)
+    AND (p_end_date IS NULL OR t.date <= p_end_date);
+$$;
+
+-- Página do feed a partir do cursor (data e id da última transação carregada)
+CREATE OR REPLACE FUNCTION public.get_transactions_page(
+  p_search TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_cursor_date DATE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM public.filter_transactions(
+    p_search, p_type, p_category_id, p_account_id, p_start_date, p_end_date
+  ) f
+  WHERE p_cursor_date IS NULL
+     OR (f.date, f.id) < (p_cursor_date, p_cursor_id)
+  ORDER BY f.date DESC, f.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+$$;
+
+-- Totais do conjunto filtrado; transações canceladas não entram nas somas
+CREATE OR REPLACE FUNCTION public.get_transaction_totals(
+  p_search TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  transaction_count BIGINT,
+  income_total NUMERIC,
+  expense_total NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(f.amount) FILTER (WHERE f.type = 'income' AND f.status IS DISTINCT FROM 'cancelled'), 0),
+    COALESCE(SUM(f.amount) FILTER (WHERE f.type = 'expense' AND f.status IS DISTINCT FROM 'cancelled'), 0)
+  FROM public.filter_transactions(
+    p_search, p_type, p_category_id, p_account_id, p_start_date, p_end_date
+  ) f;
+$$;
@@ -0,0 +1,203 @@
+-- Linguagem de busca da lista de transações: os termos chegam como uma lista JSONB
+-- de cláusulas (ver src/utils/transactionQuery.ts) e são avaliados aqui
+
+DROP FUNCTION IF EXISTS public.get_transaction_totals(TEXT, TEXT, UUID, UUID, DATE, DATE);
+DROP FUNCTION IF EXISTS public.get_transactions_page(TEXT, TEXT, UUID, UUID, DATE, DATE, DATE, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.filter_transactions(TEXT, TEXT, UUID, UUID, DATE, DATE);
+
+-- Comparação usada pelas cláusulas de valor e data
+CREATE OR REPLACE FUNCTION public.query_compare(p_left ANYELEMENT, p_op TEXT, p_right ANYELEMENT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_op
+    WHEN 'gt' THEN p_left > p_right
+    WHEN 'gte' THEN p_left >= p_right
+    WHEN 'lt' THEN p_left < p_right
+    WHEN 'lte' THEN p_left <= p_right
+    ELSE p_left = p_right
+  END;
+$$;
+
+-- Avaliar todas as cláusulas da busca (E) contra uma transação
+CREATE OR REPLACE FUNCTION public.transaction_matches_query(
+  p_transaction public.transactions,
+  p_query JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_clause JSONB;
+  v_value TEXT;
+  v_match BOOLEAN;
+BEGIN
+  IF p_query IS NULL OR jsonb_typeof(p_query) <> 'array' THEN
+    RETURN TRUE;
+  END IF;
+
+  FOR v_clause IN SELECT * FROM jsonb_array_elements(p_query)
+  LOOP
+    v_value := COALESCE(v_clause->>'value', '');
+
+    v_match := CASE v_clause->>'kind'
+      WHEN 'amount' THEN
+        public.query_compare(p_transaction.amount, v_clause->>'op', public.rule_value_numeric(v_value))
+      WHEN 'date' THEN
+        public.query_compare(p_transaction.date, v_clause->>'op', public.rule_value_date(v_value))
+      WHEN 'type' THEN
+        p_transaction.type::TEXT = v_value
+      WHEN 'status' THEN
+        p_transaction.status::TEXT = v_value
+      ELSE CASE v_clause->>'field'
+        WHEN 'description' THEN
+          strpos(normalize_rule_text(p_transaction.description), normalize_rule_text(v_value)) > 0
+        WHEN 'notes' THEN
+          strpos(normalize_rule_text(p_transaction.notes), normalize_rule_text(v_value)) > 0
+          OR EXISTS (
+            SELECT 1 FROM transaction_splits s
+            WHERE s.transaction_id = p_transaction.id
+              AND strpos(normalize_rule_text(s.notes), normalize_rule_text(v_value)) > 0
+          )
+        WHEN 'tag' THEN
+          EXISTS (
+            SELECT 1 FROM unnest(COALESCE(p_transaction.tags, '{}')) AS tag
+            WHERE normalize_rule_text(tag) = normalize_rule_text(v_value)
+          )
+          OR EXISTS (
+            SELECT 1 FROM transaction_splits s, unnest(s.tags) AS tag
+            WHERE s.transaction_id = p_transaction.id
+              AND normalize_rule_text(tag) = normalize_rule_text(v_value)
+          )
+        WHEN 'account' THEN
+          EXISTS (
+            SELECT 1 FROM accounts a
+            WHERE a.id = p_transaction.account_id
+              AND strpos(normalize_rule_text(a.name), normalize_rule_text(v_value)) > 0
+          )
+        WHEN 'category' THEN
+          EXISTS (
+            SELECT 1 FROM categories c
+            WHERE strpos(normalize_rule_text(c.name), normalize_rule_text(v_value)) > 0
+              AND (
+                c.id = p_transaction.category_id
+                OR c.id IN (SELECT s.category_id FROM transaction_splits s WHERE s.transaction_id = p_transaction.id)
+              )
+          )
+        ELSE TRUE
+      END
+    END;
+
+    IF COALESCE(v_match, FALSE) = COALESCE((v_clause->>'negated')::BOOLEAN, FALSE) THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.filter_transactions(
+  p_query JSONB DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM transactions t
+  WHERE t.user_id = auth.uid()
+    AND (p_type IS NULL OR t.type::TEXT = p_type)
+    AND (
+      p_category_id IS NULL
+      OR t.category_id = p_category_id
+      OR EXISTS (
+        SELECT 1 FROM transaction_splits s
+        WHERE s.transaction_id = t.id AND s.category_id = p_category_id
+      )
+    )
+    AND (p_account_id IS NULL OR t.account_id = p_account_id)
+    AND (p_start_date IS NULL OR t.date >= p_start_date)
+    AND (p_end_date IS NULL OR t.date <= p_end_date)
+    AND public.transaction_matches_query(t, p_query);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_transactions_page(
+  p_query JSONB DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_cursor_date DATE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM public.filter_transactions(
+    p_query, p_type, p_category_id, p_account_id, p_start_date, p_end_date
+  ) f
+  WHERE p_cursor_date IS NULL
+     OR (f.date, f.id) < (p_cursor_date, p_cursor_id)
+  ORDER BY f.date DESC, f.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_transaction_totals(
+  p_query JSONB DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  transaction_count BIGINT,
+  income_total NUMERIC,
+  expense_total NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(f.amount) FILTER (WHERE f.type = 'income' AND f.status IS DISTINCT FROM 'cancelled'), 0),
+    COALESCE(SUM(f.amount) FILTER (WHERE f.type = 'expense' AND f.status IS DISTINCT FROM 'cancelled'), 0)
+  FROM public.filter_transactions(
+    p_query, p_type, p_category_id, p_account_id, p_start_date, p_end_date
+  ) f;
+$$;
+
+-- Tags já usadas pelo usuário (transações e divisões), para o autocompletar da busca
+CREATE OR REPLACE FUNCTION public.get_transaction_tags()
+RETURNS TABLE (tag TEXT, usage_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT tags.tag, COUNT(*) AS usage_count
+  FROM (
+    SELECT unnest(t.tags) AS tag FROM transactions t WHERE t.user_id = auth.uid()
+    UNION ALL
+    SELECT unnest(s.tags) FROM transaction_splits s WHERE s.user_id = auth.uid()
+  ) tags
+  WHERE btrim(tags.tag) <> ''
+  GROUP BY tags.tag
+  ORDER BY usage_count DESC, tags.tag;
+$$;
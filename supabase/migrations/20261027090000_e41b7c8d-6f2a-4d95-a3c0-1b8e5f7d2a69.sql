@@ -0,0 +1,261 @@
+-- Ações em lote sobre transações (recategorizar, tags, conta, status e exclusão)
+-- com um registro de auditoria por linha e janela para desfazer
+
+CREATE TABLE public.transaction_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('recategorize', 'add_tags', 'remove_tags', 'move_account', 'set_status', 'delete')),
+  params JSONB NOT NULL DEFAULT '{}'::JSONB,
+  transaction_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Estado anterior das transações alteradas (com as divisões), usado para desfazer
+  snapshot JSONB NOT NULL DEFAULT '[]'::JSONB,
+  affected_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  undo_expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '10 minutes'),
+  undone_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transaction_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction batches"
+ON public.transaction_batches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction batches"
+ON public.transaction_batches
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction batches"
+ON public.transaction_batches
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction batches"
+ON public.transaction_batches
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_transaction_batches_user_created ON public.transaction_batches(user_id, created_at DESC);
+
+-- Executar uma ação em lote. As transações vêm por id ou, quando p_filters é
+-- informado, são todas as que atendem aos filtros da lista (ver filter_transactions).
+CREATE OR REPLACE FUNCTION public.apply_transaction_batch(
+  p_action TEXT,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_transaction_ids UUID[] DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS public.transaction_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.transaction_batches;
+  v_ids UUID[];
+  v_target_ids UUID[];
+  v_category_id UUID;
+  v_category_type transaction_type;
+  v_account_id UUID;
+  v_tags TEXT[];
+  v_status transaction_status;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_filters IS NOT NULL THEN
+    SELECT array_agg(f.id) INTO v_ids
+    FROM filter_transactions(
+      p_filters->'query',
+      p_filters->>'type',
+      (p_filters->>'category_id')::UUID,
+      (p_filters->>'account_id')::UUID,
+      (p_filters->>'start_date')::DATE,
+      (p_filters->>'end_date')::DATE
+    ) f;
+  ELSE
+    SELECT array_agg(t.id) INTO v_ids
+    FROM transactions t
+    WHERE t.id = ANY(COALESCE(p_transaction_ids, '{}'))
+      AND t.user_id = auth.uid();
+  END IF;
+
+  v_ids := COALESCE(v_ids, '{}');
+  IF cardinality(v_ids) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma transação selecionada';
+  END IF;
+
+  -- Validar parâmetros e restringir às transações em que a ação se aplica
+  CASE p_action
+    WHEN 'recategorize' THEN
+      v_category_id := (p_params->>'category_id')::UUID;
+      SELECT transaction_type INTO v_category_type
+      FROM categories WHERE id = v_category_id AND user_id = auth.uid();
+      IF v_category_type IS NULL THEN
+        RAISE EXCEPTION 'Categoria inválida';
+      END IF;
+      -- A categoria precisa ser do mesmo tipo da transação
+      SELECT array_agg(id) INTO v_target_ids
+      FROM transactions WHERE id = ANY(v_ids) AND type = v_category_type;
+    WHEN 'add_tags', 'remove_tags' THEN
+      SELECT array_agg(DISTINCT btrim(tag)) INTO v_tags
+      FROM jsonb_array_elements_text(COALESCE(p_params->'tags', '[]'::JSONB)) AS tag
+      WHERE btrim(tag) <> '';
+      IF v_tags IS NULL THEN
+        RAISE EXCEPTION 'Informe pelo menos uma tag';
+      END IF;
+      v_target_ids := v_ids;
+    WHEN 'move_account' THEN
+      SELECT id INTO v_account_id
+      FROM accounts WHERE id = (p_params->>'account_id')::UUID AND user_id = auth.uid();
+      IF v_account_id IS NULL THEN
+        RAISE EXCEPTION 'Conta inválida';
+      END IF;
+      SELECT array_agg(id) INTO v_target_ids
+      FROM transactions
+      WHERE id = ANY(v_ids) AND transfer_account_id IS DISTINCT FROM v_account_id;
+    WHEN 'set_status' THEN
+      v_status := (p_params->>'status')::transaction_status;
+      v_target_ids := v_ids;
+    WHEN 'delete' THEN
+      v_target_ids := v_ids;
+    ELSE
+      RAISE EXCEPTION 'Ação em lote desconhecida: %', p_action;
+  END CASE;
+
+  v_target_ids := COALESCE(v_target_ids, '{}');
+
+  INSERT INTO transaction_batches (user_id, action, params, transaction_ids, snapshot, skipped_count)
+  SELECT
+    auth.uid(),
+    p_action,
+    COALESCE(p_params, '{}'::JSONB),
+    v_target_ids,
+    COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object('splits', COALESCE((
+        SELECT jsonb_agg(to_jsonb(s) ORDER BY s.position)
+        FROM transaction_splits s WHERE s.transaction_id = t.id
+      ), '[]'::JSONB))
+    ), '[]'::JSONB),
+    cardinality(v_ids) - cardinality(v_target_ids)
+  FROM transactions t
+  WHERE t.id = ANY(v_target_ids)
+  RETURNING * INTO v_batch;
+
+  -- Cada linha alterada gera seu próprio registro de auditoria com o contexto do lote
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'transaction_batch',
+    'batch_id', v_batch.id,
+    'action', p_action
+  )::TEXT, true);
+
+  CASE p_action
+    WHEN 'recategorize' THEN
+      -- Recategorizar desfaz a divisão das transações divididas
+      DELETE FROM transaction_splits WHERE transaction_id = ANY(v_target_ids);
+      UPDATE transactions SET category_id = v_category_id, updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'add_tags' THEN
+      UPDATE transactions
+      SET tags = ARRAY(SELECT DISTINCT unnest(COALESCE(tags, '{}') || v_tags)), updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'remove_tags' THEN
+      UPDATE transactions
+      SET tags = ARRAY(SELECT tag FROM unnest(COALESCE(tags, '{}')) AS tag WHERE tag <> ALL(v_tags)),
+          updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'move_account' THEN
+      UPDATE transactions SET account_id = v_account_id, updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'set_status' THEN
+      UPDATE transactions SET status = v_status, updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'delete' THEN
+      DELETE FROM transactions WHERE id = ANY(v_target_ids);
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  UPDATE transaction_batches SET affected_count = v_count WHERE id = v_batch.id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
+
+-- Desfazer um lote dentro da janela: restaura as transações (e divisões) do snapshot
+CREATE OR REPLACE FUNCTION public.undo_transaction_batch(p_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.transaction_batches;
+  v_row JSONB;
+  v_old public.transactions;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_batch
+  FROM transaction_batches
+  WHERE id = p_batch_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_batch.id IS NULL THEN
+    RAISE EXCEPTION 'Lote não encontrado';
+  END IF;
+  IF v_batch.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Este lote já foi desfeito';
+  END IF;
+  IF v_batch.undo_expires_at < now() THEN
+    RAISE EXCEPTION 'O prazo para desfazer este lote expirou';
+  END IF;
+
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'transaction_batch_undo',
+    'batch_id', v_batch.id,
+    'action', v_batch.action
+  )::TEXT, true);
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(v_batch.snapshot)
+  LOOP
+    v_old := jsonb_populate_record(NULL::public.transactions, v_row - 'splits');
+
+    IF v_batch.action = 'delete' THEN
+      INSERT INTO transactions SELECT (v_old).*;
+    ELSE
+      UPDATE transactions
+      SET category_id = v_old.category_id,
+          tags = v_old.tags,
+          account_id = v_old.account_id,
+          status = v_old.status,
+          updated_at = now()
+      WHERE id = v_old.id AND user_id = auth.uid();
+
+      CONTINUE WHEN NOT FOUND;
+      DELETE FROM transaction_splits WHERE transaction_id = v_old.id;
+    END IF;
+
+    INSERT INTO transaction_splits
+    SELECT (jsonb_populate_record(NULL::public.transaction_splits, split)).*
+    FROM jsonb_array_elements(v_row->'splits') AS split;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  UPDATE transaction_batches SET undone_at = now() WHERE id = v_batch.id;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,441 @@
+-- Transferências em partidas dobradas: cada transferência vira um par de transações
+-- ligadas (débito na conta de origem e crédito na de destino), gravadas, alteradas e
+-- excluídas juntas, com o saldo de cada conta ajustado na mesma transação do banco
+
+ALTER TABLE public.transactions
+  ADD COLUMN transfer_direction TEXT CHECK (transfer_direction IN ('debit', 'credit')),
+  -- A outra perna da transferência; excluir uma perna exclui a outra
+  ADD COLUMN transfer_pair_id UUID REFERENCES public.transactions(id)
+    ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED;
+
+CREATE INDEX idx_transactions_transfer_pair ON public.transactions(transfer_pair_id);
+
+-- Efeito de uma transação no saldo da própria conta: cada perna da transferência
+-- movimenta só a sua conta
+CREATE OR REPLACE FUNCTION public.transaction_balance_delta(p_transaction public.transactions)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_transaction.type = 'income' THEN p_transaction.amount
+    WHEN p_transaction.type = 'expense' THEN -p_transaction.amount
+    WHEN p_transaction.transfer_direction = 'credit' THEN p_transaction.amount
+    WHEN p_transaction.transfer_direction = 'debit' THEN -p_transaction.amount
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_account_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Reverter o efeito anterior
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.accounts
+    SET balance = balance - public.transaction_balance_delta(OLD), updated_at = NOW()
+    WHERE id = OLD.account_id;
+  END IF;
+
+  -- Aplicar o novo efeito
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.accounts
+    SET balance = balance + public.transaction_balance_delta(NEW), updated_at = NOW()
+    WHERE id = NEW.account_id;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+-- Converter as transferências antigas (uma linha debitando a origem e creditando o
+-- destino) em pares. O efeito líquido nos saldos é o mesmo, então o gatilho de saldo
+-- fica desligado durante a conversão.
+ALTER TABLE public.transactions DISABLE TRIGGER update_account_balance_trigger;
+
+WITH legacy AS (
+  SELECT *
+  FROM public.transactions
+  WHERE type = 'transfer'
+    AND transfer_account_id IS NOT NULL
+    AND transfer_direction IS NULL
+),
+credit_legs AS (
+  INSERT INTO public.transactions (
+    user_id, account_id, transfer_account_id, category_id, type, amount, description,
+    date, status, tags, notes, transfer_direction, transfer_pair_id
+  )
+  SELECT
+    user_id, transfer_account_id, account_id, category_id, type, amount, description,
+    date, status, tags, notes, 'credit', id
+  FROM legacy
+  RETURNING id, transfer_pair_id
+)
+UPDATE public.transactions t
+SET transfer_direction = 'debit', transfer_pair_id = c.id
+FROM credit_legs c
+WHERE t.id = c.transfer_pair_id;
+
+ALTER TABLE public.transactions ENABLE TRIGGER update_account_balance_trigger;
+
+-- Toda transferência inserida diretamente na tabela (recorrências, importações) vira
+-- a perna de débito e ganha a perna de crédito correspondente. Pernas que já chegam
+-- vinculadas (como ao desfazer uma exclusão em lote) são gravadas como estão.
+CREATE OR REPLACE FUNCTION public.prepare_transfer_leg()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type <> 'transfer' OR NEW.transfer_pair_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.transfer_account_id IS NULL OR NEW.transfer_account_id = NEW.account_id THEN
+    RAISE EXCEPTION 'Informe contas de origem e destino diferentes para a transferência';
+  END IF;
+
+  NEW.transfer_direction := 'debit';
+  NEW.transfer_pair_id := gen_random_uuid();
+
+  -- A referência à perna de débito é conferida no fim da transação (chave adiada)
+  INSERT INTO transactions (
+    id, user_id, account_id, transfer_account_id, category_id, type, amount, description,
+    date, status, tags, notes, transfer_direction, transfer_pair_id
+  ) VALUES (
+    NEW.transfer_pair_id, NEW.user_id, NEW.transfer_account_id, NEW.account_id, NEW.category_id,
+    NEW.type, NEW.amount, NEW.description, NEW.date, NEW.status, NEW.tags, NEW.notes,
+    'credit', NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_transfer_leg_trigger
+  BEFORE INSERT ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_transfer_leg();
+
+-- Alterar uma perna replica valor, data, descrição, status e contas na outra
+CREATE OR REPLACE FUNCTION public.sync_transfer_pair()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.transfer_pair_id IS NULL OR current_setting('app.transfer_sync', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.type <> 'transfer' OR NEW.transfer_pair_id IS DISTINCT FROM OLD.transfer_pair_id THEN
+    RAISE EXCEPTION 'Uma perna de transferência não pode mudar de tipo nem ser desvinculada';
+  END IF;
+
+  IF NEW.transfer_account_id IS NULL OR NEW.transfer_account_id = NEW.account_id THEN
+    RAISE EXCEPTION 'Informe contas de origem e destino diferentes para a transferência';
+  END IF;
+
+  PERFORM set_config('app.transfer_sync', 'on', true);
+
+  UPDATE transactions
+  SET amount = NEW.amount,
+      date = NEW.date,
+      description = NEW.description,
+      status = NEW.status,
+      notes = NEW.notes,
+      account_id = NEW.transfer_account_id,
+      transfer_account_id = NEW.account_id,
+      updated_at = now()
+  WHERE id = NEW.transfer_pair_id
+    AND (amount, date, description, status, notes, account_id, transfer_account_id)
+      IS DISTINCT FROM
+      (NEW.amount, NEW.date, NEW.description, NEW.status, NEW.notes, NEW.transfer_account_id, NEW.account_id);
+
+  PERFORM set_config('app.transfer_sync', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_transfer_pair_trigger
+  AFTER UPDATE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_transfer_pair();
+
+-- Criar uma transferência; retorna a perna de débito
+CREATE OR REPLACE FUNCTION public.create_transfer(
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_date DATE,
+  p_status transaction_status DEFAULT 'completed',
+  p_notes TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_is_recurring BOOLEAN DEFAULT false,
+  p_recurrence_frequency recurrence_frequency DEFAULT NULL,
+  p_recurrence_end_date DATE DEFAULT NULL,
+  p_receipt_image_url TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction public.transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM accounts
+    WHERE id IN (p_from_account_id, p_to_account_id) AND user_id = auth.uid()
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Informe contas de origem e destino diferentes para a transferência';
+  END IF;
+
+  INSERT INTO transactions (
+    user_id, account_id, transfer_account_id, type, amount, description, date, status,
+    notes, tags, is_recurring, recurrence_frequency, recurrence_end_date, receipt_image_url
+  ) VALUES (
+    auth.uid(), p_from_account_id, p_to_account_id, 'transfer', p_amount, p_description, p_date,
+    p_status, p_notes, p_tags, p_is_recurring, p_recurrence_frequency, p_recurrence_end_date,
+    p_receipt_image_url
+  )
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Alterar uma transferência a partir de qualquer uma das pernas
+CREATE OR REPLACE FUNCTION public.update_transfer(
+  p_transaction_id UUID,
+  p_from_account_id UUID,
+  p_to_account_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_date DATE,
+  p_status transaction_status DEFAULT 'completed',
+  p_notes TEXT DEFAULT NULL,
+  p_receipt_image_url TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_debit_id UUID;
+  v_transaction public.transactions;
+BEGIN
+  SELECT CASE WHEN transfer_direction = 'debit' THEN id ELSE transfer_pair_id END
+  INTO v_debit_id
+  FROM transactions
+  WHERE id = p_transaction_id AND user_id = auth.uid() AND transfer_pair_id IS NOT NULL;
+
+  IF v_debit_id IS NULL THEN
+    RAISE EXCEPTION 'Transferência não encontrada';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM accounts
+    WHERE id IN (p_from_account_id, p_to_account_id) AND user_id = auth.uid()
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Informe contas de origem e destino diferentes para a transferência';
+  END IF;
+
+  -- A perna de crédito é atualizada pelo gatilho de sincronização
+  UPDATE transactions
+  SET account_id = p_from_account_id,
+      transfer_account_id = p_to_account_id,
+      amount = p_amount,
+      description = p_description,
+      date = p_date,
+      status = p_status,
+      notes = p_notes,
+      receipt_image_url = COALESCE(p_receipt_image_url, receipt_image_url),
+      updated_at = now()
+  WHERE id = v_debit_id
+  RETURNING * INTO v_transaction;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Excluir as duas pernas de uma transferência
+CREATE OR REPLACE FUNCTION public.delete_transfer(p_transaction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM transactions
+  WHERE user_id = auth.uid()
+    AND id IN (
+      SELECT unnest(ARRAY[id, transfer_pair_id])
+      FROM transactions
+      WHERE id = p_transaction_id AND user_id = auth.uid()
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transferência não encontrada';
+  END IF;
+END;
+$$;
+
+-- Ações em lote: excluir uma perna exclui a outra, então as duas entram no snapshot
+-- para que desfazer restaure o par completo
+CREATE OR REPLACE FUNCTION public.apply_transaction_batch(
+  p_action TEXT,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_transaction_ids UUID[] DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS public.transaction_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.transaction_batches;
+  v_ids UUID[];
+  v_target_ids UUID[];
+  v_category_id UUID;
+  v_category_type transaction_type;
+  v_account_id UUID;
+  v_tags TEXT[];
+  v_status transaction_status;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_filters IS NOT NULL THEN
+    SELECT array_agg(f.id) INTO v_ids
+    FROM filter_transactions(
+      p_filters->'query',
+      p_filters->>'type',
+      (p_filters->>'category_id')::UUID,
+      (p_filters->>'account_id')::UUID,
+      (p_filters->>'start_date')::DATE,
+      (p_filters->>'end_date')::DATE
+    ) f;
+  ELSE
+    SELECT array_agg(t.id) INTO v_ids
+    FROM transactions t
+    WHERE t.id = ANY(COALESCE(p_transaction_ids, '{}'))
+      AND t.user_id = auth.uid();
+  END IF;
+
+  v_ids := COALESCE(v_ids, '{}');
+  IF cardinality(v_ids) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma transação selecionada';
+  END IF;
+
+  -- Validar parâmetros e restringir às transações em que a ação se aplica
+  CASE p_action
+    WHEN 'recategorize' THEN
+      v_category_id := (p_params->>'category_id')::UUID;
+      SELECT transaction_type INTO v_category_type
+      FROM categories WHERE id = v_category_id AND user_id = auth.uid();
+      IF v_category_type IS NULL THEN
+        RAISE EXCEPTION 'Categoria inválida';
+      END IF;
+      -- A categoria precisa ser do mesmo tipo da transação
+      SELECT array_agg(id) INTO v_target_ids
+      FROM transactions WHERE id = ANY(v_ids) AND type = v_category_type;
+    WHEN 'add_tags', 'remove_tags' THEN
+      SELECT array_agg(DISTINCT btrim(tag)) INTO v_tags
+      FROM jsonb_array_elements_text(COALESCE(p_params->'tags', '[]'::JSONB)) AS tag
+      WHERE btrim(tag) <> '';
+      IF v_tags IS NULL THEN
+        RAISE EXCEPTION 'Informe pelo menos uma tag';
+      END IF;
+      v_target_ids := v_ids;
+    WHEN 'move_account' THEN
+      SELECT id INTO v_account_id
+      FROM accounts WHERE id = (p_params->>'account_id')::UUID AND user_id = auth.uid();
+      IF v_account_id IS NULL THEN
+        RAISE EXCEPTION 'Conta inválida';
+      END IF;
+      SELECT array_agg(id) INTO v_target_ids
+      FROM transactions
+      WHERE id = ANY(v_ids) AND transfer_account_id IS DISTINCT FROM v_account_id;
+    WHEN 'set_status' THEN
+      v_status := (p_params->>'status')::transaction_status;
+      v_target_ids := v_ids;
+    WHEN 'delete' THEN
+      SELECT array_agg(DISTINCT leg_id) INTO v_target_ids
+      FROM transactions t, unnest(ARRAY[t.id, t.transfer_pair_id]) AS leg_id
+      WHERE t.id = ANY(v_ids) AND leg_id IS NOT NULL;
+    ELSE
+      RAISE EXCEPTION 'Ação em lote desconhecida: %', p_action;
+  END CASE;
+
+  v_target_ids := COALESCE(v_target_ids, '{}');
+
+  INSERT INTO transaction_batches (user_id, action, params, transaction_ids, snapshot, skipped_count)
+  SELECT
+    auth.uid(),
+    p_action,
+    COALESCE(p_params, '{}'::JSONB),
+    v_target_ids,
+    COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object('splits', COALESCE((
+        SELECT jsonb_agg(to_jsonb(s) ORDER BY s.position)
+        FROM transaction_splits s WHERE s.transaction_id = t.id
+      ), '[]'::JSONB))
+    ), '[]'::JSONB),
+    GREATEST(cardinality(v_ids) - cardinality(v_target_ids), 0)
+  FROM transactions t
+  WHERE t.id = ANY(v_target_ids)
+  RETURNING * INTO v_batch;
+
+  -- Cada linha alterada gera seu próprio registro de auditoria com o contexto do lote
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'transaction_batch',
+    'batch_id', v_batch.id,
+    'action', p_action
+  )::TEXT, true);
+
+  CASE p_action
+    WHEN 'recategorize' THEN
+      -- Recategorizar desfaz a divisão das transações divididas
+      DELETE FROM transaction_splits WHERE transaction_id = ANY(v_target_ids);
+      UPDATE transactions SET category_id = v_category_id, updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'add_tags' THEN
+      UPDATE transactions
+      SET tags = ARRAY(SELECT DISTINCT unnest(COALESCE(tags, '{}') || v_tags)), updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'remove_tags' THEN
+      UPDATE transactions
+      SET tags = ARRAY(SELECT tag FROM unnest(COALESCE(tags, '{}')) AS tag WHERE tag <> ALL(v_tags)),
+          updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'move_account' THEN
+      UPDATE transactions SET account_id = v_account_id, updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'set_status' THEN
+      UPDATE transactions SET status = v_status, updated_at = now()
+      WHERE id = ANY(v_target_ids);
+    WHEN 'delete' THEN
+      DELETE FROM transactions WHERE id = ANY(v_target_ids);
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  UPDATE transaction_batches SET affected_count = v_count WHERE id = v_batch.id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
@@ -0,0 +1,183 @@
+-- Saldo das contas derivado do razão: saldo inicial + transações concluídas.
+-- O saldo gravado continua em accounts.balance (mantido pelos gatilhos), e as views
+-- abaixo permitem conferir e explicar diferenças antes de corrigi-las.
+
+ALTER TABLE public.accounts
+  ADD COLUMN opening_balance DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- Saldo inicial: o informado ao criar a conta (registro de auditoria) ou, sem ele,
+-- o saldo atual descontado do que o gatilho antigo acumulou (todas as transações)
+UPDATE public.accounts a
+SET opening_balance = COALESCE(
+  (
+    SELECT (l.new_data->>'balance')::NUMERIC
+    FROM public.audit_logs l
+    WHERE l.table_name = 'accounts'
+      AND l.operation = 'INSERT'
+      AND l.new_data->>'id' = a.id::TEXT
+    ORDER BY l.created_at
+    LIMIT 1
+  ),
+  COALESCE(a.balance, 0) - COALESCE((
+    SELECT SUM(public.transaction_balance_delta(t))
+    FROM public.transactions t
+    WHERE t.account_id = a.id
+  ), 0)
+);
+
+-- Só transações concluídas movimentam o saldo
+CREATE OR REPLACE FUNCTION public.transaction_ledger_amount(p_transaction public.transactions)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_transaction.status, 'completed') = 'completed'
+      THEN public.transaction_balance_delta(p_transaction)
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_account_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Alterações vindas do razão não mexem no saldo inicial (ver track_opening_balance)
+  PERFORM set_config('app.ledger_balance_update', 'on', true);
+
+  -- Reverter o efeito anterior
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.accounts
+    SET balance = balance - public.transaction_ledger_amount(OLD), updated_at = NOW()
+    WHERE id = OLD.account_id;
+  END IF;
+
+  -- Aplicar o novo efeito
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.accounts
+    SET balance = balance + public.transaction_ledger_amount(NEW), updated_at = NOW()
+    WHERE id = NEW.account_id;
+  END IF;
+
+  PERFORM set_config('app.ledger_balance_update', 'off', true);
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Editar o saldo pelo formulário é um ajuste do saldo inicial, para que o saldo
+-- continue igual a saldo inicial + transações concluídas
+CREATE OR REPLACE FUNCTION public.track_opening_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.opening_balance := COALESCE(NEW.balance, 0);
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.ledger_balance_update', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.balance IS DISTINCT FROM OLD.balance THEN
+    NEW.opening_balance := OLD.opening_balance + (COALESCE(NEW.balance, 0) - COALESCE(OLD.balance, 0));
+  ELSIF NEW.opening_balance IS DISTINCT FROM OLD.opening_balance THEN
+    NEW.balance := COALESCE(OLD.balance, 0) + (NEW.opening_balance - OLD.opening_balance);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_opening_balance_trigger
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.track_opening_balance();
+
+-- Saldo gravado x saldo calculado, com os totais usados para explicar diferenças
+CREATE OR REPLACE VIEW public.account_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id AS account_id,
+  a.user_id,
+  a.opening_balance,
+  COALESCE(a.balance, 0) AS stored_balance,
+  COALESCE(l.completed_total, 0) AS completed_total,
+  a.opening_balance + COALESCE(l.completed_total, 0) AS computed_balance,
+  COALESCE(a.balance, 0) - (a.opening_balance + COALESCE(l.completed_total, 0)) AS difference,
+  COALESCE(l.pending_total, 0) AS pending_total,
+  COALESCE(l.cancelled_total, 0) AS cancelled_total,
+  COALESCE(l.transaction_count, 0) AS transaction_count,
+  l.last_transaction_date
+FROM public.accounts a
+LEFT JOIN LATERAL (
+  SELECT
+    SUM(public.transaction_ledger_amount(t)) AS completed_total,
+    SUM(public.transaction_balance_delta(t)) FILTER (WHERE t.status = 'pending') AS pending_total,
+    SUM(public.transaction_balance_delta(t)) FILTER (WHERE t.status = 'cancelled') AS cancelled_total,
+    COUNT(*) AS transaction_count,
+    MAX(t.date) AS last_transaction_date
+  FROM public.transactions t
+  WHERE t.account_id = a.id
+) l ON true;
+
+-- Saldo da conta após cada transação, na mesma ordem da lista (data, id)
+CREATE OR REPLACE VIEW public.transaction_running_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  t.id AS transaction_id,
+  t.account_id,
+  t.user_id,
+  a.opening_balance + SUM(public.transaction_ledger_amount(t)) OVER (
+    PARTITION BY t.account_id
+    ORDER BY t.date, t.id
+  ) AS running_balance
+FROM public.transactions t
+JOIN public.accounts a ON a.id = t.account_id;
+
+-- Corrigir o saldo gravado para o valor calculado, registrando a diferença na auditoria
+CREATE OR REPLACE FUNCTION public.reconcile_account_balance(p_account_id UUID)
+RETURNS public.accounts
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_balance public.account_balances;
+  v_account public.accounts;
+BEGIN
+  SELECT * INTO v_balance
+  FROM account_balances
+  WHERE account_id = p_account_id AND user_id = auth.uid();
+
+  IF v_balance.account_id IS NULL THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  PERFORM set_config('app.ledger_balance_update', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'balance_reconciliation',
+    'previous_balance', v_balance.stored_balance,
+    'difference', v_balance.difference
+  )::TEXT, true);
+
+  UPDATE accounts
+  SET balance = v_balance.computed_balance, updated_at = now()
+  WHERE id = p_account_id
+  RETURNING * INTO v_account;
+
+  PERFORM set_config('app.ledger_balance_update', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  RETURN v_account;
+END;
+$$;
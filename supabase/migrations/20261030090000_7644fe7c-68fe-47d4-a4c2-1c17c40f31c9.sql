@@ -0,0 +1,386 @@
+-- Compras parceladas no cartão de crédito ("em 10x"). Cada compra é um plano com
+-- N parcelas, gravadas como despesas concluídas nas faturas seguintes. Como todas
+-- já movimentam o saldo do cartão, o limite disponível cai pelo valor total em aberto.
+
+CREATE TABLE public.installment_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  total_amount DECIMAL(15,2) NOT NULL CHECK (total_amount > 0),
+  installment_count INTEGER NOT NULL CHECK (installment_count BETWEEN 2 AND 48),
+  purchase_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.installment_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own installment plans"
+ON public.installment_plans
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own installment plans"
+ON public.installment_plans
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own installment plans"
+ON public.installment_plans
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own installment plans"
+ON public.installment_plans
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_installment_plans_updated_at
+BEFORE UPDATE ON public.installment_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_installment_plans_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.installment_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_trigger_function();
+
+CREATE INDEX idx_installment_plans_user_account ON public.installment_plans(user_id, account_id);
+
+-- Número e total de parcelas ficam na própria transação para o rótulo "3/10"
+ALTER TABLE public.transactions
+  ADD COLUMN installment_plan_id UUID REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+  ADD COLUMN installment_number INTEGER,
+  ADD COLUMN installment_count INTEGER,
+  ADD CONSTRAINT transactions_installment_check CHECK (
+    (installment_plan_id IS NULL AND installment_number IS NULL AND installment_count IS NULL)
+    OR (installment_plan_id IS NOT NULL AND installment_number BETWEEN 1 AND installment_count)
+  );
+
+CREATE INDEX idx_transactions_installment_plan ON public.transactions(installment_plan_id, installment_number)
+  WHERE installment_plan_id IS NOT NULL;
+
+-- Parcelas vão para faturas futuras, então ficam fora do limite de 1 ano à frente
+CREATE OR REPLACE FUNCTION public.validate_financial_data()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Validar valores monetários específicos por tabela
+  IF TG_TABLE_NAME = 'transactions' THEN
+    -- Validar valor da transação
+    IF NEW.amount <= 0 THEN
+      RAISE EXCEPTION 'Valor da transação deve ser positivo';
+    END IF;
+    IF NEW.amount > 999999999.99 THEN
+      RAISE EXCEPTION 'Valor muito alto (máximo: 999.999.999,99)';
+    END IF;
+    -- Validar data da transação
+    IF NEW.installment_plan_id IS NULL AND NEW.date > CURRENT_DATE + INTERVAL '1 year' THEN
+      RAISE EXCEPTION 'Data da transação não pode ser mais de 1 ano no futuro';
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'accounts' THEN
+    -- Validar saldo da conta
+    IF NEW.balance IS NOT NULL AND NEW.balance > 999999999.99 THEN
+      RAISE EXCEPTION 'Saldo muito alto (máximo: 999.999.999,99)';
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'budgets' THEN
+    -- Validar valor do orçamento
+    IF NEW.amount <= 0 THEN
+      RAISE EXCEPTION 'Valor do orçamento deve ser positivo';
+    END IF;
+    IF NEW.amount > 999999999.99 THEN
+      RAISE EXCEPTION 'Valor muito alto (máximo: 999.999.999,99)';
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'goals' THEN
+    -- Validar valores da meta
+    IF NEW.target_amount IS NOT NULL AND NEW.target_amount <= 0 THEN
+      RAISE EXCEPTION 'Valor da meta deve ser positivo';
+    END IF;
+    IF NEW.target_amount IS NOT NULL AND NEW.target_amount > 999999999.99 THEN
+      RAISE EXCEPTION 'Valor muito alto (máximo: 999.999.999,99)';
+    END IF;
+    IF NEW.current_amount IS NOT NULL AND NEW.current_amount < 0 THEN
+      RAISE EXCEPTION 'Valor atual não pode ser negativo';
+    END IF;
+    IF NEW.current_amount IS NOT NULL AND NEW.current_amount > 999999999.99 THEN
+      RAISE EXCEPTION 'Valor muito alto (máximo: 999.999.999,99)';
+    END IF;
+  END IF;
+
+  -- Validar e sanitizar campo description (apenas se existir)
+  IF TG_TABLE_NAME IN ('transactions', 'goals') THEN
+    IF NEW.description IS NOT NULL THEN
+      NEW.description = TRIM(NEW.description);
+      IF LENGTH(NEW.description) = 0 THEN
+        NEW.description = NULL;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Mês (primeiro dia) da fatura que recebe uma compra: depois do fechamento, a
+-- compra entra na fatura do mês seguinte. Em meses curtos o fechamento é o último dia.
+CREATE OR REPLACE FUNCTION public.card_invoice_month(p_date DATE, p_closing_day INTEGER)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(DAY FROM p_date) > LEAST(
+      COALESCE(p_closing_day, 1),
+      EXTRACT(DAY FROM date_trunc('month', p_date) + INTERVAL '1 month - 1 day')
+    )
+      THEN (date_trunc('month', p_date) + INTERVAL '1 month')::DATE
+    ELSE date_trunc('month', p_date)::DATE
+  END;
+$$;
+
+-- Registrar uma compra parcelada. A primeira parcela fica na data da compra e as
+-- demais uma por fatura, no mesmo dia da compra (limitado ao dia do fechamento).
+-- Centavos que sobram da divisão ficam na primeira parcela.
+CREATE OR REPLACE FUNCTION public.create_installment_purchase(
+  p_account_id UUID,
+  p_category_id UUID,
+  p_description TEXT,
+  p_total_amount NUMERIC,
+  p_installment_count INTEGER,
+  p_purchase_date DATE,
+  p_notes TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_account public.accounts;
+  v_plan public.installment_plans;
+  v_first_invoice DATE;
+  v_invoice DATE;
+  v_amount NUMERIC;
+  v_number INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_account
+  FROM accounts
+  WHERE id = p_account_id AND user_id = auth.uid();
+
+  IF v_account.id IS NULL OR v_account.type <> 'credit_card' THEN
+    RAISE EXCEPTION 'Compras parceladas só podem ser lançadas em cartões de crédito';
+  END IF;
+
+  IF p_installment_count IS NULL OR p_installment_count NOT BETWEEN 2 AND 48 THEN
+    RAISE EXCEPTION 'Informe entre 2 e 48 parcelas';
+  END IF;
+
+  IF TRUNC(p_total_amount / p_installment_count, 2) <= 0 THEN
+    RAISE EXCEPTION 'Valor da parcela deve ser positivo';
+  END IF;
+
+  INSERT INTO installment_plans (
+    user_id, account_id, category_id, description, total_amount, installment_count, purchase_date
+  ) VALUES (
+    auth.uid(), p_account_id, p_category_id, p_description, p_total_amount, p_installment_count,
+    p_purchase_date
+  )
+  RETURNING * INTO v_plan;
+
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'installment_purchase',
+    'installment_plan_id', v_plan.id
+  )::TEXT, true);
+
+  v_first_invoice := card_invoice_month(p_purchase_date, v_account.closing_day);
+
+  FOR v_number IN 1..p_installment_count LOOP
+    v_amount := TRUNC(p_total_amount / p_installment_count, 2);
+    IF v_number = 1 THEN
+      v_amount := p_total_amount - v_amount * (p_installment_count - 1);
+    END IF;
+
+    v_invoice := (v_first_invoice + (v_number - 1) * INTERVAL '1 month')::DATE;
+
+    INSERT INTO transactions (
+      user_id, account_id, category_id, type, amount, description, date, status, notes, tags,
+      installment_plan_id, installment_number, installment_count
+    ) VALUES (
+      auth.uid(), p_account_id, p_category_id, 'expense', v_amount, p_description,
+      CASE
+        WHEN v_number = 1 THEN p_purchase_date
+        ELSE v_invoice + (LEAST(
+          EXTRACT(DAY FROM p_purchase_date),
+          COALESCE(v_account.closing_day, 1),
+          EXTRACT(DAY FROM v_invoice + INTERVAL '1 month - 1 day')
+        )::INTEGER - 1)
+      END,
+      'completed', p_notes, p_tags, v_plan.id, v_number, p_installment_count
+    );
+  END LOOP;
+
+  PERFORM set_config('app.audit_context', '', true);
+
+  RETURN v_plan;
+END;
+$$;
+
+-- Alterar as parcelas restantes (da fatura aberta em diante). Descrição e categoria
+-- valem para todas as parcelas; um novo total é redistribuído só entre as restantes.
+CREATE OR REPLACE FUNCTION public.update_installment_plan(
+  p_plan_id UUID,
+  p_description TEXT,
+  p_category_id UUID,
+  p_total_amount NUMERIC DEFAULT NULL
+)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans;
+  v_current_invoice DATE;
+  v_billed NUMERIC;
+  v_remaining_ids UUID[];
+  v_remaining_count INTEGER;
+  v_installment_amount NUMERIC;
+BEGIN
+  SELECT p.* INTO v_plan
+  FROM installment_plans p
+  WHERE p.id = p_plan_id AND p.user_id = auth.uid();
+
+  IF v_plan.id IS NULL THEN
+    RAISE EXCEPTION 'Compra parcelada não encontrada';
+  END IF;
+
+  IF v_plan.status = 'cancelled' THEN
+    RAISE EXCEPTION 'As parcelas restantes desta compra já foram canceladas';
+  END IF;
+
+  SELECT card_invoice_month(CURRENT_DATE, a.closing_day) INTO v_current_invoice
+  FROM accounts a
+  WHERE a.id = v_plan.account_id;
+
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (
+      WHERE card_invoice_month(t.date, a.closing_day) < v_current_invoice
+    ), 0),
+    ARRAY_AGG(t.id ORDER BY t.installment_number) FILTER (
+      WHERE card_invoice_month(t.date, a.closing_day) >= v_current_invoice
+    )
+  INTO v_billed, v_remaining_ids
+  FROM transactions t
+  JOIN accounts a ON a.id = t.account_id
+  WHERE t.installment_plan_id = p_plan_id AND t.status <> 'cancelled';
+
+  v_remaining_count := COALESCE(array_length(v_remaining_ids, 1), 0);
+
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'installment_plan_update',
+    'installment_plan_id', p_plan_id
+  )::TEXT, true);
+
+  UPDATE transactions
+  SET description = p_description, category_id = p_category_id, updated_at = now()
+  WHERE installment_plan_id = p_plan_id;
+
+  IF p_total_amount IS NOT NULL AND p_total_amount <> v_plan.total_amount THEN
+    IF v_remaining_count = 0 THEN
+      RAISE EXCEPTION 'Todas as parcelas já foram faturadas';
+    END IF;
+
+    v_installment_amount := TRUNC((p_total_amount - v_billed) / v_remaining_count, 2);
+    IF v_installment_amount <= 0 THEN
+      RAISE EXCEPTION 'O novo total deve ser maior que o valor já faturado';
+    END IF;
+
+    UPDATE transactions
+    SET amount = CASE
+        WHEN id = v_remaining_ids[1]
+          THEN p_total_amount - v_billed - v_installment_amount * (v_remaining_count - 1)
+        ELSE v_installment_amount
+      END,
+      updated_at = now()
+    WHERE id = ANY(v_remaining_ids);
+  END IF;
+
+  UPDATE installment_plans
+  SET description = p_description,
+      category_id = p_category_id,
+      total_amount = COALESCE(p_total_amount, total_amount),
+      updated_at = now()
+  WHERE id = p_plan_id
+  RETURNING * INTO v_plan;
+
+  PERFORM set_config('app.audit_context', '', true);
+
+  RETURN v_plan;
+END;
+$$;
+
+-- Cancelar as parcelas restantes: ficam com status cancelado (e deixam de contar no
+-- saldo do cartão, liberando o limite); as já faturadas continuam como estão
+CREATE OR REPLACE FUNCTION public.cancel_installment_plan(p_plan_id UUID)
+RETURNS public.installment_plans
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.installment_plans;
+  v_cancelled_count INTEGER;
+BEGIN
+  SELECT p.* INTO v_plan
+  FROM installment_plans p
+  WHERE p.id = p_plan_id AND p.user_id = auth.uid();
+
+  IF v_plan.id IS NULL THEN
+    RAISE EXCEPTION 'Compra parcelada não encontrada';
+  END IF;
+
+  IF v_plan.status = 'cancelled' THEN
+    RAISE EXCEPTION 'As parcelas restantes desta compra já foram canceladas';
+  END IF;
+
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'installment_plan_cancel',
+    'installment_plan_id', p_plan_id
+  )::TEXT, true);
+
+  UPDATE transactions t
+  SET status = 'cancelled', updated_at = now()
+  FROM accounts a
+  WHERE t.installment_plan_id = p_plan_id
+    AND a.id = t.account_id
+    AND t.status <> 'cancelled'
+    AND card_invoice_month(t.date, a.closing_day) >= card_invoice_month(CURRENT_DATE, a.closing_day);
+
+  GET DIAGNOSTICS v_cancelled_count = ROW_COUNT;
+
+  IF v_cancelled_count = 0 THEN
+    RAISE EXCEPTION 'Todas as parcelas já foram faturadas';
+  END IF;
+
+  UPDATE installment_plans
+  SET status = 'cancelled', cancelled_at = now(), updated_at = now()
+  WHERE id = p_plan_id
+  RETURNING * INTO v_plan;
+
+  PERFORM set_config('app.audit_context', '', true);
+
+  RETURN v_plan;
+END;
+$$;
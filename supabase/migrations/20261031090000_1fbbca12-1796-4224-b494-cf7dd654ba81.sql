@@ -0,0 +1,202 @@
+-- Faturas do cartão de crédito. Cada fatura cobre o período entre dois fechamentos
+-- do cartão e vence no dia de vencimento seguinte ao fechamento. Despesas e
+-- estornos lançados no cartão são alocados à fatura do seu período.
+
+CREATE TABLE public.credit_card_invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  -- Primeiro dia do mês em que a fatura fecha (ver card_invoice_month)
+  reference_month DATE NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  due_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (account_id, reference_month),
+  CHECK (period_start <= period_end AND period_end < due_date)
+);
+
+ALTER TABLE public.credit_card_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit card invoices"
+ON public.credit_card_invoices
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own credit card invoices"
+ON public.credit_card_invoices
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own credit card invoices"
+ON public.credit_card_invoices
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own credit card invoices"
+ON public.credit_card_invoices
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_credit_card_invoices_updated_at
+BEFORE UPDATE ON public.credit_card_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_credit_card_invoices_user_month ON public.credit_card_invoices(user_id, reference_month DESC);
+
+ALTER TABLE public.transactions
+  ADD COLUMN invoice_id UUID REFERENCES public.credit_card_invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_invoice ON public.transactions(invoice_id) WHERE invoice_id IS NOT NULL;
+
+-- Dia de um mês, limitado ao último dia (fechamento/vencimento no dia 31 em fevereiro)
+CREATE OR REPLACE FUNCTION public.card_day_in_month(p_month DATE, p_day INTEGER)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', p_month)::DATE + (LEAST(
+    COALESCE(p_day, 1),
+    EXTRACT(DAY FROM date_trunc('month', p_month) + INTERVAL '1 month - 1 day')::INTEGER
+  ) - 1);
+$$;
+
+-- Fatura do cartão que recebe uma data, criada na primeira vez que é usada.
+-- Retorna NULL quando a conta não é um cartão de crédito.
+CREATE OR REPLACE FUNCTION public.ensure_credit_card_invoice(p_account_id UUID, p_date DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_account public.accounts;
+  v_month DATE;
+  v_period_end DATE;
+  v_due_date DATE;
+  v_invoice_id UUID;
+BEGIN
+  SELECT * INTO v_account FROM accounts WHERE id = p_account_id;
+
+  IF v_account.id IS NULL OR v_account.type <> 'credit_card' OR p_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_month := card_invoice_month(p_date, v_account.closing_day);
+
+  SELECT id INTO v_invoice_id
+  FROM credit_card_invoices
+  WHERE account_id = p_account_id AND reference_month = v_month;
+
+  IF v_invoice_id IS NOT NULL THEN
+    RETURN v_invoice_id;
+  END IF;
+
+  v_period_end := card_day_in_month(v_month, v_account.closing_day);
+
+  -- Vencimento depois do fechamento: no mesmo mês, ou no seguinte se o dia já passou
+  v_due_date := card_day_in_month(v_month, COALESCE(v_account.due_day, 10));
+  IF v_due_date <= v_period_end THEN
+    v_due_date := card_day_in_month((v_month + INTERVAL '1 month')::DATE, COALESCE(v_account.due_day, 10));
+  END IF;
+
+  INSERT INTO credit_card_invoices (user_id, account_id, reference_month, period_start, period_end, due_date)
+  VALUES (
+    v_account.user_id,
+    p_account_id,
+    v_month,
+    card_day_in_month((v_month - INTERVAL '1 month')::DATE, v_account.closing_day) + 1,
+    v_period_end,
+    v_due_date
+  )
+  ON CONFLICT (account_id, reference_month) DO NOTHING
+  RETURNING id INTO v_invoice_id;
+
+  IF v_invoice_id IS NULL THEN
+    SELECT id INTO v_invoice_id
+    FROM credit_card_invoices
+    WHERE account_id = p_account_id AND reference_month = v_month;
+  END IF;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+-- Alocar despesas e estornos do cartão à fatura do período. Transferências (pagamentos
+-- de fatura) mantêm a fatura informada por quem as registra.
+CREATE OR REPLACE FUNCTION public.set_credit_card_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type = 'transfer' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.invoice_id IS NOT NULL
+    AND NEW.account_id = OLD.account_id
+    AND NEW.date = OLD.date
+    AND NEW.type = OLD.type THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.invoice_id := ensure_credit_card_invoice(NEW.account_id, NEW.date);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_credit_card_invoice_trigger
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_credit_card_invoice();
+
+-- Alocar as transações já existentes. Só a coluna da fatura muda, então os demais
+-- gatilhos (saldo, auditoria, notificações de orçamento) ficam desligados.
+ALTER TABLE public.transactions DISABLE TRIGGER USER;
+
+UPDATE public.transactions t
+SET invoice_id = public.ensure_credit_card_invoice(t.account_id, t.date)
+FROM public.accounts a
+WHERE a.id = t.account_id
+  AND a.type = 'credit_card'
+  AND t.type <> 'transfer';
+
+ALTER TABLE public.transactions ENABLE TRIGGER USER;
+
+-- Totais e situação de cada fatura. A situação depende da data atual, por isso é
+-- calculada aqui e não gravada: aberta até o fechamento, depois paga, vencida ou fechada.
+CREATE OR REPLACE VIEW public.credit_card_invoice_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id,
+  i.user_id,
+  i.account_id,
+  i.reference_month,
+  i.period_start,
+  i.period_end,
+  i.due_date,
+  COALESCE(t.total_amount, 0) AS total_amount,
+  COALESCE(t.paid_amount, 0) AS paid_amount,
+  GREATEST(COALESCE(t.total_amount, 0) - COALESCE(t.paid_amount, 0), 0) AS outstanding_amount,
+  COALESCE(t.transaction_count, 0) AS transaction_count,
+  CASE
+    WHEN CURRENT_DATE <= i.period_end THEN 'open'
+    WHEN COALESCE(t.paid_amount, 0) >= COALESCE(t.total_amount, 0) THEN 'paid'
+    WHEN CURRENT_DATE > i.due_date THEN 'overdue'
+    ELSE 'closed'
+  END AS status
+FROM public.credit_card_invoices i
+LEFT JOIN LATERAL (
+  SELECT
+    SUM(CASE tr.type WHEN 'expense' THEN tr.amount WHEN 'income' THEN -tr.amount ELSE 0 END)
+      FILTER (WHERE tr.status <> 'cancelled') AS total_amount,
+    SUM(tr.amount)
+      FILTER (WHERE tr.type = 'transfer' AND tr.transfer_direction = 'credit' AND tr.status = 'completed') AS paid_amount,
+    COUNT(*) FILTER (WHERE tr.type <> 'transfer' AND tr.status <> 'cancelled') AS transaction_count
+  FROM public.transactions tr
+  WHERE tr.invoice_id = i.id
+) t ON true;
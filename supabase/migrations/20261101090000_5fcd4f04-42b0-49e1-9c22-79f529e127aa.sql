@@ -0,0 +1,121 @@
+-- Pagamento de fatura do cartão: uma transferência de uma conta para o cartão, com a
+-- perna de crédito (no cartão) alocada à fatura paga. Pagamentos parciais e
+-- antecipados são permitidos até o valor restante da fatura.
+
+CREATE OR REPLACE FUNCTION public.pay_credit_card_invoice(
+  p_invoice_id UUID,
+  p_from_account_id UUID,
+  p_amount NUMERIC,
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.credit_card_invoice_summaries;
+  v_transaction public.transactions;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM credit_card_invoice_summaries
+  WHERE id = p_invoice_id AND user_id = auth.uid();
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Fatura não encontrada';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Valor do pagamento deve ser positivo';
+  END IF;
+
+  IF p_amount > v_invoice.outstanding_amount THEN
+    RAISE EXCEPTION 'Valor maior que o restante da fatura (%)', v_invoice.outstanding_amount;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM accounts
+    WHERE id = p_from_account_id AND user_id = auth.uid() AND type = 'credit_card'
+  ) THEN
+    RAISE EXCEPTION 'Escolha uma conta (não um cartão) para pagar a fatura';
+  END IF;
+
+  v_transaction := create_transfer(
+    p_from_account_id,
+    v_invoice.account_id,
+    p_amount,
+    'Pagamento de fatura ' || to_char(v_invoice.reference_month, 'MM/YYYY'),
+    COALESCE(p_date, CURRENT_DATE),
+    'completed',
+    p_notes
+  );
+
+  UPDATE transactions
+  SET invoice_id = p_invoice_id
+  WHERE id = v_transaction.transfer_pair_id;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Pagamentos movidos para outra conta deixam de pertencer à fatura do cartão
+CREATE OR REPLACE FUNCTION public.set_credit_card_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type = 'transfer' THEN
+    IF TG_OP = 'UPDATE' AND NEW.account_id <> OLD.account_id THEN
+      NEW.invoice_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.invoice_id IS NOT NULL
+    AND NEW.account_id = OLD.account_id
+    AND NEW.date = OLD.date
+    AND NEW.type = OLD.type THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.invoice_id := ensure_credit_card_invoice(NEW.account_id, NEW.date);
+  RETURN NEW;
+END;
+$$;
+
+-- Situação com pagamento parcial: fechada com parte paga e ainda dentro do vencimento
+CREATE OR REPLACE VIEW public.credit_card_invoice_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id,
+  i.user_id,
+  i.account_id,
+  i.reference_month,
+  i.period_start,
+  i.period_end,
+  i.due_date,
+  COALESCE(t.total_amount, 0) AS total_amount,
+  COALESCE(t.paid_amount, 0) AS paid_amount,
+  GREATEST(COALESCE(t.total_amount, 0) - COALESCE(t.paid_amount, 0), 0) AS outstanding_amount,
+  COALESCE(t.transaction_count, 0) AS transaction_count,
+  CASE
+    WHEN CURRENT_DATE <= i.period_end THEN 'open'
+    WHEN COALESCE(t.paid_amount, 0) >= COALESCE(t.total_amount, 0) THEN 'paid'
+    WHEN CURRENT_DATE > i.due_date THEN 'overdue'
+    WHEN COALESCE(t.paid_amount, 0) > 0 THEN 'partially_paid'
+    ELSE 'closed'
+  END AS status
+FROM public.credit_card_invoices i
+LEFT JOIN LATERAL (
+  SELECT
+    SUM(CASE tr.type WHEN 'expense' THEN tr.amount WHEN 'income' THEN -tr.amount ELSE 0 END)
+      FILTER (WHERE tr.status <> 'cancelled') AS total_amount,
+    SUM(tr.amount)
+      FILTER (WHERE tr.type = 'transfer' AND tr.transfer_direction = 'credit' AND tr.status = 'completed') AS paid_amount,
+    COUNT(*) FILTER (WHERE tr.type <> 'transfer' AND tr.status <> 'cancelled') AS transaction_count
+  FROM public.transactions tr
+  WHERE tr.invoice_id = i.id
+) t ON true;
@@ -0,0 +1,4 @@
+-- Taxa mensal de juros do rotativo de cada cartão, usada no simulador de juros
+ALTER TABLE public.accounts
+  ADD COLUMN monthly_interest_rate DECIMAL(6,3)
+    CHECK (monthly_interest_rate IS NULL OR monthly_interest_rate BETWEEN 0 AND 100);
@@ -0,0 +1,104 @@
+-- Modo envelope: a sobra (ou o excesso) do orçamento passa para o mês seguinte
+ALTER TABLE public.budgets
+  ADD COLUMN rollover_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- Orçado, acumulado dos meses anteriores, gasto e disponível de cada orçamento.
+-- O mês recebe o disponível do mês anterior da mesma categoria quando aquele
+-- orçamento está em modo envelope; a cadeia se encerra no primeiro mês sem ele.
+CREATE OR REPLACE VIEW public.budget_envelopes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE budget_spending AS (
+  SELECT
+    b.id,
+    b.user_id,
+    b.category_id,
+    b.month,
+    b.year,
+    b.amount,
+    b.rollover_enabled,
+    (
+      SELECT COALESCE(SUM(l.amount), 0)
+      FROM public.transaction_category_lines l
+      WHERE l.user_id = b.user_id
+        AND l.category_id = b.category_id
+        AND l.type = 'expense'
+        AND l.date >= make_date(b.year, b.month, 1)
+        AND l.date < make_date(b.year, b.month, 1) + INTERVAL '1 month'
+    ) AS spent
+  FROM public.budgets b
+),
+chain AS (
+  SELECT
+    s.*,
+    0::DECIMAL(15,2) AS rolled_over
+  FROM budget_spending s
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM budget_spending p
+    WHERE p.user_id = s.user_id
+      AND p.category_id = s.category_id
+      AND p.rollover_enabled
+      AND p.year * 12 + p.month = s.year * 12 + s.month - 1
+  )
+  UNION ALL
+  SELECT
+    n.*,
+    (c.amount + c.rolled_over - c.spent)::DECIMAL(15,2) AS rolled_over
+  FROM chain c
+  JOIN budget_spending n
+    ON n.user_id = c.user_id
+   AND n.category_id = c.category_id
+   AND n.year * 12 + n.month = c.year * 12 + c.month + 1
+  WHERE c.rollover_enabled
+)
+SELECT
+  id,
+  user_id,
+  category_id,
+  month,
+  year,
+  rollover_enabled,
+  amount AS assigned,
+  rolled_over,
+  spent,
+  amount + rolled_over - spent AS available
+FROM chain;
+
+-- Alertas de orçamento pelo disponível do envelope, e não apenas pelo valor orçado
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+BEGIN
+  FOR budget_record IN
+    SELECT e.*, c.name AS category_name
+    FROM budget_envelopes e
+    JOIN categories c ON e.category_id = c.id
+    WHERE e.user_id = p_user_id
+      AND e.month = EXTRACT(MONTH FROM p_date)
+      AND e.year = EXTRACT(YEAR FROM p_date)
+      AND e.category_id = ANY(p_category_ids)
+  LOOP
+    IF budget_record.available < 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento de ' || budget_record.category_name ||
+          ' em R$ ' || (-budget_record.available)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,138 @@
+-- Cada categoria com ela mesma e todas as suas subcategorias, em qualquer nível
+CREATE OR REPLACE VIEW public.category_descendants
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE tree AS (
+  SELECT c.id AS ancestor_id, c.id AS category_id, c.user_id
+  FROM public.categories c
+  UNION
+  SELECT t.ancestor_id, c.id AS category_id, c.user_id
+  FROM tree t
+  JOIN public.categories c ON c.parent_id = t.category_id
+)
+SELECT ancestor_id, category_id, user_id FROM tree;
+
+-- Gasto de cada orçamento calculado a partir das despesas do mês: linhas de divisão
+-- contam na sua própria categoria e subcategorias contam no orçamento da categoria pai.
+-- Parcelas canceladas não são cobradas e ficam de fora.
+CREATE OR REPLACE VIEW public.budget_spending
+WITH (security_invoker = true)
+AS
+SELECT
+  b.id,
+  b.user_id,
+  b.category_id,
+  b.month,
+  b.year,
+  COALESCE(SUM(l.amount), 0) AS spent
+FROM public.budgets b
+JOIN public.category_descendants d ON d.ancestor_id = b.category_id
+LEFT JOIN public.transaction_category_lines l
+  ON l.user_id = b.user_id
+ AND l.category_id = d.category_id
+ AND l.type = 'expense'
+ AND l.status <> 'cancelled'
+ AND l.date >= make_date(b.year, b.month, 1)
+ AND l.date < make_date(b.year, b.month, 1) + INTERVAL '1 month'
+GROUP BY b.id, b.user_id, b.category_id, b.month, b.year;
+
+-- Envelopes passam a usar o gasto calculado acima
+DROP VIEW IF EXISTS public.budget_envelopes;
+
+CREATE VIEW public.budget_envelopes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE budget_totals AS (
+  SELECT
+    b.id,
+    b.user_id,
+    b.category_id,
+    b.month,
+    b.year,
+    b.amount,
+    b.rollover_enabled,
+    s.spent
+  FROM public.budgets b
+  JOIN public.budget_spending s ON s.id = b.id
+),
+chain AS (
+  SELECT
+    t.*,
+    0::DECIMAL(15,2) AS rolled_over
+  FROM budget_totals t
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM budget_totals p
+    WHERE p.user_id = t.user_id
+      AND p.category_id = t.category_id
+      AND p.rollover_enabled
+      AND p.year * 12 + p.month = t.year * 12 + t.month - 1
+  )
+  UNION ALL
+  SELECT
+    n.*,
+    (c.amount + c.rolled_over - c.spent)::DECIMAL(15,2) AS rolled_over
+  FROM chain c
+  JOIN budget_totals n
+    ON n.user_id = c.user_id
+   AND n.category_id = c.category_id
+   AND n.year * 12 + n.month = c.year * 12 + c.month + 1
+  WHERE c.rollover_enabled
+)
+SELECT
+  id,
+  user_id,
+  category_id,
+  month,
+  year,
+  rollover_enabled,
+  amount AS assigned,
+  rolled_over,
+  spent,
+  amount + rolled_over - spent AS available
+FROM chain;
+
+-- Alertas também para os orçamentos das categorias pai da despesa
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+BEGIN
+  FOR budget_record IN
+    SELECT e.*, c.name AS category_name
+    FROM budget_envelopes e
+    JOIN categories c ON e.category_id = c.id
+    WHERE e.user_id = p_user_id
+      AND e.month = EXTRACT(MONTH FROM p_date)
+      AND e.year = EXTRACT(YEAR FROM p_date)
+      AND e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      )
+  LOOP
+    IF budget_record.available < 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento de ' || budget_record.category_name ||
+          ' em R$ ' || (-budget_record.available)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- O contador gravado nunca era atualizado em edições e exclusões; o gasto vem das views
+ALTER TABLE public.budgets DROP COLUMN spent;
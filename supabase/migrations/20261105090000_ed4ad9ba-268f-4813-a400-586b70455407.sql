@@ -0,0 +1,231 @@
+-- Orçamentos com periodicidade própria (semanal, trimestral, anual...) e início e fim explícitos.
+-- month/year continuam preenchidos com o mês de início para as consultas antigas.
+ALTER TABLE public.budgets
+  ADD COLUMN period_type TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (period_type IN ('weekly', 'monthly', 'quarterly', 'semiannual', 'yearly', 'custom')),
+  ADD COLUMN start_date DATE,
+  ADD COLUMN end_date DATE;
+
+UPDATE public.budgets
+SET start_date = make_date(year, month, 1),
+    end_date = (make_date(year, month, 1) + INTERVAL '1 month' - INTERVAL '1 day')::DATE;
+
+ALTER TABLE public.budgets
+  ALTER COLUMN start_date SET NOT NULL,
+  ALTER COLUMN end_date SET NOT NULL,
+  ADD CONSTRAINT budgets_period_check CHECK (end_date >= start_date);
+
+ALTER TABLE public.budgets DROP CONSTRAINT IF EXISTS budgets_user_id_category_id_month_year_key;
+ALTER TABLE public.budgets
+  ADD CONSTRAINT budgets_user_id_category_id_period_key UNIQUE (user_id, category_id, period_type, start_date);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user_period ON public.budgets(user_id, start_date, end_date);
+
+-- Último dia do período que começa em p_start; períodos personalizados não têm fim implícito
+CREATE OR REPLACE FUNCTION public.budget_period_end(p_period_type TEXT, p_start DATE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_period_type
+    WHEN 'weekly' THEN p_start + 6
+    WHEN 'monthly' THEN (p_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE
+    WHEN 'quarterly' THEN (p_start + INTERVAL '3 months' - INTERVAL '1 day')::DATE
+    WHEN 'semiannual' THEN (p_start + INTERVAL '6 months' - INTERVAL '1 day')::DATE
+    WHEN 'yearly' THEN (p_start + INTERVAL '1 year' - INTERVAL '1 day')::DATE
+  END;
+$$;
+
+-- Completa o período: orçamentos criados só com mês/ano continuam mensais
+CREATE OR REPLACE FUNCTION public.set_budget_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_date IS NULL THEN
+    NEW.period_type := 'monthly';
+    NEW.start_date := make_date(NEW.year, NEW.month, 1);
+  END IF;
+
+  IF NEW.period_type <> 'custom' THEN
+    NEW.end_date := public.budget_period_end(NEW.period_type, NEW.start_date);
+  ELSIF NEW.end_date IS NULL THEN
+    RAISE EXCEPTION 'Informe a data final do período do orçamento';
+  END IF;
+
+  NEW.month := EXTRACT(MONTH FROM NEW.start_date);
+  NEW.year := EXTRACT(YEAR FROM NEW.start_date);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_budget_period_trigger
+BEFORE INSERT OR UPDATE ON public.budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.set_budget_period();
+
+DROP VIEW IF EXISTS public.budget_envelopes;
+DROP VIEW IF EXISTS public.budget_spending;
+
+-- Gasto de cada orçamento dentro do seu período
+CREATE VIEW public.budget_spending
+WITH (security_invoker = true)
+AS
+SELECT
+  b.id,
+  b.user_id,
+  b.category_id,
+  b.period_type,
+  b.start_date,
+  b.end_date,
+  b.month,
+  b.year,
+  COALESCE(SUM(l.amount), 0) AS spent
+FROM public.budgets b
+JOIN public.category_descendants d ON d.ancestor_id = b.category_id
+LEFT JOIN public.transaction_category_lines l
+  ON l.user_id = b.user_id
+ AND l.category_id = d.category_id
+ AND l.type = 'expense'
+ AND l.status <> 'cancelled'
+ AND l.date BETWEEN b.start_date AND b.end_date
+GROUP BY b.id, b.user_id, b.category_id, b.period_type, b.start_date, b.end_date, b.month, b.year;
+
+-- No modo envelope, o disponível passa para o período seguinte da mesma periodicidade,
+-- que começa no dia seguinte ao fim deste
+CREATE VIEW public.budget_envelopes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE budget_totals AS (
+  SELECT
+    b.id,
+    b.user_id,
+    b.category_id,
+    b.period_type,
+    b.start_date,
+    b.end_date,
+    b.month,
+    b.year,
+    b.amount,
+    b.rollover_enabled,
+    s.spent
+  FROM public.budgets b
+  JOIN public.budget_spending s ON s.id = b.id
+),
+chain AS (
+  SELECT
+    t.*,
+    0::DECIMAL(15,2) AS rolled_over
+  FROM budget_totals t
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM budget_totals p
+    WHERE p.user_id = t.user_id
+      AND p.category_id = t.category_id
+      AND p.period_type = t.period_type
+      AND p.rollover_enabled
+      AND p.end_date + 1 = t.start_date
+  )
+  UNION ALL
+  SELECT
+    n.*,
+    (c.amount + c.rolled_over - c.spent)::DECIMAL(15,2) AS rolled_over
+  FROM chain c
+  JOIN budget_totals n
+    ON n.user_id = c.user_id
+   AND n.category_id = c.category_id
+   AND n.period_type = c.period_type
+   AND n.start_date = c.end_date + 1
+  WHERE c.rollover_enabled
+)
+SELECT
+  id,
+  user_id,
+  category_id,
+  period_type,
+  start_date,
+  end_date,
+  month,
+  year,
+  rollover_enabled,
+  amount AS assigned,
+  rolled_over,
+  spent,
+  amount + rolled_over - spent AS available
+FROM chain;
+
+-- Gasto de cada orçamento do usuário dentro de uma janela (por exemplo, um mês), para
+-- exibir orçamentos de outras periodicidades proporcionalmente
+CREATE OR REPLACE FUNCTION public.budget_window_spending(p_start DATE, p_end DATE)
+RETURNS TABLE (budget_id UUID, spent NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id, COALESCE(SUM(l.amount), 0)
+  FROM budgets b
+  JOIN category_descendants d ON d.ancestor_id = b.category_id
+  LEFT JOIN transaction_category_lines l
+    ON l.user_id = b.user_id
+   AND l.category_id = d.category_id
+   AND l.type = 'expense'
+   AND l.status <> 'cancelled'
+   AND l.date BETWEEN GREATEST(b.start_date, p_start) AND LEAST(b.end_date, p_end)
+  WHERE b.user_id = auth.uid()
+    AND b.start_date <= p_end
+    AND b.end_date >= p_start
+  GROUP BY b.id;
+$$;
+
+-- Alertas para os orçamentos cujo período contém a data da despesa
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+BEGIN
+  FOR budget_record IN
+    SELECT e.*, c.name AS category_name
+    FROM budget_envelopes e
+    JOIN categories c ON e.category_id = c.id
+    WHERE e.user_id = p_user_id
+      AND p_date BETWEEN e.start_date AND e.end_date
+      AND e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      )
+  LOOP
+    IF budget_record.available < 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento ' ||
+          CASE budget_record.period_type
+            WHEN 'weekly' THEN 'semanal'
+            WHEN 'quarterly' THEN 'trimestral'
+            WHEN 'semiannual' THEN 'semestral'
+            WHEN 'yearly' THEN 'anual'
+            WHEN 'custom' THEN 'do período'
+            ELSE 'mensal'
+          END ||
+          ' de ' || budget_record.category_name ||
+          ' em R$ ' || (-budget_record.available)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,199 @@
+-- Modelos de orçamento: conjuntos nomeados de orçamentos mensais por categoria que
+-- podem ser aplicados aos próximos meses. O modelo ativo é usado pela rotina
+-- agendada create-monthly-budgets para criar os orçamentos do mês seguinte.
+
+CREATE TABLE public.budget_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No máximo um modelo ativo por usuário
+CREATE UNIQUE INDEX idx_budget_templates_active ON public.budget_templates(user_id) WHERE is_active;
+
+CREATE TABLE public.budget_template_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.budget_templates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  rollover_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(template_id, category_id)
+);
+
+ALTER TABLE public.budget_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_template_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budget templates"
+ON public.budget_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budget templates"
+ON public.budget_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget templates"
+ON public.budget_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budget templates"
+ON public.budget_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own budget template items"
+ON public.budget_template_items
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budget template items"
+ON public.budget_template_items
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget template items"
+ON public.budget_template_items
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budget template items"
+ON public.budget_template_items
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_budget_templates_updated_at
+BEFORE UPDATE ON public.budget_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_budget_template_items_template ON public.budget_template_items(template_id);
+
+-- Salva os orçamentos mensais de um mês como um novo modelo
+CREATE OR REPLACE FUNCTION public.save_budgets_as_template(p_name TEXT, p_month DATE)
+RETURNS public.budget_templates
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.budget_templates;
+  v_month DATE := date_trunc('month', p_month)::DATE;
+BEGIN
+  IF trim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Informe o nome do modelo';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM budgets
+    WHERE user_id = auth.uid() AND period_type = 'monthly' AND start_date = v_month
+  ) THEN
+    RAISE EXCEPTION 'Não há orçamentos mensais em % para salvar como modelo', to_char(v_month, 'MM/YYYY');
+  END IF;
+
+  INSERT INTO budget_templates (user_id, name)
+  VALUES (auth.uid(), trim(p_name))
+  RETURNING * INTO v_template;
+
+  INSERT INTO budget_template_items (template_id, user_id, category_id, amount, rollover_enabled)
+  SELECT v_template.id, auth.uid(), category_id, amount, rollover_enabled
+  FROM budgets
+  WHERE user_id = auth.uid()
+    AND period_type = 'monthly'
+    AND start_date = v_month;
+
+  RETURN v_template;
+END;
+$$;
+
+-- Cria os orçamentos do modelo em p_months meses a partir de p_start_month.
+-- Categorias que já têm orçamento no mês são mantidas como estão.
+CREATE OR REPLACE FUNCTION public.apply_budget_template(
+  p_template_id UUID,
+  p_start_month DATE,
+  p_months INTEGER DEFAULT 1
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM budget_templates WHERE id = p_template_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Modelo de orçamento não encontrado';
+  END IF;
+
+  IF p_months NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Aplique o modelo a entre 1 e 12 meses';
+  END IF;
+
+  INSERT INTO budgets (user_id, category_id, amount, rollover_enabled, period_type, start_date, month, year)
+  SELECT
+    auth.uid(),
+    i.category_id,
+    i.amount,
+    i.rollover_enabled,
+    'monthly',
+    m.month_start,
+    EXTRACT(MONTH FROM m.month_start),
+    EXTRACT(YEAR FROM m.month_start)
+  FROM budget_template_items i
+  CROSS JOIN LATERAL (
+    SELECT (date_trunc('month', p_start_month) + make_interval(months => n))::DATE AS month_start
+    FROM generate_series(0, p_months - 1) AS n
+  ) m
+  WHERE i.template_id = p_template_id
+  ON CONFLICT (user_id, category_id, period_type, start_date) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+-- Copia os orçamentos mensais de p_from_month para p_months meses a partir de p_to_month
+CREATE OR REPLACE FUNCTION public.copy_monthly_budgets(
+  p_from_month DATE,
+  p_to_month DATE,
+  p_months INTEGER DEFAULT 1
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF p_months NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Copie os orçamentos para entre 1 e 12 meses';
+  END IF;
+
+  INSERT INTO budgets (user_id, category_id, amount, rollover_enabled, period_type, start_date, month, year)
+  SELECT
+    auth.uid(),
+    b.category_id,
+    b.amount,
+    b.rollover_enabled,
+    'monthly',
+    m.month_start,
+    EXTRACT(MONTH FROM m.month_start),
+    EXTRACT(YEAR FROM m.month_start)
+  FROM budgets b
+  CROSS JOIN LATERAL (
+    SELECT (date_trunc('month', p_to_month) + make_interval(months => n))::DATE AS month_start
+    FROM generate_series(0, p_months - 1) AS n
+  ) m
+  WHERE b.user_id = auth.uid()
+    AND b.period_type = 'monthly'
+    AND b.start_date = date_trunc('month', p_from_month)::DATE
+  ON CONFLICT (user_id, category_id, period_type, start_date) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
@@ -0,0 +1,223 @@
+-- Ritmo dos orçamentos e projeção para o fim do período, com alerta antecipado
+-- quando o ritmo atual indica que o orçamento será ultrapassado.
+
+-- Intervalo entre as ocorrências de uma transação recorrente (como em process-recurring-transactions)
+CREATE OR REPLACE FUNCTION public.recurrence_interval(p_frequency public.recurrence_frequency)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '7 days'
+    WHEN 'yearly' THEN INTERVAL '1 year'
+    ELSE INTERVAL '1 month'
+  END;
+$$;
+
+/*
+ * Ritmo de cada orçamento em vigor em p_date:
+ *  - spent_to_date: despesas até p_date;
+ *  - scheduled_amount: despesas já lançadas com data futura no período (parcelas do
+ *    cartão e lançamentos agendados);
+ *  - recurring_amount: próximas ocorrências das transações recorrentes ativas;
+ *  - daily_rate: gasto variável por dia decorrido, sem parcelas nem recorrentes;
+ *  - projected_spent: gasto até hoje + agendado + recorrente + ritmo diário nos dias restantes.
+ */
+CREATE OR REPLACE FUNCTION public.budget_pacing(
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS TABLE (
+  budget_id UUID,
+  category_id UUID,
+  start_date DATE,
+  end_date DATE,
+  limit_amount NUMERIC,
+  spent_to_date NUMERIC,
+  scheduled_amount NUMERIC,
+  recurring_amount NUMERIC,
+  daily_rate NUMERIC,
+  projected_spent NUMERIC,
+  elapsed_days INTEGER,
+  period_days INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH current_budgets AS (
+    SELECT e.id, e.category_id, e.start_date, e.end_date, e.assigned + e.rolled_over AS limit_amount
+    FROM budget_envelopes e
+    WHERE e.user_id = p_user_id
+      AND p_date BETWEEN e.start_date AND e.end_date
+  ),
+  budget_lines AS (
+    SELECT
+      b.id AS budget_id,
+      l.date,
+      l.amount,
+      -- Parcelas e transações recorrentes (e as geradas a partir delas) não entram no ritmo diário
+      (
+        t.installment_plan_id IS NOT NULL
+        OR COALESCE(t.is_recurring, false)
+        OR EXISTS (
+          SELECT 1
+          FROM transactions r
+          WHERE r.user_id = t.user_id
+            AND r.is_recurring
+            AND r.is_active
+            AND r.description = t.description
+            AND r.category_id IS NOT DISTINCT FROM t.category_id
+        )
+      ) AS is_scheduled
+    FROM current_budgets b
+    JOIN category_descendants d ON d.ancestor_id = b.category_id
+    JOIN transaction_category_lines l
+      ON l.user_id = p_user_id
+     AND l.category_id = d.category_id
+     AND l.type = 'expense'
+     AND l.status <> 'cancelled'
+     AND l.date BETWEEN b.start_date AND b.end_date
+    JOIN transactions t ON t.id = l.transaction_id
+  ),
+  line_totals AS (
+    SELECT
+      budget_id,
+      COALESCE(SUM(amount) FILTER (WHERE date <= p_date), 0) AS spent_to_date,
+      COALESCE(SUM(amount) FILTER (WHERE date <= p_date AND NOT is_scheduled), 0) AS variable_to_date,
+      COALESCE(SUM(amount) FILTER (WHERE date > p_date), 0) AS scheduled_amount
+    FROM budget_lines
+    GROUP BY budget_id
+  ),
+  recurring_totals AS (
+    SELECT b.id AS budget_id, SUM(l.amount) AS recurring_amount
+    FROM current_budgets b
+    JOIN category_descendants d ON d.ancestor_id = b.category_id
+    JOIN transaction_category_lines l
+      ON l.user_id = p_user_id
+     AND l.category_id = d.category_id
+     AND l.type = 'expense'
+    JOIN transactions t
+      ON t.id = l.transaction_id
+     AND t.is_recurring
+     AND t.is_active
+    CROSS JOIN LATERAL generate_series(
+      COALESCE(t.last_processed_at::DATE, t.date) + recurrence_interval(t.recurrence_frequency),
+      LEAST(b.end_date, COALESCE(t.recurrence_end_date, b.end_date))::TIMESTAMP,
+      recurrence_interval(t.recurrence_frequency)
+    ) AS o(occurrence)
+    WHERE o.occurrence::DATE > p_date
+    GROUP BY b.id
+  )
+  SELECT
+    b.id,
+    b.category_id,
+    b.start_date,
+    b.end_date,
+    b.limit_amount,
+    COALESCE(lt.spent_to_date, 0),
+    COALESCE(lt.scheduled_amount, 0),
+    COALESCE(rt.recurring_amount, 0),
+    ROUND(COALESCE(lt.variable_to_date, 0) / (p_date - b.start_date + 1), 2),
+    ROUND(
+      COALESCE(lt.spent_to_date, 0)
+        + COALESCE(lt.scheduled_amount, 0)
+        + COALESCE(rt.recurring_amount, 0)
+        + COALESCE(lt.variable_to_date, 0) / (p_date - b.start_date + 1) * (b.end_date - p_date),
+      2
+    ),
+    p_date - b.start_date + 1,
+    b.end_date - b.start_date + 1
+  FROM current_budgets b
+  LEFT JOIN line_totals lt ON lt.budget_id = b.id
+  LEFT JOIN recurring_totals rt ON rt.budget_id = b.id;
+$$;
+
+-- Além do alerta de orçamento ultrapassado, avisa uma vez por período quando a projeção
+-- indica que o orçamento vai estourar. A projeção só vale depois de 20% do período,
+-- para que uma compra no primeiro dia não dispare o alerta.
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+  pacing_record RECORD;
+BEGIN
+  FOR budget_record IN
+    SELECT e.*, c.name AS category_name
+    FROM budget_envelopes e
+    JOIN categories c ON e.category_id = c.id
+    WHERE e.user_id = p_user_id
+      AND p_date BETWEEN e.start_date AND e.end_date
+      AND e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      )
+  LOOP
+    IF budget_record.available < 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento ' ||
+          CASE budget_record.period_type
+            WHEN 'weekly' THEN 'semanal'
+            WHEN 'quarterly' THEN 'trimestral'
+            WHEN 'semiannual' THEN 'semestral'
+            WHEN 'yearly' THEN 'anual'
+            WHEN 'custom' THEN 'do período'
+            ELSE 'mensal'
+          END ||
+          ' de ' || budget_record.category_name ||
+          ' em R$ ' || (-budget_record.available)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+
+  FOR pacing_record IN
+    SELECT p.*, c.name AS category_name
+    FROM budget_pacing(CURRENT_DATE, p_user_id) p
+    JOIN categories c ON p.category_id = c.id
+    WHERE p.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      )
+      AND p.spent_to_date <= p.limit_amount
+      AND p.projected_spent > p.limit_amount
+      AND p.elapsed_days * 5 >= p.period_days
+      AND NOT EXISTS (
+        SELECT 1
+        FROM notifications n
+        WHERE n.user_id = p_user_id
+          AND n.related_id = p.budget_id
+          AND n.title = 'Orçamento em risco'
+          AND n.created_at >= p.start_date
+      )
+  LOOP
+    INSERT INTO notifications (user_id, type, title, message, related_id)
+    VALUES (
+      p_user_id,
+      'budget_alert',
+      'Orçamento em risco',
+      'No ritmo atual, o orçamento de ' || pacing_record.category_name ||
+        ' deve ser ultrapassado em R$ ' ||
+        (pacing_record.projected_spent - pacing_record.limit_amount)::TEXT ||
+        ' até ' || to_char(pacing_record.end_date, 'DD/MM'),
+      pacing_record.budget_id
+    );
+  END LOOP;
+END;
+$$;
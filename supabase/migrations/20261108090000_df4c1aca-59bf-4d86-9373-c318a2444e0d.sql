@@ -0,0 +1,605 @@
+-- Escopo do orçamento: uma categoria (com as subcategorias), uma tag (ex.: "viagem-2026")
+-- ou um conjunto de contas. Orçamentos por tag ou por contas podem ainda se limitar a
+-- uma categoria; sem ela, contam todas as despesas do escopo.
+ALTER TABLE public.budgets
+  ADD COLUMN scope TEXT NOT NULL DEFAULT 'category' CHECK (scope IN ('category', 'tag', 'accounts')),
+  ADD COLUMN tag TEXT,
+  ADD COLUMN account_ids UUID[],
+  ALTER COLUMN category_id DROP NOT NULL,
+  ADD CONSTRAINT budgets_scope_check CHECK (
+    (scope = 'category' AND category_id IS NOT NULL)
+    OR (scope = 'tag' AND tag IS NOT NULL)
+    OR (scope = 'accounts' AND cardinality(account_ids) > 0)
+  );
+
+-- Um orçamento por escopo e período; tag e contas vazias contam como iguais
+ALTER TABLE public.budgets DROP CONSTRAINT IF EXISTS budgets_user_id_category_id_period_key;
+ALTER TABLE public.budgets
+  ADD CONSTRAINT budgets_user_id_scope_period_key
+  UNIQUE NULLS NOT DISTINCT (user_id, scope, category_id, tag, account_ids, period_type, start_date);
+
+-- Mantém apenas os campos do escopo escolhido e as contas ordenadas e sem repetição,
+-- para que o mesmo conjunto de contas seja reconhecido entre períodos
+CREATE OR REPLACE FUNCTION public.normalize_budget_scope()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.tag := NULLIF(trim(COALESCE(NEW.tag, '')), '');
+  NEW.account_ids := (
+    SELECT NULLIF(array_agg(DISTINCT a ORDER BY a), '{}')
+    FROM unnest(NEW.account_ids) AS a
+  );
+
+  IF NEW.scope = 'category' THEN
+    NEW.tag := NULL;
+    NEW.account_ids := NULL;
+  ELSIF NEW.scope = 'tag' THEN
+    NEW.account_ids := NULL;
+  ELSE
+    NEW.tag := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_budget_scope_trigger
+BEFORE INSERT OR UPDATE ON public.budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_budget_scope();
+
+DROP VIEW IF EXISTS public.budget_envelopes;
+DROP VIEW IF EXISTS public.budget_spending;
+
+-- Gasto de cada orçamento dentro do seu período e do seu escopo
+CREATE VIEW public.budget_spending
+WITH (security_invoker = true)
+AS
+SELECT
+  b.id,
+  b.user_id,
+  b.category_id,
+  b.scope,
+  b.tag,
+  b.account_ids,
+  b.period_type,
+  b.start_date,
+  b.end_date,
+  b.month,
+  b.year,
+  COALESCE(SUM(l.amount), 0) AS spent
+FROM public.budgets b
+LEFT JOIN public.transaction_category_lines l
+  ON l.user_id = b.user_id
+ AND l.type = 'expense'
+ AND l.status <> 'cancelled'
+ AND l.date BETWEEN b.start_date AND b.end_date
+ AND (b.category_id IS NULL OR l.category_id IN (
+   SELECT d.category_id FROM public.category_descendants d WHERE d.ancestor_id = b.category_id
+ ))
+ AND (b.tag IS NULL OR b.tag = ANY(l.tags))
+ AND (b.account_ids IS NULL OR l.account_id = ANY(b.account_ids))
+GROUP BY b.id, b.user_id, b.category_id, b.scope, b.tag, b.account_ids,
+  b.period_type, b.start_date, b.end_date, b.month, b.year;
+
+-- O envelope segue para o período seguinte do mesmo escopo e periodicidade
+CREATE VIEW public.budget_envelopes
+WITH (security_invoker = true)
+AS
+WITH RECURSIVE budget_totals AS (
+  SELECT
+    b.id,
+    b.user_id,
+    b.category_id,
+    b.scope,
+    b.tag,
+    b.account_ids,
+    b.period_type,
+    b.start_date,
+    b.end_date,
+    b.month,
+    b.year,
+    b.amount,
+    b.rollover_enabled,
+    s.spent
+  FROM public.budgets b
+  JOIN public.budget_spending s ON s.id = b.id
+),
+chain AS (
+  SELECT
+    t.*,
+    0::DECIMAL(15,2) AS rolled_over
+  FROM budget_totals t
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM budget_totals p
+    WHERE p.user_id = t.user_id
+      AND p.scope = t.scope
+      AND p.category_id IS NOT DISTINCT FROM t.category_id
+      AND p.tag IS NOT DISTINCT FROM t.tag
+      AND p.account_ids IS NOT DISTINCT FROM t.account_ids
+      AND p.period_type = t.period_type
+      AND p.rollover_enabled
+      AND p.end_date + 1 = t.start_date
+  )
+  UNION ALL
+  SELECT
+    n.*,
+    (c.amount + c.rolled_over - c.spent)::DECIMAL(15,2) AS rolled_over
+  FROM chain c
+  JOIN budget_totals n
+    ON n.user_id = c.user_id
+   AND n.scope = c.scope
+   AND n.category_id IS NOT DISTINCT FROM c.category_id
+   AND n.tag IS NOT DISTINCT FROM c.tag
+   AND n.account_ids IS NOT DISTINCT FROM c.account_ids
+   AND n.period_type = c.period_type
+   AND n.start_date = c.end_date + 1
+  WHERE c.rollover_enabled
+)
+SELECT
+  id,
+  user_id,
+  category_id,
+  scope,
+  tag,
+  account_ids,
+  period_type,
+  start_date,
+  end_date,
+  month,
+  year,
+  rollover_enabled,
+  amount AS assigned,
+  rolled_over,
+  spent,
+  amount + rolled_over - spent AS available
+FROM chain;
+
+CREATE OR REPLACE FUNCTION public.budget_window_spending(p_start DATE, p_end DATE)
+RETURNS TABLE (budget_id UUID, spent NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id, COALESCE(SUM(l.amount), 0)
+  FROM budgets b
+  LEFT JOIN transaction_category_lines l
+    ON l.user_id = b.user_id
+   AND l.type = 'expense'
+   AND l.status <> 'cancelled'
+   AND l.date BETWEEN GREATEST(b.start_date, p_start) AND LEAST(b.end_date, p_end)
+   AND (b.category_id IS NULL OR l.category_id IN (
+     SELECT d.category_id FROM category_descendants d WHERE d.ancestor_id = b.category_id
+   ))
+   AND (b.tag IS NULL OR b.tag = ANY(l.tags))
+   AND (b.account_ids IS NULL OR l.account_id = ANY(b.account_ids))
+  WHERE b.user_id = auth.uid()
+    AND b.start_date <= p_end
+    AND b.end_date >= p_start
+  GROUP BY b.id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_pacing(
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS TABLE (
+  budget_id UUID,
+  category_id UUID,
+  start_date DATE,
+  end_date DATE,
+  limit_amount NUMERIC,
+  spent_to_date NUMERIC,
+  scheduled_amount NUMERIC,
+  recurring_amount NUMERIC,
+  daily_rate NUMERIC,
+  projected_spent NUMERIC,
+  elapsed_days INTEGER,
+  period_days INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH current_budgets AS (
+    SELECT
+      e.id, e.category_id, e.tag, e.account_ids, e.start_date, e.end_date,
+      e.assigned + e.rolled_over AS limit_amount
+    FROM budget_envelopes e
+    WHERE e.user_id = p_user_id
+      AND p_date BETWEEN e.start_date AND e.end_date
+  ),
+  scoped_lines AS (
+    SELECT b.id AS budget_id, b.end_date, l.*
+    FROM current_budgets b
+    JOIN transaction_category_lines l
+      ON l.user_id = p_user_id
+     AND l.type = 'expense'
+     AND (b.category_id IS NULL OR l.category_id IN (
+       SELECT d.category_id FROM category_descendants d WHERE d.ancestor_id = b.category_id
+     ))
+     AND (b.tag IS NULL OR b.tag = ANY(l.tags))
+     AND (b.account_ids IS NULL OR l.account_id = ANY(b.account_ids))
+  ),
+  budget_lines AS (
+    SELECT
+      sl.budget_id,
+      sl.date,
+      sl.amount,
+      -- Parcelas e transações recorrentes (e as geradas a partir delas) não entram no ritmo diário
+      (
+        t.installment_plan_id IS NOT NULL
+        OR COALESCE(t.is_recurring, false)
+        OR EXISTS (
+          SELECT 1
+          FROM transactions r
+          WHERE r.user_id = t.user_id
+            AND r.is_recurring
+            AND r.is_active
+            AND r.description = t.description
+            AND r.category_id IS NOT DISTINCT FROM t.category_id
+        )
+      ) AS is_scheduled
+    FROM scoped_lines sl
+    JOIN current_budgets b ON b.id = sl.budget_id
+    JOIN transactions t ON t.id = sl.transaction_id
+    WHERE sl.status <> 'cancelled'
+      AND sl.date BETWEEN b.start_date AND b.end_date
+  ),
+  line_totals AS (
+    SELECT
+      budget_id,
+      COALESCE(SUM(amount) FILTER (WHERE date <= p_date), 0) AS spent_to_date,
+      COALESCE(SUM(amount) FILTER (WHERE date <= p_date AND NOT is_scheduled), 0) AS variable_to_date,
+      COALESCE(SUM(amount) FILTER (WHERE date > p_date), 0) AS scheduled_amount
+    FROM budget_lines
+    GROUP BY budget_id
+  ),
+  recurring_totals AS (
+    SELECT sl.budget_id, SUM(sl.amount) AS recurring_amount
+    FROM scoped_lines sl
+    JOIN transactions t
+      ON t.id = sl.transaction_id
+     AND t.is_recurring
+     AND t.is_active
+    CROSS JOIN LATERAL generate_series(
+      COALESCE(t.last_processed_at::DATE, t.date) + recurrence_interval(t.recurrence_frequency),
+      LEAST(sl.end_date, COALESCE(t.recurrence_end_date, sl.end_date))::TIMESTAMP,
+      recurrence_interval(t.recurrence_frequency)
+    ) AS o(occurrence)
+    WHERE o.occurrence::DATE > p_date
+    GROUP BY sl.budget_id
+  )
+  SELECT
+    b.id,
+    b.category_id,
+    b.start_date,
+    b.end_date,
+    b.limit_amount,
+    COALESCE(lt.spent_to_date, 0),
+    COALESCE(lt.scheduled_amount, 0),
+    COALESCE(rt.recurring_amount, 0),
+    ROUND(COALESCE(lt.variable_to_date, 0) / (p_date - b.start_date + 1), 2),
+    ROUND(
+      COALESCE(lt.spent_to_date, 0)
+        + COALESCE(lt.scheduled_amount, 0)
+        + COALESCE(rt.recurring_amount, 0)
+        + COALESCE(lt.variable_to_date, 0) / (p_date - b.start_date + 1) * (b.end_date - p_date),
+      2
+    ),
+    p_date - b.start_date + 1,
+    b.end_date - b.start_date + 1
+  FROM current_budgets b
+  LEFT JOIN line_totals lt ON lt.budget_id = b.id
+  LEFT JOIN recurring_totals rt ON rt.budget_id = b.id;
+$$;
+
+-- Os alertas recebem também as tags e a conta da despesa para os orçamentos por tag ou por contas
+DROP FUNCTION IF EXISTS public.notify_exceeded_budgets(UUID, DATE, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[],
+  p_tags TEXT[] DEFAULT '{}',
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+  pacing_record RECORD;
+BEGIN
+  FOR budget_record IN
+    SELECT
+      e.*,
+      COALESCE(c.name, '#' || e.tag, 'contas selecionadas') AS scope_name
+    FROM budget_envelopes e
+    LEFT JOIN categories c ON e.category_id = c.id
+    WHERE e.user_id = p_user_id
+      AND p_date BETWEEN e.start_date AND e.end_date
+      AND (e.category_id IS NULL OR e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      ))
+      AND (e.tag IS NULL OR e.tag = ANY(p_tags))
+      AND (e.account_ids IS NULL OR p_account_id = ANY(e.account_ids))
+  LOOP
+    IF budget_record.available < 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento ' ||
+          CASE budget_record.period_type
+            WHEN 'weekly' THEN 'semanal'
+            WHEN 'quarterly' THEN 'trimestral'
+            WHEN 'semiannual' THEN 'semestral'
+            WHEN 'yearly' THEN 'anual'
+            WHEN 'custom' THEN 'do período'
+            ELSE 'mensal'
+          END ||
+          ' de ' || budget_record.scope_name ||
+          ' em R$ ' || (-budget_record.available)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+
+  FOR pacing_record IN
+    SELECT
+      p.*,
+      COALESCE(c.name, '#' || e.tag, 'contas selecionadas') AS scope_name
+    FROM budget_pacing(CURRENT_DATE, p_user_id) p
+    JOIN budget_envelopes e ON e.id = p.budget_id
+    LEFT JOIN categories c ON e.category_id = c.id
+    WHERE (e.category_id IS NULL OR e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      ))
+      AND (e.tag IS NULL OR e.tag = ANY(p_tags))
+      AND (e.account_ids IS NULL OR p_account_id = ANY(e.account_ids))
+      AND p.spent_to_date <= p.limit_amount
+      AND p.projected_spent > p.limit_amount
+      AND p.elapsed_days * 5 >= p.period_days
+      AND NOT EXISTS (
+        SELECT 1
+        FROM notifications n
+        WHERE n.user_id = p_user_id
+          AND n.related_id = p.budget_id
+          AND n.title = 'Orçamento em risco'
+          AND n.created_at >= p.start_date
+      )
+  LOOP
+    INSERT INTO notifications (user_id, type, title, message, related_id)
+    VALUES (
+      p_user_id,
+      'budget_alert',
+      'Orçamento em risco',
+      'No ritmo atual, o orçamento de ' || pacing_record.scope_name ||
+        ' deve ser ultrapassado em R$ ' ||
+        (pacing_record.projected_spent - pacing_record.limit_amount)::TEXT ||
+        ' até ' || to_char(pacing_record.end_date, 'DD/MM'),
+      pacing_record.budget_id
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_budget_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  goal_record RECORD;
+  notification_title TEXT;
+  notification_message TEXT;
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.type = 'expense' THEN
+      PERFORM public.notify_exceeded_budgets(
+        NEW.user_id,
+        NEW.date,
+        ARRAY(
+          SELECT DISTINCT category_id
+          FROM transaction_category_lines
+          WHERE transaction_id = NEW.id AND category_id IS NOT NULL
+        ),
+        ARRAY(
+          SELECT DISTINCT unnest(tags)
+          FROM transaction_category_lines
+          WHERE transaction_id = NEW.id
+        ),
+        NEW.account_id
+      );
+    END IF;
+
+    -- Check for goal achievements
+    FOR goal_record IN
+      SELECT * FROM goals
+      WHERE user_id = NEW.user_id
+        AND NOT is_completed
+        AND current_amount >= target_amount
+    LOOP
+      notification_title := 'Meta Atingida! 🎉';
+      notification_message := 'Parabéns! Você atingiu sua meta: ' || goal_record.name;
+
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (NEW.user_id, 'general', notification_title, notification_message, goal_record.id);
+
+      -- Mark goal as completed
+      UPDATE goals SET is_completed = true WHERE id = goal_record.id;
+    END LOOP;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_split_budget_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction RECORD;
+BEGIN
+  SELECT user_id, date, type, account_id INTO v_transaction
+  FROM transactions
+  WHERE id = NEW.transaction_id;
+
+  IF FOUND AND v_transaction.type = 'expense' THEN
+    PERFORM public.notify_exceeded_budgets(
+      v_transaction.user_id,
+      v_transaction.date,
+      CASE WHEN NEW.category_id IS NULL THEN '{}'::UUID[] ELSE ARRAY[NEW.category_id] END,
+      COALESCE(NEW.tags, '{}'),
+      v_transaction.account_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_check_split_budget_notifications ON public.transaction_splits;
+CREATE TRIGGER trigger_check_split_budget_notifications
+AFTER INSERT OR UPDATE OF amount, category_id, tags ON public.transaction_splits
+FOR EACH ROW
+EXECUTE FUNCTION public.check_split_budget_notifications();
+
+-- Modelos guardam apenas orçamentos por categoria; a cópia de mês leva o escopo junto
+CREATE OR REPLACE FUNCTION public.save_budgets_as_template(p_name TEXT, p_month DATE)
+RETURNS public.budget_templates
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.budget_templates;
+  v_month DATE := date_trunc('month', p_month)::DATE;
+BEGIN
+  IF trim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Informe o nome do modelo';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM budgets
+    WHERE user_id = auth.uid() AND scope = 'category' AND period_type = 'monthly' AND start_date = v_month
+  ) THEN
+    RAISE EXCEPTION 'Não há orçamentos mensais por categoria em % para salvar como modelo', to_char(v_month, 'MM/YYYY');
+  END IF;
+
+  INSERT INTO budget_templates (user_id, name)
+  VALUES (auth.uid(), trim(p_name))
+  RETURNING * INTO v_template;
+
+  INSERT INTO budget_template_items (template_id, user_id, category_id, amount, rollover_enabled)
+  SELECT v_template.id, auth.uid(), category_id, amount, rollover_enabled
+  FROM budgets
+  WHERE user_id = auth.uid()
+    AND scope = 'category'
+    AND period_type = 'monthly'
+    AND start_date = v_month;
+
+  RETURN v_template;
+END;
+$$;
+
+-- Com a nova chave única, orçamentos já existentes são ignorados por qualquer conflito
+CREATE OR REPLACE FUNCTION public.apply_budget_template(
+  p_template_id UUID,
+  p_start_month DATE,
+  p_months INTEGER DEFAULT 1
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM budget_templates WHERE id = p_template_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Modelo de orçamento não encontrado';
+  END IF;
+
+  IF p_months NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Aplique o modelo a entre 1 e 12 meses';
+  END IF;
+
+  INSERT INTO budgets (user_id, category_id, amount, rollover_enabled, period_type, start_date, month, year)
+  SELECT
+    auth.uid(),
+    i.category_id,
+    i.amount,
+    i.rollover_enabled,
+    'monthly',
+    m.month_start,
+    EXTRACT(MONTH FROM m.month_start),
+    EXTRACT(YEAR FROM m.month_start)
+  FROM budget_template_items i
+  CROSS JOIN LATERAL (
+    SELECT (date_trunc('month', p_start_month) + make_interval(months => n))::DATE AS month_start
+    FROM generate_series(0, p_months - 1) AS n
+  ) m
+  WHERE i.template_id = p_template_id
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.copy_monthly_budgets(
+  p_from_month DATE,
+  p_to_month DATE,
+  p_months INTEGER DEFAULT 1
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  IF p_months NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Copie os orçamentos para entre 1 e 12 meses';
+  END IF;
+
+  INSERT INTO budgets (
+    user_id, category_id, scope, tag, account_ids, amount, rollover_enabled,
+    period_type, start_date, month, year
+  )
+  SELECT
+    auth.uid(),
+    b.category_id,
+    b.scope,
+    b.tag,
+    b.account_ids,
+    b.amount,
+    b.rollover_enabled,
+    'monthly',
+    m.month_start,
+    EXTRACT(MONTH FROM m.month_start),
+    EXTRACT(YEAR FROM m.month_start)
+  FROM budgets b
+  CROSS JOIN LATERAL (
+    SELECT (date_trunc('month', p_to_month) + make_interval(months => n))::DATE AS month_start
+    FROM generate_series(0, p_months - 1) AS n
+  ) m
+  WHERE b.user_id = auth.uid()
+    AND b.period_type = 'monthly'
+    AND b.start_date = date_trunc('month', p_from_month)::DATE
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
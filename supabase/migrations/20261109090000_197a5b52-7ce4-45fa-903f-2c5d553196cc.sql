@@ -0,0 +1,33 @@
+-- Totais mensais de receitas e despesas por categoria raiz, base das sugestões de orçamento.
+-- Subcategorias somam na categoria de nível mais alto, como no orçamento da categoria pai.
+CREATE OR REPLACE FUNCTION public.monthly_category_totals(p_start DATE, p_end DATE)
+RETURNS TABLE (
+  category_id UUID,
+  type public.transaction_type,
+  month DATE,
+  amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(r.id, l.category_id),
+    l.type,
+    date_trunc('month', l.date)::DATE,
+    SUM(l.amount)
+  FROM transaction_category_lines l
+  LEFT JOIN LATERAL (
+    SELECT c.id
+    FROM category_descendants d
+    JOIN categories c ON c.id = d.ancestor_id
+    WHERE d.category_id = l.category_id
+      AND c.parent_id IS NULL
+    LIMIT 1
+  ) r ON true
+  WHERE l.user_id = auth.uid()
+    AND l.type IN ('income', 'expense')
+    AND l.status <> 'cancelled'
+    AND l.date BETWEEN p_start AND p_end
+  GROUP BY 1, 2, 3;
+$$;
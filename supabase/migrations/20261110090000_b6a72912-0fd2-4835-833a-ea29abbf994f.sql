@@ -0,0 +1,164 @@
+-- Aportes e resgates das metas. O valor atual da meta passa a ser a soma do histórico
+-- e a conclusão é detectada a partir dele, não mais editada à mão.
+CREATE TABLE public.goal_contributions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'contribution' CHECK (kind IN ('contribution', 'withdrawal')),
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Transação ou perna de transferência que movimentou o dinheiro, quando houver
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_goal_contributions_goal ON public.goal_contributions(goal_id, date);
+CREATE UNIQUE INDEX idx_goal_contributions_transaction
+  ON public.goal_contributions(transaction_id)
+  WHERE transaction_id IS NOT NULL;
+
+ALTER TABLE public.goal_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own goal contributions"
+ON public.goal_contributions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own goal contributions"
+ON public.goal_contributions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goal contributions"
+ON public.goal_contributions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goal contributions"
+ON public.goal_contributions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_goal_contributions_updated_at
+BEFORE UPDATE ON public.goal_contributions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Meta e transação vinculadas precisam ser do mesmo usuário do aporte
+CREATE OR REPLACE FUNCTION public.validate_goal_contribution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM goals WHERE id = NEW.goal_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Meta não encontrada';
+  END IF;
+
+  IF NEW.transaction_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM transactions WHERE id = NEW.transaction_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Transação não encontrada';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_goal_contribution_trigger
+BEFORE INSERT OR UPDATE ON public.goal_contributions
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_goal_contribution();
+
+-- Valor atual e conclusão sempre recalculados a partir do histórico, inclusive quando
+-- o valor alvo muda. Avisa uma única vez quando a meta é atingida.
+CREATE OR REPLACE FUNCTION public.sync_goal_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(SUM(CASE WHEN kind = 'withdrawal' THEN -amount ELSE amount END), 0)
+  INTO NEW.current_amount
+  FROM goal_contributions
+  WHERE goal_id = NEW.id;
+
+  IF NEW.current_amount < 0 THEN
+    RAISE EXCEPTION 'O resgate excede o valor guardado na meta';
+  END IF;
+
+  NEW.is_completed := NEW.current_amount >= NEW.target_amount;
+
+  IF TG_OP = 'UPDATE' AND NEW.is_completed AND NOT COALESCE(OLD.is_completed, false) THEN
+    INSERT INTO notifications (user_id, type, title, message, related_id)
+    VALUES (NEW.user_id, 'general', 'Meta Atingida! 🎉', 'Parabéns! Você atingiu sua meta: ' || NEW.name, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_goal_progress_trigger
+BEFORE INSERT OR UPDATE ON public.goals
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_goal_progress();
+
+CREATE OR REPLACE FUNCTION public.refresh_goal_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE goals SET updated_at = now() WHERE id = OLD.goal_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.goal_id <> OLD.goal_id OR NEW.amount <> OLD.amount OR NEW.kind <> OLD.kind) THEN
+    UPDATE goals SET updated_at = now() WHERE id = NEW.goal_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER refresh_goal_progress_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.goal_contributions
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_goal_progress();
+
+-- O valor já guardado em cada meta vira o aporte inicial do histórico
+INSERT INTO public.goal_contributions (goal_id, user_id, kind, amount, date, notes)
+SELECT id, user_id, 'contribution', current_amount, COALESCE(created_at::DATE, CURRENT_DATE), 'Saldo inicial'
+FROM public.goals
+WHERE current_amount > 0;
+
+-- Metas sem saldo também passam pelo recálculo da conclusão
+UPDATE public.goals SET updated_at = now()
+WHERE NOT EXISTS (SELECT 1 FROM public.goal_contributions c WHERE c.goal_id = goals.id);
+
+-- A conclusão das metas saiu daqui: agora é detectada pelos aportes
+CREATE OR REPLACE FUNCTION public.check_budget_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.type = 'expense' THEN
+    PERFORM public.notify_exceeded_budgets(
+      NEW.user_id,
+      NEW.date,
+      ARRAY(
+        SELECT DISTINCT category_id
+        FROM transaction_category_lines
+        WHERE transaction_id = NEW.id AND category_id IS NOT NULL
+      ),
+      ARRAY(
+        SELECT DISTINCT unnest(tags)
+        FROM transaction_category_lines
+        WHERE transaction_id = NEW.id
+      ),
+      NEW.account_id
+    );
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
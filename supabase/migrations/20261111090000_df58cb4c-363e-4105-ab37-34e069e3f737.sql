@@ -0,0 +1,93 @@
+-- Gravar a transação e suas divisões na mesma transação do banco, para que uma falha
+-- nas divisões não deixe a transação criada ou alterada pela metade.
+-- p_splits NULL mantém as divisões atuais; lista vazia desfaz a divisão.
+CREATE OR REPLACE FUNCTION public.create_transaction(
+  p_transaction JSONB,
+  p_splits JSONB DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_values public.transactions;
+  v_transaction public.transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  v_values := jsonb_populate_record(NULL::public.transactions, p_transaction);
+
+  INSERT INTO transactions (
+    user_id, account_id, category_id, type, amount, description, date, status, tags, notes,
+    is_recurring, recurrence_frequency, recurrence_end_date, transfer_account_id, receipt_image_url
+  )
+  VALUES (
+    auth.uid(), v_values.account_id, v_values.category_id, v_values.type, v_values.amount,
+    v_values.description, v_values.date, COALESCE(v_values.status, 'completed'), v_values.tags,
+    v_values.notes, COALESCE(v_values.is_recurring, false), v_values.recurrence_frequency,
+    v_values.recurrence_end_date, v_values.transfer_account_id, v_values.receipt_image_url
+  )
+  RETURNING * INTO v_transaction;
+
+  IF p_splits IS NOT NULL THEN
+    PERFORM save_transaction_splits(v_transaction.id, p_splits);
+    SELECT * INTO v_transaction FROM transactions WHERE id = v_transaction.id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$;
+
+-- Só as chaves presentes em p_changes são alteradas, como num update comum
+CREATE OR REPLACE FUNCTION public.update_transaction(
+  p_transaction_id UUID,
+  p_changes JSONB,
+  p_splits JSONB DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction public.transactions;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transação não encontrada';
+  END IF;
+
+  v_transaction := jsonb_populate_record(v_transaction, p_changes);
+
+  -- Com divisões, a soma das linhas é conferida contra o novo valor ao final
+  UPDATE transactions
+  SET account_id = v_transaction.account_id,
+      category_id = v_transaction.category_id,
+      type = v_transaction.type,
+      amount = v_transaction.amount,
+      description = v_transaction.description,
+      date = v_transaction.date,
+      status = v_transaction.status,
+      tags = v_transaction.tags,
+      notes = v_transaction.notes,
+      is_recurring = v_transaction.is_recurring,
+      recurrence_frequency = v_transaction.recurrence_frequency,
+      recurrence_end_date = v_transaction.recurrence_end_date,
+      transfer_account_id = v_transaction.transfer_account_id,
+      receipt_image_url = v_transaction.receipt_image_url,
+      updated_at = now()
+  WHERE id = p_transaction_id
+  RETURNING * INTO v_transaction;
+
+  IF p_splits IS NOT NULL THEN
+    PERFORM save_transaction_splits(p_transaction_id, p_splits);
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$;
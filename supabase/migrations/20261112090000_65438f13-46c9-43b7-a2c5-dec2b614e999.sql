@@ -0,0 +1,314 @@
+-- Envelopes calculados por usuário: a view recursiva percorria os orçamentos de todos
+-- os usuários antes de filtrar, inclusive quando chamada pelo gatilho de alertas
+DROP VIEW IF EXISTS public.budget_envelopes;
+
+CREATE OR REPLACE FUNCTION public.budget_envelopes(p_user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  category_id UUID,
+  scope TEXT,
+  tag TEXT,
+  account_ids UUID[],
+  period_type TEXT,
+  start_date DATE,
+  end_date DATE,
+  month INTEGER,
+  year INTEGER,
+  rollover_enabled BOOLEAN,
+  assigned NUMERIC,
+  rolled_over NUMERIC,
+  spent NUMERIC,
+  available NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE budget_totals AS (
+    SELECT
+      b.id,
+      b.user_id,
+      b.category_id,
+      b.scope,
+      b.tag,
+      b.account_ids,
+      b.period_type,
+      b.start_date,
+      b.end_date,
+      b.month,
+      b.year,
+      b.amount,
+      b.rollover_enabled,
+      COALESCE(SUM(l.amount), 0) AS spent
+    FROM budgets b
+    LEFT JOIN transaction_category_lines l
+      ON l.user_id = b.user_id
+     AND l.type = 'expense'
+     AND l.status <> 'cancelled'
+     AND l.date BETWEEN b.start_date AND b.end_date
+     AND (b.category_id IS NULL OR l.category_id IN (
+       SELECT d.category_id FROM category_descendants d WHERE d.ancestor_id = b.category_id
+     ))
+     AND (b.tag IS NULL OR b.tag = ANY(l.tags))
+     AND (b.account_ids IS NULL OR l.account_id = ANY(b.account_ids))
+    WHERE b.user_id = p_user_id
+    GROUP BY b.id
+  ),
+  chain AS (
+    SELECT
+      t.*,
+      0::NUMERIC AS rolled_over
+    FROM budget_totals t
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM budget_totals p
+      WHERE p.scope = t.scope
+        AND p.category_id IS NOT DISTINCT FROM t.category_id
+        AND p.tag IS NOT DISTINCT FROM t.tag
+        AND p.account_ids IS NOT DISTINCT FROM t.account_ids
+        AND p.period_type = t.period_type
+        AND p.rollover_enabled
+        AND p.end_date + 1 = t.start_date
+    )
+    UNION ALL
+    SELECT
+      n.*,
+      (c.amount + c.rolled_over - c.spent)::NUMERIC AS rolled_over
+    FROM chain c
+    JOIN budget_totals n
+      ON n.scope = c.scope
+     AND n.category_id IS NOT DISTINCT FROM c.category_id
+     AND n.tag IS NOT DISTINCT FROM c.tag
+     AND n.account_ids IS NOT DISTINCT FROM c.account_ids
+     AND n.period_type = c.period_type
+     AND n.start_date = c.end_date + 1
+    WHERE c.rollover_enabled
+  )
+  SELECT
+    c.id,
+    c.user_id,
+    c.category_id,
+    c.scope,
+    c.tag,
+    c.account_ids,
+    c.period_type,
+    c.start_date,
+    c.end_date,
+    c.month,
+    c.year,
+    c.rollover_enabled,
+    c.amount,
+    c.rolled_over,
+    c.spent,
+    c.amount + c.rolled_over - c.spent
+  FROM chain c;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_pacing(
+  p_date DATE DEFAULT CURRENT_DATE,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS TABLE (
+  budget_id UUID,
+  category_id UUID,
+  start_date DATE,
+  end_date DATE,
+  limit_amount NUMERIC,
+  spent_to_date NUMERIC,
+  scheduled_amount NUMERIC,
+  recurring_amount NUMERIC,
+  daily_rate NUMERIC,
+  projected_spent NUMERIC,
+  elapsed_days INTEGER,
+  period_days INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH current_budgets AS (
+    SELECT
+      e.id, e.category_id, e.tag, e.account_ids, e.start_date, e.end_date,
+      e.assigned + e.rolled_over AS limit_amount
+    FROM budget_envelopes(p_user_id) e
+    WHERE p_date BETWEEN e.start_date AND e.end_date
+  ),
+  scoped_lines AS (
+    SELECT b.id AS budget_id, b.end_date, l.*
+    FROM current_budgets b
+    JOIN transaction_category_lines l
+      ON l.user_id = p_user_id
+     AND l.type = 'expense'
+     AND (b.category_id IS NULL OR l.category_id IN (
+       SELECT d.category_id FROM category_descendants d WHERE d.ancestor_id = b.category_id
+     ))
+     AND (b.tag IS NULL OR b.tag = ANY(l.tags))
+     AND (b.account_ids IS NULL OR l.account_id = ANY(b.account_ids))
+  ),
+  budget_lines AS (
+    SELECT
+      sl.budget_id,
+      sl.date,
+      sl.amount,
+      -- Parcelas e transações recorrentes (e as geradas a partir delas) não entram no ritmo diário
+      (
+        t.installment_plan_id IS NOT NULL
+        OR COALESCE(t.is_recurring, false)
+        OR EXISTS (
+          SELECT 1
+          FROM transactions r
+          WHERE r.user_id = t.user_id
+            AND r.is_recurring
+            AND r.is_active
+            AND r.description = t.description
+            AND r.category_id IS NOT DISTINCT FROM t.category_id
+        )
+      ) AS is_scheduled
+    FROM scoped_lines sl
+    JOIN current_budgets b ON b.id = sl.budget_id
+    JOIN transactions t ON t.id = sl.transaction_id
+    WHERE sl.status <> 'cancelled'
+      AND sl.date BETWEEN b.start_date AND b.end_date
+  ),
+  line_totals AS (
+    SELECT
+      budget_id,
+      COALESCE(SUM(amount) FILTER (WHERE date <= p_date), 0) AS spent_to_date,
+      COALESCE(SUM(amount) FILTER (WHERE date <= p_date AND NOT is_scheduled), 0) AS variable_to_date,
+      COALESCE(SUM(amount) FILTER (WHERE date > p_date), 0) AS scheduled_amount
+    FROM budget_lines
+    GROUP BY budget_id
+  ),
+  recurring_totals AS (
+    SELECT sl.budget_id, SUM(sl.amount) AS recurring_amount
+    FROM scoped_lines sl
+    JOIN transactions t
+      ON t.id = sl.transaction_id
+     AND t.is_recurring
+     AND t.is_active
+    CROSS JOIN LATERAL generate_series(
+      COALESCE(t.last_processed_at::DATE, t.date) + recurrence_interval(t.recurrence_frequency),
+      LEAST(sl.end_date, COALESCE(t.recurrence_end_date, sl.end_date))::TIMESTAMP,
+      recurrence_interval(t.recurrence_frequency)
+    ) AS o(occurrence)
+    WHERE o.occurrence::DATE > p_date
+    GROUP BY sl.budget_id
+  )
+  SELECT
+    b.id,
+    b.category_id,
+    b.start_date,
+    b.end_date,
+    b.limit_amount,
+    COALESCE(lt.spent_to_date, 0),
+    COALESCE(lt.scheduled_amount, 0),
+    COALESCE(rt.recurring_amount, 0),
+    ROUND(COALESCE(lt.variable_to_date, 0) / (p_date - b.start_date + 1), 2),
+    ROUND(
+      COALESCE(lt.spent_to_date, 0)
+        + COALESCE(lt.scheduled_amount, 0)
+        + COALESCE(rt.recurring_amount, 0)
+        + COALESCE(lt.variable_to_date, 0) / (p_date - b.start_date + 1) * (b.end_date - p_date),
+      2
+    ),
+    p_date - b.start_date + 1,
+    b.end_date - b.start_date + 1
+  FROM current_budgets b
+  LEFT JOIN line_totals lt ON lt.budget_id = b.id
+  LEFT JOIN recurring_totals rt ON rt.budget_id = b.id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_exceeded_budgets(
+  p_user_id UUID,
+  p_date DATE,
+  p_category_ids UUID[],
+  p_tags TEXT[] DEFAULT '{}',
+  p_account_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget_record RECORD;
+  pacing_record RECORD;
+BEGIN
+  FOR budget_record IN
+    SELECT
+      e.*,
+      COALESCE(c.name, '#' || e.tag, 'contas selecionadas') AS scope_name
+    FROM budget_envelopes(p_user_id) e
+    LEFT JOIN categories c ON e.category_id = c.id
+    WHERE p_date BETWEEN e.start_date AND e.end_date
+      AND (e.category_id IS NULL OR e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      ))
+      AND (e.tag IS NULL OR e.tag = ANY(p_tags))
+      AND (e.account_ids IS NULL OR p_account_id = ANY(e.account_ids))
+  LOOP
+    IF budget_record.available < 0 THEN
+      INSERT INTO notifications (user_id, type, title, message, related_id)
+      VALUES (
+        p_user_id,
+        'budget_alert',
+        'Orçamento Ultrapassado!',
+        'Você ultrapassou o orçamento ' ||
+          CASE budget_record.period_type
+            WHEN 'weekly' THEN 'semanal'
+            WHEN 'quarterly' THEN 'trimestral'
+            WHEN 'semiannual' THEN 'semestral'
+            WHEN 'yearly' THEN 'anual'
+            WHEN 'custom' THEN 'do período'
+            ELSE 'mensal'
+          END ||
+          ' de ' || budget_record.scope_name ||
+          ' em R$ ' || (-budget_record.available)::TEXT,
+        budget_record.id
+      );
+    END IF;
+  END LOOP;
+
+  FOR pacing_record IN
+    SELECT
+      p.*,
+      COALESCE(c.name, '#' || e.tag, 'contas selecionadas') AS scope_name
+    FROM budget_pacing(CURRENT_DATE, p_user_id) p
+    JOIN budget_envelopes(p_user_id) e ON e.id = p.budget_id
+    LEFT JOIN categories c ON e.category_id = c.id
+    WHERE (e.category_id IS NULL OR e.category_id IN (
+        SELECT ancestor_id
+        FROM category_descendants
+        WHERE category_id = ANY(p_category_ids)
+      ))
+      AND (e.tag IS NULL OR e.tag = ANY(p_tags))
+      AND (e.account_ids IS NULL OR p_account_id = ANY(e.account_ids))
+      AND p.spent_to_date <= p.limit_amount
+      AND p.projected_spent > p.limit_amount
+      AND p.elapsed_days * 5 >= p.period_days
+      AND NOT EXISTS (
+        SELECT 1
+        FROM notifications n
+        WHERE n.user_id = p_user_id
+          AND n.related_id = p.budget_id
+          AND n.title = 'Orçamento em risco'
+          AND n.created_at >= p.start_date
+      )
+  LOOP
+    INSERT INTO notifications (user_id, type, title, message, related_id)
+    VALUES (
+      p_user_id,
+      'budget_alert',
+      'Orçamento em risco',
+      'No ritmo atual, o orçamento de ' || pacing_record.scope_name ||
+        ' deve ser ultrapassado em R$ ' ||
+        (pacing_record.projected_spent - pacing_record.limit_amount)::TEXT ||
+        ' até ' || to_char(pacing_record.end_date, 'DD/MM'),
+      pacing_record.budget_id
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Criar a meta e o aporte inicial juntos, para não sobrar meta sem o saldo informado
+CREATE OR REPLACE FUNCTION public.create_goal(
+  p_name TEXT,
+  p_target_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_target_date DATE DEFAULT NULL,
+  p_initial_amount NUMERIC DEFAULT NULL
+)
+RETURNS public.goals
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_goal public.goals;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  INSERT INTO goals (user_id, name, description, target_amount, target_date)
+  VALUES (auth.uid(), p_name, p_description, p_target_amount, p_target_date)
+  RETURNING * INTO v_goal;
+
+  IF COALESCE(p_initial_amount, 0) > 0 THEN
+    INSERT INTO goal_contributions (goal_id, user_id, kind, amount, notes)
+    VALUES (v_goal.id, auth.uid(), 'contribution', p_initial_amount, 'Saldo inicial');
+
+    SELECT * INTO v_goal FROM goals WHERE id = v_goal.id;
+  END IF;
+
+  RETURN v_goal;
+END;
+$$;
@@ -0,0 +1,154 @@
+-- Grupo "não" das condições: casa quando nenhum dos filhos casa, NÃO (a OU b),
+-- como indica o rótulo "Nenhuma" do editor de regras
+CREATE OR REPLACE FUNCTION public.automation_condition_node_matches(
+  p_node JSONB,
+  p_transaction public.transactions
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_logic TEXT;
+  v_child JSONB;
+BEGIN
+  IF NOT (p_node ? 'logic') THEN
+    RETURN automation_condition_matches(p_node, p_transaction);
+  END IF;
+
+  v_logic := p_node->>'logic';
+
+  -- "or" casa no primeiro filho que casa; "not" falha nesse mesmo ponto
+  IF v_logic IN ('or', 'not') THEN
+    FOR v_child IN SELECT * FROM jsonb_array_elements(COALESCE(p_node->'conditions', '[]'::jsonb)) LOOP
+      IF automation_condition_node_matches(v_child, p_transaction) THEN
+        RETURN v_logic = 'or';
+      END IF;
+    END LOOP;
+    RETURN v_logic = 'not';
+  END IF;
+
+  FOR v_child IN SELECT * FROM jsonb_array_elements(COALESCE(p_node->'conditions', '[]'::jsonb)) LOOP
+    IF NOT automation_condition_node_matches(v_child, p_transaction) THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+  RETURN true;
+END;
+$$;
+
+-- Em atualizações, a categoria escolhida pelo usuário prevalece sobre as regras
+-- e os alertas das regras não são reenviados
+CREATE OR REPLACE FUNCTION public.apply_automation_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_action JSONB;
+  v_value TEXT;
+  v_category_id UUID;
+  v_category_set BOOLEAN := false;
+BEGIN
+  -- Em atualizações, só reavaliar quando mudam os campos usados nas condições,
+  -- para não sobrescrever correções manuais de categoria
+  IF TG_OP = 'UPDATE'
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+    AND NEW.type IS NOT DISTINCT FROM OLD.type
+    AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Categoria alterada na mesma atualização é escolha do usuário: as regras não a trocam
+  IF TG_OP = 'UPDATE' AND NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+    v_category_set := true;
+  END IF;
+
+  FOR v_rule IN
+    SELECT *
+    FROM automation_rules
+    WHERE user_id = NEW.user_id
+      AND enabled
+    ORDER BY priority ASC, created_at ASC
+  LOOP
+    CONTINUE WHEN NOT automation_rule_matches(v_rule.conditions, NEW);
+
+    FOR v_action IN
+      SELECT * FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(v_rule.actions) = 'array' THEN v_rule.actions ELSE '[]'::jsonb END
+      )
+    LOOP
+      v_value := trim(COALESCE(v_action->>'value', ''));
+
+      CASE v_action->>'type'
+        WHEN 'set_category' THEN
+          -- A regra de maior prioridade define a categoria
+          IF NOT v_category_set AND v_value <> '' THEN
+            v_category_id := resolve_rule_category(NEW.user_id, v_value, NEW.type);
+            IF v_category_id IS NOT NULL THEN
+              NEW.category_id := v_category_id;
+              v_category_set := true;
+            END IF;
+          END IF;
+
+        WHEN 'apply_tag' THEN
+          IF v_value <> '' AND NOT (v_value = ANY(COALESCE(NEW.tags, '{}'))) THEN
+            NEW.tags := array_append(COALESCE(NEW.tags, '{}'), v_value);
+          END IF;
+
+        WHEN 'set_recurring' THEN
+          -- Não marcar cópias geradas a partir de uma recorrência já ativa
+          IF NOT COALESCE(NEW.is_recurring, false) AND NOT EXISTS (
+            SELECT 1 FROM transactions t
+            WHERE t.user_id = NEW.user_id
+              AND t.id <> NEW.id
+              AND t.is_recurring
+              AND COALESCE(t.is_active, true)
+              AND t.account_id = NEW.account_id
+              AND t.amount = NEW.amount
+              AND normalize_rule_text(t.description) = normalize_rule_text(NEW.description)
+          ) THEN
+            NEW.is_recurring := true;
+            NEW.is_active := true;
+            NEW.recurrence_frequency := CASE
+              WHEN v_value IN ('daily', 'weekly', 'monthly', 'yearly') THEN v_value::recurrence_frequency
+              ELSE COALESCE(NEW.recurrence_frequency, 'monthly')
+            END;
+          END IF;
+
+        WHEN 'send_alert' THEN
+          -- O alerta é enviado só quando a transação é criada
+          CONTINUE WHEN TG_OP = 'UPDATE';
+
+          INSERT INTO notifications (user_id, type, title, message, related_id)
+          VALUES (
+            NEW.user_id,
+            'general',
+            'Regra: ' || v_rule.name,
+            CASE WHEN v_value <> '' THEN v_value
+              ELSE NEW.description || ' - R$ ' || NEW.amount::TEXT
+            END,
+            NEW.id
+          );
+
+        ELSE
+          NULL;
+      END CASE;
+    END LOOP;
+
+    UPDATE automation_rules
+    SET times_triggered = times_triggered + 1,
+        last_triggered_at = now()
+    WHERE id = v_rule.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Divisões só podem ser ligadas a transações do próprio usuário
+DROP POLICY IF EXISTS "Users can create their own transaction splits" ON public.transaction_splits;
+DROP POLICY IF EXISTS "Users can update their own transaction splits" ON public.transaction_splits;
+
+CREATE POLICY "Users can create their own transaction splits"
+ON public.transaction_splits
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_id AND t.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own transaction splits"
+ON public.transaction_splits
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_id AND t.user_id = auth.uid()
+  )
+);
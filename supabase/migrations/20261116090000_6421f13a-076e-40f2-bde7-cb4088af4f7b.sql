@@ -0,0 +1,37 @@
+-- Com filtro de categoria, transações divididas somam só as linhas da categoria,
+-- não o valor inteiro da transação
+CREATE OR REPLACE FUNCTION public.get_transaction_totals(
+  p_query JSONB DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_account_id UUID DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  transaction_count BIGINT,
+  income_total NUMERIC,
+  expense_total NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(a.amount) FILTER (WHERE f.type = 'income' AND f.status IS DISTINCT FROM 'cancelled'), 0),
+    COALESCE(SUM(a.amount) FILTER (WHERE f.type = 'expense' AND f.status IS DISTINCT FROM 'cancelled'), 0)
+  FROM public.filter_transactions(
+    p_query, p_type, p_category_id, p_account_id, p_start_date, p_end_date
+  ) f
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN p_category_id IS NULL THEN f.amount
+      ELSE (
+        SELECT SUM(l.amount)
+        FROM public.transaction_category_lines l
+        WHERE l.transaction_id = f.id AND l.category_id = p_category_id
+      )
+    END AS amount
+  ) a;
+$$;
@@ -0,0 +1,255 @@
+-- Lotes só são gravados pelas funções abaixo: sem políticas de escrita, o cliente não
+-- consegue forjar o snapshot nem estender o prazo para desfazer
+DROP POLICY IF EXISTS "Users can create their own transaction batches" ON public.transaction_batches;
+DROP POLICY IF EXISTS "Users can update their own transaction batches" ON public.transaction_batches;
+DROP POLICY IF EXISTS "Users can delete their own transaction batches" ON public.transaction_batches;
+
+-- As funções passam a rodar como SECURITY DEFINER, conferindo o usuário em cada escrita
+CREATE OR REPLACE FUNCTION public.apply_transaction_batch(
+  p_action TEXT,
+  p_params JSONB DEFAULT '{}'::JSONB,
+  p_transaction_ids UUID[] DEFAULT NULL,
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS public.transaction_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.transaction_batches;
+  v_ids UUID[];
+  v_target_ids UUID[];
+  v_category_id UUID;
+  v_category_type transaction_type;
+  v_account_id UUID;
+  v_tags TEXT[];
+  v_status transaction_status;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_filters IS NOT NULL THEN
+    SELECT array_agg(f.id) INTO v_ids
+    FROM filter_transactions(
+      p_filters->'query',
+      p_filters->>'type',
+      (p_filters->>'category_id')::UUID,
+      (p_filters->>'account_id')::UUID,
+      (p_filters->>'start_date')::DATE,
+      (p_filters->>'end_date')::DATE
+    ) f;
+  ELSE
+    SELECT array_agg(t.id) INTO v_ids
+    FROM transactions t
+    WHERE t.id = ANY(COALESCE(p_transaction_ids, '{}'))
+      AND t.user_id = auth.uid();
+  END IF;
+
+  v_ids := COALESCE(v_ids, '{}');
+  IF cardinality(v_ids) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma transação selecionada';
+  END IF;
+
+  -- Validar parâmetros e restringir às transações em que a ação se aplica
+  CASE p_action
+    WHEN 'recategorize' THEN
+      v_category_id := (p_params->>'category_id')::UUID;
+      SELECT transaction_type INTO v_category_type
+      FROM categories WHERE id = v_category_id AND user_id = auth.uid();
+      IF v_category_type IS NULL THEN
+        RAISE EXCEPTION 'Categoria inválida';
+      END IF;
+      -- A categoria precisa ser do mesmo tipo da transação
+      SELECT array_agg(id) INTO v_target_ids
+      FROM transactions WHERE id = ANY(v_ids) AND type = v_category_type;
+    WHEN 'add_tags', 'remove_tags' THEN
+      SELECT array_agg(DISTINCT btrim(tag)) INTO v_tags
+      FROM jsonb_array_elements_text(COALESCE(p_params->'tags', '[]'::JSONB)) AS tag
+      WHERE btrim(tag) <> '';
+      IF v_tags IS NULL THEN
+        RAISE EXCEPTION 'Informe pelo menos uma tag';
+      END IF;
+      v_target_ids := v_ids;
+    WHEN 'move_account' THEN
+      SELECT id INTO v_account_id
+      FROM accounts WHERE id = (p_params->>'account_id')::UUID AND user_id = auth.uid();
+      IF v_account_id IS NULL THEN
+        RAISE EXCEPTION 'Conta inválida';
+      END IF;
+      SELECT array_agg(id) INTO v_target_ids
+      FROM transactions
+      WHERE id = ANY(v_ids) AND transfer_account_id IS DISTINCT FROM v_account_id;
+    WHEN 'set_status' THEN
+      IF NOT COALESCE(p_params->>'status' = ANY(enum_range(NULL::transaction_status)::TEXT[]), false) THEN
+        RAISE EXCEPTION 'Status inválido';
+      END IF;
+      v_status := (p_params->>'status')::transaction_status;
+      v_target_ids := v_ids;
+    WHEN 'delete' THEN
+      SELECT array_agg(DISTINCT leg_id) INTO v_target_ids
+      FROM transactions t, unnest(ARRAY[t.id, t.transfer_pair_id]) AS leg_id
+      WHERE t.id = ANY(v_ids) AND leg_id IS NOT NULL;
+    ELSE
+      RAISE EXCEPTION 'Ação em lote desconhecida: %', p_action;
+  END CASE;
+
+  v_target_ids := COALESCE(v_target_ids, '{}');
+
+  INSERT INTO transaction_batches (user_id, action, params, transaction_ids, snapshot, skipped_count)
+  SELECT
+    auth.uid(),
+    p_action,
+    COALESCE(p_params, '{}'::JSONB),
+    v_target_ids,
+    COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object('splits', COALESCE((
+        SELECT jsonb_agg(to_jsonb(s) ORDER BY s.position)
+        FROM transaction_splits s WHERE s.transaction_id = t.id
+      ), '[]'::JSONB))
+    ), '[]'::JSONB),
+    GREATEST(cardinality(v_ids) - cardinality(v_target_ids), 0)
+  FROM transactions t
+  WHERE t.id = ANY(v_target_ids) AND t.user_id = auth.uid()
+  RETURNING * INTO v_batch;
+
+  -- Cada linha alterada gera seu próprio registro de auditoria com o contexto do lote
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'transaction_batch',
+    'batch_id', v_batch.id,
+    'action', p_action
+  )::TEXT, true);
+
+  CASE p_action
+    WHEN 'recategorize' THEN
+      -- Recategorizar desfaz a divisão das transações divididas
+      DELETE FROM transaction_splits WHERE transaction_id = ANY(v_target_ids);
+      UPDATE transactions SET category_id = v_category_id, updated_at = now()
+      WHERE id = ANY(v_target_ids) AND user_id = auth.uid();
+    WHEN 'add_tags' THEN
+      UPDATE transactions
+      SET tags = ARRAY(SELECT DISTINCT unnest(COALESCE(tags, '{}') || v_tags)), updated_at = now()
+      WHERE id = ANY(v_target_ids) AND user_id = auth.uid();
+    WHEN 'remove_tags' THEN
+      UPDATE transactions
+      SET tags = ARRAY(SELECT tag FROM unnest(COALESCE(tags, '{}')) AS tag WHERE tag <> ALL(v_tags)),
+          updated_at = now()
+      WHERE id = ANY(v_target_ids) AND user_id = auth.uid();
+    WHEN 'move_account' THEN
+      UPDATE transactions SET account_id = v_account_id, updated_at = now()
+      WHERE id = ANY(v_target_ids) AND user_id = auth.uid();
+    WHEN 'set_status' THEN
+      UPDATE transactions SET status = v_status, updated_at = now()
+      WHERE id = ANY(v_target_ids) AND user_id = auth.uid();
+    WHEN 'delete' THEN
+      DELETE FROM transactions WHERE id = ANY(v_target_ids) AND user_id = auth.uid();
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  UPDATE transaction_batches SET affected_count = v_count WHERE id = v_batch.id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
+
+
+-- Desfazer um lote dentro da janela: restaura as transações (e divisões) do snapshot
+CREATE OR REPLACE FUNCTION public.undo_transaction_batch(p_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.transaction_batches;
+  v_row JSONB;
+  v_old public.transactions;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM transaction_batches
+  WHERE id = p_batch_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_batch.id IS NULL THEN
+    RAISE EXCEPTION 'Lote não encontrado';
+  END IF;
+  IF v_batch.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Este lote já foi desfeito';
+  END IF;
+  IF v_batch.undo_expires_at < now() THEN
+    RAISE EXCEPTION 'O prazo para desfazer este lote expirou';
+  END IF;
+
+  PERFORM set_config('app.automation_rules_bypass', 'on', true);
+  PERFORM set_config('app.audit_context', jsonb_build_object(
+    'source', 'transaction_batch_undo',
+    'batch_id', v_batch.id,
+    'action', v_batch.action
+  )::TEXT, true);
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(v_batch.snapshot)
+  LOOP
+    v_old := jsonb_populate_record(NULL::public.transactions, v_row - 'splits');
+    CONTINUE WHEN v_old.user_id IS DISTINCT FROM auth.uid();
+
+    IF v_batch.action = 'delete' THEN
+      INSERT INTO transactions SELECT (v_old).*;
+    ELSE
+      UPDATE transactions
+      SET category_id = v_old.category_id,
+          tags = v_old.tags,
+          account_id = v_old.account_id,
+          status = v_old.status,
+          updated_at = now()
+      WHERE id = v_old.id AND user_id = auth.uid();
+
+      CONTINUE WHEN NOT FOUND;
+      DELETE FROM transaction_splits WHERE transaction_id = v_old.id;
+    END IF;
+
+    INSERT INTO transaction_splits
+    SELECT (jsonb_populate_record(NULL::public.transaction_splits, split)).*
+    FROM jsonb_array_elements(v_row->'splits') AS split;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  PERFORM set_config('app.automation_rules_bypass', 'off', true);
+  PERFORM set_config('app.audit_context', '', true);
+
+  UPDATE transaction_batches SET undone_at = now() WHERE id = v_batch.id;
+
+  RETURN v_count;
+END;
+$$;
+
+
+-- Limpar o histórico de lotes do usuário (usado ao apagar todos os dados)
+CREATE OR REPLACE FUNCTION public.clear_transaction_batches()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  DELETE FROM transaction_batches WHERE user_id = auth.uid();
+END;
+$$;
+
@@ -0,0 +1,37 @@
+-- Fatura quitada antecipadamente aparece como paga mesmo antes do fechamento,
+-- em vez de continuar como aberta
+CREATE OR REPLACE VIEW public.credit_card_invoice_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id,
+  i.user_id,
+  i.account_id,
+  i.reference_month,
+  i.period_start,
+  i.period_end,
+  i.due_date,
+  COALESCE(t.total_amount, 0) AS total_amount,
+  COALESCE(t.paid_amount, 0) AS paid_amount,
+  GREATEST(COALESCE(t.total_amount, 0) - COALESCE(t.paid_amount, 0), 0) AS outstanding_amount,
+  COALESCE(t.transaction_count, 0) AS transaction_count,
+  CASE
+    WHEN COALESCE(t.paid_amount, 0) > 0
+      AND COALESCE(t.paid_amount, 0) >= COALESCE(t.total_amount, 0) THEN 'paid'
+    WHEN CURRENT_DATE <= i.period_end THEN 'open'
+    WHEN COALESCE(t.paid_amount, 0) >= COALESCE(t.total_amount, 0) THEN 'paid'
+    WHEN CURRENT_DATE > i.due_date THEN 'overdue'
+    WHEN COALESCE(t.paid_amount, 0) > 0 THEN 'partially_paid'
+    ELSE 'closed'
+  END AS status
+FROM public.credit_card_invoices i
+LEFT JOIN LATERAL (
+  SELECT
+    SUM(CASE tr.type WHEN 'expense' THEN tr.amount WHEN 'income' THEN -tr.amount ELSE 0 END)
+      FILTER (WHERE tr.status <> 'cancelled') AS total_amount,
+    SUM(tr.amount)
+      FILTER (WHERE tr.type = 'transfer' AND tr.transfer_direction = 'credit' AND tr.status = 'completed') AS paid_amount,
+    COUNT(*) FILTER (WHERE tr.type <> 'transfer' AND tr.status <> 'cancelled') AS transaction_count
+  FROM public.transactions tr
+  WHERE tr.invoice_id = i.id
+) t ON true;